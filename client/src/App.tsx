@@ -22,6 +22,9 @@ import CharacterStoryboard from "@/pages/character-storyboard";
 import Support from "@/pages/support";
 import ImportContent from "@/pages/import-content";
 import AgentFinder from "@/pages/agent-finder";
+import SubmissionTracker from "@/pages/submission-tracker";
+import QueryWorkshop from "@/pages/query-workshop";
+import ManuscriptAnalysis from "@/pages/manuscript-analysis";
 import AudiobookGenerator from "@/pages/audiobook-generator";
 import PremiumUpgrade from "@/pages/premium-upgrade";
 import SystemStatus from "@/pages/system-status";
@@ -61,6 +64,9 @@ function Router() {
             {(params) => <CharacterStoryboard projectId={params.projectId} />}
           </Route>
           <Route path="/agent-finder/:projectId" component={AgentFinder} />
+          <Route path="/submissions/:projectId" component={SubmissionTracker} />
+          <Route path="/query-workshop/:projectId" component={QueryWorkshop} />
+          <Route path="/manuscript-analysis/:projectId" component={ManuscriptAnalysis} />
           <Route path="/audiobook-generator/:id" component={AudiobookGenerator} />
           <Route path="/subscription" component={Subscription} />
           <Route path="/premium-upgrade" component={PremiumUpgrade} />
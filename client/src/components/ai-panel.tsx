@@ -7,12 +7,12 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/components/ui/tooltip";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, streamRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useFeatureAccess } from "@/hooks/useFeatureAccess";
 import FeatureGate from "@/components/feature-gate";
 import { type Project, type Chapter, type AISuggestion, type Character, type AIChatMessage } from "@shared/schema";
-import { X, Lightbulb, Send, UserPlus, MessageCircle, Sparkles, User, Bot, ArrowRight, Trash2 } from "lucide-react";
+import { X, Lightbulb, Send, UserPlus, MessageCircle, Sparkles, User, Bot, ArrowRight, Trash2, Square } from "lucide-react";
 
 interface AIPanelProps {
   project: Project;
@@ -22,6 +22,9 @@ interface AIPanelProps {
 
 export default function AIPanel({ project, currentChapter, onClose }: AIPanelProps) {
   const [query, setQuery] = useState("");
+  // The question just sent and the answer so far, shown until the saved chat history reloads
+  const [pendingReply, setPendingReply] = useState<{ query: string; response: string } | null>(null);
+  const replyAbortRef = useRef<AbortController | null>(null);
   const { toast } = useToast();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const featureAccess = useFeatureAccess();
@@ -46,7 +49,9 @@ export default function AIPanel({ project, currentChapter, onClose }: AIPanelPro
 
   useEffect(() => {
     scrollToBottom();
-  }, [chatMessages]);
+  }, [chatMessages, pendingReply?.response]);
+
+  useEffect(() => () => replyAbortRef.current?.abort(), []);
 
   const generateSuggestionsMutation = useMutation({
     mutationFn: async () => {
@@ -116,23 +121,29 @@ export default function AIPanel({ project, currentChapter, onClose }: AIPanelPro
 
   const queryAIMutation = useMutation({
     mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/ai/query", {
-        query,
-        context: {
-          projectId: project.id,
-          chapterId: currentChapter?.id,
-          projectTitle: project.title,
-          chapterTitle: currentChapter?.title,
-          characters: characters.map(c => ({ name: c.name, role: c.role }))
-        },
-      });
-      return response.json();
-    },
-    onSuccess: (data) => {
+      const controller = new AbortController();
+      replyAbortRef.current = controller;
+      setPendingReply({ query, response: "" });
       setQuery("");
-      queryClient.invalidateQueries({ 
-        queryKey: ["/api/projects", project.id, "chat-messages"]
-      });
+      try {
+        return await streamRequest("/api/ai/query", {
+          query,
+          context: {
+            projectId: project.id,
+            chapterId: currentChapter?.id,
+            projectTitle: project.title,
+            chapterTitle: currentChapter?.title,
+            characters: characters.map(c => ({ name: c.name, role: c.role }))
+          },
+        }, {
+          signal: controller.signal,
+          onDelta: (text) => setPendingReply(prev => prev && { ...prev, response: prev.response + text }),
+        });
+      } catch (error) {
+        // Stopping isn't a failure; the question is already saved
+        if (controller.signal.aborted) return null;
+        throw error;
+      }
     },
     onError: () => {
       toast({
@@ -141,6 +152,13 @@ export default function AIPanel({ project, currentChapter, onClose }: AIPanelPro
         variant: "destructive",
       });
     },
+    onSettled: async () => {
+      replyAbortRef.current = null;
+      await queryClient.invalidateQueries({ 
+        queryKey: ["/api/projects", project.id, "chat-messages"]
+      });
+      setPendingReply(null);
+    },
   });
 
   const clearChatMutation = useMutation({
@@ -533,7 +551,7 @@ export default function AIPanel({ project, currentChapter, onClose }: AIPanelPro
               scrollbarColor: '#9ca3af #f3f4f6'
             }}
           >
-            {chatMessages.length === 0 ? (
+            {chatMessages.length === 0 && !pendingReply ? (
               <div className="text-center text-neutral-500 py-8">
                 <MessageCircle className="w-8 h-8 mx-auto mb-2 text-neutral-400" />
                 <p className="text-sm">No chat history yet</p>
@@ -570,6 +588,28 @@ export default function AIPanel({ project, currentChapter, onClose }: AIPanelPro
                 </div>
               ))
             )}
+            {pendingReply && (
+              <>
+                <div className="flex gap-3 justify-end">
+                  <div className="max-w-[75%] rounded-lg p-3 bg-blue-500 text-white">
+                    <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">{pendingReply.query}</p>
+                  </div>
+                  <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0 mt-1">
+                    <User className="w-3 h-3 text-white" />
+                  </div>
+                </div>
+                <div className="flex gap-3 justify-start">
+                  <div className="w-6 h-6 bg-green-600 rounded-full flex items-center justify-center flex-shrink-0 mt-1">
+                    <Bot className="w-3 h-3 text-white" />
+                  </div>
+                  <div className="max-w-[75%] rounded-lg p-3 bg-neutral-100 text-neutral-800">
+                    <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+                      {pendingReply.response || <span className="text-neutral-500">Thinking...</span>}
+                    </p>
+                  </div>
+                </div>
+              </>
+            )}
             <div ref={messagesEndRef} />
           </div>
 
@@ -594,14 +634,21 @@ export default function AIPanel({ project, currentChapter, onClose }: AIPanelPro
                 <div className="text-xs text-neutral-400">
                   {query.length}/500 • Press Enter to send
                 </div>
-                <Button
-                  size="sm"
-                  onClick={() => queryAIMutation.mutate()}
-                  disabled={queryAIMutation.isPending || !query.trim()}
-                >
-                  <Send className="w-3 h-3 mr-1" />
-                  {queryAIMutation.isPending ? "Sending..." : "Send"}
-                </Button>
+                {queryAIMutation.isPending ? (
+                  <Button size="sm" variant="outline" onClick={() => replyAbortRef.current?.abort()}>
+                    <Square className="w-3 h-3 mr-1" />
+                    Stop
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    onClick={() => queryAIMutation.mutate()}
+                    disabled={!query.trim()}
+                  >
+                    <Send className="w-3 h-3 mr-1" />
+                    Send
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -1,26 +1,287 @@
-import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { Fragment, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Loader2, Download, Play, Volume2 } from "lucide-react";
+import { Loader2, Download, Play, Volume2, Square, RotateCcw, ChevronDown, ChevronRight, ImagePlus, Package } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { type Audiobook } from "@shared/schema";
+import { type AcxChapterReport, type Audiobook, type AudiobookChapterMarker } from "@shared/schema";
 
 interface AudiobookListProps {
   projectId: string;
   children: React.ReactNode;
 }
 
+// Mirrors ChapterProgress / AudiobookProgress in server/audiobook-jobs.ts
+interface ChapterProgress {
+  chapterIndex: number;
+  chapterId: string | null;
+  title: string;
+  status: 'pending' | 'generating' | 'completed' | 'failed';
+  totalChunks: number;
+  completedChunks: number;
+  attempts: number;
+  nextAttemptAt: string | null;
+  error: string | null;
+}
+
+interface AudiobookProgress {
+  audiobookId: string;
+  status: string;
+  totalChunks: number;
+  completedChunks: number;
+  chapters: ChapterProgress[];
+}
+
+type DownloadFormat = 'mp3' | 'm4b' | 'acx';
+
+const isActive = (audiobook: Audiobook) =>
+  audiobook.status === 'pending' || audiobook.status === 'generating' || audiobook.status === 'packaging';
+
+const formatTimestamp = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+};
+
+function AudiobookPackagingPanel({ audiobook, projectId }: { audiobook: Audiobook; projectId: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const markers = (audiobook.chapterMarkers as AudiobookChapterMarker[] | null) || [];
+  const acxReport = (audiobook.acxReport as AcxChapterReport[] | null) || [];
+  const failingChapters = acxReport.filter(report => report.issues.length > 0).length;
+  const formatLevel = (value: number | null) => value === null ? '—' : value <= -120 ? 'silent' : `${value.toFixed(1)} dB`;
+
+  const coverMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('cover', file);
+
+      const response = await fetch(`/api/audiobooks/${audiobook.id}/cover`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to upload cover');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'audiobooks'] });
+      toast({ title: "Cover Uploaded", description: "The M4B and ACX files are being repackaged with the new cover." });
+    },
+    onError: () => {
+      toast({ title: "Upload Failed", description: "Cover art must be a JPEG or PNG image under 10MB.", variant: "destructive" });
+    },
+  });
+
+  const packageMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/audiobooks/${audiobook.id}/package`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'audiobooks'] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to start packaging.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-3 py-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" asChild disabled={coverMutation.isPending}>
+          <label className="cursor-pointer flex items-center gap-1">
+            {coverMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+            {audiobook.coverImagePath ? 'Replace Cover' : 'Add Cover Art'}
+            <input
+              type="file"
+              accept="image/jpeg,image/png"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) coverMutation.mutate(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => packageMutation.mutate()}
+          disabled={packageMutation.isPending || audiobook.status !== 'completed'}
+          className="flex items-center gap-1"
+        >
+          <Package className="h-4 w-4" />
+          Repackage
+        </Button>
+        <span className="text-xs text-muted-foreground">
+          ACX recommends square cover art of at least 2400 × 2400 pixels.
+        </span>
+      </div>
+      {audiobook.packagingError && (
+        <p className="text-sm text-red-600">{audiobook.packagingError}</p>
+      )}
+      {acxReport.length > 0 && (
+        <p className={`text-sm ${failingChapters > 0 ? 'text-red-600' : 'text-green-700 dark:text-green-400'}`}>
+          {failingChapters > 0
+            ? `${failingChapters} of ${acxReport.length} chapters need attention before submitting to ACX.`
+            : `All ${acxReport.length} chapters pass the ACX checks.`}
+        </p>
+      )}
+      {markers.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Chapter</TableHead>
+              <TableHead>Starts</TableHead>
+              <TableHead>RMS</TableHead>
+              <TableHead>Peak</TableHead>
+              <TableHead>Noise Floor</TableHead>
+              <TableHead>Room Tone</TableHead>
+              <TableHead>Format</TableHead>
+              <TableHead>ACX</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {markers.map((marker, index) => {
+              const report = acxReport[index];
+              return (
+                <TableRow key={index}>
+                  <TableCell className="max-w-[200px]">
+                    <span className="block truncate" title={marker.title}>{index + 1}. {marker.title}</span>
+                    {report?.issues.map((issue) => (
+                      <span key={issue} className="block text-xs text-red-600">{issue}</span>
+                    ))}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{formatTimestamp(marker.start)}</TableCell>
+                  <TableCell className="text-xs">{report ? formatLevel(report.rmsLevel) : '—'}</TableCell>
+                  <TableCell className="text-xs">{report ? formatLevel(report.peakLevel) : '—'}</TableCell>
+                  <TableCell className="text-xs">{report ? formatLevel(report.noiseFloor) : '—'}</TableCell>
+                  <TableCell className="text-xs">
+                    {report ? `${report.leadingSilence.toFixed(1)}s / ${report.trailingSilence.toFixed(1)}s` : '—'}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {report
+                      ? `${report.sampleRate ? `${(report.sampleRate / 1000).toFixed(1)} kHz` : '?'}, ${report.bitRate ? `${Math.round(report.bitRate / 1000)} kbps` : '?'}`
+                      : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {report && (
+                      <Badge className={report.issues.length === 0
+                        ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+                        : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'}>
+                        {report.issues.length === 0 ? 'Pass' : 'Fail'}
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+function AudiobookProgressDetails({ audiobook }: { audiobook: Audiobook }) {
+  const { data: progress, isLoading } = useQuery<AudiobookProgress>({
+    queryKey: ['/api/audiobooks', audiobook.id, 'progress'],
+    refetchInterval: isActive(audiobook) ? 3000 : false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground py-2">
+        <Loader2 className="h-4 w-4 animate-spin mr-2" />
+        Loading progress...
+      </div>
+    );
+  }
+
+  if (!progress || progress.chapters.length === 0) {
+    return <p className="text-sm text-muted-foreground py-2">Chapters are still being prepared.</p>;
+  }
+
+  return (
+    <div className="space-y-2 py-2">
+      {progress.chapters.map((chapter) => (
+        <div key={chapter.chapterIndex} className="grid grid-cols-[1fr_160px_90px] items-center gap-3 text-sm">
+          <div className="truncate" title={chapter.title}>
+            {chapter.chapterIndex + 1}. {chapter.title}
+            {chapter.error && (
+              <span className={`block text-xs ${chapter.status === 'failed' ? 'text-red-600' : 'text-muted-foreground'}`}>
+                {chapter.status === 'failed'
+                  ? `Failed after ${chapter.attempts} attempts: ${chapter.error}`
+                  : `Retrying (attempt ${chapter.attempts + 1})${chapter.nextAttemptAt ? ` at ${new Date(chapter.nextAttemptAt).toLocaleTimeString()}` : ''}`}
+              </span>
+            )}
+          </div>
+          <Progress value={(chapter.completedChunks / chapter.totalChunks) * 100} className="h-2" />
+          <span className="text-xs text-muted-foreground text-right">
+            {chapter.completedChunks}/{chapter.totalChunks} parts
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function AudiobookList({ projectId, children }: AudiobookListProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
+  // Poll while a job is queued or generating so progress moves without reopening the dialog
   const { data: audiobooks = [], isLoading } = useQuery<Audiobook[]>({
     queryKey: ['/api/projects', projectId, 'audiobooks'],
-    enabled: isOpen
+    enabled: isOpen,
+    refetchInterval: (query) => query.state.data?.some(isActive) ? 3000 : false,
+  });
+
+  const refreshAudiobook = (audiobookId: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'audiobooks'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/audiobooks', audiobookId, 'progress'] });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: async (audiobookId: string) => {
+      await apiRequest("POST", `/api/audiobooks/${audiobookId}/cancel`);
+    },
+    onSuccess: (_, audiobookId) => {
+      refreshAudiobook(audiobookId);
+      toast({
+        title: "Generation Cancelled",
+        description: "Finished chapters are kept. Resume at any time to pick up where it stopped.",
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to cancel audiobook generation.", variant: "destructive" });
+    },
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (audiobookId: string) => {
+      await apiRequest("POST", `/api/audiobooks/${audiobookId}/resume`);
+    },
+    onSuccess: (_, audiobookId) => {
+      refreshAudiobook(audiobookId);
+      toast({ title: "Generation Resumed", description: "Continuing from the last completed part." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to resume audiobook generation.", variant: "destructive" });
+    },
   });
 
   const formatDuration = (seconds: number) => {
@@ -41,9 +302,9 @@ export default function AudiobookList({ projectId, children }: AudiobookListProp
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
-  const handleDownload = async (audiobook: Audiobook) => {
+  const handleDownload = async (audiobook: Audiobook, format: DownloadFormat = 'mp3') => {
     try {
-      const response = await fetch(`/api/audiobooks/${audiobook.id}/download`);
+      const response = await fetch(`/api/audiobooks/${audiobook.id}/download?format=${format}`);
       
       if (!response.ok) {
         throw new Error('Download failed');
@@ -51,7 +312,7 @@ export default function AudiobookList({ projectId, children }: AudiobookListProp
 
       // Get filename from response headers or use title
       const contentDisposition = response.headers.get('content-disposition');
-      let filename = `${(audiobook.title || 'audiobook').replace(/[^a-zA-Z0-9]/g, '_')}.mp3`;
+      let filename = `${(audiobook.title || 'audiobook').replace(/[^a-zA-Z0-9]/g, '_')}${format === 'acx' ? '_ACX.zip' : `.${format}`}`;
       
       if (contentDisposition) {
         const filenameMatch = contentDisposition.match(/filename="([^"]+)"/);
@@ -91,6 +352,7 @@ export default function AudiobookList({ projectId, children }: AudiobookListProp
       case 'generating': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
       case 'failed': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       case 'pending': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+      case 'cancelled': return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
     }
   };
@@ -136,9 +398,22 @@ export default function AudiobookList({ projectId, children }: AudiobookListProp
               </TableHeader>
               <TableBody>
                 {audiobooks.map((audiobook: Audiobook) => (
-                  <TableRow key={audiobook.id}>
+                  <Fragment key={audiobook.id}>
+                  <TableRow>
                     <TableCell className="font-medium max-w-[200px] truncate" title={audiobook.title}>
-                      {audiobook.title}
+                      <button
+                        type="button"
+                        className="flex items-center gap-1 max-w-full"
+                        onClick={() => setExpandedId(expandedId === audiobook.id ? null : audiobook.id)}
+                        title="Show details"
+                      >
+                        {expandedId === audiobook.id ? (
+                          <ChevronDown className="h-4 w-4 shrink-0" />
+                        ) : (
+                          <ChevronRight className="h-4 w-4 shrink-0" />
+                        )}
+                        <span className="truncate">{audiobook.title}</span>
+                      </button>
                     </TableCell>
                     <TableCell>
                       <span className="capitalize">{audiobook.voice}</span>
@@ -164,29 +439,100 @@ export default function AudiobookList({ projectId, children }: AudiobookListProp
                     </TableCell>
                     <TableCell>
                       {audiobook.status === 'completed' && audiobook.filePath ? (
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => handleDownload(audiobook)}
-                          className="flex items-center gap-1"
-                        >
-                          <Download className="h-4 w-4" />
-                          Download
-                        </Button>
-                      ) : audiobook.status === 'generating' ? (
+                        <div className="space-y-1">
+                          <div className="flex flex-wrap gap-1">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleDownload(audiobook)}
+                              className="flex items-center gap-1"
+                            >
+                              <Download className="h-4 w-4" />
+                              Download
+                            </Button>
+                            {audiobook.m4bFilePath && (
+                              <Button size="sm" variant="outline" onClick={() => handleDownload(audiobook, 'm4b')} title="Single file with chapter markers">
+                                M4B
+                              </Button>
+                            )}
+                            {audiobook.acxFilePath && (
+                              <Button size="sm" variant="outline" onClick={() => handleDownload(audiobook, 'acx')} title="Per-chapter MP3s for ACX">
+                                ACX
+                              </Button>
+                            )}
+                          </div>
+                          {audiobook.packagingError && (
+                            <span className="block text-xs text-red-600">{audiobook.packagingError}</span>
+                          )}
+                        </div>
+                      ) : audiobook.status === 'packaging' ? (
                         <div className="flex items-center text-sm text-muted-foreground">
                           <Loader2 className="h-4 w-4 animate-spin mr-1" />
-                          {audiobook.completedChapters}/{audiobook.totalChapters}
+                          Packaging
+                        </div>
+                      ) : isActive(audiobook) ? (
+                        <div className="space-y-1 min-w-[160px]">
+                          <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                            <span className="flex items-center">
+                              <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                              {audiobook.totalChunks
+                                ? `Chapter ${Math.min((audiobook.completedChapters || 0) + 1, audiobook.totalChapters || 1)}/${audiobook.totalChapters}`
+                                : 'Queued'}
+                            </span>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => cancelMutation.mutate(audiobook.id)}
+                              disabled={cancelMutation.isPending}
+                              title="Cancel generation"
+                            >
+                              <Square className="h-4 w-4" />
+                            </Button>
+                          </div>
+                          {!!audiobook.totalChunks && (
+                            <Progress value={((audiobook.completedChunks || 0) / audiobook.totalChunks) * 100} className="h-2" />
+                          )}
+                        </div>
+                      ) : audiobook.status === 'failed' || audiobook.status === 'cancelled' ? (
+                        <div className="space-y-1">
+                          {audiobook.status === 'failed' && (
+                            <span className="block text-sm text-red-600">
+                              {audiobook.error || 'Generation failed'}
+                            </span>
+                          )}
+                          {!!audiobook.totalChunks && (
+                            <span className="block text-xs text-muted-foreground">
+                              {audiobook.completedChapters}/{audiobook.totalChapters} chapters done
+                            </span>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => resumeMutation.mutate(audiobook.id)}
+                            disabled={resumeMutation.isPending}
+                            className="flex items-center gap-1"
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                            Resume
+                          </Button>
                         </div>
-                      ) : audiobook.status === 'failed' ? (
-                        <span className="text-sm text-red-600">
-                          {audiobook.error || 'Generation failed'}
-                        </span>
                       ) : (
                         <span className="text-sm text-muted-foreground">Pending</span>
                       )}
                     </TableCell>
                   </TableRow>
+                  {expandedId === audiobook.id && (
+                    <TableRow>
+                      <TableCell colSpan={8}>
+                        {audiobook.status === 'completed' || audiobook.status === 'packaging' ? (
+                          <AudiobookPackagingPanel audiobook={audiobook} projectId={projectId} />
+                        ) : (
+                          <AudiobookProgressDetails audiobook={audiobook} />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  </Fragment>
                 ))}
               </TableBody>
             </Table>
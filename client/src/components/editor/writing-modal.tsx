@@ -2,7 +2,6 @@ import { useState, useEffect, useRef, KeyboardEvent, MouseEvent } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -15,11 +14,13 @@ import FeatureGate from "@/components/feature-gate";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { type Chapter, type Project } from "@shared/schema";
 import { 
-  Bold, Italic, Underline, Search, Replace, Target, Clock, 
+  Bold, Italic, Underline, Search, Replace, Target, 
   Palette, Moon, Sun, RotateCcw, RotateCw, Save, X,
-  Type, Zap, FileText, Timer, Maximize2, Minimize2, Book, Indent, BookOpen, Shield
+  Type, Zap, FileText, Maximize2, Minimize2, Book, Indent, BookOpen, Shield
 } from "lucide-react";
 import AdvancedEditor from "./advanced-editor";
+import WritingSprintBar from "./writing-sprint-bar";
+import { useWritingSprint } from "@/hooks/use-writing-sprint";
 
 interface WritingModalProps {
   chapter: Chapter;
@@ -31,12 +32,6 @@ interface WritingModalProps {
 type WritingMode = 'normal' | 'focus' | 'distraction-free';
 type Theme = 'light' | 'dark' | 'sepia';
 
-interface WritingSession {
-  startTime: Date;
-  wordCount: number;
-  target: number;
-}
-
 interface ThesaurusEntry {
   word: string;
   synonyms: string[];
@@ -66,8 +61,6 @@ export default function WritingModal({ chapter, project, isOpen, onClose }: Writ
   const [searchQuery, setSearchQuery] = useState("");
   const [replaceQuery, setReplaceQuery] = useState("");
   const [isSearchOpen, setIsSearchOpen] = useState(false);
-  const [writingSession, setWritingSession] = useState<WritingSession | null>(null);
-  const [sessionTarget, setSessionTarget] = useState(500);
   const [undoStack, setUndoStack] = useState<string[]>([]);
   const [redoStack, setRedoStack] = useState<string[]>([]);
   const [wordTools, setWordTools] = useState<WordToolsState>({
@@ -103,17 +96,6 @@ export default function WritingModal({ chapter, project, isOpen, onClose }: Writ
   const modalRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
-  // Initialize writing session when modal opens
-  useEffect(() => {
-    if (isOpen) {
-      setWritingSession({
-        startTime: new Date(),
-        wordCount: getWordCount(content),
-        target: sessionTarget
-      });
-    }
-  }, [isOpen, chapter.id]);
-
   // Update local state when chapter changes
   useEffect(() => {
     setContent(chapter.content || "");
@@ -822,8 +804,8 @@ FAIL = Likely AI-generated (>60% AI confidence)`;
   const characterCount = getCharacterCount(content);
   const readingTime = getReadingTime(content);
   
-  const sessionWordProgress = writingSession ? wordCount - writingSession.wordCount : 0;
-  const sessionProgressPercent = writingSession ? Math.min((sessionWordProgress / writingSession.target) * 100, 100) : 0;
+  // Only track the sprint while the modal is showing this chapter
+  const sprintState = useWritingSprint(isOpen ? chapter.id : undefined, project.id, wordCount);
 
   const getThemeClasses = () => {
     switch (theme) {
@@ -1274,31 +1256,6 @@ FAIL = Likely AI-generated (>60% AI confidence)`;
                           </div>
                         )}
                       </div>
-                      
-                      {/* Session Target Setting */}
-                      <div className="border-t pt-3">
-                        <Label className="text-sm">Session Target</Label>
-                        <div className="flex gap-2 mt-1">
-                          <Input
-                            type="number"
-                            value={sessionTarget}
-                            onChange={(e) => setSessionTarget(Number(e.target.value))}
-                            className="h-8"
-                            min="50"
-                            max="5000"
-                          />
-                          <Button 
-                            size="sm" 
-                            onClick={() => setWritingSession({
-                              startTime: new Date(),
-                              wordCount: wordCount,
-                              target: sessionTarget
-                            })}
-                          >
-                            Reset
-                          </Button>
-                        </div>
-                      </div>
                     </div>
                   </PopoverContent>
                 </Popover>
@@ -1551,28 +1508,8 @@ FAIL = Likely AI-generated (>60% AI confidence)`;
           </div>
         )}
 
-        {/* Session Progress Indicator - Only show in normal/focus modes */}
-        {writingSession && (
-          <div className="border-t border-neutral-200 p-4">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-4">
-                <div className="flex items-center gap-2 text-sm">
-                  <Timer className="w-4 h-4" />
-                  <span>Session: {sessionWordProgress}/{writingSession.target} words</span>
-                </div>
-                <div className="w-32 h-2 bg-neutral-200 rounded-full overflow-hidden">
-                  <div 
-                    className="h-full bg-green-500 transition-all"
-                    style={{ width: `${sessionProgressPercent}%` }}
-                  />
-                </div>
-                {sessionProgressPercent >= 100 && (
-                  <span className="text-green-600 text-sm font-medium">Goal reached! 🎉</span>
-                )}
-              </div>
-            </div>
-          </div>
-        )}
+        {/* Writing Sprint */}
+        <WritingSprintBar state={sprintState} />
       </DialogContent>
     </Dialog>
 
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type WritingSprintState } from "@/hooks/use-writing-sprint";
+import { Clock, Flag, Play, Timer, Trophy, X } from "lucide-react";
+
+interface WritingSprintBarProps {
+  state: WritingSprintState;
+  className?: string;
+}
+
+const DURATIONS = ["10", "15", "25", "45", "60"];
+const OPEN_ENDED = "open";
+
+function formatClock(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+}
+
+// Starts timed or open-ended sprints and shows the countdown and words written while one runs
+export default function WritingSprintBar({ state, className = "" }: WritingSprintBarProps) {
+  const [duration, setDuration] = useState(() => localStorage.getItem("writingSprint-duration") || "25");
+  const [target, setTarget] = useState(() => localStorage.getItem("writingSprint-target") || "500");
+  const { sprint, otherChapterSprint, lastFinished } = state;
+
+  const start = () => {
+    localStorage.setItem("writingSprint-duration", duration);
+    localStorage.setItem("writingSprint-target", target);
+    const targetWords = parseInt(target, 10);
+    state.startSprint({
+      durationMinutes: duration === OPEN_ENDED ? null : parseInt(duration, 10),
+      targetWords: targetWords > 0 ? targetWords : null,
+    });
+  };
+
+  if (sprint) {
+    const progressPercent = sprint.targetWords ? Math.min(100, Math.max(0, (state.wordsWritten / sprint.targetWords) * 100)) : null;
+    return (
+      <div className={`border-t bg-gradient-to-r from-green-50 to-blue-50 p-3 ${className}`}>
+        <div className="flex items-center justify-between text-sm gap-4">
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Timer className="w-4 h-4 text-green-600" />
+              <span className="font-medium">Sprint:</span>
+              <span className="text-green-700">
+                {state.wordsWritten} {sprint.targetWords ? `/ ${sprint.targetWords} ` : ""}words
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Clock className="w-4 h-4 text-blue-600" />
+              <span className="tabular-nums">
+                {state.remainingSeconds !== null
+                  ? `${formatClock(state.remainingSeconds)} left`
+                  : formatClock(state.elapsedSeconds)}
+              </span>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {progressPercent !== null && (
+              <>
+                <div className="w-32 bg-white rounded-full h-2">
+                  <div
+                    className="bg-gradient-to-r from-green-500 to-blue-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${progressPercent}%` }}
+                  />
+                </div>
+                <span className="text-xs font-medium text-neutral-600">{Math.round(progressPercent)}%</span>
+              </>
+            )}
+            <Button size="sm" variant="outline" onClick={state.finishSprint}>
+              <Flag className="w-4 h-4 mr-1" />
+              Finish
+            </Button>
+            <Button size="sm" variant="ghost" onClick={state.abandonSprint} title="Abandon sprint">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`border-t bg-neutral-50 p-3 ${className}`}>
+      {lastFinished && (
+        <div className="flex items-center justify-between text-sm mb-2">
+          <span className="flex items-center gap-2 text-green-700">
+            <Trophy className="w-4 h-4" />
+            {lastFinished.status === "abandoned" ? "Sprint abandoned" : "Sprint finished"}: {lastFinished.wordsAdded} words
+            {lastFinished.endedAt && ` in ${Math.max(1, Math.round((new Date(lastFinished.endedAt).getTime() - new Date(lastFinished.startedAt).getTime()) / 60000))} min`}
+            {lastFinished.status === "completed" && lastFinished.targetWords && lastFinished.wordsAdded >= lastFinished.targetWords && " 🎉"}
+          </span>
+          <Button size="sm" variant="ghost" onClick={state.dismissFinished}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+      {otherChapterSprint && (
+        <div className="flex items-center justify-between text-sm mb-2 text-neutral-600">
+          <span>A sprint is running in another chapter.</span>
+          <Button size="sm" variant="ghost" onClick={state.endOtherSprint}>End it</Button>
+        </div>
+      )}
+      <div className="flex items-center gap-2 text-sm">
+        <Timer className="w-4 h-4 text-neutral-500" />
+        <span className="font-medium text-neutral-700">Sprint</span>
+        <Select value={duration} onValueChange={setDuration}>
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DURATIONS.map(minutes => (
+              <SelectItem key={minutes} value={minutes}>{minutes} minutes</SelectItem>
+            ))}
+            <SelectItem value={OPEN_ENDED}>No time limit</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          min={0}
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className="h-8 w-24"
+          title="Word target (0 for none)"
+        />
+        <span className="text-neutral-500">words</span>
+        <Button size="sm" onClick={start} disabled={state.isStarting}>
+          <Play className="w-4 h-4 mr-1" />
+          {state.isStarting ? "Starting..." : "Start"}
+        </Button>
+      </div>
+    </div>
+  );
+}
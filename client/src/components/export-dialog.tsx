@@ -18,7 +18,7 @@ import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { type Project } from "@shared/schema";
-import { FileText, Download, Loader2, Volume2, History } from "lucide-react";
+import { FileText, Download, Loader2, Volume2, History, BookOpen, FileCode, Archive } from "lucide-react";
 import AudiobookList from "./audiobook-list";
 
 interface ExportDialogProps {
@@ -27,10 +27,14 @@ interface ExportDialogProps {
 }
 
 interface ExportOptions {
-  format: 'docx' | 'pdf';
+  format: 'docx' | 'pdf' | 'epub' | 'md' | 'txt';
+  profile: 'standard' | 'manuscript' | 'paperback';
+  manuscriptFont: 'courier' | 'times';
+  trimSize: '5x8' | '5.5x8.5' | '6x9';
   includeChapterNumbers: boolean;
   includeProjectInfo: boolean;
   pageBreakBetweenChapters: boolean;
+  splitChapters: boolean;
 }
 
 interface AudiobookOptions {
@@ -44,9 +48,13 @@ export default function ExportDialog({ project, children }: ExportDialogProps) {
   const [exportType, setExportType] = useState<'document' | 'audiobook'>('document');
   const [options, setOptions] = useState<ExportOptions>({
     format: 'docx',
+    profile: 'standard',
+    manuscriptFont: 'courier',
+    trimSize: '6x9',
     includeChapterNumbers: true,
     includeProjectInfo: true,
     pageBreakBetweenChapters: true,
+    splitChapters: false,
   });
   const [audiobookOptions, setAudiobookOptions] = useState<AudiobookOptions>({
     voice: 'alloy',
@@ -111,6 +119,43 @@ export default function ExportDialog({ project, children }: ExportDialogProps) {
     },
   });
 
+  const backupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/projects/${project.id}/archive`, { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('Backup failed');
+      }
+      return response;
+    },
+    onSuccess: async (response) => {
+      const filenameMatch = response.headers.get('content-disposition')?.match(/filename="([^"]+)"/);
+      const filename = filenameMatch?.[1] || `${project.title.replace(/[^a-zA-Z0-9]/g, '_')}_backup.zip`;
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({
+        title: "Backup Downloaded",
+        description: "Restore it any time from the Import page.",
+      });
+    },
+    onError: (error) => {
+      console.error("Backup error:", error);
+      toast({
+        title: "Backup Failed",
+        description: "There was an error backing up your project. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const audiobookMutation = useMutation({
     mutationFn: async (options: AudiobookOptions) => {
       const response = await apiRequest('POST', `/api/projects/${project.id}/audiobooks`, {
@@ -157,7 +202,7 @@ export default function ExportDialog({ project, children }: ExportDialogProps) {
           </DialogTitle>
           <DialogDescription>
             {exportType === 'document' 
-              ? `Export "${project.title}" to Word document or PDF format with customizable options.`
+              ? `Export "${project.title}" to Word, PDF, EPUB, Markdown or plain text with customizable options.`
               : `Generate an audiobook version of "${project.title}" using AI text-to-speech technology.`
             }
           </DialogDescription>
@@ -175,7 +220,7 @@ export default function ExportDialog({ project, children }: ExportDialogProps) {
                 <RadioGroupItem value="document" id="document" />
                 <Label htmlFor="document" className="flex items-center gap-2 cursor-pointer">
                   <FileText className="w-4 h-4" />
-                  Document Export (Word/PDF)
+                  Document Export (Word/PDF/EPUB)
                 </Label>
               </div>
               <div className="flex items-center space-x-2">
@@ -197,8 +242,8 @@ export default function ExportDialog({ project, children }: ExportDialogProps) {
                 <Label className="text-sm font-medium">Export Format</Label>
                 <RadioGroup
                   value={options.format}
-                  onValueChange={(value: 'docx' | 'pdf') => 
-                    setOptions(prev => ({ ...prev, format: value }))
+                  onValueChange={(value: 'docx' | 'pdf' | 'epub' | 'md' | 'txt') => 
+                    setOptions(prev => ({ ...prev, format: value, profile: 'standard' }))
                   }
                 >
                   <div className="flex items-center space-x-2">
@@ -215,9 +260,127 @@ export default function ExportDialog({ project, children }: ExportDialogProps) {
                       PDF Document (.pdf)
                     </Label>
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="epub" id="epub" />
+                    <Label htmlFor="epub" className="flex items-center gap-2 cursor-pointer">
+                      <BookOpen className="w-4 h-4" />
+                      EPUB Ebook (.epub)
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="md" id="md" />
+                    <Label htmlFor="md" className="flex items-center gap-2 cursor-pointer">
+                      <FileCode className="w-4 h-4" />
+                      Markdown (.md)
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="txt" id="txt" />
+                    <Label htmlFor="txt" className="flex items-center gap-2 cursor-pointer">
+                      <FileText className="w-4 h-4" />
+                      Plain Text (.txt)
+                    </Label>
+                  </div>
                 </RadioGroup>
               </div>
 
+              {/* Word Layout Profile */}
+              {options.format === 'docx' && (
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Layout</Label>
+                  <RadioGroup
+                    value={options.profile}
+                    onValueChange={(value: 'standard' | 'manuscript') =>
+                      setOptions(prev => ({ ...prev, profile: value }))
+                    }
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="standard" id="profile-standard" />
+                      <Label htmlFor="profile-standard" className="cursor-pointer">
+                        Book layout
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="manuscript" id="profile-manuscript" />
+                      <Label htmlFor="profile-manuscript" className="cursor-pointer">
+                        Standard manuscript format (for agents and editors)
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                  {options.profile === 'manuscript' && (
+                    <div className="space-y-2 pl-6">
+                      <Select
+                        value={options.manuscriptFont}
+                        onValueChange={(value: 'courier' | 'times') =>
+                          setOptions(prev => ({ ...prev, manuscriptFont: value }))
+                        }
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="courier">Courier New 12pt</SelectItem>
+                          <SelectItem value="times">Times New Roman 12pt</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-neutral-500">
+                        Double-spaced body chapters with a title page, running header and centred # scene breaks.
+                        Uses the pen name and address from your copyright page.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* PDF Layout Profile */}
+              {options.format === 'pdf' && (
+                <div className="space-y-3">
+                  <Label className="text-sm font-medium">Layout</Label>
+                  <RadioGroup
+                    value={options.profile}
+                    onValueChange={(value: 'standard' | 'paperback') =>
+                      setOptions(prev => ({ ...prev, profile: value }))
+                    }
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="standard" id="pdf-profile-standard" />
+                      <Label htmlFor="pdf-profile-standard" className="cursor-pointer">
+                        Reading copy (A4)
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="paperback" id="pdf-profile-paperback" />
+                      <Label htmlFor="pdf-profile-paperback" className="cursor-pointer">
+                        Print-ready paperback interior (KDP / IngramSpark)
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                  {options.profile === 'paperback' && (
+                    <div className="space-y-2 pl-6">
+                      <Select
+                        value={options.trimSize}
+                        onValueChange={(value: '5x8' | '5.5x8.5' | '6x9') =>
+                          setOptions(prev => ({ ...prev, trimSize: value }))
+                        }
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="5x8">5" × 8"</SelectItem>
+                          <SelectItem value="5.5x8.5">5.5" × 8.5"</SelectItem>
+                          <SelectItem value="6x9">6" × 9"</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-neutral-500">
+                        Mirrored gutter margins sized to the page count, chapters opening on right-hand pages with drop caps,
+                        and running heads with your pen name and title. Uses the paperback ISBN from your copyright page.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              )}
+
               <Separator />
 
               {/* Document Export Options */}
@@ -251,18 +414,33 @@ export default function ExportDialog({ project, children }: ExportDialogProps) {
                     </Label>
                   </div>
 
-                  <div className="flex items-center space-x-2">
-                    <Checkbox
-                      id="pageBreakBetweenChapters"
-                      checked={options.pageBreakBetweenChapters}
-                      onCheckedChange={(checked) =>
-                        setOptions(prev => ({ ...prev, pageBreakBetweenChapters: !!checked }))
-                      }
-                    />
-                    <Label htmlFor="pageBreakBetweenChapters" className="text-sm cursor-pointer">
-                      Start each chapter on a new page
-                    </Label>
-                  </div>
+                  {options.format === 'md' || options.format === 'txt' ? (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="splitChapters"
+                        checked={options.splitChapters}
+                        onCheckedChange={(checked) =>
+                          setOptions(prev => ({ ...prev, splitChapters: !!checked }))
+                        }
+                      />
+                      <Label htmlFor="splitChapters" className="text-sm cursor-pointer">
+                        One file per chapter (.zip)
+                      </Label>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        id="pageBreakBetweenChapters"
+                        checked={options.pageBreakBetweenChapters}
+                        onCheckedChange={(checked) =>
+                          setOptions(prev => ({ ...prev, pageBreakBetweenChapters: !!checked }))
+                        }
+                      />
+                      <Label htmlFor="pageBreakBetweenChapters" className="text-sm cursor-pointer">
+                        Start each chapter on a new page
+                      </Label>
+                    </div>
+                  )}
                 </div>
               </div>
             </>
@@ -314,6 +492,28 @@ export default function ExportDialog({ project, children }: ExportDialogProps) {
               </>
             )}
           </Button>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              A full backup contains every chapter, character, timeline, relationship, AI conversation, research note and
+              copyright detail, and can be restored into any account.
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => backupMutation.mutate()}
+              disabled={backupMutation.isPending}
+              className="w-full"
+            >
+              {backupMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Archive className="w-4 h-4 mr-2" />
+              )}
+              Download Full Project Backup
+            </Button>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,298 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  type Project,
+  type ProjectSnapshot,
+  type ProjectSnapshotComparison,
+  type SnapshotChangeStatus
+} from "@shared/schema";
+import { Camera, GitCompare, Copy, Trash2, Loader2, ArrowLeft } from "lucide-react";
+
+interface ProjectSnapshotsDialogProps {
+  project: Project;
+  children: React.ReactNode;
+}
+
+const STATUS_STYLES: Record<SnapshotChangeStatus, string> = {
+  unchanged: "bg-neutral-100 text-neutral-600",
+  modified: "bg-amber-100 text-amber-800",
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+};
+
+export default function ProjectSnapshotsDialog({ project, children }: ProjectSnapshotsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [comparingSnapshot, setComparingSnapshot] = useState<ProjectSnapshot | null>(null);
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: snapshots = [], isLoading } = useQuery<ProjectSnapshot[]>({
+    queryKey: ["/api/projects", project.id, "snapshots"],
+    enabled: isOpen,
+  });
+
+  const { data: comparison, isLoading: isComparing } = useQuery<ProjectSnapshotComparison>({
+    queryKey: ["/api/projects", project.id, "snapshots", comparingSnapshot?.id, "compare"],
+    enabled: isOpen && !!comparingSnapshot,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${project.id}/snapshots`, { name, description });
+      return response.json();
+    },
+    onSuccess: () => {
+      setName("");
+      setDescription("");
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id, "snapshots"] });
+      toast({ title: "Snapshot Saved", description: "The whole manuscript has been frozen at this point." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save snapshot. Please try again.", variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (snapshotId: string) => {
+      const response = await apiRequest("POST", `/api/projects/${project.id}/snapshots/${snapshotId}/restore`);
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: (newProject) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({ title: "Snapshot Restored", description: `Created "${newProject.title}" as a new project.` });
+      setIsOpen(false);
+      setLocation(`/writer/${newProject.id}`);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to restore snapshot. Please try again.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (snapshotId: string) => {
+      await apiRequest("DELETE", `/api/projects/${project.id}/snapshots/${snapshotId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id, "snapshots"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete snapshot.", variant: "destructive" });
+    },
+  });
+
+  const changedChapters = comparison?.chapters.filter(chapter => chapter.status !== 'unchanged') || [];
+  const changedCharacters = comparison?.characters.filter(character => character.status !== 'unchanged') || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) setComparingSnapshot(null); }}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Camera className="w-5 h-5" />
+            Manuscript Snapshots
+          </DialogTitle>
+          <DialogDescription>
+            Freeze "{project.title}" at milestones like a draft sent to beta readers. Snapshots include every chapter,
+            your story structure, characters and copyright details.
+          </DialogDescription>
+        </DialogHeader>
+
+        {comparingSnapshot ? (
+          <div className="flex-1 min-h-0 flex flex-col space-y-3">
+            <div className="flex items-center justify-between">
+              <Button variant="ghost" size="sm" onClick={() => setComparingSnapshot(null)}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <span className="text-sm text-neutral-600">
+                "{comparingSnapshot.name}" compared with the current manuscript
+              </span>
+            </div>
+            <ScrollArea className="flex-1 border rounded-lg">
+              {isComparing || !comparison ? (
+                <div className="p-4 flex items-center gap-2 text-sm text-neutral-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Comparing...
+                </div>
+              ) : (
+                <div className="p-4 space-y-4 text-sm">
+                  <div>
+                    <h4 className="font-medium mb-2">Chapters</h4>
+                    {changedChapters.length === 0 ? (
+                      <p className="text-neutral-500">No chapter changes.</p>
+                    ) : (
+                      <div className="space-y-1">
+                        {changedChapters.map(chapter => (
+                          <div key={chapter.chapterId} className="flex items-center justify-between gap-2">
+                            <span className="truncate">{chapter.title}</span>
+                            <div className="flex items-center gap-2 shrink-0">
+                              <span className="text-xs text-green-700">+{chapter.wordsAdded}</span>
+                              <span className="text-xs text-red-700">-{chapter.wordsRemoved}</span>
+                              <Badge className={STATUS_STYLES[chapter.status]}>{chapter.status}</Badge>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <Separator />
+
+                  <div>
+                    <h4 className="font-medium mb-2">Story Structure</h4>
+                    {comparison.projectFields.length === 0 ? (
+                      <p className="text-neutral-500">No changes to the project details or LOCK/Bell structure.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {comparison.projectFields.map(change => (
+                          <div key={change.field}>
+                            <p className="font-medium text-neutral-700">{change.field}</p>
+                            <p className="text-red-700 line-through">{String(change.snapshotValue ?? "(empty)")}</p>
+                            <p className="text-green-700">{String(change.currentValue ?? "(empty)")}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <Separator />
+
+                  <div>
+                    <h4 className="font-medium mb-2">Characters</h4>
+                    {changedCharacters.length === 0 ? (
+                      <p className="text-neutral-500">No character changes.</p>
+                    ) : (
+                      <div className="space-y-1">
+                        {changedCharacters.map(character => (
+                          <div key={character.characterId} className="flex items-center justify-between">
+                            <span>{character.name}</span>
+                            <Badge className={STATUS_STYLES[character.status]}>{character.status}</Badge>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {comparison.copyrightChanged && (
+                    <>
+                      <Separator />
+                      <p className="text-neutral-600">Copyright information has changed since this snapshot.</p>
+                    </>
+                  )}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col space-y-4">
+            <div className="space-y-2">
+              <Input
+                placeholder='Snapshot name, e.g. "Draft 1 sent to beta readers"'
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Textarea
+                placeholder="Notes (optional)"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+              <Button
+                onClick={() => createMutation.mutate()}
+                disabled={!name.trim() || createMutation.isPending}
+                className="w-full"
+              >
+                {createMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Camera className="w-4 h-4 mr-2" />
+                )}
+                Take Snapshot
+              </Button>
+            </div>
+
+            <Separator />
+
+            <ScrollArea className="flex-1 min-h-[200px]">
+              {isLoading ? (
+                <p className="text-sm text-neutral-500">Loading snapshots...</p>
+              ) : snapshots.length === 0 ? (
+                <p className="text-sm text-neutral-500">No snapshots yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {snapshots.map(snapshot => (
+                    <div key={snapshot.id} className="border rounded-lg p-3">
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">
+                            v{snapshot.version} · {snapshot.name}
+                          </p>
+                          <p className="text-xs text-neutral-500">
+                            {snapshot.createdAt ? new Date(snapshot.createdAt).toLocaleString() : ""} •{" "}
+                            {snapshot.chapterCount} chapters • {snapshot.wordCount?.toLocaleString()} words
+                          </p>
+                          {snapshot.description && (
+                            <p className="text-sm text-neutral-600 mt-1">{snapshot.description}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <Button variant="ghost" size="sm" onClick={() => setComparingSnapshot(snapshot)} title="Compare with current">
+                            <GitCompare className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => restoreMutation.mutate(snapshot.id)}
+                            disabled={restoreMutation.isPending}
+                            title="Restore as a new project"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              if (confirm(`Delete snapshot "${snapshot.name}"?`)) {
+                                deleteMutation.mutate(snapshot.id);
+                              }
+                            }}
+                            title="Delete snapshot"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type Pronunciation } from "@shared/schema";
+import { BookA, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface PronunciationDictionaryProps {
+  projectId: string;
+}
+
+interface PronunciationForm {
+  term: string;
+  soundsLike: string;
+  ipa: string;
+}
+
+const EMPTY_FORM: PronunciationForm = { term: "", soundsLike: "", ipa: "" };
+
+export default function PronunciationDictionary({ projectId }: PronunciationDictionaryProps) {
+  const [form, setForm] = useState<PronunciationForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: pronunciations = [], isLoading } = useQuery<Pronunciation[]>({
+    queryKey: ["/api/projects", projectId, "pronunciations"],
+    enabled: !!projectId,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        term: form.term.trim(),
+        soundsLike: form.soundsLike.trim() || null,
+        ipa: form.ipa.trim() || null,
+      };
+      const response = editingId
+        ? await apiRequest("PATCH", `/api/pronunciations/${editingId}`, body)
+        : await apiRequest("POST", `/api/projects/${projectId}/pronunciations`, body);
+      return response.json() as Promise<Pronunciation>;
+    },
+    onSuccess: () => {
+      setForm(EMPTY_FORM);
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "pronunciations"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save pronunciation. Please try again.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (pronunciationId: string) => {
+      await apiRequest("DELETE", `/api/pronunciations/${pronunciationId}`);
+    },
+    onSuccess: (_, pronunciationId) => {
+      if (pronunciationId === editingId) {
+        setForm(EMPTY_FORM);
+        setEditingId(null);
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "pronunciations"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete pronunciation.", variant: "destructive" });
+    },
+  });
+
+  const startEditing = (pronunciation: Pronunciation) => {
+    setEditingId(pronunciation.id);
+    setForm({
+      term: pronunciation.term,
+      soundsLike: pronunciation.soundsLike || "",
+      ipa: pronunciation.ipa || "",
+    });
+  };
+
+  const canSave = !!form.term.trim() && (!!form.soundsLike.trim() || !!form.ipa.trim());
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookA className="h-5 w-5" />
+          Pronunciation Dictionary
+        </CardTitle>
+        <CardDescription>
+          Teach the narrator place names, period terms and character names. OpenAI and local draft voices read the
+          "sounds like" spelling; Google voices use the IPA transcription when one is given. Scene breaks and chapter headings
+          get a pause automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 md:grid-cols-[1fr_1fr_1fr_auto]">
+          <Input
+            placeholder="Word, e.g. Youghal"
+            value={form.term}
+            onChange={(e) => setForm(prev => ({ ...prev, term: e.target.value }))}
+          />
+          <Input
+            placeholder="Sounds like, e.g. YAWL"
+            value={form.soundsLike}
+            onChange={(e) => setForm(prev => ({ ...prev, soundsLike: e.target.value }))}
+          />
+          <Input
+            placeholder="IPA (optional), e.g. jɔːl"
+            value={form.ipa}
+            onChange={(e) => setForm(prev => ({ ...prev, ipa: e.target.value }))}
+          />
+          <div className="flex gap-1">
+            <Button onClick={() => saveMutation.mutate()} disabled={!canSave || saveMutation.isPending}>
+              {saveMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : editingId ? (
+                "Save"
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </>
+              )}
+            </Button>
+            {editingId && (
+              <Button variant="ghost" onClick={() => { setEditingId(null); setForm(EMPTY_FORM); }} title="Cancel editing">
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading dictionary...</p>
+        ) : pronunciations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pronunciations yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Word</TableHead>
+                <TableHead>Sounds Like</TableHead>
+                <TableHead>IPA</TableHead>
+                <TableHead className="w-24"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pronunciations.map((pronunciation) => (
+                <TableRow key={pronunciation.id}>
+                  <TableCell className="font-medium">{pronunciation.term}</TableCell>
+                  <TableCell>{pronunciation.soundsLike || "—"}</TableCell>
+                  <TableCell className="font-mono">{pronunciation.ipa || "—"}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(pronunciation)} title="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(pronunciation.id)}
+                        disabled={deleteMutation.isPending}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,408 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest } from '@/lib/queryClient';
+import { Headphones, Loader2, Pause, Play, SkipBack, SkipForward, X } from 'lucide-react';
+
+interface VoiceOption {
+  id: string;
+  name: string;
+  accent: string;
+}
+
+interface TTSProviderOption {
+  id: string;
+  name: string;
+  available: boolean;
+  voices: VoiceOption[];
+}
+
+// A sentence as character offsets into the editor's text nodes, in document order
+interface ProofSentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface ProofListeningBarProps {
+  editorRef: RefObject<HTMLDivElement>;
+  chapterId: string;
+  content: string; // Editor HTML; sentences are re-read from the editor whenever it changes
+  onClose: () => void;
+}
+
+const HIGHLIGHT_NAME = 'proof-listening';
+const PREFETCH_AHEAD = 2;
+const BLOCK_TAGS = ['P', 'DIV', 'LI', 'BLOCKQUOTE', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6'];
+// Text up to and including its closing punctuation and any quote or bracket after it
+const SENTENCE_PATTERN = /[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)/g;
+
+function textNodesOf(root: HTMLElement): Text[] {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  return nodes;
+}
+
+function blockOf(node: Node, root: HTMLElement): Node {
+  let current = node.parentNode;
+  while (current && current !== root) {
+    if (BLOCK_TAGS.includes((current as Element).tagName)) return current;
+    current = current.parentNode;
+  }
+  return root;
+}
+
+// Sentences never run across paragraphs, so a heading or a line without a full stop still ends one
+function splitSentences(root: HTMLElement): ProofSentence[] {
+  const sentences: ProofSentence[] = [];
+  let offset = 0;
+  let block: Node | null = null;
+  let blockText = '';
+  let blockStart = 0;
+
+  const flush = () => {
+    for (const match of Array.from(blockText.matchAll(SENTENCE_PATTERN))) {
+      const text = match[0].trim();
+      if (!/[A-Za-z0-9]/.test(text)) continue;
+      const start = blockStart + (match.index ?? 0) + (match[0].length - match[0].trimStart().length);
+      sentences.push({ text: text.replace(/\s+/g, ' '), start, end: start + text.length });
+    }
+  };
+
+  for (const node of textNodesOf(root)) {
+    const nodeBlock = blockOf(node, root);
+    if (nodeBlock !== block) {
+      flush();
+      block = nodeBlock;
+      blockText = '';
+      blockStart = offset;
+    }
+    blockText += node.data;
+    offset += node.data.length;
+  }
+  flush();
+  return sentences;
+}
+
+function rangeFor(root: HTMLElement, start: number, end: number): Range | null {
+  const range = document.createRange();
+  let offset = 0;
+  let started = false;
+  for (const node of textNodesOf(root)) {
+    const nodeEnd = offset + node.data.length;
+    if (!started && start < nodeEnd) {
+      range.setStart(node, start - offset);
+      started = true;
+    }
+    if (started && end <= nodeEnd) {
+      range.setEnd(node, end - offset);
+      return range;
+    }
+    offset = nodeEnd;
+  }
+  return null;
+}
+
+// Firefox's caret lookup, which TypeScript's DOM types don't include yet
+interface CaretPositionDocument extends Document {
+  caretPositionFromPoint?(x: number, y: number): { offsetNode: Node; offset: number } | null;
+}
+
+// Character offset under a click, in the same terms as ProofSentence
+function offsetFromPoint(root: HTMLElement, x: number, y: number): number | null {
+  // caretRangeFromPoint in Chrome and Safari, caretPositionFromPoint in Firefox
+  const caretDocument: CaretPositionDocument = document;
+  const range = caretDocument.caretRangeFromPoint?.(x, y);
+  const position = range ? null : caretDocument.caretPositionFromPoint?.(x, y);
+  const container: Node | undefined = range?.startContainer ?? position?.offsetNode;
+  const caretOffset: number = range?.startOffset ?? position?.offset ?? 0;
+  if (!container || !root.contains(container) || container.nodeType !== Node.TEXT_NODE) {
+    return null;
+  }
+  let offset = 0;
+  for (const node of textNodesOf(root)) {
+    if (node === container) return offset + caretOffset;
+    offset += node.data.length;
+  }
+  return null;
+}
+
+export default function ProofListeningBar({ editorRef, chapterId, content, onClose }: ProofListeningBarProps) {
+  const [voice, setVoice] = useState(() => localStorage.getItem('textEditor-proofVoice') || '');
+  const [rate, setRate] = useState(1);
+  const [sentences, setSentences] = useState<ProofSentence[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const sentencesRef = useRef<ProofSentence[]>([]);
+  const indexRef = useRef(0);
+  const playTokenRef = useRef(0);
+  // Audio URL per voice and sentence text; the server caches too, so unchanged sentences are never regenerated
+  const audioUrlsRef = useRef(new Map<string, Promise<string>>());
+
+  const { data: providers = [] } = useQuery<TTSProviderOption[]>({
+    queryKey: ['/api/tts/providers'],
+    staleTime: 30 * 60 * 1000,
+  });
+  const availableProviders = providers.filter(provider => provider.available && provider.voices.length > 0);
+
+  // Free local voices by default, so proofing doesn't run up TTS costs
+  useEffect(() => {
+    if (availableProviders.length === 0) return;
+    if (availableProviders.some(provider => provider.voices.some(v => v.id === voice))) return;
+    const preferred = availableProviders.find(provider => provider.id === 'local') || availableProviders[0];
+    setVoice(preferred.voices[0].id);
+  }, [providers]);
+
+  useEffect(() => {
+    if (voice) localStorage.setItem('textEditor-proofVoice', voice);
+  }, [voice]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    const next = editor ? splitSentences(editor) : [];
+    sentencesRef.current = next;
+    setSentences(next);
+    if (indexRef.current >= next.length) {
+      indexRef.current = Math.max(0, next.length - 1);
+      setCurrentIndex(indexRef.current);
+    }
+  }, [content]);
+
+  const audioUrlFor = (text: string): Promise<string> => {
+    const cacheKey = `${voice}\n${text}`;
+    let url = audioUrlsRef.current.get(cacheKey);
+    if (!url) {
+      url = apiRequest('POST', `/api/chapters/${chapterId}/proof-audio`, { text, voice })
+        .then(response => response.json())
+        .then((result: { url: string }) => result.url);
+      // A failed request can be tried again
+      url.catch(() => audioUrlsRef.current.delete(cacheKey));
+      audioUrlsRef.current.set(cacheKey, url);
+    }
+    return url;
+  };
+
+  const stop = () => {
+    playTokenRef.current++;
+    audioRef.current?.pause();
+    setIsPlaying(false);
+    setIsLoading(false);
+  };
+
+  const playFrom = async (index: number) => {
+    const sentence = sentencesRef.current[index];
+    const audio = audioRef.current;
+    if (!sentence || !audio || !voice) {
+      stop();
+      return;
+    }
+
+    const token = ++playTokenRef.current;
+    indexRef.current = index;
+    setCurrentIndex(index);
+    setIsLoading(true);
+    try {
+      const url = await audioUrlFor(sentence.text);
+      if (token !== playTokenRef.current) return;
+      audio.src = url;
+      audio.playbackRate = rate;
+      await audio.play();
+      setIsPlaying(true);
+
+      // Have the next sentences ready so playback doesn't pause between them
+      for (const next of sentencesRef.current.slice(index + 1, index + 1 + PREFETCH_AHEAD)) {
+        audioUrlFor(next.text).catch(() => undefined);
+      }
+    } catch (error) {
+      if (token !== playTokenRef.current) return;
+      console.error('Proof-listening playback error:', error);
+      setIsPlaying(false);
+      const needsPremium = error instanceof Error && error.message.startsWith('403');
+      toast({
+        title: "Playback Failed",
+        description: needsPremium
+          ? "This voice requires a Premium subscription. Choose a local voice to proof-listen for free."
+          : "Could not read this sentence aloud. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      if (token === playTokenRef.current) setIsLoading(false);
+    }
+  };
+
+  // One audio element for the session; each sentence hands on to the next when it ends
+  useEffect(() => {
+    const audio = new Audio();
+    audioRef.current = audio;
+    return () => {
+      playTokenRef.current++;
+      audio.pause();
+      audio.removeAttribute('src');
+      audioRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const handleEnded = () => {
+      if (indexRef.current + 1 < sentencesRef.current.length) {
+        playFrom(indexRef.current + 1);
+      } else {
+        stop();
+      }
+    };
+    audio.addEventListener('ended', handleEnded);
+    return () => audio.removeEventListener('ended', handleEnded);
+  });
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  // A different voice means different audio; start the sentence again in the new voice
+  useEffect(() => {
+    if (isPlaying) playFrom(indexRef.current);
+  }, [voice]);
+
+  // Click a sentence in the editor to jump playback to it
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const handleClick = (e: MouseEvent) => {
+      if (window.getSelection()?.toString()) return;
+      const offset = offsetFromPoint(editor, e.clientX, e.clientY);
+      if (offset === null) return;
+      const index = sentencesRef.current.findIndex(sentence => offset >= sentence.start && offset <= sentence.end);
+      if (index >= 0) playFrom(index);
+    };
+    editor.addEventListener('click', handleClick);
+    return () => editor.removeEventListener('click', handleClick);
+  });
+
+  // Highlight the sentence being read without touching the editor's HTML, which is what gets saved
+  useEffect(() => {
+    const editor = editorRef.current;
+    const sentence = sentences[currentIndex];
+    if (!editor || !sentence || typeof CSS === 'undefined' || !CSS.highlights) return;
+
+    const range = rangeFor(editor, sentence.start, sentence.end);
+    if (!range) return;
+    CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(range));
+
+    const rect = range.getBoundingClientRect();
+    if (isPlaying && (rect.top < 120 || rect.bottom > window.innerHeight - 40)) {
+      window.scrollBy({ top: rect.top - window.innerHeight / 3, behavior: 'smooth' });
+    }
+    return () => {
+      CSS.highlights.delete(HIGHLIGHT_NAME);
+    };
+  }, [sentences, currentIndex, isPlaying]);
+
+  const togglePlayback = () => {
+    if (isPlaying || isLoading) {
+      stop();
+    } else {
+      playFrom(indexRef.current);
+    }
+  };
+
+  const currentSentence = sentences[currentIndex];
+
+  return (
+    <div className="border-t px-4 py-2 bg-amber-50/60 dark:bg-amber-900/10">
+      <div className="flex items-center gap-3 flex-wrap">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Headphones className="w-4 h-4" />
+          Listen
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => playFrom(Math.max(0, currentIndex - 1))}
+            disabled={currentIndex === 0 || sentences.length === 0}
+            title="Previous sentence"
+          >
+            <SkipBack className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={togglePlayback}
+            disabled={sentences.length === 0 || !voice}
+            title={isPlaying ? "Pause" : "Play from the highlighted sentence"}
+          >
+            {isLoading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : isPlaying ? (
+              <Pause className="w-4 h-4" />
+            ) : (
+              <Play className="w-4 h-4" />
+            )}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => playFrom(Math.min(sentences.length - 1, currentIndex + 1))}
+            disabled={currentIndex >= sentences.length - 1}
+            title="Next sentence"
+          >
+            <SkipForward className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <span className="text-xs text-neutral-500">
+          {sentences.length === 0 ? 'Nothing to read yet' : `Sentence ${currentIndex + 1} of ${sentences.length}`}
+        </span>
+
+        <Select value={voice} onValueChange={setVoice}>
+          <SelectTrigger className="w-56 h-8">
+            <SelectValue placeholder={availableProviders.length ? "Select a voice" : "No voices available"} />
+          </SelectTrigger>
+          <SelectContent>
+            {availableProviders.map(provider => (
+              <SelectGroup key={provider.id}>
+                <SelectLabel>{provider.name}</SelectLabel>
+                {provider.voices.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name} ({option.accent})
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={rate.toString()} onValueChange={(value) => setRate(parseFloat(value))}>
+          <SelectTrigger className="w-24 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="0.75">0.75x</SelectItem>
+            <SelectItem value="1">1x</SelectItem>
+            <SelectItem value="1.25">1.25x</SelectItem>
+            <SelectItem value="1.5">1.5x</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <Button variant="ghost" size="sm" onClick={onClose} title="Stop listening" className="ml-auto">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      {currentSentence && (
+        <p className="text-xs text-neutral-500 mt-1 truncate" title={currentSentence.text}>
+          {currentSentence.text}
+        </p>
+      )}
+    </div>
+  );
+}
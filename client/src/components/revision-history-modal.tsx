@@ -0,0 +1,245 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type Chapter, type ChapterRevision, type TextDiffResult } from "@shared/schema";
+import { History, RotateCcw, Save, Loader2 } from "lucide-react";
+
+interface RevisionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  chapterId: string;
+  onRestored: (chapter: Chapter) => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  autosave: "Autosave",
+  manual: "Saved version",
+  pre_restore: "Before restore",
+};
+
+const CURRENT_VERSION = "current";
+
+function formatRevisionDate(date: Date | string | null) {
+  return date ? new Date(date).toLocaleString() : "Unknown date";
+}
+
+export default function RevisionHistoryModal({ isOpen, onClose, chapterId, onRestored }: RevisionHistoryModalProps) {
+  const [fromVersion, setFromVersion] = useState<string>("");
+  const [toVersion, setToVersion] = useState<string>(CURRENT_VERSION);
+  const [label, setLabel] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions = [], isLoading } = useQuery<ChapterRevision[]>({
+    queryKey: ["/api/chapters", chapterId, "revisions"],
+    enabled: isOpen,
+  });
+
+  // Default to comparing the most recent snapshot against the current chapter
+  useEffect(() => {
+    if (isOpen && revisions.length > 0 && !fromVersion) {
+      setFromVersion(revisions[0].id);
+    }
+  }, [isOpen, revisions, fromVersion]);
+
+  const { data: diff, isFetching: isDiffLoading } = useQuery<TextDiffResult>({
+    queryKey: ["/api/chapters", chapterId, "revisions", "diff", fromVersion, toVersion],
+    enabled: isOpen && !!fromVersion && fromVersion !== toVersion,
+    queryFn: async () => {
+      const response = await apiRequest(
+        "GET",
+        `/api/chapters/${chapterId}/revisions/diff?from=${encodeURIComponent(fromVersion)}&to=${encodeURIComponent(toVersion)}`
+      );
+      return response.json();
+    },
+  });
+
+  const snapshotMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/chapters/${chapterId}/revisions`, { label });
+      return response.json();
+    },
+    onSuccess: () => {
+      setLabel("");
+      queryClient.invalidateQueries({ queryKey: ["/api/chapters", chapterId, "revisions"] });
+      toast({ title: "Version Saved", description: "A snapshot of this chapter has been added to its history." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save version. Please try again.", variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const response = await apiRequest("POST", `/api/chapters/${chapterId}/revisions/${revisionId}/restore`);
+      return response.json() as Promise<Chapter>;
+    },
+    onSuccess: (chapter) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chapters", chapterId] });
+      onRestored(chapter);
+      toast({ title: "Version Restored", description: "The previous text was kept in history in case you need it back." });
+      onClose();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to restore version. Please try again.", variant: "destructive" });
+    },
+  });
+
+  const handleRestore = (revision: ChapterRevision) => {
+    if (confirm(`Restore the version from ${formatRevisionDate(revision.createdAt)}? Your current text will be kept in history.`)) {
+      restoreMutation.mutate(revision.id);
+    }
+  };
+
+  const versionOptions = (
+    <>
+      <SelectItem value={CURRENT_VERSION}>Current version</SelectItem>
+      {revisions.map((revision) => (
+        <SelectItem key={revision.id} value={revision.id}>
+          {revision.label || formatRevisionDate(revision.createdAt)} ({revision.wordCount} words)
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Revision History
+          </DialogTitle>
+          <DialogDescription>
+            Snapshots are taken automatically as you save. Compare any two versions or restore an earlier one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 grid grid-cols-3 gap-4 min-h-0">
+          {/* Revision list */}
+          <div className="flex flex-col min-h-0 border rounded-lg">
+            <div className="p-3 border-b flex gap-2">
+              <Input
+                placeholder="Version name (optional)"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="h-8 text-sm"
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => snapshotMutation.mutate()}
+                disabled={snapshotMutation.isPending}
+                title="Save a named version of the current chapter"
+              >
+                <Save className="w-4 h-4" />
+              </Button>
+            </div>
+            <ScrollArea className="flex-1">
+              {isLoading ? (
+                <div className="p-4 text-sm text-neutral-500">Loading history...</div>
+              ) : revisions.length === 0 ? (
+                <div className="p-4 text-sm text-neutral-500">
+                  No earlier versions yet. A snapshot is taken the next time this chapter is saved.
+                </div>
+              ) : (
+                <div className="divide-y">
+                  {revisions.map((revision) => (
+                    <div
+                      key={revision.id}
+                      className={`p-3 space-y-1 cursor-pointer hover:bg-neutral-50 ${fromVersion === revision.id ? "bg-blue-50" : ""}`}
+                      onClick={() => setFromVersion(revision.id)}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium truncate">
+                          {revision.label || formatRevisionDate(revision.createdAt)}
+                        </span>
+                        <Badge variant="secondary" className="text-xs shrink-0">
+                          {SOURCE_LABELS[revision.source] || revision.source}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center justify-between text-xs text-neutral-500">
+                        <span>
+                          {revision.label ? `${formatRevisionDate(revision.createdAt)} • ` : ""}
+                          {revision.wordCount} words
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 px-2"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleRestore(revision);
+                          }}
+                          disabled={restoreMutation.isPending}
+                        >
+                          <RotateCcw className="w-3 h-3 mr-1" />
+                          Restore
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </div>
+
+          {/* Word-level diff */}
+          <div className="col-span-2 flex flex-col min-h-0 border rounded-lg">
+            <div className="p-3 border-b flex items-center gap-2 text-sm">
+              <span className="text-neutral-500">Compare</span>
+              <Select value={fromVersion} onValueChange={setFromVersion}>
+                <SelectTrigger className="h-8 flex-1">
+                  <SelectValue placeholder="Select a version" />
+                </SelectTrigger>
+                <SelectContent>{versionOptions}</SelectContent>
+              </Select>
+              <span className="text-neutral-500">with</span>
+              <Select value={toVersion} onValueChange={setToVersion}>
+                <SelectTrigger className="h-8 flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>{versionOptions}</SelectContent>
+              </Select>
+            </div>
+            {diff && fromVersion !== toVersion && (
+              <div className="px-3 py-2 border-b text-xs flex gap-4">
+                <span className="text-green-700">+{diff.wordsAdded} words added</span>
+                <span className="text-red-700">-{diff.wordsRemoved} words removed</span>
+              </div>
+            )}
+            <ScrollArea className="flex-1">
+              <div className="p-4 text-sm leading-relaxed whitespace-pre-wrap font-serif">
+                {!fromVersion || fromVersion === toVersion ? (
+                  <span className="text-neutral-500">Select two different versions to see what changed.</span>
+                ) : isDiffLoading ? (
+                  <span className="flex items-center gap-2 text-neutral-500">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Comparing versions...
+                  </span>
+                ) : (
+                  diff?.segments.map((segment, index) =>
+                    segment.type === "added" ? (
+                      <ins key={index} className="bg-green-100 text-green-900 no-underline">{segment.text}</ins>
+                    ) : segment.type === "removed" ? (
+                      <del key={index} className="bg-red-100 text-red-900">{segment.text}</del>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )
+                )}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
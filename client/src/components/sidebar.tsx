@@ -29,7 +29,10 @@ import {
   Palette,
   HelpCircle,
   Sparkles,
-  Volume2
+  Volume2,
+  ListChecks,
+  FileText,
+  BookOpenCheck
 } from "lucide-react";
 
 interface SidebarProps {
@@ -270,6 +273,12 @@ const Sidebar = memo(function Sidebar({ currentProject, onOpenCharacterModal }:
                 <span className="text-sm text-neutral-600">Plot Outliner</span>
               </Button>
             </Link>
+            <Link href={`/manuscript-analysis/${currentProject.id}`}>
+              <Button variant="ghost" className="w-full justify-start p-2 h-auto">
+                <BookOpenCheck className="w-4 h-4 mr-3 text-neutral-400" />
+                <span className="text-sm text-neutral-600">Manuscript Analysis</span>
+              </Button>
+            </Link>
             <Link href={`/writing-statistics/${currentProject.id}`}>
               <Button variant="ghost" className="w-full justify-start p-2 h-auto">
                 <BarChart3 className="w-4 h-4 mr-3 text-neutral-400" />
@@ -282,6 +291,18 @@ const Sidebar = memo(function Sidebar({ currentProject, onOpenCharacterModal }:
                 <span className="text-sm text-neutral-600">Agent & Editor Finder</span>
               </Button>
             </Link>
+            <Link href={`/submissions/${currentProject.id}`}>
+              <Button variant="ghost" className="w-full justify-start p-2 h-auto">
+                <ListChecks className="w-4 h-4 mr-3 text-neutral-400" />
+                <span className="text-sm text-neutral-600">Submission Tracker</span>
+              </Button>
+            </Link>
+            <Link href={`/query-workshop/${currentProject.id}`}>
+              <Button variant="ghost" className="w-full justify-start p-2 h-auto">
+                <FileText className="w-4 h-4 mr-3 text-neutral-400" />
+                <span className="text-sm text-neutral-600">Query Workshop</span>
+              </Button>
+            </Link>
             <Link href={`/audiobook-generator/${currentProject.id}`}>
               <Button variant="ghost" className="w-full justify-start p-2 h-auto">
                 <Volume2 className="w-4 h-4 mr-3 text-neutral-400" />
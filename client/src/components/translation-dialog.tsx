@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogTrigger
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import {
+  TRANSLATION_LANGUAGES,
+  type Chapter,
+  type Project,
+  type Translation,
+  type TranslationLanguage
+} from "@shared/schema";
+import { Languages, Loader2, Copy, Download, Trash2 } from "lucide-react";
+
+interface TranslationDialogProps {
+  project: Project;
+  children: React.ReactNode;
+}
+
+type TranslationSummary = Omit<Translation, 'translatedContent'>;
+
+type TranslationExportFormat = 'docx' | 'epub' | 'pdf' | 'md';
+
+const EXPORT_FORMATS: Record<TranslationExportFormat, string> = {
+  docx: "Word (DOCX)",
+  epub: "EPUB",
+  pdf: "PDF",
+  md: "Markdown",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-neutral-100 text-neutral-600",
+  translating: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+const LANGUAGE_OPTIONS = Object.entries(TRANSLATION_LANGUAGES) as [TranslationLanguage, string][];
+
+export default function TranslationDialog({ project, children }: TranslationDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sourceLanguage, setSourceLanguage] = useState<TranslationLanguage>('en');
+  const [targetLanguage, setTargetLanguage] = useState<TranslationLanguage>('es');
+  const [scope, setScope] = useState<'chapter' | 'fullbook'>('fullbook');
+  const [selectedChapterId, setSelectedChapterId] = useState<string>("");
+  const [exportFormats, setExportFormats] = useState<Record<string, TranslationExportFormat>>({});
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: chapters = [] } = useQuery<Chapter[]>({
+    queryKey: ["/api/projects", project.id, "chapters"],
+    enabled: isOpen,
+  });
+
+  // Poll while a job is still running so progress moves without reopening the dialog
+  const { data: translations = [], isLoading } = useQuery<TranslationSummary[]>({
+    queryKey: ["/api/projects", project.id, "translations"],
+    enabled: isOpen,
+    refetchInterval: (query) =>
+      query.state.data?.some(translation => translation.status === 'pending' || translation.status === 'translating')
+        ? 3000
+        : false,
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${project.id}/translations`, {
+        sourceLanguage,
+        targetLanguage,
+        scope,
+        selectedChapterId: scope === 'chapter' ? selectedChapterId : undefined,
+      });
+      return response.json() as Promise<Translation>;
+    },
+    onSuccess: (translation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id, "translations"] });
+      const overage = translation.estimatedCost ? ` Estimated overage charge: $${(translation.estimatedCost / 100).toFixed(2)}.` : "";
+      toast({
+        title: "Translation Started",
+        description: `Translating ${translation.originalCharacterCount?.toLocaleString()} characters into ${TRANSLATION_LANGUAGES[targetLanguage]}.${overage}`,
+      });
+    },
+    onError: (error: Error) => {
+      const description = error.message.startsWith("403")
+        ? "Translation requires a Premium subscription."
+        : "Failed to start translation. Please try again.";
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+  });
+
+  const saveAsProjectMutation = useMutation({
+    mutationFn: async (translationId: string) => {
+      const response = await apiRequest("POST", `/api/translations/${translationId}/project`);
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: (newProject) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      toast({ title: "Translated Project Created", description: `Created "${newProject.title}" as a new project.` });
+      setIsOpen(false);
+      setLocation(`/writer/${newProject.id}`);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save the translation as a project.", variant: "destructive" });
+    },
+  });
+
+  const exportMutation = useMutation({
+    mutationFn: async ({ translationId, format }: { translationId: string; format: TranslationExportFormat }) => {
+      return await apiRequest("POST", `/api/translations/${translationId}/export`, { format });
+    },
+    onSuccess: async (response) => {
+      const filenameMatch = response.headers.get('content-disposition')?.match(/filename="([^"]+)"/);
+      const filename = filenameMatch ? filenameMatch[1] : `${project.title.replace(/[^a-zA-Z0-9]/g, '_')}_translation`;
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({ title: "Export Complete", description: `Your translation has been exported as ${filename}` });
+    },
+    onError: () => {
+      toast({ title: "Export Failed", description: "There was an error exporting your translation. Please try again.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (translationId: string) => {
+      await apiRequest("DELETE", `/api/translations/${translationId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id, "translations"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete translation.", variant: "destructive" });
+    },
+  });
+
+  const chapterTitle = (chapterId: string | null) =>
+    chapters.find(chapter => chapter.id === chapterId)?.title || "Deleted chapter";
+
+  const canStart = sourceLanguage !== targetLanguage && (scope === 'fullbook' || !!selectedChapterId);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {children}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Languages className="w-5 h-5" />
+            Translate Manuscript
+          </DialogTitle>
+          <DialogDescription>
+            Translate a chapter or all of "{project.title}" while keeping its formatting. Finished translations can be
+            saved as a new project or exported directly.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 flex flex-col space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>From</Label>
+              <Select
+                value={sourceLanguage}
+                onValueChange={(value) => {
+                  setSourceLanguage(value as TranslationLanguage);
+                  if (value === targetLanguage) setTargetLanguage(value === 'en' ? 'es' : 'en');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGE_OPTIONS.map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Into</Label>
+              <Select value={targetLanguage} onValueChange={(value) => setTargetLanguage(value as TranslationLanguage)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LANGUAGE_OPTIONS.filter(([code]) => code !== sourceLanguage).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as 'chapter' | 'fullbook')}>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="fullbook" id="translate-fullbook" />
+              <Label htmlFor="translate-fullbook">Full book</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="chapter" id="translate-chapter" />
+              <Label htmlFor="translate-chapter">Single chapter</Label>
+            </div>
+          </RadioGroup>
+
+          {scope === 'chapter' && (
+            <Select value={selectedChapterId} onValueChange={setSelectedChapterId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a chapter" />
+              </SelectTrigger>
+              <SelectContent>
+                {chapters
+                  .filter(chapter => chapter.chapterType !== 'table_of_contents')
+                  .map(chapter => (
+                    <SelectItem key={chapter.id} value={chapter.id}>{chapter.title}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Button
+            onClick={() => startMutation.mutate()}
+            disabled={!canStart || startMutation.isPending}
+            className="w-full"
+          >
+            {startMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Languages className="w-4 h-4 mr-2" />
+            )}
+            Start Translation
+          </Button>
+          <p className="text-xs text-neutral-500">
+            Translation uses your monthly character allowance. Characters beyond it are billed at your plan's overage rate.
+          </p>
+
+          <Separator />
+
+          <ScrollArea className="flex-1 min-h-[200px]">
+            {isLoading ? (
+              <p className="text-sm text-neutral-500">Loading translations...</p>
+            ) : translations.length === 0 ? (
+              <p className="text-sm text-neutral-500">No translations yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {translations.map(translation => (
+                  <div key={translation.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">
+                          {TRANSLATION_LANGUAGES[translation.sourceLanguage as TranslationLanguage] || translation.sourceLanguage} →{" "}
+                          {TRANSLATION_LANGUAGES[translation.targetLanguage as TranslationLanguage] || translation.targetLanguage}
+                        </p>
+                        <p className="text-xs text-neutral-500">
+                          {translation.scope === 'chapter' ? chapterTitle(translation.selectedChapterId) : "Full book"} •{" "}
+                          {translation.originalCharacterCount?.toLocaleString()} characters
+                          {translation.createdAt ? ` • ${new Date(translation.createdAt).toLocaleString()}` : ""}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Badge className={STATUS_STYLES[translation.status || 'pending']}>{translation.status}</Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            if (confirm("Delete this translation?")) {
+                              deleteMutation.mutate(translation.id);
+                            }
+                          }}
+                          title="Delete translation"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {(translation.status === 'pending' || translation.status === 'translating') && (
+                      <Progress value={translation.progress || 0} />
+                    )}
+
+                    {translation.status === 'failed' && translation.errorMessage && (
+                      <p className="text-sm text-red-700">{translation.errorMessage}</p>
+                    )}
+
+                    {translation.status === 'completed' && (
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => saveAsProjectMutation.mutate(translation.id)}
+                          disabled={saveAsProjectMutation.isPending}
+                        >
+                          <Copy className="w-4 h-4 mr-2" />
+                          Save as New Project
+                        </Button>
+                        <Select
+                          value={exportFormats[translation.id] || 'docx'}
+                          onValueChange={(value) => setExportFormats(formats => ({ ...formats, [translation.id]: value as TranslationExportFormat }))}
+                        >
+                          <SelectTrigger className="w-36 h-9">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(EXPORT_FORMATS) as TranslationExportFormat[]).map(format => (
+                              <SelectItem key={format} value={format}>{EXPORT_FORMATS[format]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => exportMutation.mutate({ translationId: translation.id, format: exportFormats[translation.id] || 'docx' })}
+                          disabled={exportMutation.isPending}
+                        >
+                          {exportMutation.isPending ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <Download className="w-4 h-4 mr-2" />
+                          )}
+                          Export
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
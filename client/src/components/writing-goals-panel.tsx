@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { type Project, type WritingGoal, type WritingGoalProgress } from "@shared/schema";
+import { Archive, Bell, BellOff, CalendarClock, Flame, Loader2, MoreHorizontal, Plus, Target, Trash2, Trophy } from "lucide-react";
+
+interface WritingGoalsPanelProps {
+  projects: Project[];
+}
+
+type GoalKind = WritingGoal["kind"];
+
+interface GoalForm {
+  projectId: string;
+  kind: GoalKind;
+  title: string;
+  targetWords: string;
+  startDate: string;
+  endDate: string;
+  remindersEnabled: boolean;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  deadline: "Deadline",
+  daily: "Daily quota",
+  challenge: "Challenge",
+};
+
+// YYYY-MM-DD in the browser's time zone, which is the zone goals are stored in
+function localToday(): string {
+  return new Date().toLocaleDateString("en-CA");
+}
+
+function formatDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+function emptyForm(projectId: string): GoalForm {
+  return {
+    projectId,
+    kind: "deadline",
+    title: "",
+    targetWords: "80000",
+    startDate: localToday(),
+    endDate: "",
+    remindersEnabled: true,
+  };
+}
+
+// National Novel Writing Month: 50,000 words through November, this year's or next year's if it's over
+function nanowrimoForm(projectId: string): GoalForm {
+  const today = localToday();
+  let year = new Date().getFullYear();
+  if (today > `${year}-11-30`) year++;
+  const startDate = `${year}-11-01`;
+  return {
+    projectId,
+    kind: "challenge",
+    title: `NaNoWriMo ${year}`,
+    targetWords: "50000",
+    startDate: startDate > today ? startDate : today,
+    endDate: `${year}-11-30`,
+    remindersEnabled: true,
+  };
+}
+
+function goalSummary(progress: WritingGoalProgress): string {
+  const { goal } = progress;
+  if (progress.state === "upcoming") {
+    return `Starts ${formatDate(goal.startDate)}`;
+  }
+  if (progress.state === "ended") {
+    return `Ended ${formatDate(goal.endDate!)} with ${progress.wordsWritten.toLocaleString()} words`;
+  }
+  if (goal.kind === "daily") {
+    return `${progress.wordsWritten.toLocaleString()} / ${goal.targetWords.toLocaleString()} words today`;
+  }
+  const total = `${progress.wordsWritten.toLocaleString()} / ${goal.targetWords.toLocaleString()} words`;
+  return goal.endDate ? `${total} by ${formatDate(goal.endDate)}` : total;
+}
+
+export default function WritingGoalsPanel({ projects }: WritingGoalsPanelProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<GoalForm>(emptyForm(""));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: goals = [], isLoading } = useQuery<WritingGoalProgress[]>({
+    queryKey: ["/api/goals"],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  const openDialog = (preset: GoalForm) => {
+    setForm(preset);
+    setIsDialogOpen(true);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${form.projectId}/goals`, {
+        kind: form.kind,
+        title: form.title.trim(),
+        targetWords: parseInt(form.targetWords, 10),
+        startDate: form.startDate,
+        endDate: form.kind === "daily" ? null : form.endDate || null,
+        remindersEnabled: form.remindersEnabled,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      return response.json() as Promise<WritingGoalProgress>;
+    },
+    onSuccess: () => {
+      setIsDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({ title: "Goal set", description: "Your progress will update as you write." });
+    },
+    onError: (error: Error) => {
+      // Validation messages from the server are worth showing as they are
+      const match = error.message.match(/^400: (.*)$/);
+      let description = "Failed to save goal. Please try again.";
+      if (match) {
+        try {
+          description = JSON.parse(match[1]).message || description;
+        } catch {
+          // Not JSON; keep the generic message
+        }
+      }
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<Pick<WritingGoal, "remindersEnabled" | "status">> }) => {
+      const response = await apiRequest("PATCH", `/api/goals/${id}`, updates);
+      return response.json() as Promise<WritingGoalProgress>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update goal.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/goals/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete goal.", variant: "destructive" });
+    },
+  });
+
+  const targetWords = parseInt(form.targetWords, 10);
+  const canSave = !!form.projectId && !!form.title.trim() && targetWords > 0 && !!form.startDate
+    && (form.kind === "daily" || !!form.endDate);
+  const defaultProjectId = projects[0]?.id || "";
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-neutral-800">Writing Goals</h3>
+        {projects.length > 0 && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => openDialog(nanowrimoForm(defaultProjectId))}>
+              <Trophy className="w-4 h-4 mr-2" />
+              NaNoWriMo
+            </Button>
+            <Button size="sm" onClick={() => openDialog(emptyForm(defaultProjectId))}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Goal
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-neutral-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading goals...
+        </div>
+      ) : goals.length === 0 ? (
+        <Card>
+          <CardContent className="py-6 text-center text-sm text-neutral-600">
+            Set a deadline, a daily quota or a challenge like NaNoWriMo, and we'll work out how much to write each day.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {goals.map(progress => {
+            const { goal } = progress;
+            return (
+              <Card key={goal.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <CardTitle className="text-base truncate">{goal.title}</CardTitle>
+                      <p className="text-sm text-neutral-500 truncate">{progress.projectTitle}</p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Badge variant={progress.state === "met" ? "default" : "secondary"}>
+                        {progress.state === "met" ? "Done" : KIND_LABELS[goal.kind] || goal.kind}
+                      </Badge>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+                            <MoreHorizontal className="w-4 h-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onClick={() => updateMutation.mutate({ id: goal.id, updates: { remindersEnabled: !goal.remindersEnabled } })}
+                          >
+                            {goal.remindersEnabled ? <BellOff className="w-4 h-4 mr-2" /> : <Bell className="w-4 h-4 mr-2" />}
+                            {goal.remindersEnabled ? "Turn off reminders" : "Turn on reminders"}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => updateMutation.mutate({ id: goal.id, updates: { status: "archived" } })}>
+                            <Archive className="w-4 h-4 mr-2" />
+                            Archive
+                          </DropdownMenuItem>
+                          <DropdownMenuItem className="text-red-600" onClick={() => deleteMutation.mutate(goal.id)}>
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div>
+                    <div className="flex justify-between text-xs text-neutral-500 mb-1">
+                      <span>{goalSummary(progress)}</span>
+                      <span>{progress.percentComplete}%</span>
+                    </div>
+                    <Progress value={progress.percentComplete} className="h-2" />
+                  </div>
+
+                  {progress.state === "active" && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-1 text-neutral-700">
+                        <Target className="w-4 h-4 text-primary" />
+                        {Math.max(0, progress.wordsToday).toLocaleString()} / {progress.todayQuota.toLocaleString()} today
+                      </span>
+                      {progress.daysRemaining !== null && (
+                        <span className="flex items-center gap-1 text-neutral-500">
+                          <CalendarClock className="w-4 h-4" />
+                          {progress.daysRemaining} day{progress.daysRemaining === 1 ? "" : "s"} left
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-1 text-xs text-neutral-500">
+                    <Flame className={`w-3 h-3 ${progress.currentStreak > 0 ? "text-orange-500" : ""}`} />
+                    <span>{progress.currentStreak}-day streak</span>
+                    {progress.state === "active" && progress.streakAtRisk && (
+                      <Badge variant="outline" className="ml-1 text-orange-600 border-orange-300">Write today to keep it</Badge>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Writing Goal</DialogTitle>
+            <DialogDescription>
+              Daily targets are recalculated every day from what is left and the days remaining.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Project</Label>
+              <Select value={form.projectId} onValueChange={projectId => setForm({ ...form, projectId })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>{project.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select value={form.kind} onValueChange={kind => setForm({ ...form, kind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="deadline">Deadline: reach a total word count by a date</SelectItem>
+                  <SelectItem value="daily">Daily quota: write a set number of words every day</SelectItem>
+                  <SelectItem value="challenge">Challenge: write a number of new words between two dates</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="goal-title">Name</Label>
+              <Input
+                id="goal-title"
+                value={form.title}
+                onChange={event => setForm({ ...form, title: event.target.value })}
+                placeholder={form.kind === "deadline" ? "First draft for my editor" : form.kind === "daily" ? "Morning pages" : "Summer sprint"}
+              />
+            </div>
+            <div>
+              <Label htmlFor="goal-target">
+                {form.kind === "deadline" ? "Manuscript word count" : form.kind === "daily" ? "Words per day" : "New words"}
+              </Label>
+              <Input
+                id="goal-target"
+                type="number"
+                min={1}
+                value={form.targetWords}
+                onChange={event => setForm({ ...form, targetWords: event.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="goal-start">Starts</Label>
+                <Input
+                  id="goal-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={event => setForm({ ...form, startDate: event.target.value })}
+                />
+              </div>
+              {form.kind !== "daily" && (
+                <div>
+                  <Label htmlFor="goal-end">{form.kind === "deadline" ? "Deadline" : "Ends"}</Label>
+                  <Input
+                    id="goal-end"
+                    type="date"
+                    min={form.startDate}
+                    value={form.endDate}
+                    onChange={event => setForm({ ...form, endDate: event.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="goal-reminders" className="text-sm font-normal">
+                E-mail me in the evening if my streak is at risk
+              </Label>
+              <Switch
+                id="goal-reminders"
+                checked={form.remindersEnabled}
+                onCheckedChange={remindersEnabled => setForm({ ...form, remindersEnabled })}
+              />
+            </div>
+            <div className="flex gap-2 pt-2">
+              <Button className="flex-1" disabled={!canSave || createMutation.isPending} onClick={() => createMutation.mutate()}>
+                {createMutation.isPending ? "Saving..." : "Set Goal"}
+              </Button>
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
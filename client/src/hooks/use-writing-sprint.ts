@@ -0,0 +1,154 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { type WritingSprint } from "@shared/schema";
+
+// How often the chapter's word count is reported while a sprint runs
+const PROGRESS_INTERVAL_MS = 30 * 1000;
+const ACTIVE_SPRINT_KEY = ["/api/sprints/active"];
+
+export interface SprintOptions {
+  durationMinutes: number | null;
+  targetWords: number | null;
+}
+
+export interface WritingSprintState {
+  sprint: WritingSprint | null; // The running sprint, if it belongs to this chapter
+  otherChapterSprint: WritingSprint | null; // A sprint running in a different chapter
+  wordsWritten: number;
+  elapsedSeconds: number;
+  remainingSeconds: number | null; // null for an open-ended sprint
+  lastFinished: WritingSprint | null;
+  isStarting: boolean;
+  startSprint: (options: SprintOptions) => void;
+  finishSprint: () => void;
+  abandonSprint: () => void;
+  endOtherSprint: () => void;
+  dismissFinished: () => void;
+}
+
+// The author's running sprint, kept on the server so a reload or a closed tab picks it back up
+export function useWritingSprint(chapterId: string | undefined, projectId: string | undefined, wordCount: number): WritingSprintState {
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(Date.now());
+  const [lastFinished, setLastFinished] = useState<WritingSprint | null>(null);
+  const reportedWordCount = useRef<number | null>(null);
+  const wordCountRef = useRef(wordCount);
+  wordCountRef.current = wordCount;
+
+  const { data: activeSprint = null } = useQuery<WritingSprint | null>({
+    queryKey: ACTIVE_SPRINT_KEY,
+  });
+  const sprint = activeSprint && activeSprint.chapterId === chapterId ? activeSprint : null;
+  const otherChapterSprint = activeSprint && activeSprint.chapterId !== chapterId ? activeSprint : null;
+
+  const onEnded = (ended: WritingSprint | undefined) => {
+    queryClient.setQueryData(ACTIVE_SPRINT_KEY, null);
+    if (ended && ended.chapterId === chapterId) {
+      setLastFinished(ended);
+    }
+    if (projectId) {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "sprints"] });
+    }
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async (options: SprintOptions) => {
+      const response = await apiRequest("POST", `/api/chapters/${chapterId}/sprints`, { ...options, wordCount });
+      return response.json() as Promise<WritingSprint>;
+    },
+    onSuccess: (started) => {
+      reportedWordCount.current = started.startWordCount;
+      setLastFinished(null);
+      setNow(Date.now());
+      queryClient.setQueryData(ACTIVE_SPRINT_KEY, started);
+    },
+  });
+
+  const finishMutation = useMutation({
+    mutationFn: async ({ target, abandon }: { target: WritingSprint; abandon: boolean }) => {
+      // Another chapter's sprint keeps the words it last reported
+      const body = target.chapterId === chapterId ? { wordCount: wordCountRef.current, abandon } : { abandon };
+      const response = await apiRequest("POST", `/api/sprints/${target.id}/finish`, body);
+      return response.json() as Promise<WritingSprint>;
+    },
+    onSuccess: onEnded,
+  });
+
+  const progressMutation = useMutation({
+    mutationFn: async ({ target, count }: { target: WritingSprint; count: number }) => {
+      const response = await apiRequest("PATCH", `/api/sprints/${target.id}`, { wordCount: count });
+      return response.json() as Promise<WritingSprint>;
+    },
+    onSuccess: (updated) => {
+      if (updated.status !== "active") {
+        onEnded(updated);
+      } else {
+        queryClient.setQueryData(ACTIVE_SPRINT_KEY, updated);
+      }
+    },
+  });
+
+  // Tick the clock once a second while a sprint runs
+  useEffect(() => {
+    if (!sprint) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [sprint?.id]);
+
+  // Report progress periodically, and once more if the page is closed mid-sprint
+  useEffect(() => {
+    if (!sprint) return;
+    reportedWordCount.current = reportedWordCount.current ?? sprint.startWordCount + sprint.wordsAdded;
+
+    const report = () => {
+      if (wordCountRef.current !== reportedWordCount.current) {
+        reportedWordCount.current = wordCountRef.current;
+        progressMutation.mutate({ target: sprint, count: wordCountRef.current });
+      }
+    };
+    const reportOnExit = () => {
+      if (wordCountRef.current === reportedWordCount.current) return;
+      fetch(`/api/sprints/${sprint.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ wordCount: wordCountRef.current }),
+        credentials: "include",
+        keepalive: true,
+      });
+    };
+
+    const timer = setInterval(report, PROGRESS_INTERVAL_MS);
+    window.addEventListener("pagehide", reportOnExit);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("pagehide", reportOnExit);
+      reportedWordCount.current = null;
+    };
+  }, [sprint?.id]);
+
+  const elapsedSeconds = sprint ? Math.max(0, Math.floor((now - new Date(sprint.startedAt).getTime()) / 1000)) : 0;
+  const remainingSeconds = sprint?.durationMinutes ? Math.max(0, sprint.durationMinutes * 60 - elapsedSeconds) : null;
+
+  // The countdown finishing ends the sprint
+  useEffect(() => {
+    if (sprint && remainingSeconds === 0 && !finishMutation.isPending) {
+      finishMutation.mutate({ target: sprint, abandon: false });
+    }
+  }, [sprint?.id, remainingSeconds === 0]);
+
+  return {
+    sprint,
+    otherChapterSprint,
+    wordsWritten: sprint ? wordCount - sprint.startWordCount : 0,
+    elapsedSeconds,
+    remainingSeconds,
+    lastFinished,
+    isStarting: startMutation.isPending,
+    startSprint: (options) => startMutation.mutate(options),
+    finishSprint: () => sprint && finishMutation.mutate({ target: sprint, abandon: false }),
+    abandonSprint: () => sprint && finishMutation.mutate({ target: sprint, abandon: true }),
+    endOtherSprint: () => otherChapterSprint && finishMutation.mutate({ target: otherChapterSprint, abandon: false }),
+    dismissFinished: () => setLastFinished(null),
+  };
+}
@@ -23,6 +23,60 @@ export async function apiRequest(
   return res;
 }
 
+export interface StreamedReply {
+  response: string;
+  messageId?: string; // Set when the server saved the reply to the chat history
+}
+
+// POSTs to an AI route that streams server-sent events, passing each piece of text to onDelta as it
+// arrives. Aborting the signal cancels the request and the completion on the server.
+export async function streamRequest(
+  url: string,
+  data: unknown,
+  { onDelta, signal }: { onDelta: (text: string) => void; signal?: AbortSignal },
+): Promise<StreamedReply> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(data),
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) {
+    throw new Error("Streaming isn't supported by this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      let event = "message";
+      let payload = "";
+      for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) payload += line.slice(5).trim();
+      }
+      if (!payload) continue; // Heartbeat comments
+
+      const parsed = JSON.parse(payload);
+      if (event === "delta") onDelta(parsed.text);
+      else if (event === "done") return parsed;
+      else if (event === "error") throw new Error(parsed.message);
+    }
+  }
+  throw new Error("The response ended before it was complete");
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,6 +1,6 @@
 import { useState } from 'react';
-import { useRoute } from 'wouter';
-import { useMutation } from '@tanstack/react-query';
+import { Link, useRoute } from 'wouter';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -15,7 +15,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/hooks/use-toast';
 import { useFeatureAccess } from '@/hooks/useFeatureAccess';
 import FeatureGate from '@/components/feature-gate';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { type InsertSubmissionContact, type SubmissionContact } from '@shared/schema';
 import { 
   ArrowLeft, 
   Search, 
@@ -30,7 +31,10 @@ import {
   DollarSign,
   Clock,
   CheckCircle,
-  FileText
+  FileText,
+  Bookmark,
+  BookmarkCheck,
+  ListChecks
 } from 'lucide-react';
 
 interface AgentResult {
@@ -100,6 +104,53 @@ export default function AgentFinder() {
   const { toast } = useToast();
   const featureAccess = useFeatureAccess();
 
+  const { data: savedContacts = [] } = useQuery<SubmissionContact[]>({
+    queryKey: ['/api/projects', projectId, 'submission-contacts'],
+    enabled: !!projectId,
+  });
+
+  const saveContactMutation = useMutation({
+    mutationFn: async (contact: Omit<InsertSubmissionContact, 'projectId' | 'userId'>) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/submission-contacts`, contact);
+      return response.json() as Promise<SubmissionContact>;
+    },
+    onSuccess: (contact) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'submission-contacts'] });
+      toast({
+        title: "Saved to Submission Tracker",
+        description: `${contact.name} is ready for you to log a query.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Save Failed",
+        description: "Unable to save this contact. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isSaved = (kind: string, name: string) =>
+    savedContacts.some(contact => contact.kind === kind && contact.name.toLowerCase() === name.toLowerCase());
+
+  // Editors and publishers give a single contact field that may be an address or a form URL
+  const emailFrom = (contact?: string) => contact && contact.includes('@') ? contact : null;
+
+  const renderSaveButton = (kind: 'agent' | 'editor' | 'publisher', name: string, contact: () => Omit<InsertSubmissionContact, 'projectId' | 'userId' | 'kind' | 'name'>) => {
+    const saved = isSaved(kind, name);
+    return (
+      <Button
+        size="sm"
+        variant={saved ? "secondary" : "outline"}
+        disabled={saved || saveContactMutation.isPending}
+        onClick={() => saveContactMutation.mutate({ kind, name, ...contact() })}
+      >
+        {saved ? <BookmarkCheck className="w-3 h-3 mr-1" /> : <Bookmark className="w-3 h-3 mr-1" />}
+        {saved ? 'Saved' : 'Save'}
+      </Button>
+    );
+  };
+
   const searchMutation = useMutation({
     mutationFn: async (searchData: any) => {
       const response = await apiRequest("POST", "/api/agent-finder/search", searchData);
@@ -204,6 +255,16 @@ export default function AgentFinder() {
               <span className="font-medium">{agent.matchScore}% Match</span>
             </div>
             <div className="flex gap-2">
+              {renderSaveButton('agent', agent.name, () => ({
+                agency: agent.agency,
+                country: agent.country || null,
+                email: agent.email || null,
+                website: agent.website || null,
+                genres: agent.genres,
+                submissionGuidelines: agent.submissionGuidelines,
+                matchScore: Math.round(agent.matchScore),
+                details: agent,
+              }))}
               {agent.website && (
                 <Button 
                   size="sm" 
@@ -298,6 +359,14 @@ export default function AgentFinder() {
               <span className="font-medium">{editor.matchScore}% Match</span>
             </div>
             <div className="flex gap-2">
+              {renderSaveButton('editor', editor.name, () => ({
+                country: editor.country || null,
+                email: emailFrom(editor.contact),
+                website: editor.portfolio || null,
+                genres: editor.specializations,
+                matchScore: Math.round(editor.matchScore),
+                details: editor,
+              }))}
               <Button 
                 size="sm" 
                 variant="outline"
@@ -380,6 +449,15 @@ export default function AgentFinder() {
               <span className="font-medium">{publisher.matchScore}% Match</span>
             </div>
             <div className="flex gap-2">
+              {renderSaveButton('publisher', publisher.name, () => ({
+                country: publisher.country || null,
+                email: emailFrom(publisher.contact),
+                website: publisher.website || null,
+                genres: publisher.genres,
+                submissionGuidelines: publisher.submissionGuidelines,
+                matchScore: Math.round(publisher.matchScore),
+                details: publisher,
+              }))}
               {publisher.website && (
                 <Button 
                   size="sm" 
@@ -459,11 +537,17 @@ export default function AgentFinder() {
         <div className="max-w-6xl mx-auto p-6">
           {/* Header */}
           <div className="mb-8">
-            <div className="flex items-center gap-4 mb-6">
+            <div className="flex items-center justify-between gap-4 mb-6">
               <Button variant="ghost" size="sm" onClick={() => window.history.back()}>
                 <ArrowLeft className="w-4 h-4 mr-2" />
                 Back to Project
               </Button>
+              <Link href={`/submissions/${projectId}`}>
+                <Button variant="outline" size="sm">
+                  <ListChecks className="w-4 h-4 mr-2" />
+                  Submission Tracker{savedContacts.length > 0 ? ` (${savedContacts.length} saved)` : ''}
+                </Button>
+              </Link>
             </div>
             
             <div className="flex items-center gap-3 mb-2">
@@ -8,14 +8,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
 import { Progress } from "@/components/ui/progress";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Volume2, Play, Download, Loader2, BookOpen, FileAudio, DollarSign, Headphones, ArrowLeft, Crown, AlertTriangle, Trash2 } from "lucide-react";
+import { Volume2, Play, Download, Loader2, BookOpen, FileAudio, DollarSign, Headphones, ArrowLeft, Crown, AlertTriangle, Trash2, Users } from "lucide-react";
 import { Link } from "wouter";
-import { type Project, type Chapter, type Audiobook } from "@shared/schema";
+import PronunciationDictionary from "@/components/pronunciation-dictionary";
+import { type Project, type Chapter, type Character, type Audiobook } from "@shared/schema";
 
 interface VoiceOption {
   id: string;
@@ -24,27 +26,40 @@ interface VoiceOption {
   description: string;
   gender: string;
   sampleText: string;
-  quality: 'standard' | 'hd';
-  pricing: 'basic' | 'premium';
+  quality: string;
+  pricing: string;
+  costPerMillionCharacters: number;
+}
+
+interface TTSProviderOption {
+  id: string;
+  name: string;
+  description: string;
+  available: boolean;
+  voices: VoiceOption[];
 }
 
 interface AudiobookOptions {
+  provider: string;
   voice: string;
   speed: number;
-  quality: 'standard' | 'hd';
+  quality: string;
   scope: 'chapter' | 'fullbook';
   selectedChapter?: string;
   selectedChapterId?: string;
+  multiVoice: boolean;
 }
 
 const AudiobookGenerator = memo(function AudiobookGenerator() {
   const params = useParams();
   const projectId = params.id;
   const [options, setOptions] = useState<AudiobookOptions>({
+    provider: 'openai',
     voice: 'alloy', // Default to OpenAI Alloy voice
     speed: 1.0,
     quality: 'standard',
-    scope: 'chapter'
+    scope: 'chapter',
+    multiVoice: false
   });
   const [isGenerating, setIsGenerating] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -65,12 +80,14 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
     refetchOnWindowFocus: false,
   });
 
-  // Fetch available OpenAI TTS voices
-  const { data: availableVoices = [] } = useQuery<VoiceOption[]>({
-    queryKey: ['/api/tts/voices'],
+  // Fetch TTS providers and their voices
+  const { data: providers = [] } = useQuery<TTSProviderOption[]>({
+    queryKey: ['/api/tts/providers'],
     staleTime: 30 * 60 * 1000,  // 30 minutes caching (voices don't change often)
     gcTime: 60 * 60 * 1000,     // 1 hour
   });
+  const selectedProvider = providers.find(provider => provider.id === options.provider);
+  const availableVoices = selectedProvider?.voices || [];
 
   // Use optimized metadata endpoint - only loads titles, word counts, not full content
   const { data: chapters = [] } = useQuery<Chapter[]>({
@@ -82,6 +99,29 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
     refetchOnWindowFocus: false,
   });
 
+  const { data: characters = [] } = useQuery<Character[]>({
+    queryKey: ['/api/projects', projectId, 'characters'],
+    enabled: !!projectId,
+  });
+
+  // Cast voices live on the character, so they carry over to every audiobook of the project
+  const castVoiceMutation = useMutation({
+    mutationFn: async ({ characterId, voice }: { characterId: string; voice: string | null }) => {
+      const response = await apiRequest('PATCH', `/api/characters/${characterId}`, { voice });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', projectId, 'characters'] });
+    },
+    onError: () => {
+      toast({
+        title: "Casting Failed",
+        description: "Could not save the character's voice. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
   const { data: audiobooks = [], refetch: refetchAudiobooks } = useQuery<Audiobook[]>({
     queryKey: ['/api/projects', projectId, 'audiobooks'],
     enabled: !!projectId,
@@ -116,8 +156,8 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
       return;
     }
 
-    // Check if any audiobook is generating
-    const hasGenerating = audiobooks.some(audiobook => audiobook.status === 'generating');
+    // Check if any audiobook is queued or generating
+    const hasGenerating = audiobooks.some(audiobook => audiobook.status === 'pending' || audiobook.status === 'generating');
     setShouldPoll(hasGenerating);
 
     // Check for newly completed audiobooks
@@ -183,9 +223,7 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
         return;
       }
 
-      // Google TTS pricing: Standard = $4/1M chars, Premium (WaveNet/Neural2/Studio) = $16/1M chars
-      const pricePerMillion = selectedVoice.quality === 'standard' ? 4 : 16;
-      const cost = (totalCharacters / 1000000) * pricePerMillion;
+      const cost = (totalCharacters / 1000000) * selectedVoice.costPerMillionCharacters;
       
       setEstimatedCost({
         chapters: chapterCount,
@@ -199,14 +237,16 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
 
   const generateAudiobookMutation = useMutation({
     mutationFn: async (generationOptions: AudiobookOptions & { title: string }) => {
-      // Check subscription limits before proceeding
-      const usageCheck = await checkUsageMutation.mutateAsync({
-        serviceType: 'audiobook',
-        characterCount: estimatedCost.characters
-      });
+      // Check subscription limits before proceeding; free local drafts don't count against them
+      if (generationOptions.provider !== 'local') {
+        const usageCheck = await checkUsageMutation.mutateAsync({
+          serviceType: 'audiobook',
+          characterCount: estimatedCost.characters
+        });
 
-      if (!usageCheck.canProceed) {
-        throw new Error(usageCheck.reason || "Usage limit exceeded. Please upgrade to Premium for audiobook generation.");
+        if (!usageCheck.canProceed) {
+          throw new Error(usageCheck.reason || "Usage limit exceeded. Please upgrade to Premium for audiobook generation.");
+        }
       }
 
       const response = await apiRequest('POST', `/api/projects/${projectId}/audiobooks`, generationOptions);
@@ -416,6 +456,7 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
       case 'generating': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
       case 'failed': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       case 'pending': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+      case 'cancelled': return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
     }
   };
@@ -573,6 +614,38 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
               </div>
             )}
 
+            {/* Narration Engine */}
+            <div className="space-y-3">
+              <Label className="text-sm font-medium">Narration Engine</Label>
+              <Select
+                value={options.provider}
+                onValueChange={(value) => {
+                  const provider = providers.find(p => p.id === value);
+                  const firstVoice = provider?.voices[0];
+                  setOptions(prev => ({
+                    ...prev,
+                    provider: value,
+                    voice: firstVoice?.id || '',
+                    quality: firstVoice?.quality || 'standard'
+                  }));
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an engine" />
+                </SelectTrigger>
+                <SelectContent>
+                  {providers.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id} disabled={!provider.available}>
+                      {provider.name}{!provider.available && ' (not configured)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedProvider && (
+                <p className="text-xs text-muted-foreground">{selectedProvider.description}</p>
+              )}
+            </div>
+
             {/* Voice Selection with Preview */}
             <div className="space-y-3">
               <Label className="text-sm font-medium">Voice Selection</Label>
@@ -600,11 +673,13 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
                         <div className="flex items-center gap-2 text-xs text-muted-foreground ml-2">
                           <span>{voice.description}</span>
                           <span className={`px-2 py-1 rounded-full ${
+                            voice.pricing === 'free' ? 'bg-gray-100 text-gray-800' :
                             voice.pricing === 'basic' ? 'bg-green-100 text-green-800' :
                             voice.pricing === 'premium' ? 'bg-blue-100 text-blue-800' :
                             'bg-purple-100 text-purple-800'
                           }`}>
-                            {voice.pricing === 'basic' ? '$9/mo' : 
+                            {voice.pricing === 'free' ? 'Free' :
+                             voice.pricing === 'basic' ? '$9/mo' : 
                              voice.pricing === 'premium' ? '$19/mo' : '$39/mo'}
                           </span>
                         </div>
@@ -627,7 +702,68 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
               </Button>
             </div>
 
-            {/* Audio Quality */}
+            {/* Multi-voice Dialogue Casting */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="multi-voice" className="text-sm font-medium flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Voice Character Dialogue
+                </Label>
+                <Switch
+                  id="multi-voice"
+                  checked={options.multiVoice}
+                  onCheckedChange={(checked) => setOptions(prev => ({ ...prev, multiVoice: checked }))}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Narration uses the voice above. Quoted dialogue is matched to its speaker from dialogue tags,
+                action beats and each chapter's POV character, then read in that character's voice.
+              </p>
+              {options.multiVoice && (
+                characters.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Add characters to this project to cast their voices.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {characters.map((character) => (
+                      <div key={character.id} className="flex items-center justify-between gap-3">
+                        <span className="text-sm truncate">{character.name}</span>
+                        <Select
+                          value={character.voice || 'narrator'}
+                          onValueChange={(value) => castVoiceMutation.mutate({
+                            characterId: character.id,
+                            voice: value === 'narrator' ? null : value
+                          })}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="narrator">Narrator's voice</SelectItem>
+                            {availableVoices.map((voice) => (
+                              <SelectItem key={voice.id} value={voice.id}>
+                                {voice.name} ({voice.gender})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => character.voice && handleVoicePreview(character.voice)}
+                          disabled={!character.voice}
+                          title="Preview voice"
+                        >
+                          <Headphones className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )
+              )}
+            </div>
+
+            {/* Audio Quality (OpenAI only) */}
+            {options.provider === 'openai' && (
             <div className="space-y-3">
               <Label className="text-sm font-medium">Audio Quality</Label>
               <Select 
@@ -653,6 +789,7 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
                 </SelectContent>
               </Select>
             </div>
+            )}
 
             {/* Speech Speed */}
             <div className="space-y-3">
@@ -707,7 +844,9 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
                   </span>
                 </div>
                 <p className="text-xs text-muted-foreground mt-1">
-                  OpenAI TTS: $15/1M (Standard) or $30/1M (HD) chars
+                  {options.provider === 'local'
+                    ? 'Local draft voices run on the server and are free'
+                    : `${selectedProvider?.name || 'TTS'}: $${availableVoices.find(v => v.id === options.voice)?.costPerMillionCharacters ?? 0}/1M chars for this voice`}
                 </p>
               </div>
             </div>
@@ -754,6 +893,9 @@ const AudiobookGenerator = memo(function AudiobookGenerator() {
         </Card>
       </div>
 
+      {/* Pronunciation Dictionary */}
+      {projectId && <PronunciationDictionary projectId={projectId} />}
+
       {/* Generated Audiobooks */}
       {audiobooks.length > 0 && (
         <Card>
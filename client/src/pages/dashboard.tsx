@@ -13,6 +13,7 @@ import { insertProjectSchema, type Project, type InsertProject } from "@shared/s
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import WritingGoalsPanel from "@/components/writing-goals-panel";
 import { Plus, BookOpen, User, Settings, Clock, FileText, Target, LogOut, Upload } from "lucide-react";
 
 export default function Dashboard() {
@@ -238,6 +239,9 @@ export default function Dashboard() {
           </Link>
         </div>
 
+        {/* Writing Goals */}
+        {projects.length > 0 && <WritingGoalsPanel projects={projects} />}
+
         {/* Stories Section */}
         <div className="mb-6">
           <h3 className="text-lg font-semibold text-neutral-800 mb-4">Stories</h3>
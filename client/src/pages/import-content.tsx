@@ -7,21 +7,156 @@ import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Upload, FileText, ArrowLeft, Save } from 'lucide-react';
+import { Upload, FileText, FolderOpen, ArrowLeft, Save, Loader2, AlertTriangle, Users, Archive } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import {
+  CHAPTER_TYPES,
+  CHAPTER_SECTIONS,
+  type ChapterType,
+  type ChapterSection,
+  type ImportedChapter,
+  type ImportedCharacter,
+  type ManuscriptImportPreview,
+  type Project
+} from '@shared/schema';
+
+type PreviewChapter = ImportedChapter & { include: boolean };
+type PreviewCharacter = ImportedCharacter & { include: boolean };
+
+const DETECTION_LABELS: Record<ManuscriptImportPreview['detection'], string> = {
+  headings: 'Split on headings',
+  chapter_pattern: 'Split on "Chapter" lines',
+  single: 'No chapter breaks found',
+  structure: 'Chapters from project structure',
+};
+
+// Files the server can read from a Scrivener project or Markdown folder; media and backups are left behind
+const FOLDER_FILE_PATTERN = /\.(scrivx|rtf|txt|md|markdown|ya?ml|docx|epub)$/i;
 
 export default function ImportContent() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
-  const [step, setStep] = useState<'upload' | 'review' | 'import'>('upload');
+  const [step, setStep] = useState<'upload' | 'chapters' | 'review' | 'import'>('upload');
   const [projectTitle, setProjectTitle] = useState('');
   const [projectDescription, setProjectDescription] = useState('');
   const [content, setContent] = useState('');
   const [chapterTitle, setChapterTitle] = useState('Chapter 1');
   const [importProgress, setImportProgress] = useState(0);
+  const [preview, setPreview] = useState<ManuscriptImportPreview | null>(null);
+  const [previewChapters, setPreviewChapters] = useState<PreviewChapter[]>([]);
+  const [previewCharacters, setPreviewCharacters] = useState<PreviewCharacter[]>([]);
+
+  const previewMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const formData = new FormData();
+      for (const file of files) {
+        formData.append('files', file, file.webkitRelativePath || file.name);
+      }
+
+      const response = await fetch('/api/import/preview', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || 'Failed to read manuscript');
+      }
+
+      return response.json() as Promise<ManuscriptImportPreview>;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setPreviewChapters(result.chapters.map(chapter => ({ ...chapter, include: true })));
+      setPreviewCharacters(result.characters.map(character => ({ ...character, include: true })));
+      setProjectTitle(result.title);
+      setStep('chapters');
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Read File",
+        description: error instanceof Error ? error.message : "Failed to read manuscript",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importManuscriptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/import', {
+        title: projectTitle,
+        description: projectDescription,
+        chapters: previewChapters
+          .filter(chapter => chapter.include)
+          .map(({ title, content, section, chapterType, synopsis }) => ({ title, content, section, chapterType, synopsis })),
+        characters: previewCharacters
+          .filter(character => character.include)
+          .map(({ name, role, description }) => ({ name, role, description })),
+      });
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: (project) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      toast({
+        title: "Import Successful",
+        description: `"${project.title}" has been imported`,
+      });
+      setLocation(`/writer/${project.id}`);
+    },
+    onError: () => {
+      toast({
+        title: "Import Failed",
+        description: "Failed to import manuscript. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreArchiveMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/import/archive', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.message || 'Failed to restore project backup');
+      }
+
+      return response.json() as Promise<Project>;
+    },
+    onSuccess: (project) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects'] });
+      toast({
+        title: "Backup Restored",
+        description: `"${project.title}" has been restored with all of its characters and history`,
+      });
+      setLocation(`/writer/${project.id}`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "Failed to restore project backup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updatePreviewChapter = (index: number, changes: Partial<PreviewChapter>) => {
+    setPreviewChapters(prev => prev.map((chapter, i) => i === index ? { ...chapter, ...changes } : chapter));
+  };
 
   const createProjectMutation = useMutation({
     mutationFn: async (projectData: any) => {
@@ -55,6 +190,20 @@ export default function ImportContent() {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    if (['docx', 'epub', 'zip', 'md', 'markdown'].includes(extension || '')) {
+      previewMutation.mutate([file]);
+      return;
+    }
+    if (extension === 'doc') {
+      toast({
+        title: "Unsupported Format",
+        description: "Older .doc files can't be read. Please save the file as .docx in Word and try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result as string;
@@ -73,6 +222,19 @@ export default function ImportContent() {
     reader.readAsText(file);
   };
 
+  const handleFolderUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).filter(file => FOLDER_FILE_PATTERN.test(file.name));
+    if (files.length === 0) {
+      toast({
+        title: "Nothing to Import",
+        description: "The folder has no Scrivener project or Markdown files.",
+        variant: "destructive",
+      });
+      return;
+    }
+    previewMutation.mutate(files);
+  };
+
   const handlePasteContent = () => {
     if (content.trim()) {
       setStep('review');
@@ -173,8 +335,28 @@ export default function ImportContent() {
                   <input
                     id="file-upload"
                     type="file"
-                    accept=".txt,.docx,.doc"
+                    accept=".txt,.docx,.epub,.zip,.md,.markdown"
                     onChange={handleFileUpload}
+                    disabled={previewMutation.isPending}
+                    className="block w-full mt-2 text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Word (.docx), EPUB, Markdown or plain text. Zip a Scrivener .scriv project to upload it as one file.
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor="folder-upload" className="flex items-center gap-2">
+                    <FolderOpen className="w-4 h-4" />
+                    Or choose a Scrivener project or folder of Markdown chapters
+                  </Label>
+                  <input
+                    id="folder-upload"
+                    type="file"
+                    multiple
+                    {...{ webkitdirectory: '' }}
+                    onChange={handleFolderUpload}
+                    disabled={previewMutation.isPending}
                     className="block w-full mt-2 text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
                   />
                 </div>
@@ -208,6 +390,193 @@ export default function ImportContent() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Archive className="w-5 h-5" />
+                  Restore a Project Backup
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <Label htmlFor="archive-upload">
+                  Select a full project backup downloaded from the Export menu
+                </Label>
+                <input
+                  id="archive-upload"
+                  type="file"
+                  accept=".zip,.json"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) restoreArchiveMutation.mutate(file);
+                    e.target.value = '';
+                  }}
+                  disabled={restoreArchiveMutation.isPending}
+                  className="block w-full mt-2 text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                />
+                {restoreArchiveMutation.isPending && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Restoring project...
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {previewMutation.isPending && (
+          <Card>
+            <CardContent className="flex items-center gap-2 py-6 text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Reading your manuscript and finding chapters...
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'chapters' && preview && (
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <FileText className="w-5 h-5" />
+                    Review Chapters
+                  </span>
+                  <Badge variant="secondary">{DETECTION_LABELS[preview.detection]}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="import-title">Project Title</Label>
+                  <Input
+                    id="import-title"
+                    value={projectTitle}
+                    onChange={(e) => setProjectTitle(e.target.value)}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="import-description">Project Description (Optional)</Label>
+                  <Textarea
+                    id="import-description"
+                    value={projectDescription}
+                    onChange={(e) => setProjectDescription(e.target.value)}
+                    rows={2}
+                  />
+                </div>
+
+                {preview.warnings.length > 0 && (
+                  <div className="rounded-md border border-amber-200 bg-amber-50 p-3 space-y-1">
+                    {preview.warnings.map((warning, index) => (
+                      <p key={index} className="text-sm text-amber-800 flex items-start gap-2">
+                        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                        {warning}
+                      </p>
+                    ))}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  {previewChapters.map((chapter, index) => (
+                    <div key={index} className={`border rounded-md p-3 space-y-2 ${chapter.include ? '' : 'opacity-50'}`}>
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          checked={chapter.include}
+                          onCheckedChange={(checked) => updatePreviewChapter(index, { include: !!checked })}
+                        />
+                        <Input
+                          value={chapter.title}
+                          onChange={(e) => updatePreviewChapter(index, { title: e.target.value })}
+                          className="h-8 flex-1"
+                        />
+                        <Select
+                          value={chapter.chapterType}
+                          onValueChange={(value: ChapterType) => updatePreviewChapter(index, { chapterType: value })}
+                        >
+                          <SelectTrigger className="h-8 w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(CHAPTER_TYPES).map(([key, label]) => (
+                              <SelectItem key={key} value={key}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Select
+                          value={chapter.section}
+                          onValueChange={(value: ChapterSection) => updatePreviewChapter(index, { section: value })}
+                        >
+                          <SelectTrigger className="h-8 w-36">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(CHAPTER_SECTIONS).map(([key, label]) => (
+                              <SelectItem key={key} value={key}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {chapter.synopsis && (
+                        <p className="text-xs italic text-neutral-600 line-clamp-2">Synopsis: {chapter.synopsis}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground line-clamp-2">
+                        {chapter.wordCount.toLocaleString()} words • {chapter.content.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().substring(0, 200)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                {previewCharacters.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      <Users className="w-4 h-4" />
+                      Characters
+                    </Label>
+                    {previewCharacters.map((character, index) => (
+                      <div key={index} className={`flex items-start gap-2 border rounded-md p-3 ${character.include ? '' : 'opacity-50'}`}>
+                        <Checkbox
+                          checked={character.include}
+                          onCheckedChange={(checked) => setPreviewCharacters(prev =>
+                            prev.map((item, i) => i === index ? { ...item, include: !!checked } : item))}
+                          className="mt-0.5"
+                        />
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">
+                            {character.name} <span className="font-normal text-muted-foreground">• {character.role}</span>
+                          </p>
+                          {character.description && (
+                            <p className="text-xs text-muted-foreground line-clamp-2">{character.description}</p>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={() => setStep('upload')}>
+                    Back
+                  </Button>
+                  <Button
+                    onClick={() => importManuscriptMutation.mutate()}
+                    disabled={
+                      !projectTitle.trim() ||
+                      !previewChapters.some(chapter => chapter.include && chapter.title.trim()) ||
+                      previewChapters.some(chapter => chapter.include && !chapter.title.trim()) ||
+                      importManuscriptMutation.isPending
+                    }
+                  >
+                    {importManuscriptMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="w-4 h-4 mr-2" />
+                    )}
+                    Import {previewChapters.filter(chapter => chapter.include).length} Chapters
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
           </div>
         )}
 
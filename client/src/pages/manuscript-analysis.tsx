@@ -0,0 +1,486 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ChapterAnalysis, ManuscriptAnalysis as ManuscriptAnalysisRecord, ManuscriptReport, Project } from "@shared/schema";
+import { AlertTriangle, ArrowLeft, BookOpenCheck, CheckCircle, Eye, GitBranch, Loader2, Repeat, Sparkles, Trash2 } from "lucide-react";
+
+type AnalysisSummary = Omit<ManuscriptAnalysisRecord, "report">;
+
+interface AnalysisDetail extends ManuscriptAnalysisRecord {
+  chapters: ChapterAnalysis[];
+}
+
+const pacingChartConfig = {
+  tension: { label: "Tension", color: "var(--primary)" },
+  pacing: { label: "Pace", color: "var(--ai-accent)" },
+} satisfies ChartConfig;
+
+const ISSUE_NAMES: Record<string, string> = {
+  pacing: "Pacing",
+  dialogue: "Dialogue",
+  point_of_view: "Point of view",
+  tense: "Tense",
+  repetition: "Repetition",
+  clarity: "Clarity",
+  characterisation: "Characterisation",
+  continuity: "Continuity",
+  description: "Description",
+  prose: "Prose",
+};
+
+const SEVERITY_CLASSES: Record<string, string> = {
+  minor: "bg-neutral-100 text-neutral-700",
+  moderate: "bg-amber-100 text-amber-800",
+  major: "bg-red-100 text-red-800",
+};
+
+function isRunning(analysis: AnalysisSummary | undefined): boolean {
+  return !!analysis && ["pending", "analyzing", "summarizing"].includes(analysis.status);
+}
+
+function statusText(analysis: AnalysisSummary): string {
+  if (analysis.status === "summarizing") return "Writing the book-level report...";
+  if (analysis.status === "analyzing") return `Reading chapter ${Math.min(analysis.chaptersAnalyzed + 1, analysis.chapterCount)} of ${analysis.chapterCount}...`;
+  return "Starting...";
+}
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : "";
+}
+
+function Report({ report, chapters }: { report: ManuscriptReport; chapters: ChapterAnalysis[] }) {
+  const openSubplots = report.subplots.filter(subplot => !subplot.resolved);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Overview</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {report.overview.split(/\n+/).map((paragraph, index) => (
+            <p key={index} className="text-neutral-700">{paragraph}</p>
+          ))}
+          {report.strengths.length > 0 && (
+            <ul className="space-y-1 pt-2">
+              {report.strengths.map((strength, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm">
+                  <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 shrink-0" />
+                  <span>{strength}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pacing Curve</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ChartContainer config={pacingChartConfig} className="h-72 w-full aspect-auto">
+            <LineChart data={report.pacing.curve}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="position" tickLine={false} axisLine={false} />
+              <YAxis domain={[0, 10]} tickLine={false} axisLine={false} width={30} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0]?.payload?.title || ""} />}
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line type="monotone" dataKey="tension" stroke="var(--color-tension)" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="pacing" stroke="var(--color-pacing)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+          {report.pacing.notes && <p className="text-neutral-700">{report.pacing.notes}</p>}
+          {report.pacing.flatStretches.length > 0 && (
+            <ul className="space-y-1">
+              {report.pacing.flatStretches.map((stretch, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm text-amber-800">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />
+                  <span>Low tension for {stretch.chapters} chapters, from {stretch.from} to {stretch.to}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Eye className="w-5 h-5" />
+              Point of View
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {report.pointOfView.issues.length > 0 ? (
+              <ul className="space-y-1">
+                {report.pointOfView.issues.map((issue, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm text-amber-800">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />
+                    <span>{issue}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-green-700">Point of view and tense hold steady across the book.</p>
+            )}
+            <div className="max-h-72 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-neutral-500 border-b">
+                    <th className="py-1 pr-2">Chapter</th>
+                    <th className="py-1 pr-2">Viewpoint</th>
+                    <th className="py-1">Person / tense</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.pointOfView.chapters.map(chapter => (
+                    <tr key={chapter.position} className="border-b last:border-0">
+                      <td className="py-1 pr-2">{chapter.position}. {chapter.title}</td>
+                      <td className="py-1 pr-2">
+                        {chapter.character || "Omniscient"}
+                        {chapter.planned && chapter.planned !== chapter.character && (
+                          <span className="block text-xs text-neutral-500">Outlined: {chapter.planned}</span>
+                        )}
+                      </td>
+                      <td className="py-1">{chapter.person}, {chapter.tense}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitBranch className="w-5 h-5" />
+              Subplots
+              {openSubplots.length > 0 && <Badge variant="outline">{openSubplots.length} left open</Badge>}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {report.subplots.length === 0 ? (
+              <p className="text-sm text-neutral-500">No subplots were picked out.</p>
+            ) : (
+              <ul className="space-y-3">
+                {report.subplots.map((subplot, index) => (
+                  <li key={index} className="text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{subplot.name}</span>
+                      {subplot.resolved
+                        ? <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Resolved</Badge>
+                        : <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">Open</Badge>}
+                    </div>
+                    <div className="text-xs text-neutral-500">
+                      {subplot.introducedIn}{subplot.lastSeenIn && subplot.lastSeenIn !== subplot.introducedIn ? ` → ${subplot.lastSeenIn}` : ""}
+                    </div>
+                    {subplot.note && <p className="text-neutral-700 mt-1">{subplot.note}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Repeat className="w-5 h-5" />
+              Repeated Issues
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {report.repeatedIssues.length === 0 ? (
+              <p className="text-sm text-neutral-500">No issue came up in more than one chapter.</p>
+            ) : (
+              <ul className="space-y-4">
+                {report.repeatedIssues.map(issue => (
+                  <li key={issue.category} className="text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{ISSUE_NAMES[issue.category] || issue.category}</span>
+                      <Badge variant="outline">{issue.chapters.length} chapters</Badge>
+                      {issue.majorCount > 0 && <Badge className={SEVERITY_CLASSES.major}>{issue.majorCount} major</Badge>}
+                    </div>
+                    <p className="text-neutral-700 mt-1">{issue.summary}</p>
+                    <p className="text-xs text-neutral-500 mt-1">{issue.chapters.join(" · ")}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="w-5 h-5" />
+              AI Detection
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div>
+              <div className="text-2xl font-bold">{report.aiDetection.averageLikelihood}%</div>
+              <p className="text-sm text-neutral-600">Average likelihood of machine-written prose, weighted by length</p>
+            </div>
+            {report.aiDetection.flaggedChapters.length > 0 && (
+              <ul className="space-y-1 text-sm">
+                {report.aiDetection.flaggedChapters.map(chapter => (
+                  <li key={chapter.title} className="flex justify-between gap-2 text-amber-800">
+                    <span>{chapter.title}</span>
+                    <span>{chapter.likelihood}%</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Chapter by Chapter</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChapterFindingsList chapters={chapters} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function ChapterFindingsList({ chapters }: { chapters: ChapterAnalysis[] }) {
+  return (
+    <Accordion type="multiple">
+      {chapters.map(chapter => (
+        <AccordionItem key={chapter.id} value={chapter.id}>
+          <AccordionTrigger>
+            <span className="flex items-center gap-3 text-left">
+              <span>{chapter.position}. {chapter.chapterTitle}</span>
+              <span className="text-xs text-neutral-500 font-normal">
+                {chapter.wordCount.toLocaleString()} words · tension {chapter.findings.tension} · {chapter.findings.issues.length} issues
+              </span>
+            </span>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-3">
+            <p className="text-neutral-700">{chapter.findings.summary}</p>
+            <p className="text-xs text-neutral-500">
+              {chapter.findings.pov.character || "Omniscient"} · {chapter.findings.pov.person} person, {chapter.findings.pov.tense} tense · pace {chapter.findings.pacing}
+              {chapter.findings.partsRead > 1 && ` · read in ${chapter.findings.partsRead} parts`}
+            </p>
+            {chapter.findings.subplots.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {chapter.findings.subplots.map(subplot => (
+                  <Badge key={subplot.name} variant="outline">{subplot.name}: {subplot.status}</Badge>
+                ))}
+              </div>
+            )}
+            {chapter.findings.issues.length > 0 && (
+              <ul className="space-y-2">
+                {chapter.findings.issues.map((issue, index) => (
+                  <li key={index} className="text-sm flex items-start gap-2">
+                    <Badge className={`${SEVERITY_CLASSES[issue.severity]} shrink-0`}>{ISSUE_NAMES[issue.category] || issue.category}</Badge>
+                    <span>{issue.note}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {chapter.findings.strengths.length > 0 && (
+              <ul className="space-y-1">
+                {chapter.findings.strengths.map((strength, index) => (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 shrink-0" />
+                    <span>{strength}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {chapter.chapterId && (
+              <Link href={`/text-editor/${chapter.chapterId}`} className="text-sm underline">Open chapter</Link>
+            )}
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
+
+export default function ManuscriptAnalysis() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: project } = useQuery<Project>({
+    queryKey: ["/api/projects", projectId],
+    enabled: !!projectId,
+  });
+
+  const { data: analyses = [] } = useQuery<AnalysisSummary[]>({
+    queryKey: ["/api/projects", projectId, "manuscript-analyses"],
+    enabled: !!projectId,
+    refetchInterval: (query) => query.state.data?.some(isRunning) ? 3000 : false,
+  });
+
+  const selected = analyses.find(analysis => analysis.id === selectedId) || analyses[0];
+
+  const { data: detail } = useQuery<AnalysisDetail>({
+    queryKey: ["/api/manuscript-analyses", selected?.id],
+    enabled: !!selected,
+    // Chapter findings arrive as they're read
+    refetchInterval: isRunning(selected) ? 5000 : false,
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/manuscript-analyses`);
+      return response.json() as Promise<AnalysisSummary>;
+    },
+    onSuccess: (analysis) => {
+      setSelectedId(analysis.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "manuscript-analyses"] });
+      toast({ title: "Analysis started", description: `Reading ${analysis.chapterCount} chapters. You can leave this page and come back.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to start analysis", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/manuscript-analyses/${id}`);
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "manuscript-analyses"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!project) {
+    return (
+      <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+        <div className="text-center">
+          <BookOpenCheck className="w-12 h-12 text-neutral-400 mx-auto mb-4" />
+          <p className="text-neutral-600">Loading analysis...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const running = analyses.some(isRunning);
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      {/* Header */}
+      <header className="bg-white border-b border-neutral-100 p-6">
+        <div className="flex items-center justify-between max-w-6xl mx-auto">
+          <div className="flex items-center gap-4">
+            <Link href={`/writer/${projectId}`}>
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-neutral-800">Manuscript Analysis</h1>
+              <p className="text-neutral-600 mt-1">{project.title}</p>
+            </div>
+          </div>
+          <Button onClick={() => startMutation.mutate()} disabled={running || startMutation.isPending}>
+            {startMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <BookOpenCheck className="w-4 h-4 mr-2" />}
+            Analyse Whole Manuscript
+          </Button>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        {analyses.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-neutral-600 space-y-2">
+              <p>Every chapter is read in full, then the findings are rolled into one report on pacing, point of view, subplots and recurring issues.</p>
+              <p className="text-sm text-neutral-500">Long manuscripts take a few minutes. The report is saved here for you to come back to.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="flex items-center gap-3">
+            <Select value={selected?.id} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {analyses.map(analysis => (
+                  <SelectItem key={analysis.id} value={analysis.id}>
+                    {formatDate(analysis.createdAt)} · {analysis.chapterCount} chapters · {analysis.status}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selected && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => confirm("Delete this report?") && deleteMutation.mutate(selected.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+            {selected && (
+              <span className="text-sm text-neutral-500">{selected.wordCount.toLocaleString()} words</span>
+            )}
+          </div>
+        )}
+
+        {selected && isRunning(selected) && (
+          <Card>
+            <CardContent className="py-6 space-y-3">
+              <div className="flex items-center gap-2 text-neutral-700">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {statusText(selected)}
+              </div>
+              <Progress value={selected.chapterCount ? (selected.chaptersAnalyzed / selected.chapterCount) * 100 : 0} />
+            </CardContent>
+          </Card>
+        )}
+
+        {selected?.status === "failed" && (
+          <Card>
+            <CardContent className="py-6 flex items-start gap-2 text-red-700">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>{selected.errorMessage || "The analysis failed."} Chapters read before it stopped are listed below.</span>
+            </CardContent>
+          </Card>
+        )}
+
+        {detail?.status === "completed" && detail.report ? (
+          <Report report={detail.report} chapters={detail.chapters} />
+        ) : detail && detail.chapters.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Chapters Read So Far</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChapterFindingsList chapters={detail.chapters} />
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,449 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  type CheckedQueryDocument, type Project, type QueryDocument, type QueryDocumentKind, type QueryWorkshop as QueryWorkshopReport,
+  type SubmissionContact
+} from "@shared/schema";
+import { AlertTriangle, ArrowLeft, CheckCircle, Copy, FileText, ListChecks, Save, Sparkles, Trash2, UserPen } from "lucide-react";
+
+const KINDS: Array<{ kind: QueryDocumentKind; title: string; hint: string }> = [
+  { kind: "query_letter", title: "Query Letter", hint: "250–400 words: hook, story, book details, bio" },
+  { kind: "short_synopsis", title: "One-Page Synopsis", hint: "300–600 words, whole story including the ending" },
+  { kind: "long_synopsis", title: "Long Synopsis", hint: "1,000–2,500 words, act by act" },
+];
+
+interface AuthorDetails {
+  authorBio: string;
+  comparables: string;
+  extraNotes: string;
+}
+
+function countWords(text: string): number {
+  return text.trim() ? text.trim().split(/\s+/).length : 0;
+}
+
+function ChecksList({ checks }: { checks: CheckedQueryDocument["checks"] }) {
+  return (
+    <ul className="space-y-1">
+      {checks.map((check, index) => (
+        <li key={index} className="flex items-start gap-2 text-sm">
+          {check.level === "ok"
+            ? <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 shrink-0" />
+            : <AlertTriangle className="w-4 h-4 mt-0.5 text-amber-600 shrink-0" />}
+          <span className={check.level === "ok" ? "text-neutral-700" : "text-amber-800"}>{check.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface DocumentPanelProps {
+  projectId: string;
+  kind: QueryDocumentKind;
+  hint: string;
+  documents: CheckedQueryDocument[];
+  contacts: SubmissionContact[];
+  authorDetails: AuthorDetails;
+}
+
+// One kind of document: its versions, the selected draft for editing, and its convention checks
+function DocumentPanel({ projectId, kind, hint, documents, contacts, authorDetails }: DocumentPanelProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const [label, setLabel] = useState("");
+  const [personaliseFor, setPersonaliseFor] = useState("");
+
+  const selected = documents.find(document => document.id === selectedId) || documents[0];
+  const isDirty = !!selected && draft !== selected.content;
+  const contactsById = new Map(contacts.map(contact => [contact.id, contact]));
+
+  useEffect(() => {
+    setDraft(selected?.content || "");
+    setLabel(selected?.label || "");
+  }, [selected?.id]);
+
+  const refresh = (document?: QueryDocument) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "query-workshop"] });
+    if (document) setSelectedId(document.id);
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/query-documents/generate`, { kind, ...authorDetails });
+      return response.json() as Promise<QueryDocument>;
+    },
+    onSuccess: (document) => {
+      refresh(document);
+      toast({ title: `Drafted ${document.label}` });
+    },
+    onError: onError("Failed to draft"),
+  });
+
+  const personaliseMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/query-documents/personalise`, {
+        documentId: selected!.id,
+        contactId: personaliseFor,
+      });
+      return response.json() as Promise<QueryDocument>;
+    },
+    onSuccess: (document) => {
+      refresh(document);
+      setPersonaliseFor("");
+      toast({ title: `Personalised as ${document.label}` });
+    },
+    onError: onError("Failed to personalise"),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/query-documents`, {
+        kind,
+        content: draft,
+        contactId: selected?.contactId || null,
+      });
+      return response.json() as Promise<QueryDocument>;
+    },
+    onSuccess: (document) => {
+      refresh(document);
+      toast({ title: `Saved as ${document.label}` });
+    },
+    onError: onError("Failed to save"),
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/query-documents/${selected!.id}`, { label });
+      return response.json();
+    },
+    onSuccess: () => refresh(),
+    onError: onError("Failed to rename"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/query-documents/${id}`);
+    },
+    onSuccess: () => {
+      setSelectedId(null);
+      refresh();
+    },
+    onError: onError("Failed to delete"),
+  });
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(draft);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-neutral-600">{hint}</p>
+        <div className="flex items-center gap-2">
+          {documents.length > 0 && (
+            <Select value={selected?.id} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {documents.map(document => (
+                  <SelectItem key={document.id} value={document.id}>
+                    {document.label} · {document.wordCount} words
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending}>
+            <Sparkles className="w-4 h-4 mr-2" />
+            {generateMutation.isPending ? "Drafting..." : documents.length > 0 ? "Draft Again" : "Draft from Project"}
+          </Button>
+        </div>
+      </div>
+
+      {!selected ? (
+        <div className="text-center py-12 border rounded-lg bg-white">
+          <FileText className="w-10 h-10 text-neutral-300 mx-auto mb-3" />
+          <p className="text-neutral-600">No drafts yet. Draft one from the project, or paste your own below.</p>
+          <Textarea
+            className="mt-4 max-w-2xl mx-auto min-h-[200px]"
+            placeholder="Paste an existing draft..."
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          {draft.trim() && (
+            <Button className="mt-3" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              <Save className="w-4 h-4 mr-2" />
+              Save as v1
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-3">
+            <div className="flex items-center gap-2">
+              <Input className="w-64" value={label} onChange={(e) => setLabel(e.target.value)} />
+              {label.trim() && label !== selected.label && (
+                <Button size="sm" variant="outline" onClick={() => renameMutation.mutate()} disabled={renameMutation.isPending}>
+                  Rename
+                </Button>
+              )}
+              <Badge variant="secondary" className="capitalize">{selected.source}</Badge>
+              {selected.contactId && (
+                <Badge variant="outline">For {contactsById.get(selected.contactId)?.name || "a removed contact"}</Badge>
+              )}
+            </div>
+            <Textarea
+              className="min-h-[420px] font-serif leading-relaxed"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+            />
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-neutral-500">{countWords(draft)} words{isDirty ? " · unsaved changes" : ""}</span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" onClick={copy}>
+                  <Copy className="w-4 h-4 mr-1" />
+                  Copy
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Delete this version"
+                  onClick={() => confirm(`Delete ${selected.label}?`) && deleteMutation.mutate(selected.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+                <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!isDirty || !draft.trim() || saveMutation.isPending}>
+                  <Save className="w-4 h-4 mr-1" />
+                  Save as New Version
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">Conventions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isDirty && <p className="text-xs text-neutral-500 mb-2">Checks are for the saved version.</p>}
+                <ChecksList checks={selected.checks} />
+              </CardContent>
+            </Card>
+
+            {kind === "query_letter" && (
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Personalise for an Agent</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {contacts.length === 0 ? (
+                    <p className="text-sm text-neutral-500">
+                      Save agents from the <Link href={`/agent-finder/${projectId}`} className="underline">agent finder</Link> to
+                      personalise this letter for each of them.
+                    </p>
+                  ) : (
+                    <>
+                      <Select value={personaliseFor} onValueChange={setPersonaliseFor}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a saved contact" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {contacts.map(contact => (
+                            <SelectItem key={contact.id} value={contact.id}>
+                              {contact.name}{contact.agency ? ` (${contact.agency})` : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        className="w-full"
+                        variant="outline"
+                        onClick={() => personaliseMutation.mutate()}
+                        disabled={!personaliseFor || personaliseMutation.isPending}
+                      >
+                        <UserPen className="w-4 h-4 mr-2" />
+                        {personaliseMutation.isPending ? "Personalising..." : `Personalise ${selected.label}`}
+                      </Button>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function QueryWorkshop() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const [activeKind, setActiveKind] = useState<QueryDocumentKind>("query_letter");
+  // The project doesn't store these, so they're remembered per project on this device
+  const storageKey = `queryWorkshop-${projectId}`;
+  const [authorDetails, setAuthorDetails] = useState<AuthorDetails>(() => {
+    const saved = localStorage.getItem(storageKey);
+    return saved ? JSON.parse(saved) : { authorBio: "", comparables: "", extraNotes: "" };
+  });
+
+  useEffect(() => {
+    localStorage.setItem(storageKey, JSON.stringify(authorDetails));
+  }, [storageKey, authorDetails]);
+
+  const { data: project } = useQuery<Project>({
+    queryKey: ["/api/projects", projectId],
+    enabled: !!projectId,
+  });
+
+  const { data: workshop } = useQuery<QueryWorkshopReport>({
+    queryKey: ["/api/projects", projectId, "query-workshop"],
+    enabled: !!projectId,
+  });
+
+  const { data: contacts = [] } = useQuery<SubmissionContact[]>({
+    queryKey: ["/api/projects", projectId, "submission-contacts"],
+    enabled: !!projectId,
+  });
+
+  if (!project) {
+    return (
+      <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+        <div className="text-center">
+          <FileText className="w-12 h-12 text-neutral-400 mx-auto mb-4" />
+          <p className="text-neutral-600">Loading workshop...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const manuscript = workshop?.manuscript;
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      {/* Header */}
+      <header className="bg-white border-b border-neutral-100 p-6">
+        <div className="flex items-center justify-between max-w-6xl mx-auto">
+          <div className="flex items-center gap-4">
+            <Link href={`/writer/${projectId}`}>
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-neutral-800">Query Workshop</h1>
+              <p className="text-neutral-600 mt-1">{project.title}</p>
+            </div>
+          </div>
+          <Link href={`/submissions/${projectId}`}>
+            <Button variant="outline" size="sm">
+              <ListChecks className="w-4 h-4 mr-2" />
+              Submission Tracker
+            </Button>
+          </Link>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>The Manuscript</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="text-sm text-neutral-600">
+                {manuscript?.genre || "No genre set"} · {(manuscript?.roundedWordCount || 0).toLocaleString()} words
+                {manuscript?.expectedRange && (
+                  <div className="text-xs text-neutral-500 mt-1">
+                    {manuscript.expectedRange.category}: usually {manuscript.expectedRange.min.toLocaleString()}–{manuscript.expectedRange.max.toLocaleString()}
+                  </div>
+                )}
+              </div>
+              {manuscript && <ChecksList checks={manuscript.checks} />}
+              {workshop && workshop.missingFields.length > 0 && (
+                <p className="text-sm text-amber-800">
+                  Drafts will be thinner without: {workshop.missingFields.join(", ")}.{" "}
+                  <Link href={`/plot-outliner/${projectId}`} className="underline">Fill them in</Link>
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>About You and the Book</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:row-span-2">
+                <Label htmlFor="author-bio">Author bio</Label>
+                <Textarea
+                  id="author-bio"
+                  className="min-h-[140px]"
+                  placeholder="Publishing credits, relevant experience, where you live..."
+                  value={authorDetails.authorBio}
+                  onChange={(e) => setAuthorDetails({ ...authorDetails, authorBio: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="comparables">Comparable titles</Label>
+                <Input
+                  id="comparables"
+                  placeholder="e.g. THE SILENT PATIENT meets BIG LITTLE LIES"
+                  value={authorDetails.comparables}
+                  onChange={(e) => setAuthorDetails({ ...authorDetails, comparables: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="extra-notes">Anything else to get across</Label>
+                <Input
+                  id="extra-notes"
+                  placeholder="Themes, hooks, the tone you want"
+                  value={authorDetails.extraNotes}
+                  onChange={(e) => setAuthorDetails({ ...authorDetails, extraNotes: e.target.value })}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Tabs value={activeKind} onValueChange={(value) => setActiveKind(value as QueryDocumentKind)}>
+          <TabsList className="grid w-full grid-cols-3 mb-6">
+            {KINDS.map(({ kind, title }) => (
+              <TabsTrigger key={kind} value={kind}>{title}</TabsTrigger>
+            ))}
+          </TabsList>
+          {KINDS.map(({ kind, hint }) => (
+            <TabsContent key={kind} value={kind}>
+              <DocumentPanel
+                projectId={projectId!}
+                kind={kind}
+                hint={hint}
+                documents={(workshop?.documents || []).filter(document => document.kind === kind)}
+                contacts={contacts}
+                authorDetails={authorDetails}
+              />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,563 @@
+import { useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  QUERY_SUBMISSION_STATUSES,
+  type Project, type QuerySubmission, type QuerySubmissionStatus, type QueryWorkshop, type SubmissionContact, type SubmissionStats
+} from "@shared/schema";
+import { ArrowLeft, BellRing, FileText, Globe, Mail, Plus, Search, Send, Trash2, ListChecks } from "lucide-react";
+
+const STATUS_LABELS: Record<QuerySubmissionStatus, string> = {
+  no_response: "No response",
+  partial_request: "Partial request",
+  full_request: "Full request",
+  rejection: "Rejection",
+  offer: "Offer",
+};
+
+const STATUS_STYLES: Record<QuerySubmissionStatus, string> = {
+  no_response: "bg-neutral-100 text-neutral-700",
+  partial_request: "bg-blue-100 text-blue-800",
+  full_request: "bg-indigo-100 text-indigo-800",
+  rejection: "bg-red-100 text-red-800",
+  offer: "bg-green-100 text-green-800",
+};
+
+const MATERIALS = ["Query letter", "Synopsis", "First 5 pages", "First 10 pages", "First 3 chapters", "Full manuscript"];
+
+// Default follow-up: most agents ask for 6-12 weeks before a nudge
+const DEFAULT_NUDGE_WEEKS = 8;
+
+// Calendar dates in the author's own time zone, as YYYY-MM-DD
+function localDate(date: Date = new Date()): string {
+  return date.toLocaleDateString("en-CA");
+}
+
+function addWeeks(date: string, weeks: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return localDate(new Date(year, month - 1, day + weeks * 7));
+}
+
+function formatDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+}
+
+interface QueryForm {
+  contactId: string;
+  sentDate: string;
+  materials: string[];
+  queryLetterVersion: string;
+  nudgeDate: string;
+}
+
+export default function SubmissionTracker() {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { toast } = useToast();
+  const today = localDate();
+  const [queryForm, setQueryForm] = useState<QueryForm | null>(null);
+
+  const { data: project } = useQuery<Project>({
+    queryKey: ["/api/projects", projectId],
+    enabled: !!projectId,
+  });
+
+  const { data: contacts = [] } = useQuery<SubmissionContact[]>({
+    queryKey: ["/api/projects", projectId, "submission-contacts"],
+    enabled: !!projectId,
+  });
+
+  const { data: submissions = [] } = useQuery<QuerySubmission[]>({
+    queryKey: ["/api/projects", projectId, "submissions"],
+    enabled: !!projectId,
+  });
+
+  const { data: stats } = useQuery<SubmissionStats>({
+    queryKey: ["/api/projects", projectId, "submissions", "stats", today],
+    enabled: !!projectId,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/projects/${projectId}/submissions/stats?today=${today}`);
+      return response.json();
+    },
+  });
+
+  const { data: workshop } = useQuery<QueryWorkshop>({
+    queryKey: ["/api/projects", projectId, "query-workshop"],
+    enabled: !!projectId,
+  });
+  const queryLetters = (workshop?.documents || []).filter(document => document.kind === "query_letter");
+
+  // The stats query sits under the submissions key, so this refreshes both
+  const invalidateSubmissions = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "submissions"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const logQueryMutation = useMutation({
+    mutationFn: async (form: QueryForm) => {
+      const response = await apiRequest("POST", `/api/projects/${projectId}/submissions`, {
+        contactId: form.contactId,
+        sentDate: form.sentDate,
+        materials: form.materials,
+        queryLetterVersion: form.queryLetterVersion.trim() || null,
+        nudgeDate: form.nudgeDate || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateSubmissions();
+      setQueryForm(null);
+      toast({ title: "Query logged" });
+    },
+    onError: onError("Failed to log query"),
+  });
+
+  const updateSubmissionMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<QuerySubmission> }) => {
+      const response = await apiRequest("PATCH", `/api/submissions/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: invalidateSubmissions,
+    onError: onError("Failed to update query"),
+  });
+
+  const deleteSubmissionMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/submissions/${id}`);
+    },
+    onSuccess: invalidateSubmissions,
+    onError: onError("Failed to delete query"),
+  });
+
+  const deleteContactMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/submission-contacts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "submission-contacts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "query-workshop"] });
+      invalidateSubmissions();
+    },
+    onError: onError("Failed to remove contact"),
+  });
+
+  const openQueryForm = (contactId: string) => {
+    // Prefer the letter personalised for this contact, then the workshop's latest general letter,
+    // then whatever went out last; the version usually stays the same across a batch
+    const letter = queryLetters.find(document => document.contactId === contactId)
+      || queryLetters.find(document => !document.contactId);
+    setQueryForm({
+      contactId,
+      sentDate: today,
+      materials: ["Query letter"],
+      queryLetterVersion: letter?.label || submissions[0]?.queryLetterVersion || "",
+      nudgeDate: addWeeks(today, DEFAULT_NUDGE_WEEKS),
+    });
+  };
+
+  const changeStatus = (submission: QuerySubmission, status: QuerySubmissionStatus) => {
+    // The response is dated on the author's calendar, not the server's
+    const updates: Partial<QuerySubmission> = { status };
+    if (submission.status === "no_response" && status !== "no_response") {
+      updates.responseDate = today;
+    }
+    updateSubmissionMutation.mutate({ id: submission.id, updates });
+  };
+
+  const contactsById = new Map(contacts.map(contact => [contact.id, contact]));
+  const queriesByContact = new Map<string, number>();
+  for (const submission of submissions) {
+    queriesByContact.set(submission.contactId, (queriesByContact.get(submission.contactId) || 0) + 1);
+  }
+  const isNudgeDue = (submission: QuerySubmission) =>
+    ["no_response", "partial_request", "full_request"].includes(submission.status) &&
+    !!submission.nudgeDate && submission.nudgeDate <= today;
+
+  if (!project) {
+    return (
+      <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
+        <div className="text-center">
+          <ListChecks className="w-12 h-12 text-neutral-400 mx-auto mb-4" />
+          <p className="text-neutral-600">Loading submissions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-50">
+      {/* Header */}
+      <header className="bg-white border-b border-neutral-100 p-6">
+        <div className="flex items-center justify-between max-w-6xl mx-auto">
+          <div className="flex items-center gap-4">
+            <Link href={`/writer/${projectId}`}>
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-neutral-800">Submission Tracker</h1>
+              <p className="text-neutral-600 mt-1">{project.title}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link href={`/query-workshop/${projectId}`}>
+              <Button variant="outline" size="sm">
+                <FileText className="w-4 h-4 mr-2" />
+                Query Workshop
+              </Button>
+            </Link>
+            <Link href={`/agent-finder/${projectId}`}>
+              <Button variant="outline" size="sm">
+                <Search className="w-4 h-4 mr-2" />
+                Find Agents & Editors
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        {/* Overview */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Queries Sent</CardTitle>
+              <Send className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.sent || 0}</div>
+              <p className="text-xs text-muted-foreground">{stats?.awaiting || 0} awaiting a response</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Response Rate</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.responseRate || 0}%</div>
+              <p className="text-xs text-muted-foreground">
+                {stats?.averageResponseDays !== null && stats?.averageResponseDays !== undefined
+                  ? `Answered in ${stats.averageResponseDays} days on average`
+                  : "No responses yet"}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Request Rate</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.requestRate || 0}%</div>
+              <p className="text-xs text-muted-foreground">
+                {(stats?.byStatus.partial_request || 0) + (stats?.byStatus.full_request || 0)} requests, {stats?.byStatus.offer || 0} offers
+              </p>
+            </CardContent>
+          </Card>
+          <Card className={stats?.nudgesDue ? "border-amber-300" : ""}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Nudges Due</CardTitle>
+              <BellRing className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{stats?.nudgesDue || 0}</div>
+              <p className="text-xs text-muted-foreground">Open queries past their follow-up date</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Queries */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Queries</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {submissions.length === 0 ? (
+              <p className="text-sm text-neutral-500">
+                No queries logged yet. Save contacts from the agent finder, then log each query as you send it.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Contact</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Materials</TableHead>
+                    <TableHead>Query version</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Nudge on</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {submissions.map(submission => {
+                    const contact = contactsById.get(submission.contactId);
+                    const status = submission.status as QuerySubmissionStatus;
+                    return (
+                      <TableRow key={submission.id} className={isNudgeDue(submission) ? "bg-amber-50" : ""}>
+                        <TableCell>
+                          <div className="font-medium">{contact?.name || "Removed contact"}</div>
+                          {contact?.agency && <div className="text-xs text-neutral-500">{contact.agency}</div>}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDate(submission.sentDate)}</TableCell>
+                        <TableCell className="text-xs text-neutral-600">{(submission.materials || []).join(", ")}</TableCell>
+                        <TableCell>{submission.queryLetterVersion || <span className="text-neutral-400">—</span>}</TableCell>
+                        <TableCell>
+                          <Select value={status} onValueChange={(value) => changeStatus(submission, value as QuerySubmissionStatus)}>
+                            <SelectTrigger className={`h-8 w-40 ${STATUS_STYLES[status] || ""}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {QUERY_SUBMISSION_STATUSES.map(option => (
+                                <SelectItem key={option} value={option}>{STATUS_LABELS[option]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {submission.responseDate && (
+                            <div className="text-xs text-neutral-500 mt-1">on {formatDate(submission.responseDate)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="date"
+                            className="h-8 w-36"
+                            value={submission.nudgeDate || ""}
+                            onChange={(e) => updateSubmissionMutation.mutate({
+                              id: submission.id,
+                              updates: { nudgeDate: e.target.value || null },
+                            })}
+                          />
+                          {isNudgeDue(submission) && (
+                            <div className="text-xs text-amber-700 mt-1">Time to follow up</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Delete query"
+                            onClick={() => deleteSubmissionMutation.mutate(submission.id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Saved contacts */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Saved Contacts</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {contacts.length === 0 ? (
+                <p className="text-sm text-neutral-500">
+                  Use the Save button on agent finder results to keep agents, editors and publishers here.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  {contacts.map(contact => (
+                    <div key={contact.id} className="flex items-start justify-between gap-4 border rounded-lg p-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{contact.name}</span>
+                          <Badge variant="outline" className="capitalize">{contact.kind}</Badge>
+                          {contact.matchScore !== null && <Badge variant="secondary">{contact.matchScore}% match</Badge>}
+                        </div>
+                        <div className="text-xs text-neutral-500 mt-1">
+                          {[contact.agency, contact.country].filter(Boolean).join(" · ")}
+                          {queriesByContact.get(contact.id) ? ` · ${queriesByContact.get(contact.id)} queried` : ""}
+                        </div>
+                        {contact.genres && contact.genres.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {contact.genres.slice(0, 5).map(genre => (
+                              <Badge key={genre} variant="secondary" className="text-xs">{genre}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        {contact.email && (
+                          <Button size="sm" variant="ghost" title={contact.email} onClick={() => window.open(`mailto:${contact.email}`)}>
+                            <Mail className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {contact.website && (
+                          <Button size="sm" variant="ghost" title="Website" onClick={() => window.open(contact.website!, "_blank")}>
+                            <Globe className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => openQueryForm(contact.id)}>
+                          <Plus className="w-3 h-3 mr-1" />
+                          Log query
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Remove contact and its queries"
+                          onClick={() => {
+                            if (confirm(`Remove ${contact.name} and the queries logged for them?`)) {
+                              deleteContactMutation.mutate(contact.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Query letter versions */}
+          <Card>
+            <CardHeader>
+              <CardTitle>By Query Letter Version</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!stats || stats.byQueryLetterVersion.length === 0 ? (
+                <p className="text-sm text-neutral-500">Label each query with its letter version to compare how they do.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Version</TableHead>
+                      <TableHead className="text-right">Sent</TableHead>
+                      <TableHead className="text-right">Response</TableHead>
+                      <TableHead className="text-right">Request</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stats.byQueryLetterVersion.map(version => (
+                      <TableRow key={version.version}>
+                        <TableCell className="font-medium">{version.version}</TableCell>
+                        <TableCell className="text-right">{version.sent}</TableCell>
+                        <TableCell className="text-right">{version.responseRate}%</TableCell>
+                        <TableCell className="text-right">{version.requestRate}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={!!queryForm} onOpenChange={(open) => !open && setQueryForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Log Query</DialogTitle>
+          </DialogHeader>
+          {queryForm && (
+            <div className="space-y-4">
+              <div>
+                <Label>Sent to</Label>
+                <Select value={queryForm.contactId} onValueChange={(contactId) => setQueryForm({ ...queryForm, contactId })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {contacts.map(contact => (
+                      <SelectItem key={contact.id} value={contact.id}>{contact.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="sent-date">Date sent</Label>
+                  <Input
+                    id="sent-date"
+                    type="date"
+                    value={queryForm.sentDate}
+                    onChange={(e) => setQueryForm({
+                      ...queryForm,
+                      sentDate: e.target.value,
+                      nudgeDate: e.target.value ? addWeeks(e.target.value, DEFAULT_NUDGE_WEEKS) : queryForm.nudgeDate,
+                    })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="nudge-date">Nudge on</Label>
+                  <Input
+                    id="nudge-date"
+                    type="date"
+                    value={queryForm.nudgeDate}
+                    onChange={(e) => setQueryForm({ ...queryForm, nudgeDate: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>Materials</Label>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {MATERIALS.map(material => (
+                    <label key={material} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={queryForm.materials.includes(material)}
+                        onCheckedChange={(checked) => setQueryForm({
+                          ...queryForm,
+                          materials: checked
+                            ? [...queryForm.materials, material]
+                            : queryForm.materials.filter(item => item !== material),
+                        })}
+                      />
+                      {material}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="query-version">Query letter version</Label>
+                <Input
+                  id="query-version"
+                  list="query-letter-versions"
+                  placeholder="e.g. v2 - new hook"
+                  value={queryForm.queryLetterVersion}
+                  onChange={(e) => setQueryForm({ ...queryForm, queryLetterVersion: e.target.value })}
+                />
+                <datalist id="query-letter-versions">
+                  {queryLetters.map(document => (
+                    <option key={document.id} value={document.label} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setQueryForm(null)}>Cancel</Button>
+                <Button
+                  onClick={() => logQueryMutation.mutate(queryForm)}
+                  disabled={!queryForm.sentDate || logQueryMutation.isPending}
+                >
+                  {logQueryMutation.isPending ? "Saving..." : "Log Query"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, type Dispatch, type SetStateAction } from 'react';
 import { useRoute, useLocation } from 'wouter';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
@@ -6,7 +6,6 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
@@ -14,6 +13,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { useToast } from '@/hooks/use-toast';
 import { useFeatureAccess } from '@/hooks/useFeatureAccess';
 import FeatureGate from '@/components/feature-gate';
+import RevisionHistoryModal from '@/components/revision-history-modal';
+import ProofListeningBar from '@/components/proof-listening-bar';
+import WritingSprintBar from '@/components/editor/writing-sprint-bar';
+import { useWritingSprint } from '@/hooks/use-writing-sprint';
 import { 
   Save, 
   ArrowLeft, 
@@ -29,7 +32,6 @@ import {
   EyeOff,
   Palette,
   Timer,
-  Target,
   Indent,
   BookCheck,
   Shield,
@@ -38,20 +40,15 @@ import {
   Sun,
   PenTool,
   Book,
-  Clock
+  History,
+  Headphones
 } from 'lucide-react';
 import type { Chapter, Project } from '@shared/schema';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, streamRequest } from '@/lib/queryClient';
 
 type WritingMode = 'normal' | 'focus' | 'distraction-free';
 type Theme = 'light' | 'dark' | 'sepia';
 
-interface WritingSession {
-  startTime: Date;
-  wordCount: number;
-  target: number;
-}
-
 export default function TextEditor() {
   const [, params] = useRoute('/text-editor/:chapterId');
   const [, setLocation] = useLocation();
@@ -64,8 +61,6 @@ export default function TextEditor() {
   const [searchQuery, setSearchQuery] = useState('');
   const [replaceQuery, setReplaceQuery] = useState('');
   const [isSearchOpen, setIsSearchOpen] = useState(false);
-  const [writingSession, setWritingSession] = useState<WritingSession | null>(null);
-  const [sessionTarget, setSessionTarget] = useState(500);
   const [undoStack, setUndoStack] = useState<string[]>([]);
   const [redoStack, setRedoStack] = useState<string[]>([]);
   const [currentLineSpacing, setCurrentLineSpacing] = useState<'single' | '1.5' | 'double'>(() => {
@@ -75,20 +70,25 @@ export default function TextEditor() {
   const [isLiteraryEditorOpen, setIsLiteraryEditorOpen] = useState(false);
   const [literaryEditorInput, setLiteraryEditorInput] = useState('');
   const [literaryEditorMessages, setLiteraryEditorMessages] = useState<Array<{
+    id?: string;
     type: 'user' | 'assistant' | 'writer';
     content: string;
     source?: string;
   }>>([]);
   const [isLiteraryEditorLoading, setIsLiteraryEditorLoading] = useState(false);
-  const [literaryEditorProgress, setLiteraryEditorProgress] = useState(0);
   const [isWriterConsultantLoading, setIsWriterConsultantLoading] = useState(false);
 
   // AI Ghostwriter states
   const [isGhostwriterOpen, setIsGhostwriterOpen] = useState(false);
-  const [ghostwriterMessages, setGhostwriterMessages] = useState<Array<{type: 'user' | 'assistant', content: string}>>([]);
+  const [ghostwriterMessages, setGhostwriterMessages] = useState<Array<{id?: string, type: 'user' | 'assistant', content: string}>>([]);
   const [ghostwriterInput, setGhostwriterInput] = useState('');
   const [isGhostwriterLoading, setIsGhostwriterLoading] = useState(false);
 
+  // Replies still streaming in, so Stop and leaving the editor can cancel them
+  const literaryEditorAbortRef = useRef<AbortController | null>(null);
+  const writerConsultantAbortRef = useRef<AbortController | null>(null);
+  const ghostwriterAbortRef = useRef<AbortController | null>(null);
+
   // Word Tools states
   const [wordTools, setWordTools] = useState<{
     isOpen: boolean;
@@ -121,6 +121,8 @@ export default function TextEditor() {
   } | null>(null);
   const [isAiDetectionOpen, setIsAiDetectionOpen] = useState(false);
   const [isUserTyping, setIsUserTyping] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isListening, setIsListening] = useState(false);
 
   const richEditorRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -269,18 +271,6 @@ export default function TextEditor() {
     },
   });
 
-  // Initialize writing session
-  useEffect(() => {
-    const startSession = () => {
-      setWritingSession({
-        startTime: new Date(),
-        wordCount: getWordCount(content),
-        target: sessionTarget
-      });
-    };
-    startSession();
-  }, [chapterId]);
-
   // Improved auto-save functionality - lightweight and non-intrusive
   useEffect(() => {
     if (!chapter) {
@@ -328,8 +318,9 @@ export default function TextEditor() {
   };
 
   const wordCount = getWordCount(content);
-  const sessionWordProgress = writingSession ? wordCount - writingSession.wordCount : 0;
-  const sessionProgressPercent = writingSession ? Math.min(100, (sessionWordProgress / writingSession.target) * 100) : 0;
+  const sprintState = useWritingSprint(chapterId, (chapter as any)?.projectId, wordCount);
+  const { sprint } = sprintState;
+  const sprintProgressPercent = sprint?.targetWords ? Math.min(100, Math.max(0, (sprintState.wordsWritten / sprint.targetWords) * 100)) : 0;
 
   const handleUndo = () => {
     if (undoStack.length > 0) {
@@ -363,6 +354,24 @@ export default function TextEditor() {
     });
   };
 
+  const handleOpenHistory = () => {
+    // Flush pending edits first so the history and diff reflect what's on screen
+    if (content !== ((chapter as any)?.content || '') || title !== ((chapter as any)?.title || '')) {
+      updateChapterMutation.mutate({ content, title });
+    }
+    setIsHistoryOpen(true);
+  };
+
+  const handleRevisionRestored = (restoredChapter: Chapter) => {
+    const restoredContent = restoredChapter.content || '';
+    setUndoStack(prev => [...prev.slice(-19), content]);
+    setRedoStack([]);
+    setContent(restoredContent);
+    if (richEditorRef.current) {
+      richEditorRef.current.innerHTML = restoredContent;
+    }
+  };
+
   const handleTextFormat = (format: 'bold' | 'italic' | 'underline') => {
     if (!richEditorRef.current) return;
     
@@ -483,6 +492,44 @@ export default function TextEditor() {
     return progressInterval;
   };
 
+  type PanelMessage = { id?: string; content: string };
+
+  const newMessageId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+  // Streams an AI reply into the panel message with the given id as it arrives
+  const streamReplyInto = <T extends PanelMessage>(
+    setMessages: Dispatch<SetStateAction<T[]>>,
+    id: string,
+    query: string,
+    type: string,
+    controller: AbortController
+  ) => streamRequest('/api/ai/query', {
+    query,
+    context: {
+      projectId: (chapter as any)?.projectId,
+      chapterId: chapterId,
+      type
+    }
+  }, {
+    signal: controller.signal,
+    onDelta: (text) => setMessages(prev => prev.map(message =>
+      message.id === id ? { ...message, content: message.content + text } : message
+    )),
+  });
+
+  // A stopped reply keeps whatever arrived; one that never started, or failed, is dropped
+  const settleReply = <T extends PanelMessage>(setMessages: Dispatch<SetStateAction<T[]>>, id: string, stopped: boolean) => {
+    setMessages(prev => prev
+      .filter(message => message.id !== id || (stopped && message.content.trim()))
+      .map(message => message.id === id ? { ...message, content: `${message.content} …` } : message));
+  };
+
+  useEffect(() => () => {
+    literaryEditorAbortRef.current?.abort();
+    writerConsultantAbortRef.current?.abort();
+    ghostwriterAbortRef.current?.abort();
+  }, []);
+
   // Literary Editor handlers
   const handleLiteraryEditorAnalysis = async () => {
     if (!content.trim()) {
@@ -494,14 +541,18 @@ export default function TextEditor() {
       return;
     }
 
+    const id = newMessageId();
+    const controller = new AbortController();
+    literaryEditorAbortRef.current = controller;
     setIsLiteraryEditorLoading(true);
-    setLiteraryEditorProgress(0);
-    const progressInterval = simulateProgress(setLiteraryEditorProgress, 20000);
+    setLiteraryEditorMessages(prev => [
+      ...prev,
+      { type: 'user', content: 'Analyze this chapter' },
+      { id, type: 'assistant', content: '', source: 'Literary Editor' }
+    ]);
+    setIsLiteraryEditorOpen(true);
 
     try {
-      console.log('Starting literary analysis for chapter:', title);
-      console.log('Project ID:', (chapter as any)?.projectId);
-      
       const analysisPrompt = `As a professional literary editor, please analyze this chapter and provide detailed feedback on:
 
 1. **Story Structure**: Pacing, plot development, and narrative flow
@@ -515,35 +566,13 @@ Please provide specific examples and actionable suggestions for improvement.
 Chapter Title: ${title}
 Chapter Content: ${content}`;
 
-      const response = await apiRequest('POST', '/api/ai/query', {
-        query: analysisPrompt,
-        context: {
-          projectId: (chapter as any)?.projectId,
-          chapterId: chapterId,
-          type: "literary_analysis"
-        }
-      });
-
-      const data = await response.json();
-      console.log('Literary analysis response:', data);
-
-      clearInterval(progressInterval);
-      setLiteraryEditorProgress(100);
-
-      setLiteraryEditorMessages(prev => [
-        ...prev,
-        { type: 'user', content: 'Analyze this chapter' },
-        { type: 'assistant', content: data.response, source: 'Literary Editor' }
-      ]);
-      setIsLiteraryEditorOpen(true);
+      const reply = await streamReplyInto(setLiteraryEditorMessages, id, analysisPrompt, "literary_analysis", controller);
 
       // Automatically get writer consultant response
-      setTimeout(() => {
-        handleWriterConsultantResponse(data.response);
-      }, 1000);
+      handleWriterConsultantResponse(reply.response);
     } catch (error) {
-      clearInterval(progressInterval);
-      setLiteraryEditorProgress(0);
+      settleReply(setLiteraryEditorMessages, id, controller.signal.aborted);
+      if (controller.signal.aborted) return;
       console.error("Literary Editor error:", error);
       toast({
         title: "Analysis Failed",
@@ -552,7 +581,7 @@ Chapter Content: ${content}`;
       });
     } finally {
       setIsLiteraryEditorLoading(false);
-      setTimeout(() => setLiteraryEditorProgress(0), 1000); // Reset progress after delay
+      if (literaryEditorAbortRef.current === controller) literaryEditorAbortRef.current = null;
     }
   };
 
@@ -560,33 +589,29 @@ Chapter Content: ${content}`;
     if (!literaryEditorInput.trim()) return;
     
     const userMessage = literaryEditorInput;
+    const id = newMessageId();
+    const controller = new AbortController();
+    literaryEditorAbortRef.current = controller;
     setLiteraryEditorInput('');
     setIsLiteraryEditorLoading(true);
     
     setLiteraryEditorMessages(prev => [
       ...prev,
-      { type: 'user', content: userMessage }
+      { type: 'user', content: userMessage },
+      { id, type: 'assistant', content: '', source: 'Literary Editor' }
     ]);
 
     try {
-      console.log('Literary editor follow-up question:', userMessage);
-      const response = await apiRequest('POST', '/api/ai/query', {
-        query: `${userMessage}\n\nContext - Chapter: "${title}"\nContent: ${content}`,
-        context: {
-          projectId: (chapter as any)?.projectId,
-          chapterId: chapterId,
-          type: "literary_analysis"
-        }
-      });
-
-      const data = await response.json();
-      console.log('Literary editor follow-up response:', data);
-
-      setLiteraryEditorMessages(prev => [
-        ...prev,
-        { type: 'assistant', content: data.response, source: 'Literary Editor' }
-      ]);
+      await streamReplyInto(
+        setLiteraryEditorMessages,
+        id,
+        `${userMessage}\n\nContext - Chapter: "${title}"\nContent: ${content}`,
+        "literary_analysis",
+        controller
+      );
     } catch (error) {
+      settleReply(setLiteraryEditorMessages, id, controller.signal.aborted);
+      if (controller.signal.aborted) return;
       console.error("Literary Editor chat error:", error);
       toast({
         title: "Chat Failed",
@@ -595,11 +620,19 @@ Chapter Content: ${content}`;
       });
     } finally {
       setIsLiteraryEditorLoading(false);
+      if (literaryEditorAbortRef.current === controller) literaryEditorAbortRef.current = null;
     }
   };
 
   const handleWriterConsultantResponse = async (literaryAnalysis: string) => {
+    const id = newMessageId();
+    const controller = new AbortController();
+    writerConsultantAbortRef.current = controller;
     setIsWriterConsultantLoading(true);
+    setLiteraryEditorMessages(prev => [
+      ...prev,
+      { id, type: 'writer', content: '', source: 'Writer Consultant' }
+    ]);
     
     try {
       const writerPrompt = `As an experienced creative writer and storytelling consultant, you've just read this literary analysis of a chapter. Your role is to inspire and guide the writer with creative suggestions that complement the editor's feedback.
@@ -620,42 +653,39 @@ Please provide inspiring, actionable advice that:
 
 Write as a supportive mentor who sees potential and wants to unlock the writer's creativity.`;
 
-      const response = await apiRequest('POST', '/api/ai/query', {
-        query: writerPrompt,
-        context: {
-          projectId: (chapter as any)?.projectId,
-          chapterId: chapterId,
-          type: "writer_consultation"
-        }
-      });
-
-      const data = await response.json();
-      console.log('Writer consultant response:', data);
-
-      setLiteraryEditorMessages(prev => [
-        ...prev,
-        { type: 'writer', content: data.response, source: 'Writer Consultant' }
-      ]);
-
+      await streamReplyInto(setLiteraryEditorMessages, id, writerPrompt, "writer_consultation", controller);
     } catch (error) {
-      console.error("Writer Consultant error:", error);
       // Fail silently - the literary analysis still works without this
+      settleReply(setLiteraryEditorMessages, id, controller.signal.aborted);
+      if (!controller.signal.aborted) {
+        console.error("Writer Consultant error:", error);
+      }
     } finally {
       setIsWriterConsultantLoading(false);
+      if (writerConsultantAbortRef.current === controller) writerConsultantAbortRef.current = null;
     }
   };
 
+  const stopLiteraryEditor = () => {
+    literaryEditorAbortRef.current?.abort();
+    writerConsultantAbortRef.current?.abort();
+  };
+
   // AI Ghostwriter handlers
   const handleGhostwriterSubmit = async () => {
     if (!ghostwriterInput.trim()) return;
 
     const userMessage = ghostwriterInput.trim();
+    const id = newMessageId();
+    const controller = new AbortController();
+    ghostwriterAbortRef.current = controller;
     setGhostwriterInput('');
     setIsGhostwriterLoading(true);
 
     setGhostwriterMessages(prev => [
       ...prev,
-      { type: 'user', content: userMessage }
+      { type: 'user', content: userMessage },
+      { id, type: 'assistant', content: '' }
     ]);
 
     try {
@@ -722,24 +752,10 @@ I will write a complete scene (400+ words minimum) that:
 
 **SCENE CONTENT:**`;
 
-      const response = await apiRequest('POST', '/api/ai/query', {
-        query: ghostwriterPrompt,
-        context: {
-          projectId: (chapter as any)?.projectId,
-          chapterId: chapterId,
-          type: "ghostwriting"
-        }
-      });
-
-      const data = await response.json();
-      console.log('Ghostwriter response:', data);
-
-      setGhostwriterMessages(prev => [
-        ...prev,
-        { type: 'assistant', content: data.response }
-      ]);
-
+      await streamReplyInto(setGhostwriterMessages, id, ghostwriterPrompt, "ghostwriting", controller);
     } catch (error) {
+      settleReply(setGhostwriterMessages, id, controller.signal.aborted);
+      if (controller.signal.aborted) return;
       console.error("Ghostwriter error:", error);
       toast({
         title: "Ghostwriter Failed",
@@ -748,6 +764,7 @@ I will write a complete scene (400+ words minimum) that:
       });
     } finally {
       setIsGhostwriterLoading(false);
+      if (ghostwriterAbortRef.current === controller) ghostwriterAbortRef.current = null;
     }
   };
 
@@ -884,17 +901,6 @@ I will write a complete scene (400+ words minimum) that:
     }
   };
 
-  // Initialize writing session when chapter loads
-  useEffect(() => {
-    if (chapter && typeof chapter === 'object' && 'id' in chapter) {
-      setWritingSession({
-        startTime: new Date(),
-        wordCount: getWordCount(content),
-        target: sessionTarget
-      });
-    }
-  }, [chapter, content]);
-
   // Initialize editor content when chapter loads (but not during typing)
   
   useEffect(() => {
@@ -1400,14 +1406,14 @@ Text to analyze: "${content}"`;
               </div>
 
               {/* Writing Session Progress */}
-              {writingSession && sessionWordProgress < writingSession.target && (
+              {sprint?.targetWords && sprintState.wordsWritten < sprint.targetWords && (
                 <div className="flex items-center gap-2 text-sm">
                   <Timer className="w-4 h-4" />
-                  <span>{sessionWordProgress}/{writingSession.target}</span>
+                  <span>{sprintState.wordsWritten}/{sprint.targetWords}</span>
                   <div className="w-16 h-2 bg-neutral-200 rounded-full overflow-hidden">
                     <div 
                       className="h-full bg-green-500 transition-all"
-                      style={{ width: `${sessionProgressPercent}%` }}
+                      style={{ width: `${sprintProgressPercent}%` }}
                     />
                   </div>
                 </div>
@@ -1423,6 +1429,28 @@ Text to analyze: "${content}"`;
                 <Save className="w-4 h-4 mr-2" />
                 {updateChapterMutation.isPending ? 'Saving...' : 'Save'}
               </Button>
+
+              {/* Revision History */}
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={handleOpenHistory}
+                title="Revision History"
+              >
+                <History className="w-4 h-4 mr-2" />
+                History
+              </Button>
+
+              {/* Proof-listening */}
+              <Button 
+                variant={isListening ? "default" : "outline"}
+                size="sm" 
+                onClick={() => setIsListening(prev => !prev)}
+                title="Listen to this chapter, following along sentence by sentence"
+              >
+                <Headphones className="w-4 h-4 mr-2" />
+                Listen
+              </Button>
             </div>
           </div>
 
@@ -1597,7 +1625,7 @@ Text to analyze: "${content}"`;
                     size="sm" 
                     onClick={handleLiteraryEditorAnalysis}
                     disabled={isLiteraryEditorLoading || !content.trim()}
-                    title={isLiteraryEditorLoading ? `Analyzing... ${Math.round(literaryEditorProgress)}%` : "AI Literary Editor Analysis"}
+                    title={isLiteraryEditorLoading ? "Analyzing..." : "AI Literary Editor Analysis"}
                     className={isLiteraryEditorLoading ? "relative" : ""}
                   >
                     {isLiteraryEditorLoading ? (
@@ -1606,14 +1634,6 @@ Text to analyze: "${content}"`;
                       <BookCheck className="w-4 h-4" />
                     )}
                   </Button>
-                  {isLiteraryEditorLoading && (
-                    <div className="w-20 space-y-1">
-                      <Progress value={literaryEditorProgress} className="h-2" />
-                      <div className="text-xs text-center text-blue-600 font-medium">
-                        {Math.round(literaryEditorProgress)}%
-                      </div>
-                    </div>
-                  )}
                 </div>
               </FeatureGate>
 
@@ -1904,53 +1924,18 @@ Text to analyze: "${content}"`;
             </div>  
           )}
 
-          {/* Writing Session Tracker */}
-          {writingSession && (
-            <div className="border-t bg-gradient-to-r from-green-50 to-blue-50 p-3">
-              <div className="flex items-center justify-between text-sm">
-                <div className="flex items-center gap-4">
-                  <div className="flex items-center gap-2">
-                    <Timer className="w-4 h-4 text-green-600" />
-                    <span className="font-medium">Session Progress:</span>
-                    <span className="text-green-700">
-                      {sessionWordProgress} / {writingSession.target} words
-                    </span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Clock className="w-4 h-4 text-blue-600" />
-                    <span>
-                      {Math.floor((Date.now() - writingSession.startTime.getTime()) / (1000 * 60))} min
-                    </span>
-                  </div>
-                </div>
-                <div className="flex items-center gap-3">
-                  <div className="w-32 bg-white rounded-full h-2">
-                    <div 
-                      className="bg-gradient-to-r from-green-500 to-blue-500 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${Math.min(100, sessionProgressPercent)}%` }}
-                    ></div>
-                  </div>
-                  <span className="text-xs font-medium text-neutral-600">
-                    {Math.round(sessionProgressPercent)}%
-                  </span>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    onClick={() => {
-                      const newTarget = prompt('Set new session target:', sessionTarget.toString());
-                      if (newTarget && !isNaN(parseInt(newTarget))) {
-                        setSessionTarget(parseInt(newTarget));
-                        setWritingSession(prev => prev ? { ...prev, target: parseInt(newTarget) } : null);
-                      }
-                    }}
-                    title="Change session target"
-                  >
-                    <Target className="w-4 h-4" />
-                  </Button>
-                </div>
-              </div>
-            </div>
+          {/* Proof-listening Controls */}
+          {isListening && chapterId && (
+            <ProofListeningBar
+              editorRef={richEditorRef}
+              chapterId={chapterId}
+              content={content}
+              onClose={() => setIsListening(false)}
+            />
           )}
+
+          {/* Writing Sprint */}
+          <WritingSprintBar state={sprintState} />
         </div>
       )}
 
@@ -2042,17 +2027,17 @@ Text to analyze: "${content}"`;
       )}
 
       {/* Session Progress Indicator (bottom of screen in distraction-free mode) */}
-      {writingMode === 'distraction-free' && writingSession && sessionWordProgress < writingSession.target && (
+      {writingMode === 'distraction-free' && sprint?.targetWords && sprintState.wordsWritten < sprint.targetWords && (
         <div className="fixed bottom-4 right-4">
           <Card className="p-3">
             <CardContent className="p-0">
               <div className="flex items-center gap-2 text-sm">
                 <Timer className="w-4 h-4" />
-                <span>{sessionWordProgress}/{writingSession.target}</span>
+                <span>{sprintState.wordsWritten}/{sprint.targetWords}</span>
                 <div className="w-16 h-2 bg-neutral-200 rounded-full overflow-hidden">
                   <div 
                     className="h-full bg-green-500 transition-all"
-                    style={{ width: `${sessionProgressPercent}%` }}
+                    style={{ width: `${sprintProgressPercent}%` }}
                   />
                 </div>
               </div>
@@ -2061,6 +2046,16 @@ Text to analyze: "${content}"`;
         </div>
       )}
 
+      {/* Revision History Dialog */}
+      {chapterId && (
+        <RevisionHistoryModal
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          chapterId={chapterId}
+          onRestored={handleRevisionRestored}
+        />
+      )}
+
       {/* Literary Editor Dialog */}
       <Dialog open={isLiteraryEditorOpen} onOpenChange={setIsLiteraryEditorOpen}>
         <DialogContent className="max-w-4xl h-[80vh] flex flex-col">
@@ -2097,50 +2092,19 @@ Text to analyze: "${content}"`;
                             📝 {message.source}
                           </div>
                         )}
-                        <div className="whitespace-pre-wrap text-sm">
-                          {message.content}
-                        </div>
+                        {message.content ? (
+                          <div className="whitespace-pre-wrap text-sm">
+                            {message.content}
+                          </div>
+                        ) : (
+                          <div className={`flex items-center gap-2 text-sm ${message.type === 'writer' ? 'text-purple-600' : 'text-blue-600'}`}>
+                            <div className={`animate-spin rounded-full h-4 w-4 border-b-2 ${message.type === 'writer' ? 'border-purple-500' : 'border-blue-500'}`}></div>
+                            {message.type === 'writer' ? 'Crafting creative suggestions...' : "Reading your chapter's structure, characters, dialogue and prose..."}
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
-                  
-                  {isWriterConsultantLoading && (
-                    <div className="flex justify-start">
-                      <div className="max-w-[85%] p-3 rounded-lg bg-gradient-to-r from-purple-50 to-indigo-50 border-l-4 border-purple-400 mr-4">
-                        <div className="text-xs font-medium mb-2 text-purple-600">📝 Writer Consultant</div>
-                        <div className="flex items-center gap-2 text-purple-600">
-                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-purple-500"></div>
-                          Crafting creative suggestions...
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              )}
-              
-              {isLiteraryEditorLoading && (
-                <div className="flex justify-start mb-4">
-                  <div className="bg-white border max-w-[80%] p-4 rounded-lg mr-4">
-                    <div className="flex items-center gap-3 mb-3">
-                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
-                      <span className="text-sm font-medium">Literary Analysis in Progress...</span>
-                    </div>
-                    <div className="space-y-2">
-                      <div className="flex justify-between text-xs text-neutral-600">
-                        <span>Processing chapter content</span>
-                        <span>{Math.round(literaryEditorProgress)}%</span>
-                      </div>
-                      <div className="w-full bg-neutral-200 rounded-full h-2">
-                        <div 
-                          className="bg-blue-500 h-2 rounded-full transition-all duration-300 ease-out"
-                          style={{ width: `${literaryEditorProgress}%` }}
-                        ></div>
-                      </div>
-                      <p className="text-xs text-neutral-500 mt-2">
-                        Please wait while our AI analyzes your chapter's structure, characters, dialogue, and prose style...
-                      </p>
-                    </div>
-                  </div>
                 </div>
               )}
             </div>
@@ -2160,13 +2124,19 @@ Text to analyze: "${content}"`;
                   }}
                 />
                 <div className="flex flex-col gap-2">
-                  <Button 
-                    onClick={handleLiteraryEditorSubmit}
-                    disabled={!literaryEditorInput.trim() || isLiteraryEditorLoading}
-                    size="sm"
-                  >
-                    Send
-                  </Button>
+                  {isLiteraryEditorLoading || isWriterConsultantLoading ? (
+                    <Button onClick={stopLiteraryEditor} variant="outline" size="sm">
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button 
+                      onClick={handleLiteraryEditorSubmit}
+                      disabled={!literaryEditorInput.trim()}
+                      size="sm"
+                    >
+                      Send
+                    </Button>
+                  )}
                   <Button 
                     variant="outline"
                     onClick={handleLiteraryEditorAnalysis}
@@ -2344,27 +2314,23 @@ Text to analyze: "${content}"`;
                           ? 'bg-emerald-500 text-white ml-4' 
                           : 'bg-white border-l-4 border-emerald-400 mr-4'
                       }`}>
-                        <div className="whitespace-pre-wrap text-sm">
-                          {message.content}
-                        </div>
+                        {message.content ? (
+                          <div className="whitespace-pre-wrap text-sm">
+                            {message.content}
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2 text-emerald-600">
+                            <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce"></div>
+                            <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
+                            <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
+                            <span className="text-sm ml-2">Writing...</span>
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
                 </div>
               )}
-              
-              {isGhostwriterLoading && (
-                <div className="flex justify-start mb-4">
-                  <div className="bg-white border-l-4 border-emerald-400 max-w-[85%] p-3 rounded-lg mr-4">
-                    <div className="flex items-center gap-2 text-emerald-600">
-                      <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce"></div>
-                      <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce" style={{animationDelay: '0.1s'}}></div>
-                      <div className="w-2 h-2 bg-emerald-400 rounded-full animate-bounce" style={{animationDelay: '0.2s'}}></div>
-                      <span className="text-sm ml-2">Writing...</span>
-                    </div>
-                  </div>
-                </div>
-              )}
             </div>
 
             <div className="border-t pt-4">
@@ -2382,14 +2348,24 @@ Text to analyze: "${content}"`;
                   }}
                 />
                 <div className="flex flex-col gap-2">
-                  <Button 
-                    onClick={handleGhostwriterSubmit}
-                    disabled={!ghostwriterInput.trim() || isGhostwriterLoading}
-                    size="sm"
-                    className="bg-emerald-600 hover:bg-emerald-700"
-                  >
-                    {isGhostwriterLoading ? 'Writing...' : 'Send'}
-                  </Button>
+                  {isGhostwriterLoading ? (
+                    <Button
+                      onClick={() => ghostwriterAbortRef.current?.abort()}
+                      variant="outline"
+                      size="sm"
+                    >
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button 
+                      onClick={handleGhostwriterSubmit}
+                      disabled={!ghostwriterInput.trim()}
+                      size="sm"
+                      className="bg-emerald-600 hover:bg-emerald-700"
+                    >
+                      Send
+                    </Button>
+                  )}
                 </div>
               </div>
               
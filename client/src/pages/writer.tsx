@@ -9,13 +9,15 @@ import WritingTools from "@/components/writing-tools";
 import HistoricalResearchModal from "@/components/historical-research-modal";
 import CharacterModal from "@/components/character-modal";
 import ExportDialog from "@/components/export-dialog";
+import ProjectSnapshotsDialog from "@/components/project-snapshots-dialog";
+import TranslationDialog from "@/components/translation-dialog";
 import FeatureGate from "@/components/feature-gate";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { useFeatureAccess } from "@/hooks/useFeatureAccess";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { type Project, type Chapter } from "@shared/schema";
-import { ArrowLeft, ArrowRight, Download, Eye, Circle, BookOpen, Scroll } from "lucide-react";
+import { ArrowLeft, ArrowRight, Download, Eye, Circle, BookOpen, Scroll, Camera, Languages } from "lucide-react";
 import { Link } from "wouter";
 
 export default function Writer() {
@@ -253,6 +255,20 @@ export default function Writer() {
                 </Button>
               </FeatureGate>
 
+              {/* Manuscript Snapshots */}
+              <ProjectSnapshotsDialog project={project}>
+                <Button variant="ghost" size="sm" title="Manuscript Snapshots">
+                  <Camera className="w-4 h-4" />
+                </Button>
+              </ProjectSnapshotsDialog>
+
+              {/* Translations */}
+              <TranslationDialog project={project}>
+                <Button variant="ghost" size="sm" title="Translate">
+                  <Languages className="w-4 h-4" />
+                </Button>
+              </TranslationDialog>
+
               {/* Export Menu */}
               <ExportDialog project={project}>
                 <Button variant="ghost" size="sm">
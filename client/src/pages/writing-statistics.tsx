@@ -1,12 +1,37 @@
 import { useParams } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "wouter";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { type Project, type Chapter } from "@shared/schema";
-import { ArrowLeft, BarChart3, Target, Calendar, Clock, TrendingUp, FileText, Zap } from "lucide-react";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { apiRequest } from "@/lib/queryClient";
+import { type Project, type Chapter, type WritingStatisticsReport, type WritingSprintLog } from "@shared/schema";
+import { ArrowLeft, BarChart3, Target, Calendar, Clock, TrendingUp, FileText, Zap, Sun, Timer, Trophy } from "lucide-react";
+
+// How many days the words-per-day chart shows
+const CHART_DAYS = 30;
+
+const dailyChartConfig = {
+  netWords: { label: "Net words", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const hourChartConfig = {
+  words: { label: "Words written", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? "am" : "pm";
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
+}
+
+// Report dates are local calendar days, so parse them as local midnight rather than UTC
+function parseLocalDate(date: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
 
 export default function WritingStatistics() {
   const { projectId } = useParams<{ projectId: string }>();
@@ -26,6 +51,24 @@ export default function WritingStatistics() {
     refetchOnWindowFocus: false,
   });
 
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const { data: statistics } = useQuery<WritingStatisticsReport>({
+    queryKey: ["/api/projects", projectId, "writing-statistics", timeZone],
+    enabled: !!projectId,
+    queryFn: async () => {
+      const response = await apiRequest(
+        "GET",
+        `/api/projects/${projectId}/writing-statistics?timeZone=${encodeURIComponent(timeZone)}`
+      );
+      return response.json();
+    },
+  });
+
+  const { data: sprintLog } = useQuery<WritingSprintLog>({
+    queryKey: ["/api/projects", projectId, "sprints"],
+    enabled: !!projectId,
+  });
+
   if (!project) {
     return (
       <div className="min-h-screen bg-neutral-50 flex items-center justify-center">
@@ -38,6 +81,7 @@ export default function WritingStatistics() {
   }
 
   const totalWords = project.wordCount || 0;
+  const hasTarget = (project.targetWordCount || 0) > 0;
   const targetWords = project.targetWordCount || 50000;
   const progress = targetWords > 0 ? Math.min((totalWords / targetWords) * 100, 100) : 0;
   const wordsRemaining = Math.max(targetWords - totalWords, 0);
@@ -60,12 +104,18 @@ export default function WritingStatistics() {
       chaptersWithContent[0] || { title: "N/A", wordCount: 0 }
     );
 
-  // Calculate estimated completion based on recent progress (mock data for demo)
-  const dailyAverageWords = 500; // Could be calculated from actual writing sessions
-  const daysToCompletion = wordsRemaining > 0 ? Math.ceil(wordsRemaining / dailyAverageWords) : 0;
+  const dailyAverageWords = statistics?.projection.averageDailyWords || 0;
+  const writingStreak = statistics?.currentStreak || 0;
+  const projectedCompletion = statistics?.projection.projectedCompletionDate
+    ? parseLocalDate(statistics.projection.projectedCompletionDate)
+    : null;
 
-  // Calculate writing streak (mock data for demo)
-  const writingStreak = 5; // Could be calculated from actual writing sessions
+  const dailyData = (statistics?.days || []).slice(-CHART_DAYS).map(day => ({
+    ...day,
+    label: parseLocalDate(day.date).toLocaleDateString(undefined, { month: "short", day: "numeric" }),
+  }));
+  const hourData = (statistics?.hourOfDay || []).map((words, hour) => ({ hour: formatHour(hour), words }));
+  const hasHistory = (statistics?.days.length || 0) > 0;
 
   return (
     <div className="min-h-screen bg-neutral-50">
@@ -140,7 +190,7 @@ export default function WritingStatistics() {
                 {writingStreak}
               </div>
               <p className="text-sm text-neutral-500 mt-1">
-                days in a row
+                days in a row{statistics && statistics.longestStreak > 0 ? ` · best ${statistics.longestStreak}` : ""}
               </p>
             </CardContent>
           </Card>
@@ -154,10 +204,18 @@ export default function WritingStatistics() {
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-bold text-neutral-800">
-                {daysToCompletion}
+                {projectedCompletion
+                  ? projectedCompletion.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" })
+                  : "—"}
               </div>
               <p className="text-sm text-neutral-500 mt-1">
-                days at current pace
+                {!hasTarget
+                  ? "No target word count set"
+                  : wordsRemaining === 0
+                    ? "Target reached"
+                    : projectedCompletion
+                      ? `at ${dailyAverageWords.toLocaleString()} words/day`
+                      : "Write a few days to see a projection"}
               </p>
             </CardContent>
           </Card>
@@ -242,7 +300,7 @@ export default function WritingStatistics() {
                   </div>
                   <div className="text-center p-3 bg-neutral-50 rounded-lg">
                     <div className="text-2xl font-bold text-orange-500">
-                      {dailyAverageWords}
+                      {dailyAverageWords.toLocaleString()}
                     </div>
                     <p className="text-sm text-neutral-600">Words/day</p>
                   </div>
@@ -252,6 +310,239 @@ export default function WritingStatistics() {
           </Card>
         </div>
 
+        {/* Writing History */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="w-5 h-5" />
+                Words per Day
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {hasHistory ? (
+                <ChartContainer config={dailyChartConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={dailyData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="netWords" fill="var(--color-netWords)" radius={2} />
+                  </BarChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-sm text-neutral-500 py-12 text-center">
+                  Your daily word counts will appear here as you write.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Sun className="w-5 h-5" />
+                Best Time of Day
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {statistics && statistics.bestHour !== null ? (
+                <>
+                  <p className="text-sm text-neutral-600 mb-2">
+                    You write the most around <span className="font-medium">{formatHour(statistics.bestHour)}</span>
+                  </p>
+                  <ChartContainer config={hourChartConfig} className="h-56 w-full aspect-auto">
+                    <BarChart data={hourData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="hour" tickLine={false} axisLine={false} interval={2} />
+                      <YAxis tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="words" radius={2}>
+                        {hourData.map((_, hour) => (
+                          <Cell
+                            key={hour}
+                            fill="var(--color-words)"
+                            fillOpacity={hour === statistics.bestHour ? 1 : 0.4}
+                          />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ChartContainer>
+                </>
+              ) : (
+                <p className="text-sm text-neutral-500 py-12 text-center">
+                  Write for a few days to find your most productive hours.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="w-5 h-5" />
+                Writing Sessions
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-3 gap-4 mb-4">
+                <div className="text-center p-3 bg-neutral-50 rounded-lg">
+                  <div className="text-2xl font-bold text-neutral-800">{statistics?.sessions.count || 0}</div>
+                  <p className="text-sm text-neutral-600">Sessions</p>
+                </div>
+                <div className="text-center p-3 bg-neutral-50 rounded-lg">
+                  <div className="text-2xl font-bold text-neutral-800">{statistics?.sessions.averageMinutes || 0}m</div>
+                  <p className="text-sm text-neutral-600">Average</p>
+                </div>
+                <div className="text-center p-3 bg-neutral-50 rounded-lg">
+                  <div className="text-2xl font-bold text-neutral-800">{statistics?.sessions.longestMinutes || 0}m</div>
+                  <p className="text-sm text-neutral-600">Longest</p>
+                </div>
+              </div>
+              <div className="space-y-2 max-h-48 overflow-y-auto">
+                {(statistics?.sessions.recent || []).map(session => (
+                  <div key={session.startedAt} className="flex justify-between items-center text-sm">
+                    <span className="text-neutral-600">
+                      {new Date(session.startedAt).toLocaleString(undefined, { weekday: "short", month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}
+                    </span>
+                    <span className="text-neutral-500">
+                      {session.minutes} min · {session.netWords >= 0 ? "+" : ""}{session.netWords.toLocaleString()} words
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="w-5 h-5" />
+                Recently Written
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {statistics && statistics.chapters.length > 0 ? (
+                <div className="space-y-3 max-h-64 overflow-y-auto">
+                  {statistics.chapters.map(chapter => (
+                    <div key={chapter.chapterId} className="flex justify-between items-start">
+                      <div>
+                        <p className="font-medium text-sm truncate max-w-56">{chapter.title}</p>
+                        <p className="text-xs text-neutral-500">
+                          {new Date(chapter.lastWrittenAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <Badge variant="outline">
+                        {chapter.netWords >= 0 ? "+" : ""}{chapter.netWords.toLocaleString()} words
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-neutral-500 py-12 text-center">
+                  No writing recorded yet.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Sprints */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Timer className="w-5 h-5" />
+              Writing Sprints
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="text-center p-3 bg-neutral-50 rounded-lg">
+                <div className="text-2xl font-bold text-neutral-800">
+                  {sprintLog?.bests.mostWords ? sprintLog.bests.mostWords.words.toLocaleString() : "—"}
+                </div>
+                <p className="text-sm text-neutral-600 flex items-center justify-center gap-1">
+                  <Trophy className="w-3 h-3 text-amber-500" />
+                  Most words
+                </p>
+              </div>
+              <div className="text-center p-3 bg-neutral-50 rounded-lg">
+                <div className="text-2xl font-bold text-neutral-800">
+                  {sprintLog?.bests.fastestPace ? sprintLog.bests.fastestPace.wordsPerMinute : "—"}
+                </div>
+                <p className="text-sm text-neutral-600 flex items-center justify-center gap-1">
+                  <Trophy className="w-3 h-3 text-amber-500" />
+                  Fastest words/min
+                </p>
+              </div>
+              <div className="text-center p-3 bg-neutral-50 rounded-lg">
+                <div className="text-2xl font-bold text-neutral-800">
+                  {sprintLog?.bests.longestMinutes ? `${sprintLog.bests.longestMinutes.minutes}m` : "—"}
+                </div>
+                <p className="text-sm text-neutral-600 flex items-center justify-center gap-1">
+                  <Trophy className="w-3 h-3 text-amber-500" />
+                  Longest sprint
+                </p>
+              </div>
+              <div className="text-center p-3 bg-neutral-50 rounded-lg">
+                <div className="text-2xl font-bold text-neutral-800">
+                  {sprintLog?.bests.totalSprints || 0}
+                </div>
+                <p className="text-sm text-neutral-600">
+                  Sprints · {sprintLog?.bests.targetsHit || 0} on target
+                </p>
+              </div>
+            </div>
+
+            {sprintLog && sprintLog.sprints.length > 0 ? (
+              <div className="max-h-72 overflow-y-auto overflow-x-auto">
+                <table className="w-full">
+                  <thead className="sticky top-0 bg-white border-b border-neutral-200">
+                    <tr>
+                      <th className="text-left py-2 px-2 font-medium text-neutral-600">Started</th>
+                      <th className="text-left py-2 px-2 font-medium text-neutral-600">Chapter</th>
+                      <th className="text-right py-2 px-2 font-medium text-neutral-600">Minutes</th>
+                      <th className="text-right py-2 px-2 font-medium text-neutral-600">Words</th>
+                      <th className="text-right py-2 px-2 font-medium text-neutral-600">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sprintLog.sprints.map(sprint => (
+                      <tr key={sprint.id} className="border-b border-neutral-100 text-sm">
+                        <td className="py-2 px-2 text-neutral-600">
+                          {new Date(sprint.startedAt).toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" })}
+                        </td>
+                        <td className="py-2 px-2 text-neutral-800 truncate max-w-48">{sprint.chapterTitle}</td>
+                        <td className="py-2 px-2 text-right text-neutral-600">
+                          {sprint.minutes}{sprint.durationMinutes ? ` / ${sprint.durationMinutes}` : ""}
+                        </td>
+                        <td className="py-2 px-2 text-right text-neutral-600">
+                          {sprint.wordsAdded.toLocaleString()}{sprint.targetWords ? ` / ${sprint.targetWords.toLocaleString()}` : ""}
+                        </td>
+                        <td className="py-2 px-2 text-right">
+                          {sprint.status === "active" ? (
+                            <Badge variant="secondary">Running</Badge>
+                          ) : sprint.status === "abandoned" ? (
+                            <Badge variant="outline">Abandoned</Badge>
+                          ) : sprint.targetWords && sprint.wordsAdded >= sprint.targetWords ? (
+                            <Badge>Target hit</Badge>
+                          ) : (
+                            <Badge variant="outline">Done</Badge>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-neutral-500 text-center py-6">
+                Start a sprint from the editor to build your session log.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Chapter List with Statistics */}
         <Card>
           <CardHeader>
@@ -0,0 +1,91 @@
+import { loudnormFilter, type AudioAnalysis, type LoudnessMeasurement, type LoudnessTarget } from "./audio-tools";
+import type { AcxChapterReport } from "@shared/schema";
+
+// ACX (Audible) submission requirements for each chapter file
+export const ACX_SPEC = {
+  minRmsLevel: -23,
+  maxRmsLevel: -18,
+  maxPeakLevel: -3,
+  maxNoiseFloor: -60,
+  minLeadingSilence: 0.5,
+  maxLeadingSilence: 1,
+  minTrailingSilence: 1,
+  maxTrailingSilence: 5,
+  sampleRate: 44100,
+  minBitRate: 192000,
+  maxDuration: 120 * 60,
+};
+
+// Speech normalised to -20 LUFS lands near -20 dB RMS, in the middle of the ACX window, with peaks held under -3 dB
+export const ACX_LOUDNESS_TARGET: LoudnessTarget = { integrated: -20, truePeak: -3.5, range: 11 };
+
+// Room tone added around the narration; TTS output already carries a little silence of its own at each end
+const ROOM_TONE_HEAD_MS = 600;
+const ROOM_TONE_TAIL_SECONDS = 2;
+// A faint pink-noise bed, so the pauses sound like a quiet room instead of digital black
+const ROOM_TONE_AMPLITUDE = 0.0003;
+
+// filter_complex graph for input 0: normalise, pad with room tone, and label the result [mastered]
+export function acxMasteringFilter(measurement: LoudnessMeasurement): string {
+  return [
+    `[0:a]${loudnormFilter(ACX_LOUDNESS_TARGET, measurement)},aresample=${ACX_SPEC.sampleRate},` +
+      `adelay=${ROOM_TONE_HEAD_MS}:all=1,apad=pad_dur=${ROOM_TONE_TAIL_SECONDS}[narration]`,
+    `anoisesrc=color=pink:amplitude=${ROOM_TONE_AMPLITUDE}:sample_rate=${ACX_SPEC.sampleRate}[roomtone]`,
+    '[narration][roomtone]amix=inputs=2:duration=first:normalize=0[mastered]',
+  ].join(';');
+}
+
+function formatLevel(value: number): string {
+  return `${value.toFixed(1)} dB`;
+}
+
+export function checkAcxCompliance(title: string, analysis: AudioAnalysis): AcxChapterReport {
+  const issues: string[] = [];
+
+  if (analysis.rmsLevel === null) {
+    issues.push('RMS level could not be measured');
+  } else if (analysis.rmsLevel < ACX_SPEC.minRmsLevel || analysis.rmsLevel > ACX_SPEC.maxRmsLevel) {
+    issues.push(`RMS level ${formatLevel(analysis.rmsLevel)} is outside ${ACX_SPEC.minRmsLevel} to ${ACX_SPEC.maxRmsLevel} dB`);
+  }
+
+  if (analysis.peakLevel === null) {
+    issues.push('Peak level could not be measured');
+  } else if (analysis.peakLevel > ACX_SPEC.maxPeakLevel) {
+    issues.push(`Peak level ${formatLevel(analysis.peakLevel)} is above ${ACX_SPEC.maxPeakLevel} dB`);
+  }
+
+  if (analysis.noiseFloor !== null && analysis.noiseFloor > ACX_SPEC.maxNoiseFloor) {
+    issues.push(`Noise floor ${formatLevel(analysis.noiseFloor)} is above ${ACX_SPEC.maxNoiseFloor} dB`);
+  }
+
+  if (analysis.leadingSilence < ACX_SPEC.minLeadingSilence || analysis.leadingSilence > ACX_SPEC.maxLeadingSilence) {
+    issues.push(`Opening room tone is ${analysis.leadingSilence.toFixed(1)}s; ACX expects ${ACX_SPEC.minLeadingSilence}–${ACX_SPEC.maxLeadingSilence}s`);
+  }
+  if (analysis.trailingSilence < ACX_SPEC.minTrailingSilence || analysis.trailingSilence > ACX_SPEC.maxTrailingSilence) {
+    issues.push(`Closing room tone is ${analysis.trailingSilence.toFixed(1)}s; ACX expects ${ACX_SPEC.minTrailingSilence}–${ACX_SPEC.maxTrailingSilence}s`);
+  }
+
+  if (analysis.sampleRate !== ACX_SPEC.sampleRate) {
+    issues.push(`Sample rate is ${analysis.sampleRate ?? 'unknown'} Hz; ACX requires ${ACX_SPEC.sampleRate} Hz`);
+  }
+  if (analysis.bitRate === null || analysis.bitRate < ACX_SPEC.minBitRate) {
+    issues.push(`Bit rate is ${analysis.bitRate ? Math.round(analysis.bitRate / 1000) : 'unknown'} kbps; ACX requires ${ACX_SPEC.minBitRate / 1000} kbps or more`);
+  }
+
+  if (analysis.duration > ACX_SPEC.maxDuration) {
+    issues.push(`Chapter runs ${Math.round(analysis.duration / 60)} minutes; ACX allows at most ${ACX_SPEC.maxDuration / 60} minutes per file`);
+  }
+
+  return {
+    title,
+    duration: analysis.duration,
+    rmsLevel: analysis.rmsLevel,
+    peakLevel: analysis.peakLevel,
+    noiseFloor: analysis.noiseFloor,
+    sampleRate: analysis.sampleRate,
+    bitRate: analysis.bitRate,
+    leadingSilence: analysis.leadingSilence,
+    trailingSilence: analysis.trailingSilence,
+    issues,
+  };
+}
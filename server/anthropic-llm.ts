@@ -0,0 +1,114 @@
+import { type LLMCompletion, type LLMProvider, type LLMRequest, type LLMTokenUsage, type StreamHandlers } from "./llm-provider";
+
+// Claude models through the Anthropic Messages API, called over HTTP so the server doesn't need another SDK
+
+const ANTHROPIC_API_URL = `${process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'}/v1/messages`;
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// The Messages API requires a limit; long enough for a full literary analysis
+const DEFAULT_MAX_TOKENS = 4096;
+
+// US dollars per million input and output tokens, by model family
+const ANTHROPIC_PRICING: Array<[string, number, number]> = [
+  ['opus', 15, 75],
+  ['haiku', 0.8, 4],
+  ['sonnet', 3, 15],
+];
+
+function messagesRequest(model: string, request: LLMRequest, streaming: boolean) {
+  return {
+    model,
+    // No response_format here, so JSON is asked for in the system prompt; completeText extracts it
+    system: request.json
+      ? `${request.system}\n\nRespond with a single valid JSON object and nothing else.`
+      : request.system,
+    messages: [{ role: 'user', content: request.prompt }],
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    // Anthropic accepts 0 to 1
+    ...(request.temperature !== undefined ? { temperature: Math.min(request.temperature, 1) } : {}),
+    ...(streaming ? { stream: true } : {}),
+  };
+}
+
+async function post(body: unknown, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(ANTHROPIC_API_URL, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-api-key': process.env.ANTHROPIC_API_KEY || '',
+      'anthropic-version': ANTHROPIC_VERSION,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Anthropic API error ${response.status}: ${await response.text()}`);
+  }
+  return response;
+}
+
+async function complete(model: string, request: LLMRequest): Promise<LLMCompletion> {
+  const response = await post(messagesRequest(model, request, false));
+  const message = await response.json();
+  const text = (message.content || [])
+    .filter((block: { type: string }) => block.type === 'text')
+    .map((block: { text: string }) => block.text)
+    .join('');
+  return {
+    text,
+    usage: { inputTokens: message.usage?.input_tokens || 0, outputTokens: message.usage?.output_tokens || 0 },
+  };
+}
+
+async function stream(model: string, request: LLMRequest, handlers: StreamHandlers): Promise<LLMCompletion> {
+  const response = await post(messagesRequest(model, request, true), handlers.signal);
+  if (!response.body) {
+    throw new Error('Anthropic API returned no stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const usage: LLMTokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let buffer = '';
+  let text = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const payload = frame.split('\n').filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('');
+      if (!payload) continue;
+
+      const event = JSON.parse(payload);
+      if (event.type === 'message_start') {
+        usage.inputTokens = event.message?.usage?.input_tokens || 0;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        text += event.delta.text;
+        handlers.onDelta(event.delta.text);
+      } else if (event.type === 'message_delta') {
+        usage.outputTokens = event.usage?.output_tokens || usage.outputTokens;
+      } else if (event.type === 'error') {
+        throw new Error(`Anthropic API error: ${event.error?.message || 'stream failed'}`);
+      }
+    }
+  }
+  return { text, usage };
+}
+
+export const anthropicLLMProvider: LLMProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  description: 'Claude models through the Anthropic API',
+  defaultModel: () => process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-20250514',
+  isAvailable: () => !!process.env.ANTHROPIC_API_KEY,
+  complete,
+  stream,
+  estimateCost: (model, usage) => {
+    const [, input, output] = ANTHROPIC_PRICING.find(([family]) => model.includes(family)) || ANTHROPIC_PRICING[2];
+    return (usage.inputTokens * input + usage.outputTokens * output) / 1_000_000;
+  },
+};
@@ -0,0 +1,176 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+// Thin wrappers around the ffmpeg, ffprobe and speech engine binaries (installed through the Replit nix packages)
+
+const execFileAsync = promisify(execFile);
+
+export interface LoudnessTarget {
+  integrated: number; // LUFS
+  truePeak: number; // dBTP
+  range: number; // LU
+}
+
+// First-pass loudnorm measurement, fed back into the second pass for linear normalization
+export interface LoudnessMeasurement {
+  inputIntegrated: string;
+  inputTruePeak: string;
+  inputRange: string;
+  inputThreshold: string;
+  targetOffset: string;
+}
+
+export interface AudioAnalysis {
+  duration: number; // seconds
+  sampleRate: number | null; // Hz
+  bitRate: number | null; // bits per second
+  channels: number | null;
+  rmsLevel: number | null; // dBFS
+  peakLevel: number | null; // dBFS
+  noiseFloor: number | null; // dBFS
+  leadingSilence: number; // seconds
+  trailingSilence: number; // seconds
+}
+
+// Levels reported as -inf (digital silence) are stored as this floor so they survive JSON
+const SILENT_LEVEL = -120;
+
+// Quiet enough to count as room tone rather than speech
+const SILENCE_THRESHOLD = '-50dB';
+
+// Run a binary to completion; input, if given, is written to its stdin
+export async function runTool(binary: string, args: string[], input?: string): Promise<{ stdout: string; stderr: string }> {
+  try {
+    const pending = execFileAsync(binary, args, { maxBuffer: 10 * 1024 * 1024 });
+    if (input !== undefined) {
+      pending.child.stdin?.end(input);
+    }
+    const { stdout, stderr } = await pending;
+    return { stdout: stdout.toString(), stderr: stderr.toString() };
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      throw new Error(`${binary} is not installed on the server`);
+    }
+    const details = (error?.stderr || error?.message || '').toString().trim();
+    throw new Error(`${binary} failed: ${details.slice(-500)}`);
+  }
+}
+
+export async function runFfmpeg(args: string[]): Promise<void> {
+  await runTool('ffmpeg', ['-hide_banner', '-loglevel', 'error', '-y', ...args]);
+}
+
+// Run measuring filters over a file and return their report, which ffmpeg writes to stderr
+async function runAnalysisFilter(filePath: string, filter: string): Promise<string> {
+  const { stderr } = await runTool('ffmpeg', ['-hide_banner', '-nostats', '-loglevel', 'info', '-i', filePath, '-af', filter, '-f', 'null', '-']);
+  return stderr;
+}
+
+// Duration in seconds, read from the file itself
+export async function probeDuration(filePath: string): Promise<number> {
+  const { stdout } = await runTool('ffprobe', [
+    '-v', 'error',
+    '-show_entries', 'format=duration',
+    '-of', 'default=noprint_wrappers=1:nokey=1',
+    filePath,
+  ]);
+  const duration = parseFloat(stdout.trim());
+  if (!Number.isFinite(duration)) {
+    throw new Error(`Could not read the duration of ${filePath}`);
+  }
+  return duration;
+}
+
+// Escape a value for an ffmpeg FFMETADATA1 file
+export function escapeFfmetadata(value: string): string {
+  return value.replace(/[\\=;#\n]/g, character => `\\${character}`);
+}
+
+export async function measureLoudness(filePath: string, target: LoudnessTarget): Promise<LoudnessMeasurement> {
+  const report = await runAnalysisFilter(
+    filePath,
+    `loudnorm=I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}:print_format=json`
+  );
+  const json = report.slice(report.lastIndexOf('{'), report.lastIndexOf('}') + 1);
+  const values = JSON.parse(json || '{}');
+  if (!values.input_i) {
+    throw new Error(`Could not measure the loudness of ${filePath}`);
+  }
+  return {
+    inputIntegrated: values.input_i,
+    inputTruePeak: values.input_tp,
+    inputRange: values.input_lra,
+    inputThreshold: values.input_thresh,
+    targetOffset: values.target_offset,
+  };
+}
+
+// Second-pass loudnorm filter; with the first pass measured it applies a single linear gain where it can
+export function loudnormFilter(target: LoudnessTarget, measurement: LoudnessMeasurement): string {
+  return [
+    `loudnorm=I=${target.integrated}`,
+    `TP=${target.truePeak}`,
+    `LRA=${target.range}`,
+    `measured_I=${measurement.inputIntegrated}`,
+    `measured_TP=${measurement.inputTruePeak}`,
+    `measured_LRA=${measurement.inputRange}`,
+    `measured_thresh=${measurement.inputThreshold}`,
+    `offset=${measurement.targetOffset}`,
+    'linear=true',
+  ].join(':');
+}
+
+function parseLevel(report: string, label: string): number | null {
+  const matches = Array.from(report.matchAll(new RegExp(`${label}:\\s*(-?inf|-?[\\d.]+)`, 'g')));
+  if (matches.length === 0) return null;
+  // Overall figures come after any per-channel ones
+  const value = matches[matches.length - 1][1];
+  return value.endsWith('inf') ? SILENT_LEVEL : parseFloat(value);
+}
+
+// Levels, room tone at either end, and the encoding of a finished file
+export async function analyzeAudio(filePath: string): Promise<AudioAnalysis> {
+  const { stdout } = await runTool('ffprobe', [
+    '-v', 'error',
+    '-select_streams', 'a:0',
+    '-show_entries', 'stream=sample_rate,bit_rate,channels:format=duration,bit_rate',
+    '-of', 'json',
+    filePath,
+  ]);
+  const probe = JSON.parse(stdout || '{}');
+  const stream = probe.streams?.[0] || {};
+  const duration = parseFloat(probe.format?.duration);
+  if (!Number.isFinite(duration)) {
+    throw new Error(`Could not read the duration of ${filePath}`);
+  }
+
+  const report = await runAnalysisFilter(
+    filePath,
+    `silencedetect=noise=${SILENCE_THRESHOLD}:d=0.2,astats=measure_perchannel=none`
+  );
+
+  const starts = Array.from(report.matchAll(/silence_start:\s*(-?[\d.]+)/g)).map(match => parseFloat(match[1]));
+  const ends = Array.from(report.matchAll(/silence_end:\s*(-?[\d.]+)/g)).map(match => parseFloat(match[1]));
+
+  // Silence that starts at zero is the head; silence still running at the end of the file is the tail
+  const leadingSilence = starts.length > 0 && starts[0] <= 0.05 && ends.length > 0 ? ends[0] : 0;
+  const lastStart = starts[starts.length - 1];
+  const tailOpen = starts.length > ends.length || (ends.length > 0 && ends[ends.length - 1] >= duration - 0.05);
+  const trailingSilence = lastStart !== undefined && tailOpen && lastStart > 0.05 ? duration - lastStart : 0;
+
+  const bitRate = parseInt(stream.bit_rate || probe.format?.bit_rate, 10);
+  const sampleRate = parseInt(stream.sample_rate, 10);
+  const channels = parseInt(stream.channels, 10);
+
+  return {
+    duration,
+    sampleRate: Number.isFinite(sampleRate) ? sampleRate : null,
+    bitRate: Number.isFinite(bitRate) ? bitRate : null,
+    channels: Number.isFinite(channels) ? channels : null,
+    rmsLevel: parseLevel(report, 'RMS level dB'),
+    peakLevel: parseLevel(report, 'Peak level dB'),
+    noiseFloor: parseLevel(report, 'Noise floor dB'),
+    leadingSilence,
+    trailingSilence,
+  };
+}
@@ -0,0 +1,498 @@
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { getTTSProvider, planCastChunks, type TTSProvider } from "./tts-provider";
+import { estimateSpeechDuration } from "./tts-text";
+import { castDialogue, htmlToSpeechText, type CastMember } from "./dialogue-casting";
+import { CHAPTER_HEADING_BREAK, markSceneBreaks } from "./pronunciation";
+import { probeDuration } from "./audio-tools";
+import { packageAudiobook } from "./audiobook-packaging";
+import type { Audiobook, AudiobookChunk, InsertAudiobookChunk } from "@shared/schema";
+
+// Audiobook generation runs as a persistent queue: every TTS request is an audiobook_chunks row,
+// so a failed, cancelled or interrupted job picks up again at the first chunk without audio.
+
+const MAX_CHUNK_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 5000;
+
+// Requests the API rejected outright won't succeed on a retry
+const PERMANENT_STATUS_CODES = [400, 401, 403];
+
+export interface ChapterProgress {
+  chapterIndex: number;
+  chapterId: string | null;
+  title: string;
+  status: 'pending' | 'generating' | 'completed' | 'failed';
+  totalChunks: number;
+  completedChunks: number;
+  attempts: number; // Attempts on the chunk currently being retried, if any
+  nextAttemptAt: Date | null;
+  error: string | null;
+}
+
+export interface AudiobookProgress {
+  audiobookId: string;
+  status: string;
+  totalChunks: number;
+  completedChunks: number;
+  chapters: ChapterProgress[];
+}
+
+// Basic content cleaning for TTS processing
+function cleanContentForTTS(rawContent: string): string {
+  return rawContent
+    // Remove HTML tags but preserve content
+    .replace(/<[^>]*>/g, ' ')
+    // Decode common HTML entities
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&apos;/g, "'")
+    // Clean up extra whitespace
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Convert technical errors to user-friendly messages
+function getUserFriendlyError(error: any): string {
+  const errorMessage = error?.message || '';
+
+  if (errorMessage.includes('exceeded your current quota')) {
+    return 'Audio generation is temporarily unavailable due to service limits. Please try again later or contact support if this persists.';
+  }
+  if (errorMessage.includes('rate_limit_exceeded')) {
+    return 'Too many requests at once. Please wait a moment and try again.';
+  }
+  if (errorMessage.includes('invalid_api_key') || errorMessage.includes('authentication')) {
+    return 'Audio service temporarily unavailable. Please contact support.';
+  }
+  if (errorMessage.includes('network') || errorMessage.includes('timeout') || errorMessage.includes('ENOTFOUND')) {
+    return 'Network connection issue. Please check your internet connection and try again.';
+  }
+  if (errorMessage.includes('is not installed on the server')) {
+    return 'The local narration engine is not installed on this server. Please choose another voice.';
+  }
+  if (errorMessage.includes('ENOSPC')) {
+    return 'Insufficient storage space. Please contact support.';
+  }
+  if (errorMessage.includes('permission') || errorMessage.includes('EACCES')) {
+    return 'File access error. Please contact support.';
+  }
+  return 'Unable to generate audiobook. Please try again or contact support if the problem continues.';
+}
+
+function isPermanentError(error: any): boolean {
+  return PERMANENT_STATUS_CODES.includes(error?.status) || (error?.message || '').includes('exceeded your current quota');
+}
+
+function sanitizeFileName(title: string): string {
+  return title
+    .replace(/[^a-zA-Z0-9\s\-_]/g, '') // Remove special characters
+    .replace(/\s+/g, '_') // Replace spaces with underscores
+    .substring(0, 50); // Limit length
+}
+
+export function audiobookDirectory(audiobook: Audiobook): string {
+  return path.join('uploads', 'audiobooks', audiobook.projectId, audiobook.id);
+}
+
+function chunkFilePath(audiobook: Audiobook, chunk: AudiobookChunk): string {
+  return path.join(audiobookDirectory(audiobook), 'chunks', `${chunk.chapterIndex + 1}_${chunk.chunkIndex + 1}.mp3`);
+}
+
+function chapterFilePath(audiobook: Audiobook, chunk: AudiobookChunk): string {
+  const idSuffix = chunk.chapterId ? `_${chunk.chapterId.slice(0, 8)}` : '';
+  return path.join(audiobookDirectory(audiobook), `chapter_${chunk.chapterIndex + 1}_${sanitizeFileName(chunk.chapterTitle)}${idSuffix}.mp3`);
+}
+
+// The provider the audiobook was created with; jobs from before providers existed are OpenAI
+function providerFor(audiobook: Audiobook): TTSProvider | undefined {
+  return getTTSProvider(audiobook.provider);
+}
+
+// Chunks grouped by chapter, in narration order
+function groupByChapter(chunks: AudiobookChunk[]): AudiobookChunk[][] {
+  const chapters = new Map<number, AudiobookChunk[]>();
+  for (const chunk of chunks) {
+    chapters.set(chunk.chapterIndex, [...(chapters.get(chunk.chapterIndex) || []), chunk]);
+  }
+  return Array.from(chapters.keys()).sort((a, b) => a - b).map(index => chapters.get(index)!);
+}
+
+function isChunkDone(chunk: AudiobookChunk): boolean {
+  return chunk.status === 'completed' && !!chunk.filePath && existsSync(chunk.filePath);
+}
+
+async function failAudiobook(audiobookId: string, error: string): Promise<void> {
+  await storage.updateAudiobook(audiobookId, { status: 'failed', error });
+}
+
+// Split the manuscript into chunk rows once; the stored text is what gets spoken, even if the chapters change later
+async function planAudiobook(audiobook: Audiobook, provider: TTSProvider): Promise<boolean> {
+  let chapters = await storage.getChaptersByProject(audiobook.projectId);
+  if (chapters.length === 0) {
+    await failAudiobook(audiobook.id, 'No chapters found for this project');
+    return false;
+  }
+
+  if (audiobook.scope === 'chapter' && audiobook.selectedChapterId) {
+    const selectedChapter = chapters.find(ch => ch.id === audiobook.selectedChapterId);
+    if (!selectedChapter) {
+      console.error(`Selected chapter not found! Looking for: ${audiobook.selectedChapterId}`);
+      await failAudiobook(audiobook.id, 'Selected chapter not found');
+      return false;
+    }
+    chapters = [selectedChapter];
+  }
+
+  const pronunciations = await storage.getPronunciationsByProject(audiobook.projectId);
+
+  // Multi-voice keeps paragraph breaks so dialogue can be attributed to its speaker
+  const cast: CastMember[] | undefined = audiobook.multiVoice
+    ? (await storage.getCharactersByProject(audiobook.projectId)).map(character => ({ name: character.name, voice: character.voice }))
+    : undefined;
+
+  const rows: InsertAudiobookChunk[] = [];
+  let chapterIndex = 0;
+  for (const chapter of chapters) {
+    // Scene breaks are marked before the HTML is flattened so they can become pauses
+    const marked = markSceneBreaks(chapter.content || '');
+    const content = cast ? htmlToSpeechText(marked) : cleanContentForTTS(marked);
+    if (content.trim().length === 0) {
+      console.log(`Skipping empty chapter: ${chapter.title}`);
+      continue;
+    }
+
+    // Prepend chapter title to content for more polished audiobook experience, with a pause after the heading
+    const contentWithTitle = `${chapter.title}. ${CHAPTER_HEADING_BREAK} ${content}`;
+    const speechChunks = cast
+      ? planCastChunks(provider, castDialogue(contentWithTitle, cast, chapter.povCharacter), audiobook.voice, pronunciations)
+      : provider.planChunks(contentWithTitle, audiobook.voice, pronunciations);
+
+    speechChunks.forEach((speechChunk, chunkIndex) => {
+      rows.push({
+        audiobookId: audiobook.id,
+        chapterId: chapter.id,
+        chapterIndex,
+        chapterTitle: chapter.title,
+        chunkIndex,
+        text: speechChunk.text,
+        voice: speechChunk.voice,
+      });
+    });
+    chapterIndex++;
+  }
+
+  if (rows.length === 0) {
+    await failAudiobook(audiobook.id, 'No content to convert');
+    return false;
+  }
+
+  await storage.createAudiobookChunks(rows);
+  await storage.updateAudiobook(audiobook.id, {
+    totalChapters: chapterIndex,
+    completedChapters: 0,
+    totalChunks: rows.length,
+    completedChunks: 0,
+    chapterFiles: [],
+  });
+  console.log(`Planned audiobook ${audiobook.id}: ${chapterIndex} chapters, ${rows.length} chunks`);
+  return true;
+}
+
+// Join a finished chapter's chunks into its chapter file (simple concatenation for MP3)
+async function assembleChapter(audiobook: Audiobook, chapterChunks: AudiobookChunk[]): Promise<string> {
+  const chapterPath = chapterFilePath(audiobook, chapterChunks[0]);
+  const buffers = await Promise.all(chapterChunks.map(chunk => fs.readFile(chunk.filePath!)));
+  await fs.writeFile(chapterPath, Buffer.concat(buffers));
+  return chapterPath;
+}
+
+// Counts and chapter files as they stand, written back so the list view can show progress
+async function saveProgress(audiobook: Audiobook, chunks: AudiobookChunk[]): Promise<void> {
+  const finishedChapters = groupByChapter(chunks).filter(chapterChunks => chapterChunks.every(isChunkDone));
+  await storage.updateAudiobook(audiobook.id, {
+    completedChunks: chunks.filter(isChunkDone).length,
+    completedChapters: finishedChapters.length,
+    chapterFiles: finishedChapters.map(chapterChunks => chapterFilePath(audiobook, chapterChunks[0])),
+  });
+}
+
+// Measured from the audio when ffprobe is available; the estimate keeps generation going without it
+async function chunkDuration(filePath: string, text: string): Promise<number> {
+  try {
+    return await probeDuration(filePath);
+  } catch (error) {
+    console.warn(`Falling back to estimated duration for ${filePath}:`, (error as Error).message);
+    return estimateSpeechDuration(text.length);
+  }
+}
+
+// The MP3 stays downloadable if packaging fails, so a packaging error never fails the audiobook
+async function packageFinishedAudiobook(audiobook: Audiobook): Promise<void> {
+  try {
+    const packaged = await packageAudiobook(audiobook);
+    await storage.updateAudiobook(audiobook.id, { ...packaged, status: 'completed', packagingError: null });
+  } catch (error) {
+    console.error(`Error packaging audiobook ${audiobook.id}:`, error);
+    await storage.updateAudiobook(audiobook.id, {
+      status: 'completed',
+      packagingError: 'M4B and ACX packaging failed. The MP3 download is still available.',
+    });
+  }
+}
+
+// Combine the chapter files into the final book once every chunk has audio, then package it
+async function finishAudiobook(audiobook: Audiobook, chunks: AudiobookChunk[]): Promise<void> {
+  const chapterFiles: string[] = [];
+  for (const chapterChunks of groupByChapter(chunks)) {
+    const chapterPath = chapterFilePath(audiobook, chapterChunks[0]);
+    chapterFiles.push(existsSync(chapterPath) ? chapterPath : await assembleChapter(audiobook, chapterChunks));
+  }
+
+  const bookPath = path.join(audiobookDirectory(audiobook), `${sanitizeFileName(audiobook.title) || 'audiobook'}.mp3`);
+  const bookBuffer = Buffer.concat(await Promise.all(chapterFiles.map(file => fs.readFile(file))));
+  await fs.writeFile(bookPath, bookBuffer);
+
+  const finished = await storage.updateAudiobook(audiobook.id, {
+    status: 'packaging',
+    filePath: bookPath,
+    chapterFiles,
+    completedChapters: chapterFiles.length,
+    completedChunks: chunks.length,
+    duration: Math.round(chunks.reduce((sum, chunk) => sum + (chunk.duration || 0), 0)),
+    fileSize: bookBuffer.length,
+    error: null,
+  });
+  console.log(`Audiobook generation completed for project ${audiobook.projectId}: ${bookPath}`);
+
+  if (finished) {
+    await packageFinishedAudiobook(finished);
+  }
+}
+
+// Work through one audiobook's chunks. Returns when the job ends, stops, or must wait for a retry (the retry time).
+async function processAudiobook(audiobook: Audiobook): Promise<number | null> {
+  if (audiobook.status === 'packaging') {
+    await packageFinishedAudiobook(audiobook);
+    return null;
+  }
+
+  const provider = providerFor(audiobook);
+  if (!provider || !provider.isAvailable()) {
+    await failAudiobook(audiobook.id, `${provider?.name || 'This voice provider'} is not available on this server. Please choose another voice.`);
+    return null;
+  }
+
+  let chunks = await storage.getAudiobookChunks(audiobook.id);
+  if (chunks.length === 0) {
+    console.log(`Starting audiobook generation for project ${audiobook.projectId} with ${provider.name}`);
+    if (!await planAudiobook(audiobook, provider)) return null;
+    chunks = await storage.getAudiobookChunks(audiobook.id);
+  }
+
+  if (audiobook.status === 'pending') {
+    await storage.updateAudiobook(audiobook.id, { status: 'generating', error: null });
+  }
+
+  await fs.mkdir(path.join(audiobookDirectory(audiobook), 'chunks'), { recursive: true });
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+
+    // Resume from the last good chunk; one whose audio has gone missing from disk is generated again
+    if (isChunkDone(chunk)) continue;
+    if (chunk.status === 'failed') {
+      await failAudiobook(audiobook.id, chunk.error || 'Unable to generate audiobook. Please try again.');
+      return null;
+    }
+    if (chunk.nextAttemptAt && chunk.nextAttemptAt.getTime() > Date.now()) {
+      return chunk.nextAttemptAt.getTime();
+    }
+
+    // Cancelling or deleting takes effect between chunks
+    const current = await storage.getAudiobook(audiobook.id);
+    if (!current || current.status !== 'generating') {
+      console.log(`Audiobook ${audiobook.id} stopped (${current?.status || 'deleted'})`);
+      return null;
+    }
+
+    const attempts = (chunk.attempts || 0) + 1;
+    try {
+      const filePath = chunkFilePath(audiobook, chunk);
+      await fs.writeFile(filePath, await provider.synthesize({ text: chunk.text, voice: chunk.voice }, { speed: 1.0 }));
+
+      const updated = await storage.updateAudiobookChunk(chunk.id, {
+        status: 'completed',
+        attempts,
+        filePath,
+        duration: Math.round(await chunkDuration(filePath, chunk.text)),
+        nextAttemptAt: null,
+        error: null,
+      });
+      if (!updated) {
+        // The audiobook was deleted while this chunk was being generated
+        await fs.rm(filePath, { force: true });
+        return null;
+      }
+      chunks[i] = updated;
+    } catch (error) {
+      const message = (error as Error).message || 'Failed to generate audio';
+      console.error(`Audiobook ${audiobook.id} chapter ${chunk.chapterIndex + 1} chunk ${chunk.chunkIndex + 1} failed (attempt ${attempts}):`, message);
+
+      if (isPermanentError(error) || attempts >= MAX_CHUNK_ATTEMPTS) {
+        await storage.updateAudiobookChunk(chunk.id, { status: 'failed', attempts, nextAttemptAt: null, error: message });
+        await saveProgress(audiobook, chunks);
+        await failAudiobook(audiobook.id, getUserFriendlyError(error));
+        return null;
+      }
+
+      const nextAttemptAt = new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1));
+      await storage.updateAudiobookChunk(chunk.id, { attempts, nextAttemptAt, error: message });
+      return nextAttemptAt.getTime();
+    }
+
+    // The last chunk of a chapter completes its chapter file
+    const chapterChunks = chunks.filter(other => other.chapterIndex === chunk.chapterIndex);
+    if (chapterChunks.every(isChunkDone)) {
+      const chapterPath = await assembleChapter(audiobook, chapterChunks);
+      console.log(`✅ Chapter ${chunk.chapterIndex + 1} completed: ${chapterPath}`);
+    }
+    await saveProgress(audiobook, chunks);
+  }
+
+  await finishAudiobook(audiobook, chunks);
+  return null;
+}
+
+let draining = false;
+let rerun = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleRetry(retryAt: number): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    kickAudiobookQueue();
+  }, Math.max(0, retryAt - Date.now()));
+}
+
+// Jobs run one at a time, oldest first, until none are left or all are waiting on a retry
+async function drainQueue(): Promise<void> {
+  for (;;) {
+    const jobs = await storage.getActiveAudiobooks();
+    let retryAt: number | null = null;
+    let finishedAny = false;
+
+    for (const job of jobs) {
+      let jobRetryAt: number | null = null;
+      try {
+        jobRetryAt = await processAudiobook(job);
+      } catch (error) {
+        console.error(`Error in audiobook generation for project ${job.projectId}:`, error);
+        await failAudiobook(job.id, getUserFriendlyError(error));
+      }
+
+      if (jobRetryAt === null) {
+        finishedAny = true;
+      } else {
+        retryAt = retryAt === null ? jobRetryAt : Math.min(retryAt, jobRetryAt);
+      }
+    }
+
+    if (!finishedAny) {
+      if (retryAt !== null) scheduleRetry(retryAt);
+      return;
+    }
+  }
+}
+
+// Wake the worker; calls while it is already running make it look for new work once more before it stops
+export function kickAudiobookQueue(): void {
+  if (draining) {
+    rerun = true;
+    return;
+  }
+  draining = true;
+  setImmediate(async () => {
+    try {
+      do {
+        rerun = false;
+        await drainQueue();
+      } while (rerun);
+    } catch (error) {
+      console.error("Audiobook queue crashed:", error);
+    } finally {
+      draining = false;
+    }
+  });
+}
+
+// Jobs left pending or generating by a restart are still in the database; pick them up where they stopped
+export async function recoverAudiobookJobs(): Promise<void> {
+  const jobs = await storage.getActiveAudiobooks();
+  if (jobs.length > 0) {
+    console.log(`Resuming ${jobs.length} audiobook job(s) after restart`);
+  }
+  kickAudiobookQueue();
+}
+
+export async function cancelAudiobook(audiobook: Audiobook): Promise<Audiobook | undefined> {
+  return await storage.updateAudiobook(audiobook.id, { status: 'cancelled', error: null });
+}
+
+// Rebuild the M4B and ACX set, e.g. after a new cover image, without regenerating any audio
+export async function repackageAudiobook(audiobook: Audiobook): Promise<Audiobook | undefined> {
+  const updated = await storage.updateAudiobook(audiobook.id, { status: 'packaging', packagingError: null });
+  kickAudiobookQueue();
+  return updated;
+}
+
+// Requeue a failed or cancelled job; chunks that already have audio are kept
+export async function resumeAudiobook(audiobook: Audiobook): Promise<Audiobook | undefined> {
+  await storage.resetFailedAudiobookChunks(audiobook.id);
+  const updated = await storage.updateAudiobook(audiobook.id, { status: 'pending', error: null });
+  kickAudiobookQueue();
+  return updated;
+}
+
+export async function getAudiobookProgress(audiobook: Audiobook): Promise<AudiobookProgress> {
+  const chunks = await storage.getAudiobookChunks(audiobook.id);
+
+  const chapters = groupByChapter(chunks).map((chapterChunks): ChapterProgress => {
+    const completedChunks = chapterChunks.filter(chunk => chunk.status === 'completed').length;
+    const failed = chapterChunks.find(chunk => chunk.status === 'failed');
+    const retrying = chapterChunks.find(chunk => chunk.status === 'pending' && (chunk.attempts || 0) > 0);
+    return {
+      chapterIndex: chapterChunks[0].chapterIndex,
+      chapterId: chapterChunks[0].chapterId,
+      title: chapterChunks[0].chapterTitle,
+      status: failed ? 'failed'
+        : completedChunks === chapterChunks.length ? 'completed'
+        : completedChunks > 0 || retrying ? 'generating'
+        : 'pending',
+      totalChunks: chapterChunks.length,
+      completedChunks,
+      attempts: (failed || retrying)?.attempts || 0,
+      nextAttemptAt: retrying?.nextAttemptAt || null,
+      error: (failed || retrying)?.error || null,
+    };
+  });
+
+  return {
+    audiobookId: audiobook.id,
+    status: audiobook.status || 'pending',
+    totalChunks: chunks.length,
+    completedChunks: chunks.filter(chunk => chunk.status === 'completed').length,
+    chapters,
+  };
+}
+
+// Chunk, chapter and book audio all live under the audiobook's own directory
+export async function removeAudiobookFiles(audiobook: Audiobook): Promise<void> {
+  await fs.rm(audiobookDirectory(audiobook), { recursive: true, force: true });
+}
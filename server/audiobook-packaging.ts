@@ -0,0 +1,183 @@
+import fs from "fs/promises";
+import { createReadStream, createWriteStream, existsSync } from "fs";
+import path from "path";
+import JSZip from "jszip";
+import { storage } from "./storage";
+import { analyzeAudio, escapeFfmetadata, measureLoudness, probeDuration, runFfmpeg } from "./audio-tools";
+import { ACX_LOUDNESS_TARGET, acxMasteringFilter, checkAcxCompliance } from "./acx-compliance";
+import type { AcxChapterReport, Audiobook, AudiobookChapterMarker } from "@shared/schema";
+
+// Turns a generated audiobook's chapter MP3s into retail deliverables: a mastered, ACX-checked
+// per-chapter MP3 set and a single M4B with chapter markers built from the same masters.
+
+// ACX asks for constant bit rate MP3 at 192 kbps or more, 44.1 kHz, one file per chapter
+const ACX_MP3_ARGS = ['-c:a', 'libmp3lame', '-b:a', '192k', '-ar', '44100', '-ac', '1'];
+// Speech stays clear at a fraction of that in AAC, which keeps a full-length M4B a manageable download
+const M4B_AAC_ARGS = ['-c:a', 'aac', '-b:a', '64k', '-ar', '44100', '-ac', '1'];
+
+export type PackagedAudiobook = Pick<Audiobook, 'm4bFilePath' | 'acxFilePath' | 'chapterMarkers' | 'acxReport' | 'duration'>;
+
+// Book-level tags shared by every packaged file
+async function bookMetadata(audiobook: Audiobook): Promise<Record<string, string>> {
+  const project = await storage.getProject(audiobook.projectId);
+  const copyright = await storage.getCopyrightInfo(audiobook.projectId);
+  const author = copyright?.penName || '';
+  const year = String(copyright?.yearOfPublication || new Date().getFullYear());
+
+  const metadata: Record<string, string> = {
+    title: audiobook.title,
+    album: project?.title || audiobook.title,
+    artist: author,
+    album_artist: author,
+    genre: project?.genre || 'Audiobook',
+    date: year,
+    copyright: author ? `© ${year} ${author}` : '',
+    publisher: copyright?.publisherName || '',
+    comment: project?.description || '',
+  };
+  return Object.fromEntries(Object.entries(metadata).filter(([, value]) => value.trim().length > 0));
+}
+
+function metadataArgs(metadata: Record<string, string>): string[] {
+  return Object.entries(metadata).flatMap(([key, value]) => ['-metadata', `${key}=${value}`]);
+}
+
+// Chapter titles in the same order as chapterFiles, taken from the generation chunks
+async function chapterTitles(audiobook: Audiobook): Promise<string[]> {
+  const titles = new Map<number, string>();
+  for (const chunk of await storage.getAudiobookChunks(audiobook.id)) {
+    if (!titles.has(chunk.chapterIndex)) titles.set(chunk.chapterIndex, chunk.chapterTitle);
+  }
+  return Array.from(titles.keys()).sort((a, b) => a - b).map(index => titles.get(index)!);
+}
+
+async function writeZip(files: string[], zipPath: string): Promise<void> {
+  const zip = new JSZip();
+  for (const file of files) {
+    zip.file(path.basename(file), createReadStream(file));
+  }
+  // MP3 doesn't compress further, so store the files and stream them rather than holding the set in memory
+  await new Promise<void>((resolve, reject) => {
+    zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'STORE' })
+      .on('error', reject)
+      .pipe(createWriteStream(zipPath))
+      .on('finish', () => resolve())
+      .on('error', reject);
+  });
+}
+
+async function writeM4b(
+  chapterFiles: string[],
+  markers: AudiobookChapterMarker[],
+  metadata: Record<string, string>,
+  coverPath: string | null,
+  outputPath: string
+): Promise<void> {
+  const directory = path.dirname(outputPath);
+  const listPath = path.join(directory, 'm4b-concat.txt');
+  const metadataPath = path.join(directory, 'm4b-metadata.txt');
+
+  await fs.writeFile(listPath, chapterFiles.map(file => `file '${path.resolve(file).replace(/'/g, "'\\''")}'`).join('\n'));
+
+  const lines = [';FFMETADATA1', ...Object.entries(metadata).map(([key, value]) => `${key}=${escapeFfmetadata(value)}`)];
+  for (const marker of markers) {
+    lines.push(
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(marker.start * 1000)}`,
+      `END=${Math.round(marker.end * 1000)}`,
+      `title=${escapeFfmetadata(marker.title)}`
+    );
+  }
+  await fs.writeFile(metadataPath, lines.join('\n') + '\n');
+
+  try {
+    await runFfmpeg([
+      '-f', 'concat', '-safe', '0', '-i', listPath,
+      '-i', metadataPath,
+      ...(coverPath ? ['-i', coverPath] : []),
+      '-map', '0:a',
+      '-map_metadata', '1',
+      '-map_chapters', '1',
+      ...(coverPath ? ['-map', '2:v', '-c:v', 'copy', '-disposition:v:0', 'attached_pic'] : []),
+      ...M4B_AAC_ARGS,
+      '-metadata', 'media_type=2', // iTunes "Audiobook" media kind
+      '-movflags', '+faststart',
+      '-f', 'mp4',
+      outputPath,
+    ]);
+  } finally {
+    await fs.rm(listPath, { force: true });
+    await fs.rm(metadataPath, { force: true });
+  }
+}
+
+// Package a finished audiobook. Durations and chapter markers come from the encoded audio, not from text length.
+export async function packageAudiobook(audiobook: Audiobook): Promise<PackagedAudiobook> {
+  const chapterFiles = (audiobook.chapterFiles as string[] | null) || [];
+  if (!audiobook.filePath || chapterFiles.length === 0) {
+    throw new Error('Audiobook has no generated chapters to package');
+  }
+
+  const titles = await chapterTitles(audiobook);
+  const metadata = await bookMetadata(audiobook);
+  const coverPath = audiobook.coverImagePath && existsSync(audiobook.coverImagePath) ? audiobook.coverImagePath : null;
+
+  const directory = path.dirname(audiobook.filePath);
+  const baseName = path.basename(audiobook.filePath, path.extname(audiobook.filePath));
+  const acxDirectory = path.join(directory, 'acx');
+  await fs.rm(acxDirectory, { recursive: true, force: true });
+  await fs.mkdir(acxDirectory, { recursive: true });
+
+  try {
+    // Mastering re-encodes each chapter, which also gives it one clean header so its measured duration covers every chunk
+    const acxFiles: string[] = [];
+    const markers: AudiobookChapterMarker[] = [];
+    const acxReport: AcxChapterReport[] = [];
+    let position = 0;
+    for (const [index, chapterFile] of Array.from(chapterFiles.entries())) {
+      const title = titles[index] || `Chapter ${index + 1}`;
+      const acxFile = path.join(acxDirectory, `${String(index + 1).padStart(2, '0')}_${path.basename(chapterFile).replace(/^chapter_\d+_/, '')}`);
+
+      // Two-pass loudness normalisation: measure first, then apply one linear gain with room tone either side
+      const loudness = await measureLoudness(chapterFile, ACX_LOUDNESS_TARGET);
+      await runFfmpeg([
+        '-i', chapterFile,
+        ...(coverPath ? ['-i', coverPath] : []),
+        '-filter_complex', acxMasteringFilter(loudness),
+        '-map', '[mastered]',
+        ...(coverPath ? ['-map', '1:v', '-c:v', 'copy', '-metadata:s:v', 'title=Album cover', '-metadata:s:v', 'comment=Cover (front)'] : []),
+        ...ACX_MP3_ARGS,
+        '-id3v2_version', '3',
+        ...metadataArgs({ ...metadata, title, track: `${index + 1}/${chapterFiles.length}` }),
+        acxFile,
+      ]);
+
+      const analysis = await analyzeAudio(acxFile);
+      acxReport.push(checkAcxCompliance(title, analysis));
+      markers.push({ title, start: position, end: position + analysis.duration });
+      position += analysis.duration;
+      acxFiles.push(acxFile);
+    }
+
+    const m4bFilePath = path.join(directory, `${baseName}.m4b`);
+    await writeM4b(acxFiles, markers, metadata, coverPath, m4bFilePath);
+
+    const acxFilePath = path.join(directory, `${baseName}_ACX.zip`);
+    await writeZip(acxFiles, acxFilePath);
+
+    const duration = await probeDuration(m4bFilePath);
+    const failing = acxReport.filter(report => report.issues.length > 0).length;
+    console.log(`Packaged audiobook ${audiobook.id}: ${markers.length} chapters, ${Math.round(duration)}s, ${failing} chapter(s) failing ACX checks`);
+
+    return {
+      m4bFilePath,
+      acxFilePath,
+      chapterMarkers: markers,
+      acxReport,
+      duration: Math.round(duration),
+    };
+  } finally {
+    await fs.rm(acxDirectory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,184 @@
+// Splits chapter text into narration and character dialogue so each can be voiced separately
+
+export interface CastMember {
+  name: string;
+  voice: string | null; // null = read by the narrator
+}
+
+export interface SpeechSegment {
+  text: string;
+  voice: string | null; // null = narrator voice
+  speaker: string | null; // character name, or null for narration and unattributed dialogue
+}
+
+// Straight or curly double quotes; single quotes are left alone because they double as apostrophes
+const QUOTE_PATTERN = /“([^”]*)”|"([^"]*)"/g;
+
+const SPEECH_VERBS = 'said|says|asked|asks|replied|replies|answered|answers|whispered|whispers|shouted|shouts|called|calls|cried|cries|muttered|mutters|murmured|murmurs|snapped|snaps|added|adds|continued|continues|began|begins|yelled|yells|screamed|screams|demanded|demands|told|tells|insisted|insists|admitted|admits|explained|explains|laughed|laughs|sighed|sighs|growled|growls|hissed|hisses|breathed|exclaimed|pleaded|protested|agreed|repeated|offered|warned|corrected|countered|interrupted|interrupts|whimpered|stammered|blurted|announced|declared|promised|suggested|sobbed|roared|barked';
+const NAME = "([A-Z][A-Za-z'’-]+(?:\\s+[A-Z][A-Za-z'’-]+)?|I)";
+
+// ", said Mara" / ", Mara said" / ", Mara asked quietly" right after the closing quote
+const TAG_AFTER_VERB_FIRST = new RegExp(`^[\\s,—–-]*(?:${SPEECH_VERBS})\\s+${NAME}`);
+const TAG_AFTER_NAME_FIRST = new RegExp(`^[\\s,—–-]*${NAME}\\s+(?:\\w+ly\\s+)?(?:${SPEECH_VERBS})\\b`);
+// "Mara said, " / "Mara turned to him and said: " right before the opening quote
+const TAG_BEFORE = new RegExp(`${NAME}\\s+(?:[a-z]+\\s+){0,5}(?:${SPEECH_VERBS})(?:\\s+\\w+){0,3}\\s*[,:]\\s*$`);
+
+const POV_PRONOUN = 'I';
+const THIRD_PERSON_PRONOUNS = new Set(['he', 'she', 'they', 'we', 'you', 'it']);
+
+// Turn editor HTML into plain text that keeps paragraph breaks, which speaker tracking relies on
+export function htmlToSpeechText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|blockquote|div)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&apos;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Full names plus any first or last name that belongs to only one character
+function buildAliases(cast: CastMember[]): Map<string, CastMember> {
+  const aliases = new Map<string, CastMember>();
+  const partOwners = new Map<string, CastMember[]>();
+  for (const member of cast) {
+    aliases.set(member.name.toLowerCase(), member);
+    for (const part of member.name.split(/\s+/)) {
+      if (part.length < 3) continue;
+      const key = part.toLowerCase();
+      partOwners.set(key, [...(partOwners.get(key) || []), member]);
+    }
+  }
+  partOwners.forEach((owners, part) => {
+    if (owners.length === 1 && !aliases.has(part)) {
+      aliases.set(part, owners[0]);
+    }
+  });
+  return aliases;
+}
+
+function hasWords(text: string): boolean {
+  return /[^\s.,;:!?'"“”‘’—–-]/.test(text);
+}
+
+interface DialogueLine {
+  quote: string;
+  before: string;
+  after: string;
+}
+
+export function castDialogue(text: string, cast: CastMember[], povCharacter?: string | null): SpeechSegment[] {
+  const aliases = buildAliases(cast);
+  const mentionPattern = aliases.size > 0
+    ? new RegExp(`\\b(${Array.from(aliases.keys()).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})\\b`, 'gi')
+    : null;
+
+  const pov = povCharacter ? resolveName(povCharacter) : null;
+
+  function resolveName(name: string): CastMember | null {
+    if (name === POV_PRONOUN) return pov;
+    const words = name.toLowerCase().split(/\s+/);
+    return aliases.get(words.join(' ')) || aliases.get(words[0]) || aliases.get(words[words.length - 1]) || null;
+  }
+
+  // Attribution from a dialogue tag next to the quote, if there is one
+  function taggedSpeaker(line: DialogueLine): CastMember | null | undefined {
+    const after = line.after.slice(0, 80);
+    const match = after.match(TAG_AFTER_VERB_FIRST) || after.match(TAG_AFTER_NAME_FIRST) || line.before.slice(-80).match(TAG_BEFORE);
+    // "He said" attributes the line without naming anyone, so leave it to the beats and turn-taking
+    if (!match || THIRD_PERSON_PRONOUNS.has(match[1].toLowerCase())) return undefined;
+    return resolveName(match[1]);
+  }
+
+  // Action beats: "Mara slammed the door. “Enough.”" names exactly one character in the narration
+  function beatSpeaker(narration: string): CastMember | null {
+    if (!mentionPattern) return null;
+    const mentioned = new Set<CastMember>();
+    for (const match of Array.from(narration.matchAll(mentionPattern))) {
+      const member = aliases.get(match[1].toLowerCase());
+      if (member) mentioned.add(member);
+    }
+    return mentioned.size === 1 ? Array.from(mentioned)[0] : null;
+  }
+
+  const segments: SpeechSegment[] = [];
+  const push = (segmentText: string, member: CastMember | null, separator: string) => {
+    const trimmed = segmentText.trim();
+    if (!hasWords(trimmed)) return;
+    const voice = member?.voice || null;
+    const speaker = member?.name || null;
+    const last = segments[segments.length - 1];
+    if (last && last.voice === voice && last.speaker === speaker) {
+      last.text += `${separator}${trimmed}`;
+    } else {
+      segments.push({ text: trimmed, voice, speaker });
+    }
+  };
+
+  // The last two speakers of the conversation, for unattributed back-and-forth
+  let previousSpeaker: CastMember | null = null;
+  let speakerBefore: CastMember | null = null;
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const matches = Array.from(paragraph.matchAll(QUOTE_PATTERN));
+    if (matches.length === 0) {
+      push(paragraph, null, '\n\n');
+      // A paragraph of pure narration usually ends the exchange
+      previousSpeaker = null;
+      speakerBefore = null;
+      continue;
+    }
+
+    const lines: DialogueLine[] = matches.map((match, index) => {
+      const start = match.index ?? 0;
+      const previousEnd = index > 0 ? (matches[index - 1].index ?? 0) + matches[index - 1][0].length : 0;
+      const nextStart = index < matches.length - 1 ? matches[index + 1].index ?? paragraph.length : paragraph.length;
+      return {
+        quote: match[1] ?? match[2] ?? '',
+        before: paragraph.slice(previousEnd, start),
+        after: paragraph.slice(start + match[0].length, nextStart),
+      };
+    });
+
+    // One speaker per paragraph unless a quote carries its own tag
+    const tags = lines.map(taggedSpeaker);
+    const narration = lines.map(line => line.before).join(' ') + ' ' + lines[lines.length - 1].after;
+    let paragraphSpeaker: CastMember | null | undefined = tags.find(tag => tag !== undefined);
+    if (paragraphSpeaker === undefined) {
+      paragraphSpeaker = beatSpeaker(narration)
+        || (previousSpeaker && speakerBefore && previousSpeaker !== speakerBefore ? speakerBefore : null);
+    }
+
+    lines.forEach((line, index) => {
+      const speaker = tags[index] !== undefined ? tags[index] ?? null : paragraphSpeaker ?? null;
+      push(line.before, null, index === 0 ? '\n\n' : ' ');
+      push(line.quote, speaker, ' ');
+    });
+    push(lines[lines.length - 1].after, null, ' ');
+
+    if (paragraphSpeaker) {
+      if (paragraphSpeaker !== previousSpeaker) {
+        speakerBefore = previousSpeaker;
+        previousSpeaker = paragraphSpeaker;
+      }
+    } else {
+      previousSpeaker = null;
+      speakerBefore = null;
+    }
+  }
+
+  return segments;
+}
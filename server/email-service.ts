@@ -1,5 +1,5 @@
 import nodemailer from 'nodemailer';
-import type { SupportTicket } from '@shared/schema';
+import type { SupportTicket, WritingGoalProgress } from '@shared/schema';
 
 // Gmail SMTP configuration
 const createGmailTransporter = () => {
@@ -12,6 +12,16 @@ const createGmailTransporter = () => {
   });
 };
 
+// Text typed by the user, e.g. goal and project titles, is never markup in an email
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 export interface TicketEmailData {
   ticket: SupportTicket;
   userEmail: string;
@@ -256,4 +266,60 @@ export async function sendTicketReplyNotification(
     console.error('Failed to send ticket reply notification:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+export async function sendStreakReminder(
+  userEmail: string,
+  userName: string,
+  goals: WritingGoalProgress[]
+): Promise<boolean> {
+  try {
+    const transporter = createGmailTransporter();
+    const longestStreak = Math.max(...goals.map(goal => goal.currentStreak));
+
+    const goalRows = goals.map(goal => `
+      <div style="background-color: #f8fafc; padding: 15px; border-radius: 6px; margin: 10px 0;">
+        <p style="margin: 0 0 5px 0; font-weight: bold; color: #1e293b;">${escapeHtml(goal.goal.title)} &middot; ${escapeHtml(goal.projectTitle)}</p>
+        <p style="margin: 0; color: #475569;">
+          ${goal.currentStreak}-day streak${goal.todayQuota > 0 ? ` &middot; ${goal.todayQuota.toLocaleString()} words today keeps you on schedule` : ''}${goal.daysRemaining !== null ? ` &middot; ${goal.daysRemaining} day${goal.daysRemaining === 1 ? '' : 's'} left` : ''}
+        </p>
+      </div>
+    `).join('');
+
+    await transporter.sendMail({
+      from: process.env.GMAIL_USERNAME || 'mynovelcraft@gmail.com',
+      to: userEmail,
+      subject: `Keep your ${longestStreak}-day writing streak going`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <div style="background-color: #2563eb; color: white; padding: 20px; text-align: center;">
+            <h1 style="margin: 0; font-size: 24px;">MyNovelCraft</h1>
+            <p style="margin: 5px 0 0 0; opacity: 0.9;">Your streak is at risk</p>
+          </div>
+
+          <div style="padding: 20px; background-color: white; border: 1px solid #e2e8f0;">
+            <h2 style="color: #1e293b; margin-top: 0;">Hello ${escapeHtml(userName)},</h2>
+
+            <p style="color: #475569; line-height: 1.6;">
+              You haven't written yet today. A few words before midnight will keep your streak alive.
+            </p>
+
+            ${goalRows}
+          </div>
+
+          <div style="padding: 20px; background-color: #f8fafc; border: 1px solid #e2e8f0; border-top: none; text-align: center;">
+            <p style="color: #64748b; margin: 0; font-size: 14px;">
+              You can turn off these reminders for any goal on your MyNovelCraft dashboard.
+            </p>
+          </div>
+        </div>
+      `,
+    });
+
+    console.log(`Streak reminder sent to ${userEmail} for ${goals.length} goal(s)`);
+    return true;
+  } catch (error) {
+    console.error('Failed to send streak reminder:', error);
+    return false;
+  }
+}
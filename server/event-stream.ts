@@ -0,0 +1,59 @@
+import type { Request, Response } from "express";
+import type { StreamHandlers } from "./llm-provider";
+
+// Server-sent events for AI replies that render as they're written. Clients opt in with
+// "Accept: text/event-stream"; other callers keep getting the JSON reply.
+//
+// Events: "delta" { text } for each piece, then "done" { response, ... } or "error" { message }.
+
+// Comment lines keep proxies from closing the connection while the model is still thinking
+const HEARTBEAT_MS = 15 * 1000;
+
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+// Streams one AI reply. `generate` writes through the handlers it's given; `onComplete` persists the
+// finished text and returns anything extra for the done event. A client that disconnects or cancels
+// aborts the completion, and nothing is persisted.
+export async function streamAIReply(
+  res: Response,
+  generate: (handlers: StreamHandlers) => Promise<string>,
+  onComplete: (text: string) => Promise<Record<string, unknown> | void>,
+  failureMessage: string
+): Promise<void> {
+  const controller = new AbortController();
+  const send = (event: string, data: unknown) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const heartbeat = setInterval(() => !res.writableEnded && res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    if (!res.writableEnded) controller.abort();
+  });
+
+  try {
+    const text = await generate({ signal: controller.signal, onDelta: (delta) => send('delta', { text: delta }) });
+    if (controller.signal.aborted) return;
+    const extra = await onComplete(text);
+    send('done', { response: text, ...(extra || {}) });
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    console.error(`${failureMessage}:`, error);
+    send('error', { message: failureMessage });
+  } finally {
+    clearInterval(heartbeat);
+    if (!res.writableEnded) res.end();
+  }
+}
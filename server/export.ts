@@ -1,15 +1,21 @@
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, ImageRun } from "docx";
+import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, ImageRun, Header, PageNumber, Tab, TabStopType, TabStopPosition } from "docx";
 import puppeteer from "puppeteer";
 import { jsPDF } from "jspdf";
-import { type Chapter, type Project } from "@shared/schema";
+import JSZip from "jszip";
+import { type Chapter, type ExportProfile, type ManuscriptFont, type PaperbackTrimSize, type Project } from "@shared/schema";
 import fs from "fs";
 import path from "path";
 
 interface ExportOptions {
-  format: 'docx' | 'pdf';
+  format: 'docx' | 'pdf' | 'epub' | 'md' | 'txt';
   includeChapterNumbers: boolean;
   includeProjectInfo: boolean;
   pageBreakBetweenChapters: boolean;
+  profile?: ExportProfile; // 'manuscript' = Shunn format DOCX, 'paperback' = print-ready PDF
+  manuscriptFont?: ManuscriptFont;
+  trimSize?: PaperbackTrimSize;
+  splitChapters?: boolean; // Markdown/plain text: zip of one file per chapter
+  language?: string; // ISO 639-1 code of the text, for translated editions; defaults to English
   copyrightInfo?: any;
 }
 
@@ -96,6 +102,10 @@ export async function exportProjectToDocx(
   chapters: Chapter[], 
   options: ExportOptions
 ): Promise<Buffer> {
+  if (options.profile === 'manuscript') {
+    return await exportManuscriptDocx(project, chapters, options);
+  }
+
   // Group chapters by section
   const frontMatter = chapters.filter(ch => ch.section === 'front_matter').sort((a, b) => (a.order || 0) - (b.order || 0));
   const bodyChapters = chapters.filter(ch => ch.section === 'body').sort((a, b) => (a.order || 0) - (b.order || 0));
@@ -296,6 +306,10 @@ export async function exportProjectToPdf(
   try {
     return await generatePdfWithPuppeteer(project, chapters, options);
   } catch (puppeteerError) {
+    // jsPDF cannot lay out mirrored print pages, so a paperback must not silently degrade
+    if (options.profile === 'paperback') {
+      throw puppeteerError;
+    }
     console.log("Puppeteer failed, using jsPDF fallback:", puppeteerError instanceof Error ? puppeteerError.message : 'Unknown error');
     return await generatePdfWithJsPdf(project, chapters, options);
   }
@@ -306,8 +320,12 @@ async function generatePdfWithPuppeteer(
   chapters: Chapter[], 
   options: ExportOptions
 ): Promise<Buffer> {
+  const isPaperback = options.profile === 'paperback';
+
   // Create HTML content
-  const htmlContent = generateHtmlForPdf(project, chapters, options);
+  const htmlContent = isPaperback
+    ? generatePaperbackHtml(project, chapters, options)
+    : generateHtmlForPdf(project, chapters, options);
   
   // Use Puppeteer to generate PDF
   const browser = await puppeteer.launch({
@@ -328,7 +346,14 @@ async function generatePdfWithPuppeteer(
     const page = await browser.newPage();
     await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
     
-    const pdfBuffer = await page.pdf({
+    // The paperback layout sets its own trim size and mirrored margins through @page rules
+    const trim = getPaperbackTrim(options);
+    const pdfBuffer = await page.pdf(isPaperback ? {
+      width: `${trim.width}in`,
+      height: `${trim.height}in`,
+      preferCSSPageSize: true,
+      printBackground: true,
+    } : {
       format: 'A4',
       margin: {
         top: '1in',
@@ -603,6 +628,1183 @@ function generateHtmlForPdf(project: Project, chapters: Chapter[], options: Expo
   `;
 }
 
+// EPUB 3 export
+const EPUB_IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+
+// epub:type semantics for chapter types (https://www.w3.org/TR/epub-ssv-11/)
+const EPUB_CHAPTER_SEMANTICS: Record<string, string> = {
+  dedication: 'dedication',
+  epigraph: 'epigraph',
+  preface: 'preface',
+  about_author: 'appendix',
+  chapter: 'chapter',
+};
+
+const EPUB_SECTION_SEMANTICS: Record<string, string> = {
+  front_matter: 'frontmatter',
+  body: 'bodymatter',
+  back_matter: 'backmatter',
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'",
+  mdash: '—', ndash: '–', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+};
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : '';
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+interface StyledRun {
+  text: string;
+  bold?: boolean;
+  italics?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  lineBreak?: boolean;
+}
+
+// Split editor HTML into paragraphs of styled runs, keeping bold/italic/underline and line breaks only
+function parseHtmlParagraphs(html: string): StyledRun[][] {
+  const blocks = (html || '')
+    .replace(/<hr[^>]*>/gi, '</p><p>* * *</p><p>')
+    .split(/<\/?(?:p|div|h[1-6]|li|blockquote)(?:\s[^>]*)?>/gi);
+
+  const paragraphs: StyledRun[][] = [];
+  for (const block of blocks) {
+    const depth = { bold: 0, italics: 0, underline: 0 };
+    const runs: StyledRun[] = [];
+    for (const part of block.split(/(<[^>]*>)/)) {
+      const tag = part.match(/^<(\/?)([a-z0-9]+)[^>]*>$/i);
+      if (!tag) {
+        const text = decodeEntities(part).replace(/\s+/g, ' ');
+        if (text) {
+          runs.push({
+            text,
+            bold: depth.bold > 0 || undefined,
+            italics: depth.italics > 0 || undefined,
+            underline: depth.underline > 0 || undefined,
+          });
+        }
+        continue;
+      }
+      const name = tag[2].toLowerCase();
+      if (name === 'br') {
+        runs.push({ text: '', lineBreak: true });
+        continue;
+      }
+      const style = name === 'b' || name === 'strong' ? 'bold'
+        : name === 'i' || name === 'em' ? 'italics'
+        : name === 'u' ? 'underline'
+        : null;
+      if (!style) continue;
+      depth[style] = tag[1] ? Math.max(0, depth[style] - 1) : depth[style] + 1;
+    }
+
+    if (runs.some(run => run.text.trim())) {
+      // Trim leading/trailing whitespace left over from the markup
+      runs[0].text = runs[0].text.replace(/^\s+/, '');
+      runs[runs.length - 1].text = runs[runs.length - 1].text.replace(/\s+$/, '');
+      paragraphs.push(runs);
+    }
+  }
+  return paragraphs;
+}
+
+function paragraphPlainText(runs: StyledRun[]): string {
+  return runs.map(run => run.text).join('').trim();
+}
+
+// Common scene break markers: "***", "* * *", "#", "---", "~~~", "⁂"
+function isSceneBreak(runs: StyledRun[]): boolean {
+  return /^(?:(?:\*\s*){3,}|#|-{3,}|~{3,}|⁂)$/.test(paragraphPlainText(runs));
+}
+
+function styledRunsToXhtml(runs: StyledRun[]): string {
+  return runs.map(run => {
+    if (run.lineBreak) return '<br/>';
+    let xhtml = escapeXml(run.text);
+    if (run.underline) xhtml = `<u>${xhtml}</u>`;
+    if (run.italics) xhtml = `<em>${xhtml}</em>`;
+    if (run.bold) xhtml = `<strong>${xhtml}</strong>`;
+    return xhtml;
+  }).join('');
+}
+
+// Convert editor HTML into well-formed XHTML paragraphs
+function htmlToXhtmlParagraphs(html: string): string[] {
+  return parseHtmlParagraphs(html).map(styledRunsToXhtml);
+}
+
+// Copyright page text shared by the EPUB and paperback layouts; isbnLine is edition-specific
+function copyrightPageParagraphs(project: Project, copyright: any, isbnLine?: string): string[] {
+  const lines: string[] = [`<p>${escapeXml(project.title)}</p>`];
+  if (copyright.penName) {
+    lines.push(`<p>Copyright © ${copyright.yearOfPublication || new Date().getFullYear()} ${escapeXml(copyright.penName)}</p>`);
+  }
+  if (copyright.includeAllRightsReserved) {
+    lines.push('<p>All rights reserved. This work or any portion thereof may not be reproduced or used in any manner whatsoever without the express written permission of the publisher except for the use of brief quotations in a book review.</p>');
+  }
+  if (copyright.includeExtendedNotice) {
+    lines.push("<p>This is a work of fiction. Names, characters, businesses, places, events, locales, and incidents are either the products of the author's imagination or used in a fictitious manner.</p>");
+  } else if (copyright.includeBasicNotice) {
+    lines.push('<p>This is a work of fiction. Any resemblance to actual persons, living or dead, or actual events is purely coincidental.</p>');
+  }
+  if (copyright.customCopyrightText) {
+    lines.push(...htmlToXhtmlParagraphs(copyright.customCopyrightText).map(p => `<p>${p}</p>`));
+  }
+  if (isbnLine) {
+    lines.push(`<p>${escapeXml(isbnLine)}</p>`);
+  }
+  if (copyright.publisherName) {
+    lines.push(`<p>Published by ${escapeXml(copyright.publisherName)}</p>`);
+  }
+  return lines;
+}
+
+function xhtmlDocument(language: string, title: string, body: string, bodyType?: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="${language}" xml:lang="${language}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body${bodyType ? ` epub:type="${bodyType}"` : ''}>
+${body}
+</body>
+</html>
+`;
+}
+
+const EPUB_STYLESHEET = `body {
+  font-family: Georgia, "Times New Roman", serif;
+  line-height: 1.5;
+  margin: 0 5%;
+}
+h1, h2 {
+  text-align: center;
+  font-weight: bold;
+  margin: 2em 0 1.5em;
+  page-break-after: avoid;
+}
+p {
+  margin: 0;
+  text-indent: 1.5em;
+  text-align: justify;
+}
+h1 + p, h2 + p {
+  text-indent: 0;
+}
+.centered {
+  margin-top: 20%;
+  text-align: center;
+}
+.centered p {
+  text-indent: 0;
+  text-align: center;
+  margin-bottom: 1em;
+}
+.epigraph p {
+  font-style: italic;
+}
+.title-page, .copyright-page {
+  text-align: center;
+}
+.title-page p, .copyright-page p {
+  text-indent: 0;
+  text-align: center;
+  margin-bottom: 0.75em;
+}
+.title-page h1 {
+  margin-top: 30%;
+  font-size: 2em;
+}
+.copyright-page {
+  margin-top: 15%;
+  font-size: 0.85em;
+}
+.publisher-logo {
+  max-width: 40%;
+  max-height: 8em;
+  margin: 1em auto;
+}
+nav ol {
+  list-style-type: none;
+  padding-left: 0;
+}
+nav li {
+  margin-bottom: 0.4em;
+}
+`;
+
+export async function exportProjectToEpub(
+  project: Project,
+  chapters: Chapter[],
+  options: ExportOptions
+): Promise<Buffer> {
+  const frontMatter = chapters.filter(ch => ch.section === 'front_matter').sort((a, b) => (a.order || 0) - (b.order || 0));
+  const bodyChapters = chapters.filter(ch => ch.section === 'body').sort((a, b) => (a.order || 0) - (b.order || 0));
+  const backMatter = chapters.filter(ch => ch.section === 'back_matter').sort((a, b) => (a.order || 0) - (b.order || 0));
+
+  const copyright = options.copyrightInfo;
+  const author = copyright?.penName || '';
+  const isbn = copyright?.epubIsbn ? String(copyright.epubIsbn).replace(/[^0-9Xx]/g, '') : '';
+  const identifier = isbn ? `urn:isbn:${isbn}` : `urn:uuid:${project.id}`;
+  const language = options.language || 'en';
+
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`);
+  zip.file('OEBPS/styles.css', EPUB_STYLESHEET);
+
+  const manifest: string[] = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="css" href="styles.css" media-type="text/css"/>',
+  ];
+  const spine: string[] = [];
+  const tocEntries: Array<{ href: string; title: string }> = [];
+  const landmarks: Array<{ href: string; type: string; title: string }> = [];
+  let navInSpine = false;
+
+  const addDocument = (id: string, title: string, xhtml: string, inToc = true) => {
+    zip.file(`OEBPS/${id}.xhtml`, xhtml);
+    manifest.push(`<item id="${id}" href="${id}.xhtml" media-type="application/xhtml+xml"/>`);
+    spine.push(`<itemref idref="${id}"/>`);
+    if (inToc) tocEntries.push({ href: `${id}.xhtml`, title });
+  };
+
+  // Embedded publisher logo
+  let logoHref: string | null = null;
+  if (copyright?.publisherLogo) {
+    try {
+      const logoPath = path.join(process.cwd(), 'uploads', 'publisher-logos', path.basename(copyright.publisherLogo));
+      const ext = path.extname(logoPath).toLowerCase();
+      if (fs.existsSync(logoPath) && EPUB_IMAGE_TYPES[ext]) {
+        logoHref = `images/publisher-logo${ext}`;
+        zip.file(`OEBPS/${logoHref}`, fs.readFileSync(logoPath));
+        manifest.push(`<item id="publisher-logo" href="${logoHref}" media-type="${EPUB_IMAGE_TYPES[ext]}"/>`);
+      }
+    } catch (error) {
+      console.log("Could not include logo in EPUB export:", error);
+    }
+  }
+
+  const addCopyrightPage = () => {
+    const lines: string[] = [];
+    if (logoHref) {
+      lines.push(`<img class="publisher-logo" src="${logoHref}" alt="${escapeXml(copyright.publisherName || 'Publisher logo')}"/>`);
+    }
+    lines.push(...copyrightPageParagraphs(project, copyright, isbn ? `ISBN: ${copyright.epubIsbn} (ebook)` : undefined));
+    addDocument(
+      'copyright',
+      'Copyright',
+      xhtmlDocument(language, 'Copyright', `<section class="copyright-page" epub:type="frontmatter copyright-page">\n${lines.join('\n')}\n</section>`),
+    );
+    landmarks.push({ href: 'copyright.xhtml', type: 'copyright-page', title: 'Copyright' });
+  };
+
+  if (options.includeProjectInfo) {
+    addDocument(
+      'title-page',
+      project.title,
+      xhtmlDocument(language, project.title, `<section class="title-page" epub:type="frontmatter titlepage">
+<h1>${escapeXml(project.title)}</h1>
+${author ? `<p>${escapeXml(author)}</p>` : ''}
+</section>`),
+      false,
+    );
+  }
+
+  const hasCopyrightChapter = frontMatter.some(ch => ch.chapterType === 'copyright');
+  if (copyright && !hasCopyrightChapter) {
+    addCopyrightPage();
+  }
+
+  const addChapter = (chapter: Chapter, index: number, chapterNumber?: number) => {
+    if (chapter.chapterType === 'table_of_contents') {
+      // The generated navigation document replaces the stored table of contents
+      if (!navInSpine) {
+        spine.push('<itemref idref="nav"/>');
+        navInSpine = true;
+      }
+      return;
+    }
+    if (chapter.chapterType === 'copyright' && copyright) {
+      addCopyrightPage();
+      return;
+    }
+
+    const paragraphs = htmlToXhtmlParagraphs(chapter.content || '');
+    // Skip placeholder front/back matter the author never filled in
+    if (paragraphs.length === 0 && chapter.section !== 'body') {
+      return;
+    }
+
+    let chapterTitle = chapter.title;
+    if (chapterNumber && options.includeChapterNumbers) {
+      chapterTitle = `Chapter ${chapterNumber}: ${chapter.title}`;
+    }
+
+    const shouldCenter = chapter.chapterType === 'dedication' || chapter.chapterType === 'epigraph';
+    const sectionType = EPUB_SECTION_SEMANTICS[chapter.section] || 'bodymatter';
+    const chapterType = EPUB_CHAPTER_SEMANTICS[chapter.chapterType] || 'chapter';
+    const id = `${chapter.section.replace('_', '-')}-${String(index + 1).padStart(3, '0')}`;
+
+    // Dedications and epigraphs usually have no visible heading
+    const heading = shouldCenter ? '' : `<h2>${escapeXml(chapterTitle)}</h2>\n`;
+    addDocument(
+      id,
+      chapterTitle,
+      xhtmlDocument(
+        language,
+        chapterTitle,
+        `<section epub:type="${chapterType}"${shouldCenter ? ` class="centered ${chapter.chapterType}"` : ''}>
+${heading}${paragraphs.map(p => `<p>${p}</p>`).join('\n')}
+</section>`,
+        sectionType,
+      ),
+    );
+
+    if (chapterNumber === 1) {
+      landmarks.push({ href: `${id}.xhtml`, type: 'bodymatter', title: 'Start of Content' });
+    }
+  };
+
+  frontMatter.forEach((chapter, index) => addChapter(chapter, index));
+  bodyChapters.forEach((chapter, index) => addChapter(chapter, index, index + 1));
+  backMatter.forEach((chapter, index) => addChapter(chapter, index));
+
+  if (!navInSpine) {
+    spine.push('<itemref idref="nav" linear="no"/>');
+  }
+
+  zip.file('OEBPS/nav.xhtml', xhtmlDocument(language, 'Contents', `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${tocEntries.map(entry => `  <li><a href="${entry.href}">${escapeXml(entry.title)}</a></li>`).join('\n')}
+</ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+<h2>Landmarks</h2>
+<ol>
+  <li><a epub:type="toc" href="nav.xhtml">Contents</a></li>
+${landmarks.map(entry => `  <li><a epub:type="${entry.type}" href="${entry.href}">${escapeXml(entry.title)}</a></li>`).join('\n')}
+</ol>
+</nav>`));
+
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  const metadata = [
+    `<dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(project.title)}</dc:title>`,
+    `<dc:language>${language}</dc:language>`,
+    `<meta property="dcterms:modified">${modified}</meta>`,
+  ];
+  if (author) metadata.push(`<dc:creator id="author">${escapeXml(author)}</dc:creator>`);
+  if (copyright?.publisherName) metadata.push(`<dc:publisher>${escapeXml(copyright.publisherName)}</dc:publisher>`);
+  if (copyright?.yearOfPublication) metadata.push(`<dc:date>${copyright.yearOfPublication}</dc:date>`);
+  if (author) metadata.push(`<dc:rights>Copyright © ${copyright.yearOfPublication || new Date().getFullYear()} ${escapeXml(author)}</dc:rights>`);
+  if (project.description) metadata.push(`<dc:description>${escapeXml(project.description)}</dc:description>`);
+  if (project.genre) metadata.push(`<dc:subject>${escapeXml(project.genre)}</dc:subject>`);
+
+  zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    ${metadata.join('\n    ')}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`);
+
+  return await zip.generateAsync({
+    type: 'nodebuffer',
+    mimeType: 'application/epub+zip',
+    compression: 'DEFLATE',
+  });
+}
+
+// Standard manuscript format (William Shunn's novel format)
+const MANUSCRIPT_FONTS: Record<ManuscriptFont, string> = {
+  courier: 'Courier New',
+  times: 'Times New Roman',
+};
+
+const TWIPS_PER_INCH = 1440;
+
+function roundManuscriptWordCount(words: number): number {
+  const step = words >= 10000 ? 1000 : 100;
+  return Math.max(step, Math.round(words / step) * step);
+}
+
+// Short keyword from the title for the running header, e.g. "The Long Road Home" -> "LONG ROAD"
+function getTitleKeyword(title: string): string {
+  const words = title.replace(/^(the|a|an)\s+/i, '').split(/\s+/).filter(Boolean);
+  let keyword = words[0] || title;
+  for (const word of words.slice(1)) {
+    if ((keyword + ' ' + word).length > 20) break;
+    keyword += ' ' + word;
+  }
+  return keyword.toUpperCase();
+}
+
+function styledRunsToTextRuns(runs: StyledRun[]): TextRun[] {
+  return runs.map(run => run.lineBreak
+    ? new TextRun({ text: '', break: 1 })
+    : new TextRun({
+        text: run.text,
+        bold: run.bold,
+        italics: run.italics,
+        underline: run.underline ? {} : undefined,
+      }));
+}
+
+async function exportManuscriptDocx(
+  project: Project,
+  chapters: Chapter[],
+  options: ExportOptions
+): Promise<Buffer> {
+  const copyright = options.copyrightInfo;
+  const authorName = copyright?.penName || 'Author Name';
+  const surname = authorName.trim().split(/\s+/).pop() || authorName;
+  const keyword = getTitleKeyword(project.title);
+  const font = MANUSCRIPT_FONTS[options.manuscriptFont || 'courier'];
+
+  // Manuscripts carry the story text only; front and back matter are added at publication
+  const bodyChapters = chapters.filter(ch => ch.section === 'body').sort((a, b) => (a.order || 0) - (b.order || 0));
+  const wordCount = bodyChapters.reduce((sum, ch) => sum + (ch.wordCount || 0), 0);
+
+  const singleSpaced = { line: 240, before: 0, after: 0 };
+  const doubleSpaced = { line: 480, before: 0, after: 0 };
+
+  // Title page: contact block top left, word count top right, title and byline halfway down
+  const contactLines = [authorName, ...(copyright?.address || '').split(/\r?\n/).map((line: string) => line.trim()).filter(Boolean)];
+  const titlePage: Paragraph[] = contactLines.map((line, index) => new Paragraph({
+    children: index === 0
+      ? [new TextRun(line), new TextRun({ children: [new Tab(), `about ${roundManuscriptWordCount(wordCount).toLocaleString('en-US')} words`] })]
+      : [new TextRun(line)],
+    tabStops: index === 0 ? [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }] : undefined,
+    spacing: singleSpaced,
+  }));
+  titlePage.push(
+    new Paragraph({
+      children: [new TextRun(project.title)],
+      alignment: AlignmentType.CENTER,
+      spacing: { ...doubleSpaced, before: 3 * TWIPS_PER_INCH },
+    }),
+    new Paragraph({
+      children: [new TextRun(`by ${authorName}`)],
+      alignment: AlignmentType.CENTER,
+      spacing: doubleSpaced,
+    }),
+  );
+
+  const body: Paragraph[] = [];
+  bodyChapters.forEach((chapter, index) => {
+    // Each chapter starts on a new page, roughly a third of the way down
+    const heading = options.includeChapterNumbers ? `Chapter ${index + 1}` : chapter.title;
+    body.push(new Paragraph({
+      children: [new TextRun(heading)],
+      alignment: AlignmentType.CENTER,
+      pageBreakBefore: index > 0,
+      spacing: { ...doubleSpaced, before: 2 * TWIPS_PER_INCH },
+    }));
+    if (options.includeChapterNumbers && !/^chapter\s+\S+$/i.test(chapter.title.trim())) {
+      body.push(new Paragraph({
+        children: [new TextRun(chapter.title)],
+        alignment: AlignmentType.CENTER,
+        spacing: doubleSpaced,
+      }));
+    }
+    body.push(new Paragraph({ children: [], spacing: doubleSpaced }));
+
+    for (const runs of parseHtmlParagraphs(chapter.content || '')) {
+      if (isSceneBreak(runs)) {
+        body.push(new Paragraph({
+          children: [new TextRun('#')],
+          alignment: AlignmentType.CENTER,
+          spacing: doubleSpaced,
+        }));
+        continue;
+      }
+      body.push(new Paragraph({
+        children: styledRunsToTextRuns(runs),
+        indent: { firstLine: TWIPS_PER_INCH / 2 },
+        spacing: doubleSpaced,
+      }));
+    }
+  });
+
+  body.push(new Paragraph({
+    children: [new TextRun('END')],
+    alignment: AlignmentType.CENTER,
+    spacing: { ...doubleSpaced, before: 480 },
+  }));
+
+  const pageMargins = {
+    top: TWIPS_PER_INCH,
+    right: TWIPS_PER_INCH,
+    bottom: TWIPS_PER_INCH,
+    left: TWIPS_PER_INCH,
+    header: TWIPS_PER_INCH / 2,
+  };
+
+  const doc = new Document({
+    creator: authorName,
+    title: project.title,
+    styles: {
+      default: {
+        document: {
+          run: { font, size: 24 },
+        },
+      },
+    },
+    sections: [
+      {
+        properties: { page: { margin: pageMargins } },
+        children: titlePage,
+      },
+      {
+        // Running header on every text page: Surname / KEYWORD / page
+        properties: { page: { margin: pageMargins, pageNumbers: { start: 1 } } },
+        headers: {
+          default: new Header({
+            children: [
+              new Paragraph({
+                children: [new TextRun(`${surname} / ${keyword} / `), new TextRun({ children: [PageNumber.CURRENT] })],
+                alignment: AlignmentType.RIGHT,
+              }),
+            ],
+          }),
+        },
+        children: body,
+      },
+    ],
+  });
+
+  return await Packer.toBuffer(doc);
+}
+
+// Print-ready paperback layout (KDP / IngramSpark) rendered with CSS paged media
+const PAPERBACK_TRIM_SIZES: Record<PaperbackTrimSize, { width: number; height: number; wordsPerPage: number }> = {
+  '5x8': { width: 5, height: 8, wordsPerPage: 250 },
+  '5.5x8.5': { width: 5.5, height: 8.5, wordsPerPage: 280 },
+  '6x9': { width: 6, height: 9, wordsPerPage: 320 },
+};
+
+// KDP minimum inside margins by page count; the gutter grows with the spine
+const PAPERBACK_GUTTERS = [
+  { maxPages: 150, inches: 0.375 },
+  { maxPages: 300, inches: 0.5 },
+  { maxPages: 500, inches: 0.625 },
+  { maxPages: 700, inches: 0.75 },
+  { maxPages: Infinity, inches: 0.875 },
+];
+
+// Room to spare over the minimum so text never disappears into the binding
+const PAPERBACK_GUTTER_ALLOWANCE = 0.125;
+
+function getPaperbackTrim(options: ExportOptions) {
+  return PAPERBACK_TRIM_SIZES[options.trimSize || '6x9'];
+}
+
+function cssString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s+/g, ' ')}"`;
+}
+
+function paperbackChapterParagraphs(html: string, dropCap: boolean): string {
+  let afterBreak = true;
+  return parseHtmlParagraphs(html).map(runs => {
+    if (isSceneBreak(runs)) {
+      afterBreak = true;
+      return '<p class="scene-break">* * *</p>';
+    }
+    const isOpening = dropCap && afterBreak && paragraphPlainText(runs).length > 1;
+    const className = isOpening ? 'opening' : afterBreak ? 'no-indent' : '';
+    dropCap = false;
+    afterBreak = false;
+    return `<p${className ? ` class="${className}"` : ''}>${styledRunsToXhtml(runs)}</p>`;
+  }).join('\n');
+}
+
+function generatePaperbackHtml(project: Project, chapters: Chapter[], options: ExportOptions): string {
+  const trim = getPaperbackTrim(options);
+  const frontMatter = chapters.filter(ch => ch.section === 'front_matter').sort((a, b) => (a.order || 0) - (b.order || 0));
+  const bodyChapters = chapters.filter(ch => ch.section === 'body').sort((a, b) => (a.order || 0) - (b.order || 0));
+  const backMatter = chapters.filter(ch => ch.section === 'back_matter').sort((a, b) => (a.order || 0) - (b.order || 0));
+
+  const copyright = options.copyrightInfo;
+  const author = copyright?.penName || '';
+
+  // Chapters open on a recto and often leave a blank verso, so allow two pages per chapter on top of the text
+  const words = chapters.reduce((sum, ch) => sum + (ch.wordCount || 0), 0);
+  const estimatedPages = Math.ceil(words / trim.wordsPerPage) + 2 * chapters.length + 4;
+  const gutter = PAPERBACK_GUTTERS.find(entry => estimatedPages <= entry.maxPages)!.inches + PAPERBACK_GUTTER_ALLOWANCE;
+
+  let logoSrc: string | null = null;
+  if (copyright?.publisherLogo) {
+    try {
+      const logoPath = path.join(process.cwd(), 'uploads', 'publisher-logos', path.basename(copyright.publisherLogo));
+      const ext = path.extname(logoPath).toLowerCase();
+      if (fs.existsSync(logoPath) && EPUB_IMAGE_TYPES[ext]) {
+        logoSrc = `data:${EPUB_IMAGE_TYPES[ext]};base64,${fs.readFileSync(logoPath).toString('base64')}`;
+      }
+    } catch (error) {
+      console.log("Could not include logo in paperback export:", error);
+    }
+  }
+
+  const sections: string[] = [];
+
+  if (options.includeProjectInfo) {
+    sections.push(`<section class="front title-page">
+<h1>${escapeXml(project.title)}</h1>
+${author ? `<p class="byline">${escapeXml(author)}</p>` : ''}
+</section>`);
+  }
+
+  // The copyright page sits on the verso behind the title page
+  const copyrightPage = () => {
+    const lines = copyrightPageParagraphs(
+      project,
+      copyright,
+      copyright.paperbackIsbn ? `ISBN: ${copyright.paperbackIsbn} (paperback)` : undefined,
+    );
+    if (logoSrc) {
+      lines.unshift(`<img class="publisher-logo" src="${logoSrc}" alt="${escapeXml(copyright.publisherName || 'Publisher logo')}"/>`);
+    }
+    return `<section class="front copyright-page">\n${lines.join('\n')}\n</section>`;
+  };
+
+  const hasCopyrightChapter = frontMatter.some(ch => ch.chapterType === 'copyright');
+  if (copyright && !hasCopyrightChapter) {
+    sections.push(copyrightPage());
+  }
+
+  for (const chapter of frontMatter) {
+    if (chapter.chapterType === 'copyright') {
+      if (copyright) sections.push(copyrightPage());
+      continue;
+    }
+    // Chromium cannot resolve target-counter(), so a printed contents page would have no page numbers
+    if (chapter.chapterType === 'table_of_contents') continue;
+
+    const paragraphs = paperbackChapterParagraphs(chapter.content || '', false);
+    if (!paragraphs) continue;
+
+    if (chapter.chapterType === 'dedication' || chapter.chapterType === 'epigraph') {
+      sections.push(`<section class="front centered ${chapter.chapterType}">\n${paragraphs}\n</section>`);
+    } else {
+      sections.push(`<section class="front">\n<h2>${escapeXml(chapter.title)}</h2>\n${paragraphs}\n</section>`);
+    }
+  }
+
+  bodyChapters.forEach((chapter, index) => {
+    const label = options.includeChapterNumbers ? `<p class="chapter-number">Chapter ${index + 1}</p>\n` : '';
+    sections.push(`<section class="chapter">
+<header class="chapter-opening">
+${label}<h2>${escapeXml(chapter.title)}</h2>
+</header>
+${paperbackChapterParagraphs(chapter.content || '', true)}
+</section>`);
+  });
+
+  for (const chapter of backMatter) {
+    const paragraphs = paperbackChapterParagraphs(chapter.content || '', false);
+    if (!paragraphs) continue;
+    sections.push(`<section class="chapter back">
+<header class="chapter-opening">
+<h2>${escapeXml(chapter.title)}</h2>
+</header>
+${paragraphs}
+</section>`);
+  }
+
+  // Running heads: author on the verso, title on the recto, folios on the outside edge.
+  // Front matter uses its own named page without margin boxes, so it carries no heads or numbers.
+  const versoHead = cssString(author || project.title);
+  const rectoHead = cssString(project.title);
+
+  return `<!DOCTYPE html>
+<html lang="${options.language || 'en'}">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(project.title)}</title>
+<style>
+@page {
+  size: ${trim.width}in ${trim.height}in;
+  margin: 0.75in 0.5in;
+}
+@page :left {
+  margin-left: 0.5in;
+  margin-right: ${gutter}in;
+}
+@page :right {
+  margin-left: ${gutter}in;
+  margin-right: 0.5in;
+}
+@page main:left {
+  @top-center { content: ${versoHead}; font: 8pt Georgia, serif; letter-spacing: 0.12em; text-transform: uppercase; }
+  @bottom-left { content: counter(page); font: 9pt Georgia, serif; }
+}
+@page main:right {
+  @top-center { content: ${rectoHead}; font: 8pt Georgia, serif; letter-spacing: 0.12em; text-transform: uppercase; }
+  @bottom-right { content: counter(page); font: 9pt Georgia, serif; }
+}
+@page :blank {
+  @top-center { content: none; }
+  @bottom-left { content: none; }
+  @bottom-right { content: none; }
+}
+html {
+  font-family: "EB Garamond", Garamond, Georgia, "Times New Roman", serif;
+  font-size: 11pt;
+  line-height: 1.4;
+  color: #000;
+}
+body {
+  margin: 0;
+}
+section {
+  break-before: right;
+}
+.front {
+  page: front;
+}
+.chapter {
+  page: main;
+}
+.copyright-page {
+  break-before: left;
+  display: flex;
+  flex-direction: column;
+  justify-content: flex-end;
+  height: ${trim.height - 1.5}in;
+  font-size: 8.5pt;
+  text-align: center;
+}
+.copyright-page p {
+  margin: 0 0 0.8em;
+  text-indent: 0;
+  text-align: center;
+}
+.publisher-logo {
+  display: block;
+  max-width: 35%;
+  max-height: 0.9in;
+  margin: 0 auto 1em;
+}
+.title-page {
+  text-align: center;
+  padding-top: 1.75in;
+}
+.title-page h1 {
+  font-size: 24pt;
+  font-weight: normal;
+  margin: 0 0 0.5in;
+}
+.title-page .byline {
+  font-size: 14pt;
+  letter-spacing: 0.08em;
+  text-indent: 0;
+  text-align: center;
+}
+.centered {
+  padding-top: 1.5in;
+  text-align: center;
+}
+.centered p {
+  text-indent: 0;
+  text-align: center;
+  margin-bottom: 0.6em;
+}
+.epigraph p {
+  font-style: italic;
+}
+.chapter-opening {
+  padding-top: 1.5in;
+  margin-bottom: 0.4in;
+  text-align: center;
+}
+.chapter-number {
+  font-size: 10pt;
+  letter-spacing: 0.15em;
+  text-transform: uppercase;
+  text-indent: 0;
+  text-align: center;
+  margin: 0 0 0.5em;
+}
+h2 {
+  font-size: 16pt;
+  font-weight: normal;
+  text-align: center;
+  margin: 0 0 0.3in;
+  break-after: avoid;
+}
+.chapter-opening h2 {
+  margin: 0;
+}
+p {
+  margin: 0;
+  text-indent: 1.5em;
+  text-align: justify;
+  hyphens: auto;
+  orphans: 2;
+  widows: 2;
+}
+p.no-indent, p.opening {
+  text-indent: 0;
+}
+p.opening::first-letter {
+  float: left;
+  font-size: 3.4em;
+  line-height: 0.8;
+  padding: 0.06em 0.06em 0 0;
+}
+p.opening::first-line {
+  font-variant: small-caps;
+}
+p.scene-break {
+  text-indent: 0;
+  text-align: center;
+  margin: 0.8em 0;
+  break-after: avoid;
+}
+</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+// Markdown and plain-text export
+interface TextBlock {
+  kind: 'paragraph' | 'heading' | 'item' | 'break';
+  runs: StyledRun[];
+  level: number; // heading level, or list nesting depth for items
+  marker: string; // list item marker: "-" or "3."
+  quote: number; // blockquote nesting depth
+}
+
+const MARKDOWN_STYLES = [['bold', '**'], ['italics', '*'], ['strike', '~~']] as const;
+
+// Split editor HTML into headings, paragraphs, list items and scene breaks
+function parseHtmlBlocks(html: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const lists: Array<{ ordered: boolean; count: number }> = [];
+  const depth = { bold: 0, italics: 0, underline: 0, strike: 0 };
+  let quote = 0;
+  let current: TextBlock | null = null;
+
+  const flush = (block: TextBlock | null) => {
+    if (!block) return;
+    const runs = [...block.runs];
+    while (runs.length && runs[0].lineBreak) runs.shift();
+    while (runs.length && runs[runs.length - 1].lineBreak) runs.pop();
+    if (!runs.some(run => run.text.trim())) return;
+    runs[0] = { ...runs[0], text: runs[0].text.replace(/^\s+/, '') };
+    runs[runs.length - 1] = { ...runs[runs.length - 1], text: runs[runs.length - 1].text.replace(/\s+$/, '') };
+    const kind = block.kind === 'paragraph' && isSceneBreak(runs) ? 'break' : block.kind;
+    blocks.push({ ...block, kind, runs: kind === 'break' ? [] : runs });
+  };
+  const newBlock = (kind: TextBlock['kind'], level = 0, marker = ''): TextBlock => ({ kind, runs: [], level, marker, quote });
+
+  for (const part of (html || '').split(/(<[^>]*>)/)) {
+    const tag = part.match(/^<(\/?)([a-z0-9]+)[^>]*>$/i);
+    if (!tag) {
+      const text = decodeEntities(part).replace(/\s+/g, ' ');
+      if (!text || (!current && !text.trim())) continue;
+      current = current || newBlock('paragraph');
+      current.runs.push({
+        text,
+        bold: depth.bold > 0 || undefined,
+        italics: depth.italics > 0 || undefined,
+        underline: depth.underline > 0 || undefined,
+        strike: depth.strike > 0 || undefined,
+      });
+      continue;
+    }
+
+    const closing = tag[1] === '/';
+    const name = tag[2].toLowerCase();
+    if (name === 'p' || name === 'div') {
+      // Paragraphs wrapped inside list items belong to the item
+      if (current?.kind === 'item') continue;
+      flush(current);
+      current = closing ? null : newBlock('paragraph');
+    } else if (/^h[1-6]$/.test(name)) {
+      flush(current);
+      current = closing ? null : newBlock('heading', Number(name[1]));
+    } else if (name === 'ul' || name === 'ol') {
+      flush(current);
+      current = null;
+      if (closing) lists.pop();
+      else lists.push({ ordered: name === 'ol', count: 0 });
+    } else if (name === 'li') {
+      flush(current);
+      current = null;
+      if (!closing) {
+        const list = lists[lists.length - 1];
+        if (list) list.count++;
+        current = newBlock('item', Math.max(1, lists.length), list?.ordered ? `${list.count}.` : '-');
+      }
+    } else if (name === 'blockquote') {
+      flush(current);
+      current = null;
+      quote = closing ? Math.max(0, quote - 1) : quote + 1;
+    } else if (name === 'hr') {
+      flush(current);
+      current = null;
+      blocks.push(newBlock('break'));
+    } else if (name === 'br') {
+      current?.runs.push({ text: '', lineBreak: true });
+    } else {
+      const style = name === 'b' || name === 'strong' ? 'bold'
+        : name === 'i' || name === 'em' ? 'italics'
+        : name === 'u' ? 'underline'
+        : name === 's' || name === 'strike' || name === 'del' ? 'strike'
+        : null;
+      if (style) depth[style] = closing ? Math.max(0, depth[style] - 1) : depth[style] + 1;
+    }
+  }
+  flush(current);
+  return blocks;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<])/g, '\\$1');
+}
+
+// Markdown has no underline, so only bold, italics and strikethrough survive. Styles nest
+// outermost-first and surrounding whitespace stays outside the markers, as CommonMark requires.
+function renderMarkdownRuns(runs: StyledRun[], styleIndex = 0): string {
+  if (styleIndex >= MARKDOWN_STYLES.length) {
+    return runs.map(run => run.lineBreak ? '\\\n' : escapeMarkdown(run.text)).join('');
+  }
+
+  const [style, marker] = MARKDOWN_STYLES[styleIndex];
+  let output = '';
+  let group: StyledRun[] = [];
+  let groupStyled = false;
+  const emit = () => {
+    if (!group.length) return;
+    const inner = renderMarkdownRuns(group, styleIndex + 1);
+    const [, lead, body, trail] = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    output += groupStyled && body ? `${lead}${marker}${body}${marker}${trail}` : inner;
+    group = [];
+  };
+  for (const run of runs) {
+    const styled = !!run[style] && !run.lineBreak;
+    if (styled !== groupStyled) {
+      emit();
+      groupStyled = styled;
+    }
+    group.push(run);
+  }
+  emit();
+  return output;
+}
+
+function renderTextBlocks(blocks: TextBlock[], markdown: boolean, headingOffset: number): string {
+  const inline = (runs: StyledRun[]) => markdown
+    ? renderMarkdownRuns(runs)
+    : runs.map(run => run.lineBreak ? '\n' : run.text).join('');
+
+  return blocks.map((block, index) => {
+    let text: string;
+    if (block.kind === 'break') {
+      text = '* * *';
+    } else if (block.kind === 'heading') {
+      const title = inline(block.runs).replace(/\\?\n/g, ' ');
+      text = markdown ? `${'#'.repeat(Math.min(6, block.level + headingOffset))} ${title}` : title;
+    } else {
+      // Keep paragraphs from being read as headings, quotes or list items
+      text = inline(block.runs);
+      if (markdown) text = text.replace(/^([#>+-])/, '\\$1').replace(/^(\d+)\.(\s)/, '$1\\.$2');
+      if (block.kind === 'item') {
+        text = `${'    '.repeat(block.level - 1)}${block.marker} ${text.replace(/\n/g, `\n${'    '.repeat(block.level)}`)}`;
+      }
+    }
+
+    if (block.quote) {
+      const prefix = markdown ? '> '.repeat(block.quote) : '    '.repeat(block.quote);
+      text = text.split('\n').map(line => prefix + line).join('\n');
+    }
+
+    const previous = blocks[index - 1];
+    const separator = !previous ? '' : previous.kind === 'item' && block.kind === 'item' ? '\n' : '\n\n';
+    return separator + text;
+  }).join('');
+}
+
+// Pandoc-style metadata; JSON strings are valid YAML double-quoted scalars
+function buildYamlMetadata(project: Project, copyright: any, language: string): string[] {
+  const lines: string[] = [];
+  const add = (key: string, value: unknown) => {
+    if (value !== null && value !== undefined && value !== '') {
+      lines.push(`${key}: ${JSON.stringify(String(value))}`);
+    }
+  };
+
+  add('title', project.title);
+  add('author', copyright?.penName);
+  add('genre', project.genre);
+  add('time-period', project.timePeriod);
+  add('setting', project.setting);
+  add('description', project.description);
+  add('lang', language);
+
+  if (copyright) {
+    add('publisher', copyright.publisherName);
+    add('date', copyright.yearOfPublication);
+    if (copyright.penName) {
+      const year = copyright.yearOfPublication || new Date().getFullYear();
+      add('rights', `Copyright © ${year} ${copyright.penName}${copyright.includeAllRightsReserved ? '. All rights reserved.' : ''}`);
+    }
+    const isbns = [['ebook', copyright.epubIsbn], ['paperback', copyright.paperbackIsbn], ['pdf', copyright.pdfIsbn]]
+      .filter(([, isbn]) => isbn);
+    if (isbns.length) {
+      lines.push('isbn:');
+      isbns.forEach(([edition, isbn]) => lines.push(`  ${edition}: ${JSON.stringify(String(isbn))}`));
+    }
+  }
+  return lines;
+}
+
+// Markdown (format 'md') or plain text (format 'txt'), as a single file or a zip of one file per chapter
+export async function exportProjectToMarkdown(
+  project: Project,
+  chapters: Chapter[],
+  options: ExportOptions
+): Promise<Buffer> {
+  const markdown = options.format !== 'txt';
+  const extension = markdown ? 'md' : 'txt';
+  const frontMatter = chapters.filter(ch => ch.section === 'front_matter').sort((a, b) => (a.order || 0) - (b.order || 0));
+  const bodyChapters = chapters.filter(ch => ch.section === 'body').sort((a, b) => (a.order || 0) - (b.order || 0));
+  const backMatter = chapters.filter(ch => ch.section === 'back_matter').sort((a, b) => (a.order || 0) - (b.order || 0));
+
+  const files: Array<{ title: string; text: string }> = [];
+  const addChapter = (chapter: Chapter, chapterNumber?: number) => {
+    if (chapter.chapterType === 'table_of_contents') return;
+
+    const blocks = parseHtmlBlocks(chapter.content || '');
+    // Skip placeholder front/back matter the author never filled in
+    if (blocks.length === 0 && chapter.section !== 'body') return;
+
+    let chapterTitle = chapter.title;
+    if (chapterNumber && options.includeChapterNumbers) {
+      chapterTitle = `Chapter ${chapterNumber}: ${chapter.title}`;
+    }
+
+    // The chapter title is the level-one heading, so headings inside the chapter move down a level
+    const heading = markdown ? `# ${escapeMarkdown(chapterTitle)}` : chapterTitle;
+    const body = renderTextBlocks(blocks, markdown, 1);
+    files.push({ title: chapter.title, text: body ? `${heading}\n\n${body}` : heading });
+  };
+
+  frontMatter.forEach(chapter => addChapter(chapter));
+  bodyChapters.forEach((chapter, index) => addChapter(chapter, index + 1));
+  backMatter.forEach(chapter => addChapter(chapter));
+
+  const metadata = options.includeProjectInfo ? buildYamlMetadata(project, options.copyrightInfo, options.language || 'en') : [];
+
+  if (!options.splitChapters) {
+    const header = metadata.length ? `---\n${metadata.join('\n')}\n---\n\n` : '';
+    return Buffer.from(`${header}${files.map(file => file.text).join('\n\n\n')}\n`, 'utf8');
+  }
+
+  // Chapter files sort in reading order; metadata.yaml works with pandoc --metadata-file
+  const zip = new JSZip();
+  if (metadata.length) {
+    zip.file('metadata.yaml', `${metadata.join('\n')}\n`);
+  }
+  files.forEach((file, index) => {
+    const slug = file.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'chapter';
+    zip.file(`${String(index + 1).padStart(2, '0')}-${slug}.${extension}`, `${file.text}\n`);
+  });
+
+  return await zip.generateAsync({
+    type: 'nodebuffer',
+    compression: 'DEFLATE',
+  });
+}
+
+// Render a project in the requested format, with the content type and download filename to send it as
+export async function exportProjectFile(
+  project: Project,
+  chapters: Chapter[],
+  options: ExportOptions
+): Promise<{ buffer: Buffer; contentType: string; filename: string }> {
+  const baseName = project.title.replace(/[^a-zA-Z0-9]/g, '_');
+
+  if (options.format === 'pdf') {
+    return {
+      buffer: await exportProjectToPdf(project, chapters, options),
+      contentType: 'application/pdf',
+      filename: `${baseName}${options.profile === 'paperback' ? `_paperback_${options.trimSize || '6x9'}` : ''}.pdf`,
+    };
+  }
+  if (options.format === 'epub') {
+    return {
+      buffer: await exportProjectToEpub(project, chapters, options),
+      contentType: 'application/epub+zip',
+      filename: `${baseName}.epub`,
+    };
+  }
+  if (options.format === 'md' || options.format === 'txt') {
+    const buffer = await exportProjectToMarkdown(project, chapters, options);
+    if (options.splitChapters) {
+      return { buffer, contentType: 'application/zip', filename: `${baseName}_${options.format}.zip` };
+    }
+    return {
+      buffer,
+      contentType: options.format === 'md' ? 'text/markdown; charset=utf-8' : 'text/plain; charset=utf-8',
+      filename: `${baseName}.${options.format}`,
+    };
+  }
+  return {
+    buffer: await exportProjectToDocx(project, chapters, options),
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    filename: `${baseName}${options.profile === 'manuscript' ? '_manuscript' : ''}.docx`,
+  };
+}
+
 // Documentation export function
 export async function exportDocumentationToPDF(title: string = 'MyNovelCraft Documentation'): Promise<{ buffer: Buffer; filename: string }> {
   const documentationContent = `
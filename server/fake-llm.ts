@@ -0,0 +1,48 @@
+import { estimateUsage, type LLMCompletion, type LLMProvider, type LLMRequest, type StreamHandlers } from "./llm-provider";
+
+// A deterministic stand-in for tests and offline development: no network, no cost, and the same prompt always
+// gets the same reply. Tests that need a particular reply install a responder.
+
+export type FakeLLMResponder = (request: LLMRequest) => string;
+
+// Echoes the start of the prompt; JSON requests get it under the keys the AI features read
+const defaultResponder: FakeLLMResponder = (request) => {
+  const reply = `Fake reply to: ${request.prompt.trim().replace(/\s+/g, ' ').slice(0, 120)}`;
+  return request.json ? JSON.stringify({ response: reply, content: reply, suggestions: [] }) : reply;
+};
+
+let responder: FakeLLMResponder = defaultResponder;
+
+// Pass nothing to go back to the default echo
+export function setFakeLLMResponder(next?: FakeLLMResponder): void {
+  responder = next || defaultResponder;
+}
+
+async function complete(_model: string, request: LLMRequest): Promise<LLMCompletion> {
+  const text = responder(request);
+  return { text, usage: estimateUsage(request, text) };
+}
+
+// Word by word, so streaming consumers see more than one delta
+async function stream(_model: string, request: LLMRequest, handlers: StreamHandlers): Promise<LLMCompletion> {
+  const text = responder(request);
+  for (const piece of text.match(/\S+\s*/g) || []) {
+    if (handlers.signal?.aborted) {
+      throw new Error('Request was aborted');
+    }
+    handlers.onDelta(piece);
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  return { text, usage: estimateUsage(request, text) };
+}
+
+export const fakeLLMProvider: LLMProvider = {
+  id: 'fake',
+  name: 'Fake',
+  description: 'Deterministic canned replies for tests and offline development',
+  defaultModel: () => 'fake',
+  isAvailable: () => true,
+  complete,
+  stream,
+  estimateCost: () => 0,
+};
@@ -1,6 +1,10 @@
 import textToSpeech from '@google-cloud/text-to-speech';
 import { writeFile } from 'fs/promises';
 import path from 'path';
+import type { SpeechSegment } from './dialogue-casting';
+import { toSsml, type PronunciationRule } from './pronunciation';
+import { estimateSpeechDuration, prepareText, splitTextForTTS, utf8ByteLength } from './tts-text';
+import { planCastChunks, synthesizeChunks, type SpeechChunk, type TTSProvider, type TTSSynthesisOptions } from './tts-provider';
 
 // Initialize Google Cloud TTS client with proper credential handling
 function createTTSClient() {
@@ -36,6 +40,7 @@ export interface GoogleTTSOptions {
   pitch?: number; // -20.0 to 20.0, default 0.0
   quality: 'standard' | 'wavenet' | 'neural2' | 'studio';
   gender: 'male' | 'female' | 'neutral';
+  pronunciations?: PronunciationRule[]; // Project dictionary, applied as SSML <phoneme>/<sub>
 }
 
 export interface VoiceOption {
@@ -166,70 +171,59 @@ export const PRICING_TIERS = {
   studio: { cost: 16, name: 'Studio ($39/month)', description: 'Professional studio voices' }
 };
 
-function splitTextForTTS(text: string, maxBytes: number = 4500): string[] {
-  // Helper function to get byte length
-  const getByteLength = (str: string) => Buffer.byteLength(str, 'utf8');
-  
-  if (getByteLength(text) <= maxBytes) {
-    return [text];
+// Google takes SSML, so pronunciations become <phoneme>/<sub> and pauses become <break>.
+// Requests are capped at 5000 bytes; splitting at 3500 leaves room for the markup.
+function planChunks(text: string, voice: string, pronunciations?: PronunciationRule[]): SpeechChunk[] {
+  const cleanText = prepareText(text);
+  if (cleanText.length === 0) {
+    return [];
   }
+  return splitTextForTTS(cleanText, 3500, utf8ByteLength).map(chunk => ({ text: toSsml(chunk, pronunciations), voice }));
+}
 
-  const chunks: string[] = [];
-  let currentPos = 0;
-
-  while (currentPos < text.length) {
-    let chunkEnd = Math.min(currentPos + Math.floor(maxBytes * 0.8), text.length);
-    
-    if (chunkEnd >= text.length) {
-      chunks.push(text.slice(currentPos));
-      break;
-    }
-
-    // Start with a reasonable chunk size and work backwards to find a good break point
-    let testChunk = text.slice(currentPos, chunkEnd);
-    
-    // Ensure we don't exceed byte limit
-    while (getByteLength(testChunk) > maxBytes && chunkEnd > currentPos + 100) {
-      chunkEnd -= 50;
-      testChunk = text.slice(currentPos, chunkEnd);
-    }
-
-    // Find the last sentence end within the safe chunk
-    const lastSentence = Math.max(
-      testChunk.lastIndexOf('.'),
-      testChunk.lastIndexOf('!'),
-      testChunk.lastIndexOf('?')
-    );
-
-    if (lastSentence > testChunk.length * 0.3) {
-      chunkEnd = currentPos + lastSentence + 1;
-    } else {
-      // Fall back to word boundary
-      const lastSpace = testChunk.lastIndexOf(' ');
-      if (lastSpace > testChunk.length * 0.3) {
-        chunkEnd = currentPos + lastSpace;
-      }
-    }
+async function synthesize(chunk: SpeechChunk, options: TTSSynthesisOptions & { pitch?: number } = {}): Promise<Buffer> {
+  if (!client) {
+    throw new Error('Google TTS client not available. Please check your Google Cloud credentials.');
+  }
 
-    const finalChunk = text.slice(currentPos, chunkEnd);
-    
-    // Double-check byte limit
-    if (getByteLength(finalChunk) > maxBytes) {
-      // Emergency fallback: find the largest safe chunk
-      let safeEnd = currentPos + 1;
-      while (safeEnd < chunkEnd && getByteLength(text.slice(currentPos, safeEnd)) <= maxBytes) {
-        safeEnd++;
-      }
-      chunkEnd = safeEnd - 1;
+  // Determine gender from voice ID
+  const voiceConfig = GOOGLE_VOICE_OPTIONS.find(v => v.id === chunk.voice);
+  const gender = voiceConfig?.gender.toUpperCase() as 'MALE' | 'FEMALE' | 'NEUTRAL' || 'NEUTRAL';
+
+  const [response] = await client.synthesizeSpeech({
+    input: { ssml: chunk.text },
+    voice: {
+      languageCode: chunk.voice.slice(0, 5), // e.g. 'en-GB' from 'en-GB-Neural2-A'
+      name: chunk.voice,
+      ssmlGender: gender
+    },
+    audioConfig: {
+      audioEncoding: 'MP3' as const,
+      speakingRate: options.speed || 1.0,
+      pitch: options.pitch || 0.0
     }
+  });
 
-    chunks.push(text.slice(currentPos, chunkEnd));
-    currentPos = chunkEnd;
+  if (!response.audioContent) {
+    throw new Error('No audio content received from Google TTS');
   }
-
-  return chunks;
+  return Buffer.from(response.audioContent as Uint8Array);
 }
 
+export const googleTTSProvider: TTSProvider = {
+  id: 'google',
+  name: 'Google Cloud TTS',
+  description: 'WaveNet, Neural2 and Studio voices with full SSML pronunciation support',
+  voices: () => GOOGLE_VOICE_OPTIONS,
+  isAvailable: () => !!client,
+  planChunks,
+  synthesize,
+  estimateCost: (characters, voice) => {
+    const tier = GOOGLE_VOICE_OPTIONS.find(v => v.id === voice)?.pricing || 'basic';
+    return calculateGoogleTTSCost(characters, tier);
+  },
+};
+
 export async function generateChapterAudio(
   text: string,
   options: GoogleTTSOptions,
@@ -244,64 +238,57 @@ export async function generateChapterAudio(
       };
     }
 
-    // Clean and prepare text for TTS
-    const cleanText = text
-      .replace(/[\*\#\>\<\[\]]/g, '') // Remove markdown characters
-      .replace(/\n\s*\n/g, '\n\n') // Clean up multiple newlines
-      .trim();
+    const chunks = planChunks(text, options.voice, options.pronunciations);
 
-    if (cleanText.length === 0) {
+    if (chunks.length === 0) {
       return { success: false, error: "No content to convert" };
     }
 
-    // Split long text into chunks (Google TTS has a 5000 byte limit)
-    const chunks = splitTextForTTS(cleanText, 4500);
-    const audioBuffers: Buffer[] = [];
-
-    console.log(`Generating audio for ${chunks.length} chunks with Google TTS...`);
+    // Write to file
+    await writeFile(outputPath, await synthesizeChunks(googleTTSProvider, chunks, options));
 
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      console.log(`Processing chunk ${i + 1}/${chunks.length} (${chunk.length} chars)`);
+    const estimatedDuration = estimateSpeechDuration(prepareText(text).length);
 
-      // Determine gender from voice ID
-      const voiceConfig = GOOGLE_VOICE_OPTIONS.find(v => v.id === options.voice);
-      const gender = voiceConfig?.gender.toUpperCase() as 'MALE' | 'FEMALE' | 'NEUTRAL' || 'NEUTRAL';
+    console.log(`Google TTS audio generated successfully: ${outputPath} (${estimatedDuration}s estimated)`);
 
-      const request = {
-        input: { text: chunk },
-        voice: {
-          languageCode: options.voice.startsWith('en-GB') ? 'en-GB' : 'en-US',
-          name: options.voice,
-          ssmlGender: gender
-        },
-        audioConfig: {
-          audioEncoding: 'MP3' as const,
-          speakingRate: options.speed || 1.0,
-          pitch: options.pitch || 0.0
-        }
-      };
+    return {
+      success: true,
+      filePath: outputPath,
+      duration: estimatedDuration
+    };
 
-      const [response] = await client.synthesizeSpeech(request);
-      
-      if (!response.audioContent) {
-        throw new Error(`No audio content received for chunk ${i + 1}`);
-      }
+  } catch (error) {
+    console.error('Error generating Google TTS audio:', error);
+    return {
+      success: false,
+      error: (error as Error).message || 'Failed to generate audio'
+    };
+  }
+}
 
-      audioBuffers.push(response.audioContent as Buffer);
+// Multi-voice chapter: narration in the chapter voice, each character's dialogue in their cast voice
+export async function generateCastChapterAudio(
+  segments: SpeechSegment[],
+  options: GoogleTTSOptions,
+  outputPath: string
+): Promise<{ success: boolean; filePath?: string; duration?: number; error?: string }> {
+  try {
+    if (!client) {
+      return { 
+        success: false, 
+        error: "Google TTS client not available. Please check your Google Cloud credentials." 
+      };
     }
 
-    // Combine audio buffers (simple concatenation for MP3)
-    const finalBuffer = Buffer.concat(audioBuffers);
-    
-    // Write to file
-    await writeFile(outputPath, finalBuffer);
+    const chunks = planCastChunks(googleTTSProvider, segments, options.voice, options.pronunciations);
+    if (chunks.length === 0) {
+      return { success: false, error: "No content to convert" };
+    }
 
-    // Estimate duration (rough calculation: ~150 words per minute)
-    const wordCount = cleanText.split(/\s+/).length;
-    const estimatedDuration = Math.round((wordCount / 150) * 60); // in seconds
+    await writeFile(outputPath, await synthesizeChunks(googleTTSProvider, chunks, options));
 
-    console.log(`Google TTS audio generated successfully: ${outputPath} (${estimatedDuration}s estimated)`);
+    const estimatedDuration = estimateSpeechDuration(segments.reduce((sum, segment) => sum + prepareText(segment.text).length, 0));
+    console.log(`Google TTS multi-voice audio generated successfully: ${outputPath} (${segments.length} segments, ${estimatedDuration}s estimated)`);
 
     return {
       success: true,
@@ -310,7 +297,7 @@ export async function generateChapterAudio(
     };
 
   } catch (error) {
-    console.error('Error generating Google TTS audio:', error);
+    console.error('Error generating Google TTS multi-voice audio:', error);
     return {
       success: false,
       error: (error as Error).message || 'Failed to generate audio'
@@ -0,0 +1,31 @@
+// Images we store and serve back from /uploads, identified by their leading bytes rather than the name or
+// mimetype the client sent, so a page or script can't be saved under an image's name
+
+export interface ImageType {
+  extension: string;
+  mimeType: string;
+}
+
+const IMAGE_SIGNATURES: Array<{ type: ImageType; matches: (data: Buffer) => boolean }> = [
+  {
+    type: { extension: '.png', mimeType: 'image/png' },
+    matches: data => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])),
+  },
+  {
+    type: { extension: '.jpg', mimeType: 'image/jpeg' },
+    matches: data => data.subarray(0, 3).equals(Buffer.from([0xFF, 0xD8, 0xFF])),
+  },
+  {
+    type: { extension: '.gif', mimeType: 'image/gif' },
+    matches: data => /^GIF8[79]a$/.test(data.subarray(0, 6).toString('latin1')),
+  },
+  {
+    type: { extension: '.webp', mimeType: 'image/webp' },
+    matches: data => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP',
+  },
+];
+
+// PNG, JPEG, GIF or WebP; null for anything else
+export function detectImageType(data: Buffer): ImageType | null {
+  return IMAGE_SIGNATURES.find(signature => signature.matches(data))?.type ?? null;
+}
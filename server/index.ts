@@ -1,5 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { recoverAudiobookJobs } from "./audiobook-jobs";
+import { recoverManuscriptAnalyses } from "./manuscript-analysis";
+import { recoverTranslationJobs } from "./translation";
+import { startStreakReminders } from "./writing-goals";
 import { setupVite, serveStatic, log } from "./vite";
 
 // PRODUCTION FIX: Force deployment restart to connect to correct database
@@ -48,6 +52,20 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  // Pick up audiobook jobs and manuscript analyses interrupted by the last shutdown; interrupted translations fail
+  recoverAudiobookJobs().catch(error => {
+    console.error("Failed to recover audiobook jobs:", error);
+  });
+  recoverManuscriptAnalyses().catch(error => {
+    console.error("Failed to recover manuscript analyses:", error);
+  });
+  recoverTranslationJobs().catch(error => {
+    console.error("Failed to recover translation jobs:", error);
+  });
+
+  // Evening e-mails for writing streaks about to break
+  startStreakReminders();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,177 @@
+import { openaiLLMProvider, localLLMProvider } from "./openai-llm";
+import { anthropicLLMProvider } from "./anthropic-llm";
+import { fakeLLMProvider } from "./fake-llm";
+
+// Every text-generation backend sits behind the same interface, so the writing assistant, translation and the
+// query workshop don't care whether completions come from OpenAI, Anthropic or a model running next to the server.
+//
+// Selection is by environment: LLM_PROVIDER picks the provider for the whole deployment, and
+// LLM_PROVIDER_<FEATURE> / LLM_MODEL_<FEATURE> override it for one feature (e.g. LLM_PROVIDER_TRANSLATION=anthropic).
+
+export type LLMProviderId = 'openai' | 'anthropic' | 'local' | 'fake';
+
+export type LLMFeature =
+  | 'writing_suggestions'
+  | 'plot_ideas'
+  | 'character_traits'
+  | 'story_progression'
+  | 'writing_query'
+  | 'literary_analysis'
+  | 'ai_detection'
+  | 'historical_research'
+  | 'agent_finder'
+  | 'query_workshop'
+  | 'translation'
+  | 'manuscript_analysis';
+
+export interface LLMRequest {
+  system: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a single JSON object back
+}
+
+export interface LLMTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  usage: LLMTokenUsage;
+}
+
+export interface StreamHandlers {
+  onDelta: (text: string) => void;
+  signal?: AbortSignal; // Aborting stops the completion mid-stream
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  name: string;
+  description: string;
+  // Model used when neither the deployment nor the feature names one
+  defaultModel(): string;
+  // Whether credentials or an endpoint are configured
+  isAvailable(): boolean;
+  complete(model: string, request: LLMRequest): Promise<LLMCompletion>;
+  // Plain text only; resolves with the whole text once the stream ends
+  stream(model: string, request: LLMRequest, handlers: StreamHandlers): Promise<LLMCompletion>;
+  // US dollars for this many tokens on the given model
+  estimateCost(model: string, usage: LLMTokenUsage): number;
+}
+
+// Who a completion is billed to. Calls made for no one in particular skip the usage record.
+export interface LLMUsageContext {
+  userId?: string | null;
+  resourceId?: string | null; // Project, chapter or translation the call was for
+}
+
+export const DEFAULT_LLM_PROVIDER: LLMProviderId = 'openai';
+
+// Built on demand: the provider modules import helpers from here, so they may not be initialised at load time
+export function listLLMProviders(): LLMProvider[] {
+  return [openaiLLMProvider, anthropicLLMProvider, localLLMProvider, fakeLLMProvider];
+}
+
+export function getLLMProvider(id: string | null | undefined): LLMProvider | undefined {
+  return listLLMProviders().find(provider => provider.id === (id || DEFAULT_LLM_PROVIDER));
+}
+
+function featureSetting(prefix: string, feature: LLMFeature): string | undefined {
+  return process.env[`${prefix}_${feature.toUpperCase()}`] || process.env[prefix] || undefined;
+}
+
+// The provider and model configured for a feature. An unknown provider id falls back to the default rather
+// than taking the feature down.
+export function resolveLLM(feature: LLMFeature): { provider: LLMProvider; model: string } {
+  const configured = featureSetting('LLM_PROVIDER', feature);
+  let provider = getLLMProvider(configured);
+  if (!provider) {
+    console.warn(`Unknown LLM provider "${configured}" for ${feature}, using ${DEFAULT_LLM_PROVIDER}`);
+    provider = getLLMProvider(DEFAULT_LLM_PROVIDER)!;
+  }
+  return { provider, model: featureSetting('LLM_MODEL', feature) || provider.defaultModel() };
+}
+
+// Rough approximation (4 characters = 1 token) for endpoints that don't report usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateUsage(request: LLMRequest, text: string): LLMTokenUsage {
+  return {
+    inputTokens: estimateTokens(request.system) + estimateTokens(request.prompt),
+    outputTokens: estimateTokens(text),
+  };
+}
+
+// Models asked for JSON sometimes wrap it in a code fence or a sentence, especially where the endpoint has no
+// JSON mode; keep just the object
+export function extractJSONObject(text: string): string {
+  if (/^\s*[\[{]/.test(text)) return text;
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text;
+}
+
+// Tokens are recorded per provider and model in usage_records. A failure here is logged rather than failing a
+// completion the user has already received.
+async function recordTokenUsage(
+  feature: LLMFeature,
+  provider: LLMProvider,
+  model: string,
+  usage: LLMTokenUsage,
+  context?: LLMUsageContext
+): Promise<void> {
+  if (!context?.userId) return;
+  try {
+    const { subscriptionManager } = await import("./subscription-manager");
+    await subscriptionManager.recordTokenUsage(context.userId, {
+      feature,
+      provider: provider.id,
+      model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      resourceId: context.resourceId ?? null,
+    });
+  } catch (error) {
+    console.error(`Failed to record ${provider.id} token usage for ${feature}:`, error);
+  }
+}
+
+export async function completeText(feature: LLMFeature, request: LLMRequest, context?: LLMUsageContext): Promise<string> {
+  const { provider, model } = resolveLLM(feature);
+  const completion = await provider.complete(model, request);
+  await recordTokenUsage(feature, provider, model, completion.usage, context);
+  return request.json ? extractJSONObject(completion.text) : completion.text;
+}
+
+// Streams a plain-text completion, handing on each piece as it arrives. A cancelled stream has still been billed
+// for what it generated, so that much is recorded from an estimate of the text received.
+export async function streamText(
+  feature: LLMFeature,
+  request: LLMRequest,
+  handlers: StreamHandlers,
+  context?: LLMUsageContext
+): Promise<string> {
+  const { provider, model } = resolveLLM(feature);
+  let received = '';
+  try {
+    const completion = await provider.stream(model, request, {
+      ...handlers,
+      onDelta: (text) => {
+        received += text;
+        handlers.onDelta(text);
+      },
+    });
+    await recordTokenUsage(feature, provider, model, completion.usage, context);
+    return completion.text;
+  } catch (error) {
+    if (handlers.signal?.aborted) {
+      await recordTokenUsage(feature, provider, model, estimateUsage(request, received), context);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,139 @@
+import fs from "fs/promises";
+import { existsSync, readdirSync } from "fs";
+import os from "os";
+import path from "path";
+import { runFfmpeg, runTool } from "./audio-tools";
+import { applyPronunciationText, type PronunciationRule } from "./pronunciation";
+import { prepareText, splitTextForTTS } from "./tts-text";
+import type { SpeechChunk, TTSProvider, TTSSynthesisOptions, TTSVoice } from "./tts-provider";
+
+// Speech from binaries on the server: free, offline and good enough to proof a draft by ear.
+// espeak-ng is always offered; Piper voices appear when PIPER_VOICES_DIR holds downloaded .onnx models.
+
+const ESPEAK_BINARY = 'espeak-ng';
+const PIPER_BINARY = process.env.PIPER_BINARY || 'piper';
+const PIPER_VOICES_DIR = process.env.PIPER_VOICES_DIR;
+
+// espeak-ng's own default rate, scaled by the requested speed
+const ESPEAK_WORDS_PER_MINUTE = 175;
+
+// Same shape as the API voices' MP3s so chunks concatenate and package the same way
+const MP3_ARGS = ['-c:a', 'libmp3lame', '-b:a', '128k', '-ar', '44100', '-ac', '1'];
+
+interface LocalVoice extends TTSVoice {
+  engine: 'espeak-ng' | 'piper';
+  engineVoice: string; // espeak-ng voice name, or the path of a Piper model
+}
+
+const ESPEAK_VOICES: LocalVoice[] = [
+  {
+    id: 'local-espeak-en-us', name: 'Draft (US)', accent: 'American (USA)', description: 'Robotic proofing voice',
+    gender: 'Male', quality: 'draft', pricing: 'free', engine: 'espeak-ng', engineVoice: 'en-us',
+    sampleText: 'This is the draft proofing voice. It is free, and it reads exactly what is on the page.'
+  },
+  {
+    id: 'local-espeak-en-us-f', name: 'Draft (US, female)', accent: 'American (USA)', description: 'Robotic proofing voice',
+    gender: 'Female', quality: 'draft', pricing: 'free', engine: 'espeak-ng', engineVoice: 'en-us+f3',
+    sampleText: 'This is the draft proofing voice. It is free, and it reads exactly what is on the page.'
+  },
+  {
+    id: 'local-espeak-en-gb', name: 'Draft (UK)', accent: 'British (UK)', description: 'Robotic proofing voice',
+    gender: 'Male', quality: 'draft', pricing: 'free', engine: 'espeak-ng', engineVoice: 'en-gb',
+    sampleText: 'This is the draft proofing voice. It is free, and it reads exactly what is on the page.'
+  },
+  {
+    id: 'local-espeak-en-gb-f', name: 'Draft (UK, female)', accent: 'British (UK)', description: 'Robotic proofing voice',
+    gender: 'Female', quality: 'draft', pricing: 'free', engine: 'espeak-ng', engineVoice: 'en-gb+f3',
+    sampleText: 'This is the draft proofing voice. It is free, and it reads exactly what is on the page.'
+  },
+];
+
+function hasBinary(binary: string): boolean {
+  if (binary.includes(path.sep)) return existsSync(binary);
+  return (process.env.PATH || '').split(path.delimiter).some(directory => directory && existsSync(path.join(directory, binary)));
+}
+
+// Piper models are read once; adding a model takes a restart
+let piperVoices: LocalVoice[] | null = null;
+
+function getPiperVoices(): LocalVoice[] {
+  if (piperVoices) return piperVoices;
+  piperVoices = [];
+  if (!PIPER_VOICES_DIR || !existsSync(PIPER_VOICES_DIR)) return piperVoices;
+
+  try {
+    // Models are named like en_GB-alan-medium.onnx: locale, speaker, quality
+    piperVoices = readdirSync(PIPER_VOICES_DIR)
+      .filter(file => file.endsWith('.onnx'))
+      .sort()
+      .map(file => {
+        const model = path.basename(file, '.onnx');
+        const [locale = '', speaker = model, quality = ''] = model.split('-');
+        return {
+          id: `local-piper-${model}`,
+          name: speaker.charAt(0).toUpperCase() + speaker.slice(1),
+          accent: locale.startsWith('en_GB') ? 'British (UK)' : locale.startsWith('en_US') ? 'American (USA)' : locale,
+          description: `Piper neural voice${quality ? ` (${quality})` : ''}`,
+          gender: 'Neutral',
+          quality: 'draft',
+          pricing: 'free',
+          engine: 'piper' as const,
+          engineVoice: path.join(PIPER_VOICES_DIR, file),
+          sampleText: `Hello! I'm ${speaker}, a free local voice for listening back to your drafts.`,
+        };
+      });
+  } catch (error) {
+    console.error('Failed to read Piper voices:', error);
+  }
+  return piperVoices;
+}
+
+function localVoices(): LocalVoice[] {
+  return [...getPiperVoices(), ...ESPEAK_VOICES];
+}
+
+// Neither engine gets the project's IPA, so the dictionary is applied as respelling like the OpenAI path.
+// There is no request limit, but chunking keeps long chapters resumable.
+function planChunks(text: string, voice: string, pronunciations?: PronunciationRule[]): SpeechChunk[] {
+  const spokenText = applyPronunciationText(prepareText(text), pronunciations);
+  if (spokenText.length === 0) {
+    return [];
+  }
+  return splitTextForTTS(spokenText, 4000).map(chunk => ({ text: chunk, voice }));
+}
+
+async function synthesize(chunk: SpeechChunk, options: TTSSynthesisOptions = {}): Promise<Buffer> {
+  const voice = localVoices().find(v => v.id === chunk.voice);
+  if (!voice) {
+    throw new Error(`Unknown local voice: ${chunk.voice}`);
+  }
+
+  const speed = options.speed || 1.0;
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'local-tts-'));
+  const wavPath = path.join(directory, 'speech.wav');
+  const mp3Path = path.join(directory, 'speech.mp3');
+
+  try {
+    // Text goes in on stdin so nothing in the manuscript can be read as a command-line option
+    if (voice.engine === 'piper') {
+      await runTool(PIPER_BINARY, ['--model', voice.engineVoice, '--length_scale', String(1 / speed), '--output_file', wavPath], chunk.text);
+    } else {
+      await runTool(ESPEAK_BINARY, ['-v', voice.engineVoice, '-s', String(Math.round(ESPEAK_WORDS_PER_MINUTE * speed)), '-w', wavPath, '--stdin'], chunk.text);
+    }
+    await runFfmpeg(['-i', wavPath, ...MP3_ARGS, mp3Path]);
+    return await fs.readFile(mp3Path);
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+}
+
+export const localTTSProvider: TTSProvider = {
+  id: 'local',
+  name: 'Local (free draft)',
+  description: 'Robotic but free voices that run on the server, for proofing drafts by ear',
+  voices: () => localVoices().map(({ engine, engineVoice, ...voice }) => voice),
+  isAvailable: () => hasBinary(ESPEAK_BINARY) || (getPiperVoices().length > 0 && hasBinary(PIPER_BINARY)),
+  planChunks,
+  synthesize,
+  estimateCost: () => 0,
+};
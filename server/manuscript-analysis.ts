@@ -0,0 +1,507 @@
+import { storage } from "./storage";
+import { completeText, type LLMUsageContext } from "./llm-provider";
+import {
+  ANALYSIS_ISSUE_CATEGORIES,
+  type AnalysisIssueCategory,
+  type Chapter,
+  type ChapterAnalysis,
+  type ChapterFindings,
+  type ManuscriptAnalysis,
+  type ManuscriptReport,
+  type Project,
+} from "@shared/schema";
+
+// Reads a whole manuscript chapter by chapter, keeps what each read found, then rolls the findings into one
+// book-level report. Unlike the chat's literary analysis nothing is cut off: a chapter too long for one request
+// is read in parts.
+
+// Roughly 15k tokens of prose per request, leaving room for the instructions and the reply
+const PART_CHARACTERS = 60000;
+
+// Summaries of the chapters just before, so subplots can be followed from one chapter to the next
+const PREVIOUS_SUMMARIES = 3;
+
+// This many chapters in a row at or below this tension make a flat stretch
+const FLAT_TENSION = 4;
+const FLAT_RUN = 3;
+
+// Chapters whose prose reads at least this machine-written are flagged
+const AI_FLAG_LIKELIHOOD = 70;
+
+const RUNNING_STATUSES = ['pending', 'analyzing', 'summarizing'];
+
+const ANALYST_PROMPT = "You are a developmental editor reading a novel manuscript for its author. You are specific, fair and honest, and you quote the text to back up what you say.";
+
+function plainText(html: string): string {
+  return html
+    .replace(/<\/(p|h[1-6]|blockquote|li|div)>/gi, '\n')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n')
+    .trim();
+}
+
+function countWords(text: string): number {
+  return text ? text.split(/\s+/).filter(Boolean).length : 0;
+}
+
+// The story itself, in reading order: front and back matter aren't part of the narrative
+export function chaptersToAnalyze(chapters: Chapter[]): Chapter[] {
+  return chapters
+    .filter(chapter => chapter.section === 'body' && plainText(chapter.content || '').length > 0)
+    .sort((a, b) => (a.order || 0) - (b.order || 0));
+}
+
+export function countManuscriptWords(chapters: Chapter[]): number {
+  return chapters.reduce((sum, chapter) => sum + countWords(plainText(chapter.content || '')), 0);
+}
+
+export function isAnalysisRunning(analysis: ManuscriptAnalysis): boolean {
+  return RUNNING_STATUSES.includes(analysis.status);
+}
+
+// Break at a paragraph, or failing that a sentence, near the limit
+function splitIntoParts(text: string): string[] {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > PART_CHARACTERS) {
+    const window = rest.slice(0, PART_CHARACTERS);
+    let cut = window.lastIndexOf('\n');
+    if (cut < PART_CHARACTERS * 0.8) cut = window.lastIndexOf('. ') + 1;
+    if (cut < PART_CHARACTERS * 0.5) cut = PART_CHARACTERS;
+    parts.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+// AI requests a full analysis makes: one per chapter part, then the book-level summary
+export function countAnalysisQueries(chapters: Chapter[]): number {
+  return chapters.reduce((sum, chapter) => sum + splitIntoParts(plainText(chapter.content || '')).length, 0) + 1;
+}
+
+function clampScore(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, Math.round(number * 10) / 10)) : fallback;
+}
+
+function oneOf<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? value as T : fallback;
+}
+
+function strings(value: unknown, limit: number): string[] {
+  return Array.isArray(value) ? value.filter(item => typeof item === 'string' && item.trim()).map(item => item.trim()).slice(0, limit) : [];
+}
+
+// Model output is checked field by field, so one odd value doesn't throw away the rest of the read
+function normaliseFindings(raw: any): ChapterFindings {
+  return {
+    summary: typeof raw?.summary === 'string' ? raw.summary.trim() : '',
+    pov: {
+      character: typeof raw?.pov?.character === 'string' && raw.pov.character.trim() ? raw.pov.character.trim() : null,
+      person: oneOf(raw?.pov?.person, ['first', 'second', 'third', 'mixed', 'unclear'] as const, 'unclear'),
+      tense: oneOf(raw?.pov?.tense, ['past', 'present', 'mixed', 'unclear'] as const, 'unclear'),
+    },
+    pacing: clampScore(raw?.pacing, 1, 10, 5),
+    tension: clampScore(raw?.tension, 1, 10, 5),
+    subplots: (Array.isArray(raw?.subplots) ? raw.subplots : [])
+      .filter((subplot: any) => typeof subplot?.name === 'string' && subplot.name.trim())
+      .map((subplot: any) => ({
+        name: subplot.name.trim(),
+        status: oneOf(subplot.status, ['introduced', 'advanced', 'resolved'] as const, 'advanced'),
+      })),
+    issues: (Array.isArray(raw?.issues) ? raw.issues : [])
+      .filter((issue: any) => typeof issue?.note === 'string' && issue.note.trim())
+      .map((issue: any) => ({
+        category: oneOf(issue.category, ANALYSIS_ISSUE_CATEGORIES, 'prose'),
+        severity: oneOf(issue.severity, ['minor', 'moderate', 'major'] as const, 'minor'),
+        note: issue.note.trim(),
+      }))
+      .slice(0, 8),
+    strengths: strings(raw?.strengths, 5),
+    aiLikelihood: clampScore(raw?.aiLikelihood, 0, 100, 0),
+    partsRead: 1,
+  };
+}
+
+// A long chapter's parts become one read: scores weighted by length, anything listed kept
+function mergeParts(parts: ChapterFindings[], lengths: number[]): ChapterFindings {
+  if (parts.length === 1) return parts[0];
+  const total = lengths.reduce((sum, length) => sum + length, 0) || 1;
+  const weighted = (score: (findings: ChapterFindings) => number) =>
+    Math.round(parts.reduce((sum, findings, index) => sum + score(findings) * lengths[index], 0) / total * 10) / 10;
+  const agreed = <T extends string>(values: T[], mixed: T): T => values.every(value => value === values[0]) ? values[0] : mixed;
+
+  // A thread resolved in any part is resolved; otherwise one that starts in any part was introduced here
+  const rank = { advanced: 0, introduced: 1, resolved: 2 };
+  const subplots = new Map<string, ChapterFindings['subplots'][number]>();
+  for (const subplot of parts.flatMap(findings => findings.subplots)) {
+    const key = subplot.name.toLowerCase();
+    const seen = subplots.get(key);
+    if (!seen || rank[subplot.status] > rank[seen.status]) subplots.set(key, subplot);
+  }
+
+  return {
+    summary: parts.map(findings => findings.summary).filter(Boolean).join(' '),
+    pov: {
+      character: parts.find(findings => findings.pov.character)?.pov.character ?? null,
+      person: agreed(parts.map(findings => findings.pov.person), 'mixed'),
+      tense: agreed(parts.map(findings => findings.pov.tense), 'mixed'),
+    },
+    pacing: weighted(findings => findings.pacing),
+    tension: weighted(findings => findings.tension),
+    subplots: Array.from(subplots.values()),
+    issues: parts.flatMap(findings => findings.issues).slice(0, 12),
+    strengths: Array.from(new Set(parts.flatMap(findings => findings.strengths))).slice(0, 5),
+    aiLikelihood: weighted(findings => findings.aiLikelihood),
+    partsRead: parts.length,
+  };
+}
+
+async function analyzeChapter(
+  project: Project,
+  chapter: Chapter,
+  position: number,
+  chapterCount: number,
+  earlier: ChapterAnalysis[],
+  usage: LLMUsageContext
+): Promise<ChapterFindings> {
+  const parts = splitIntoParts(plainText(chapter.content || ''));
+  const storySoFar = earlier.slice(-PREVIOUS_SUMMARIES)
+    .map(read => `- Chapter ${read.position}, "${read.chapterTitle}": ${read.findings.summary}`)
+    .join('\n');
+  const knownSubplots = Array.from(new Set(earlier.flatMap(read => read.findings.subplots.map(subplot => subplot.name))));
+
+  const findings: ChapterFindings[] = [];
+  for (const [index, part] of Array.from(parts.entries())) {
+    const reply = await completeText('manuscript_analysis', {
+      system: ANALYST_PROMPT,
+      prompt: `Read chapter ${position} of ${chapterCount}, "${chapter.title}", from the novel "${project.title}"${project.genre ? ` (${project.genre})` : ''}.
+${parts.length > 1 ? `This is part ${index + 1} of ${parts.length} of the chapter.\n` : ''}
+${storySoFar ? `The chapters just before, for context:\n${storySoFar}\n` : ''}
+${knownSubplots.length > 0 ? `Subplots running so far (reuse these names when the same thread continues): ${knownSubplots.join(', ')}\n` : ''}
+Respond with JSON:
+{
+  "summary": "two or three sentences on what happens",
+  "pov": { "character": "whose viewpoint the chapter is in, or null if omniscient", "person": "first|second|third|mixed|unclear", "tense": "past|present|mixed|unclear" },
+  "pacing": 1 to 10, where 1 is slow and reflective and 10 is breakneck,
+  "tension": 1 to 10,
+  "subplots": [{ "name": "a short name for the thread", "status": "introduced|advanced|resolved" }],
+  "issues": [{ "category": "${ANALYSIS_ISSUE_CATEGORIES.join('|')}", "severity": "minor|moderate|major", "note": "the problem, with a short quote" }],
+  "strengths": ["what works, briefly"],
+  "aiLikelihood": 0 to 100, how likely it is that the prose was machine-written
+}
+List at most six issues, the most important first. Flag a POV or tense slip only where it happens inside this text.
+
+Text:
+"""
+${part}
+"""`,
+      json: true,
+      temperature: 0.3,
+    }, usage);
+    findings.push(normaliseFindings(JSON.parse(reply || '{}')));
+  }
+  return mergeParts(findings, parts.map(part => part.length));
+}
+
+function chapterLabel(read: ChapterAnalysis): string {
+  return `Chapter ${read.position}: ${read.chapterTitle}`;
+}
+
+function mostCommon(values: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+function findFlatStretches(reads: ChapterAnalysis[]): ManuscriptReport['pacing']['flatStretches'] {
+  const stretches: ManuscriptReport['pacing']['flatStretches'] = [];
+  let run: ChapterAnalysis[] = [];
+  for (const read of [...reads, null]) {
+    if (read && read.findings.tension <= FLAT_TENSION) {
+      run.push(read);
+      continue;
+    }
+    if (run.length >= FLAT_RUN) {
+      stretches.push({ from: chapterLabel(run[0]), to: chapterLabel(run[run.length - 1]), chapters: run.length });
+    }
+    run = [];
+  }
+  return stretches;
+}
+
+// Slips that show up by comparing chapters: a tense or person the rest of the book doesn't use, mixing within a
+// chapter, and a viewpoint that doesn't match the author's outline
+function findPovIssues(reads: ChapterAnalysis[], planned: Map<string, string | null>): string[] {
+  const issues: string[] = [];
+  const usualTense = mostCommon(reads.map(read => read.findings.pov.tense).filter(tense => tense !== 'unclear' && tense !== 'mixed'));
+  const usualPerson = mostCommon(reads.map(read => read.findings.pov.person).filter(person => person !== 'unclear' && person !== 'mixed'));
+
+  for (const read of reads) {
+    const { pov } = read.findings;
+    if (pov.tense === 'mixed') {
+      issues.push(`${chapterLabel(read)} switches tense within the chapter.`);
+    } else if (usualTense && pov.tense !== 'unclear' && pov.tense !== usualTense) {
+      issues.push(`${chapterLabel(read)} is in the ${pov.tense} tense; the rest of the book is mostly ${usualTense}.`);
+    }
+    if (pov.person === 'mixed') {
+      issues.push(`${chapterLabel(read)} moves between narrative persons.`);
+    } else if (usualPerson && pov.person !== 'unclear' && pov.person !== usualPerson) {
+      issues.push(`${chapterLabel(read)} is told in the ${pov.person} person; the rest of the book is mostly ${usualPerson}.`);
+    }
+
+    const outlined = read.chapterId ? planned.get(read.chapterId) : null;
+    if (outlined && pov.character) {
+      const a = outlined.toLowerCase();
+      const b = pov.character.toLowerCase();
+      if (!a.includes(b) && !b.includes(a)) {
+        issues.push(`${chapterLabel(read)} is outlined from ${outlined}'s point of view but reads as ${pov.character}'s.`);
+      }
+    }
+  }
+  return issues;
+}
+
+// Threads by name, in case the summary pass doesn't return its own list
+function trackSubplots(reads: ChapterAnalysis[]): ManuscriptReport['subplots'] {
+  const threads = new Map<string, ManuscriptReport['subplots'][number]>();
+  for (const read of reads) {
+    for (const subplot of read.findings.subplots) {
+      const key = subplot.name.toLowerCase();
+      const thread = threads.get(key) || { name: subplot.name, introducedIn: chapterLabel(read), lastSeenIn: '', resolved: false, note: '' };
+      thread.lastSeenIn = chapterLabel(read);
+      thread.resolved = thread.resolved || subplot.status === 'resolved';
+      threads.set(key, thread);
+    }
+  }
+  return Array.from(threads.values());
+}
+
+async function buildReport(
+  project: Project,
+  reads: ChapterAnalysis[],
+  chapters: Chapter[],
+  usage: LLMUsageContext
+): Promise<ManuscriptReport> {
+  const planned = new Map(chapters.map(chapter => [chapter.id, chapter.povCharacter?.trim() || null]));
+  const flatStretches = findFlatStretches(reads);
+  const povIssues = findPovIssues(reads, planned);
+
+  const byCategory = new Map<AnalysisIssueCategory, { chapters: string[]; majorCount: number; notes: string[] }>();
+  for (const read of reads) {
+    for (const issue of read.findings.issues) {
+      const group = byCategory.get(issue.category) || { chapters: [], majorCount: 0, notes: [] };
+      if (!group.chapters.includes(chapterLabel(read))) group.chapters.push(chapterLabel(read));
+      if (issue.severity === 'major') group.majorCount++;
+      group.notes.push(issue.note);
+      byCategory.set(issue.category, group);
+    }
+  }
+  // Repeated means it turns up in more than one chapter
+  const repeated = Array.from(byCategory.entries())
+    .filter(([, group]) => group.chapters.length > 1)
+    .sort((a, b) => b[1].chapters.length - a[1].chapters.length);
+
+  const chapterNotes = reads.map(read => ({
+    chapter: chapterLabel(read),
+    summary: read.findings.summary,
+    pov: read.findings.pov,
+    pacing: read.findings.pacing,
+    tension: read.findings.tension,
+    subplots: read.findings.subplots,
+    issues: read.findings.issues.map(issue => `${issue.category} (${issue.severity}): ${issue.note.slice(0, 200)}`),
+    strengths: read.findings.strengths,
+  }));
+
+  const reply = await completeText('manuscript_analysis', {
+    system: ANALYST_PROMPT,
+    prompt: `Below are your chapter-by-chapter notes on the whole of "${project.title}"${project.genre ? ` (${project.genre})` : ''}. Write the book-level report.
+
+${JSON.stringify(chapterNotes)}
+
+Already found by comparing chapters:
+- Low-tension stretches: ${flatStretches.map(stretch => `${stretch.from} to ${stretch.to}`).join('; ') || 'none'}
+- Point of view: ${povIssues.join(' ') || 'nothing'}
+
+Respond with JSON:
+{
+  "overview": "a paragraph or two on the manuscript as a whole: what works and the most important things to fix",
+  "pacingNotes": "how tension and pace rise and fall across the book, naming chapters",
+  "povIssues": ["point-of-view or head-hopping problems not already found above"],
+  "subplots": [{ "name": "...", "introducedIn": "Chapter n: title", "lastSeenIn": "Chapter n: title", "resolved": true or false, "note": "how it ends, or what is left hanging" }],
+  "repeatedIssues": [{ "category": "one of ${repeated.map(([category]) => category).join(', ') || 'the categories above'}", "summary": "the pattern across chapters and how to fix it" }],
+  "strengths": ["strengths of the book as a whole"]
+}
+Merge subplots that are the same thread under different names.`,
+    json: true,
+    temperature: 0.4,
+    maxTokens: 4000,
+  }, usage);
+  const summary = JSON.parse(reply || '{}');
+
+  const summaries = new Map<string, string>(
+    (Array.isArray(summary.repeatedIssues) ? summary.repeatedIssues : [])
+      .filter((issue: any) => typeof issue?.category === 'string' && typeof issue?.summary === 'string')
+      .map((issue: any) => [issue.category, issue.summary.trim()])
+  );
+  const subplots: ManuscriptReport['subplots'] = (Array.isArray(summary.subplots) ? summary.subplots : [])
+    .filter((subplot: any) => typeof subplot?.name === 'string' && subplot.name.trim())
+    .map((subplot: any) => ({
+      name: subplot.name.trim(),
+      introducedIn: String(subplot.introducedIn || ''),
+      lastSeenIn: String(subplot.lastSeenIn || ''),
+      resolved: subplot.resolved === true,
+      note: typeof subplot.note === 'string' ? subplot.note.trim() : '',
+    }));
+
+  const totalWords = reads.reduce((sum, read) => sum + read.wordCount, 0) || 1;
+  return {
+    overview: typeof summary.overview === 'string' ? summary.overview.trim() : '',
+    pacing: {
+      curve: reads.map(read => ({
+        position: read.position,
+        chapterId: read.chapterId,
+        title: read.chapterTitle,
+        pacing: read.findings.pacing,
+        tension: read.findings.tension,
+        wordCount: read.wordCount,
+      })),
+      notes: typeof summary.pacingNotes === 'string' ? summary.pacingNotes.trim() : '',
+      flatStretches,
+    },
+    pointOfView: {
+      chapters: reads.map(read => ({
+        position: read.position,
+        title: read.chapterTitle,
+        character: read.findings.pov.character,
+        person: read.findings.pov.person,
+        tense: read.findings.pov.tense,
+        planned: read.chapterId ? planned.get(read.chapterId) ?? null : null,
+      })),
+      issues: [...povIssues, ...strings(summary.povIssues, 10)],
+    },
+    subplots: subplots.length > 0 ? subplots : trackSubplots(reads),
+    repeatedIssues: repeated.map(([category, group]) => ({
+      category,
+      chapters: group.chapters,
+      majorCount: group.majorCount,
+      summary: summaries.get(category) || Array.from(new Set(group.notes)).slice(0, 3).join(' '),
+    })),
+    strengths: strings(summary.strengths, 8),
+    aiDetection: {
+      averageLikelihood: Math.round(reads.reduce((sum, read) => sum + read.findings.aiLikelihood * read.wordCount, 0) / totalWords),
+      flaggedChapters: reads
+        .filter(read => read.findings.aiLikelihood >= AI_FLAG_LIKELIHOOD)
+        .map(read => ({ title: chapterLabel(read), likelihood: read.findings.aiLikelihood })),
+    },
+  };
+}
+
+// Convert technical errors to user-friendly messages
+function getUserFriendlyError(error: any): string {
+  const errorMessage = error?.message || '';
+
+  if (errorMessage.includes('exceeded your current quota')) {
+    return 'Manuscript analysis is temporarily unavailable due to service limits. Please try again later or contact support if this persists.';
+  }
+  if (errorMessage.includes('rate_limit_exceeded')) {
+    return 'Too many requests at once. Please wait a moment and try again.';
+  }
+  if (errorMessage.includes('invalid_api_key') || errorMessage.includes('authentication')) {
+    return 'Analysis service temporarily unavailable. Please contact support.';
+  }
+  if (errorMessage.includes('network') || errorMessage.includes('timeout') || errorMessage.includes('ENOTFOUND')) {
+    return 'Network connection issue. Please check your internet connection and try again.';
+  }
+  if (error instanceof SyntaxError) {
+    return 'Part of the manuscript could not be analysed. Please try again.';
+  }
+  return 'Unable to analyse the manuscript. Please try again or contact support if the problem continues.';
+}
+
+export async function runManuscriptAnalysis(analysisId: string): Promise<void> {
+  const analysis = await storage.getManuscriptAnalysis(analysisId);
+  if (!analysis) return;
+
+  try {
+    const project = await storage.getProject(analysis.projectId);
+    const chapters = project ? chaptersToAnalyze(await storage.getChaptersByProject(project.id)) : [];
+    if (!project || chapters.length === 0) {
+      await storage.updateManuscriptAnalysis(analysis.id, { status: 'failed', errorMessage: 'There are no chapters with text to analyse' });
+      return;
+    }
+
+    // After a restart, carry on from the chapters already read, as long as they still open the manuscript
+    const reads = await storage.getChapterAnalyses(analysis.id);
+    if (reads.some((read, index) => read.position !== index + 1 || read.chapterId !== chapters[index]?.id)) {
+      await storage.updateManuscriptAnalysis(analysis.id, {
+        status: 'failed',
+        errorMessage: 'The manuscript changed while the analysis was interrupted. Please run it again.',
+      });
+      return;
+    }
+
+    await storage.updateManuscriptAnalysis(analysis.id, {
+      status: 'analyzing',
+      chapterCount: chapters.length,
+      chaptersAnalyzed: reads.length,
+      wordCount: countManuscriptWords(chapters),
+      errorMessage: null,
+    });
+
+    const usage: LLMUsageContext = { userId: analysis.userId, resourceId: analysis.id };
+    for (const [index, chapter] of Array.from(chapters.entries()).slice(reads.length)) {
+      // Deleting an analysis while it runs stops it here
+      if (!await storage.getManuscriptAnalysis(analysis.id)) return;
+
+      const findings = await analyzeChapter(project, chapter, index + 1, chapters.length, reads, usage);
+      reads.push(await storage.createChapterAnalysis({
+        analysisId: analysis.id,
+        chapterId: chapter.id,
+        chapterTitle: chapter.title,
+        position: index + 1,
+        wordCount: countWords(plainText(chapter.content || '')),
+        findings,
+      }));
+      await storage.updateManuscriptAnalysis(analysis.id, { chaptersAnalyzed: index + 1 });
+    }
+
+    await storage.updateManuscriptAnalysis(analysis.id, { status: 'summarizing' });
+    const report = await buildReport(project, reads, chapters, usage);
+    await storage.updateManuscriptAnalysis(analysis.id, { status: 'completed', report });
+    console.log(`Manuscript analysis ${analysis.id} completed: ${reads.length} chapters of "${project.title}"`);
+  } catch (error) {
+    console.error(`Error in manuscript analysis ${analysis.id}:`, error);
+    await storage.updateManuscriptAnalysis(analysis.id, {
+      status: 'failed',
+      errorMessage: getUserFriendlyError(error),
+    });
+  }
+}
+
+// Analyses cut off by the last shutdown carry on from their saved chapter reads
+export async function recoverManuscriptAnalyses(): Promise<void> {
+  const analyses = await storage.getActiveManuscriptAnalyses();
+  if (analyses.length > 0) {
+    console.log(`Resuming ${analyses.length} manuscript analysis job(s) after restart`);
+  }
+  for (const analysis of analyses) {
+    startManuscriptAnalysisJob(analysis);
+  }
+}
+
+export function startManuscriptAnalysisJob(analysis: ManuscriptAnalysis): void {
+  setImmediate(() => {
+    runManuscriptAnalysis(analysis.id).catch(error => {
+      console.error(`Manuscript analysis job ${analysis.id} crashed:`, error);
+    });
+  });
+}
@@ -0,0 +1,1154 @@
+import JSZip from "jszip";
+import { storage } from "./storage";
+import { htmlToPlainText } from "./text-diff";
+import { createUnzipBudget, unzipEntry } from "./zip-entries";
+import type {
+  Project,
+  ChapterSection,
+  ChapterType,
+  ImportedChapter,
+  ImportedCharacter,
+  ManuscriptImport,
+  ManuscriptImportPreview,
+} from "@shared/schema";
+
+interface DocxStyle {
+  name: string;
+  basedOn?: string;
+  outlineLevel?: number;
+  bold?: boolean;
+  italics?: boolean;
+}
+
+interface DocxParagraph {
+  html: string;
+  text: string;
+  headingLevel: number | null; // 0 for the Title style, 1-9 for Heading 1-9
+  centered: boolean;
+}
+
+interface InlineFormat {
+  bold: boolean;
+  italics: boolean;
+  underline: boolean;
+  strike: boolean;
+}
+
+// Titles that identify front and back matter, matched against the whole heading
+const MATTER_TITLES: Array<{ pattern: RegExp; section: ChapterSection; chapterType: ChapterType }> = [
+  { pattern: /^copyright\b/i, section: 'front_matter', chapterType: 'copyright' },
+  { pattern: /^dedication$/i, section: 'front_matter', chapterType: 'dedication' },
+  { pattern: /^epigraph$/i, section: 'front_matter', chapterType: 'epigraph' },
+  { pattern: /^(table of )?contents$/i, section: 'front_matter', chapterType: 'table_of_contents' },
+  { pattern: /^(preface|foreword|introduction|author[’']?s note)$/i, section: 'front_matter', chapterType: 'preface' },
+  { pattern: /^about the author$/i, section: 'back_matter', chapterType: 'about_author' },
+  { pattern: /^(acknowledge?ments?|afterword|glossary|appendix\b.*|reading group guide|discussion questions)$/i, section: 'back_matter', chapterType: 'appendix' },
+  { pattern: /^(bibliography|references|sources|further reading|notes)$/i, section: 'back_matter', chapterType: 'bibliography' },
+];
+
+// "Chapter 12", "CHAPTER TWELVE", "Ch. 3", "Prologue", "Part One", bare "12" or "XII"
+const CHAPTER_HEADING_PATTERN = /^(?:(?:chapter|ch\.)\s+(?:\d+|[ivxlcdm]+|[a-z]+(?:[- ][a-z]+)?)\b.*|prologue\b.*|epilogue\b.*|interlude\b.*|part\s+(?:\d+|[ivxlcdm]+|[a-z]+)\b.*|\d{1,3}\.?|[IVXLC]{1,7}\.?)$/i;
+
+const COPYRIGHT_MARKERS = /©|\bcopyright\b|all rights reserved|\bISBN\b/i;
+
+const MAX_HEADING_LENGTH = 80;
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function attribute(xml: string, element: string, name = 'w:val'): string | undefined {
+  const match = xml.match(new RegExp(`<${element}\\b[^>]*\\b${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// OOXML on/off properties: <w:b/> is on, <w:b w:val="0"/> or "false" is off
+function toggle(properties: string, element: string): boolean | undefined {
+  const match = properties.match(new RegExp(`<${element}(?:\\s[^>]*)?/?>`));
+  if (!match) return undefined;
+  const value = attribute(match[0], element);
+  return value === undefined || !/^(0|false|off|none)$/i.test(value);
+}
+
+function countWords(html: string): number {
+  return htmlToPlainText(html).split(/\s+/).filter(Boolean).length;
+}
+
+function parseStyles(stylesXml: string): Map<string, DocxStyle> {
+  const styles = new Map<string, DocxStyle>();
+  for (const match of Array.from(stylesXml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g))) {
+    const id = attribute(`<w:style${match[1]}>`, 'w:style', 'w:styleId');
+    if (!id) continue;
+    const body = match[2];
+    const runProperties = body.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/)?.[1] || '';
+    const outline = attribute(body, 'w:outlineLvl');
+    styles.set(id, {
+      name: (attribute(body, 'w:name') || id).toLowerCase(),
+      basedOn: attribute(body, 'w:basedOn'),
+      outlineLevel: outline !== undefined ? Number(outline) : undefined,
+      bold: toggle(runProperties, 'w:b'),
+      italics: toggle(runProperties, 'w:i'),
+    });
+  }
+  return styles;
+}
+
+// Follow the basedOn chain until a style says whether it is a heading
+function styleHeadingLevel(styles: Map<string, DocxStyle>, styleId: string | undefined): number | null {
+  for (let depth = 0; styleId && depth < 10; depth++) {
+    const style = styles.get(styleId);
+    if (!style) return null;
+    if (style.name === 'title') return 0;
+    const named = style.name.match(/^heading (\d)$/);
+    if (named) return Number(named[1]);
+    if (style.outlineLevel !== undefined && style.outlineLevel < 9) return style.outlineLevel + 1;
+    styleId = style.basedOn;
+  }
+  return null;
+}
+
+function styleFormat(styles: Map<string, DocxStyle>, styleId: string | undefined, property: 'bold' | 'italics'): boolean {
+  for (let depth = 0; styleId && depth < 10; depth++) {
+    const style = styles.get(styleId);
+    if (!style) return false;
+    if (style[property] !== undefined) return style[property]!;
+    styleId = style.basedOn;
+  }
+  return false;
+}
+
+function formatRunsAsHtml(runs: Array<{ text: string; format: InlineFormat }>): string {
+  // Word splits text into many runs; merge neighbours that share formatting first
+  const merged: typeof runs = [];
+  for (const run of runs) {
+    const last = merged[merged.length - 1];
+    if (last && !run.text.startsWith('\n') && !last.text.endsWith('\n')
+      && (Object.keys(run.format) as Array<keyof InlineFormat>).every(key => last.format[key] === run.format[key])) {
+      last.text += run.text;
+    } else {
+      merged.push({ text: run.text, format: { ...run.format } });
+    }
+  }
+
+  return merged.map(({ text, format }) => {
+    let html = escapeHtml(text).replace(/\n/g, '<br>');
+    if (format.strike) html = `<s>${html}</s>`;
+    if (format.underline) html = `<u>${html}</u>`;
+    if (format.italics) html = `<em>${html}</em>`;
+    if (format.bold) html = `<strong>${html}</strong>`;
+    return html;
+  }).join('');
+}
+
+function parseDocumentParagraphs(documentXml: string, styles: Map<string, DocxStyle>): DocxParagraph[] {
+  // Text boxes nest whole paragraphs inside a run; they are decoration in a manuscript
+  const body = (documentXml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] || documentXml)
+    .replace(/<mc:AlternateContent>[\s\S]*?<\/mc:AlternateContent>/g, '')
+    .replace(/<w:txbxContent>[\s\S]*?<\/w:txbxContent>/g, '');
+  const paragraphs: DocxParagraph[] = [];
+
+  for (const match of Array.from(body.matchAll(/<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g))) {
+    const xml = match[1] || '';
+    const paragraphProperties = xml.match(/<w:pPr>([\s\S]*?)<\/w:pPr>/)?.[1] || '';
+    const styleId = attribute(paragraphProperties, 'w:pStyle');
+    const directOutline = attribute(paragraphProperties, 'w:outlineLvl');
+    const headingLevel = directOutline !== undefined && Number(directOutline) < 9
+      ? Number(directOutline) + 1
+      : styleHeadingLevel(styles, styleId);
+
+    const runs: Array<{ text: string; format: InlineFormat }> = [];
+    for (const runMatch of Array.from(xml.matchAll(/<w:r\b[^>]*>([\s\S]*?)<\/w:r>/g))) {
+      const runXml = runMatch[1];
+      const runProperties = runXml.match(/<w:rPr>([\s\S]*?)<\/w:rPr>/)?.[1] || '';
+      const runStyle = attribute(runProperties, 'w:rStyle');
+      const underline = attribute(runProperties, 'w:u');
+      const format: InlineFormat = {
+        bold: toggle(runProperties, 'w:b') ?? (styleFormat(styles, runStyle, 'bold') || styleFormat(styles, styleId, 'bold')),
+        italics: toggle(runProperties, 'w:i') ?? (styleFormat(styles, runStyle, 'italics') || styleFormat(styles, styleId, 'italics')),
+        underline: /<w:u\b/.test(runProperties) && underline !== 'none',
+        strike: toggle(runProperties, 'w:strike') ?? false,
+      };
+
+      let text = '';
+      for (const part of Array.from(runXml.matchAll(/<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:tab\/>|<w:br\b([^>]*)\/>|<w:cr\/>|<w:noBreakHyphen\/>/g))) {
+        if (part[0].startsWith('<w:t')) {
+          text += part[0] === '<w:tab/>' ? '\t' : decodeXml(part[1] ?? '');
+        } else if (part[0].startsWith('<w:br')) {
+          // Page and column breaks only affect layout
+          if (!/w:type="(page|column)"/.test(part[2] || '')) text += '\n';
+        } else if (part[0] === '<w:cr/>') {
+          text += '\n';
+        } else {
+          text += '‑';
+        }
+      }
+      if (text) runs.push({ text: text.replace(/\t/g, ' '), format });
+    }
+
+    const text = runs.map(run => run.text).join('').replace(/\s+/g, ' ').trim();
+    if (!text) continue;
+
+    // Headings carry their own styling in the editor, so drop the bold a Heading style applies
+    const html = formatRunsAsHtml(headingLevel !== null
+      ? runs.map(run => ({ ...run, format: { ...run.format, bold: false } }))
+      : runs).trim();
+
+    paragraphs.push({
+      html,
+      text,
+      headingLevel,
+      centered: attribute(paragraphProperties, 'w:jc') === 'center',
+    });
+  }
+  return paragraphs;
+}
+
+function classifyMatter(title: string): { section: ChapterSection; chapterType: ChapterType } | null {
+  const normalized = title.replace(/[:.]+$/, '').trim();
+  const matter = MATTER_TITLES.find(entry => entry.pattern.test(normalized));
+  return matter ? { section: matter.section, chapterType: matter.chapterType } : null;
+}
+
+// Section and type for an imported chapter; notes and introductions after the story has started are back matter
+function chapterPlacement(title: string, afterStory: boolean): { section: ChapterSection; chapterType: ChapterType } {
+  const matter = classifyMatter(title);
+  if (!matter) return { section: 'body', chapterType: 'chapter' };
+  if (matter.chapterType === 'preface' && afterStory) return { section: 'back_matter', chapterType: 'appendix' };
+  return matter;
+}
+
+function isChapterHeading(paragraph: DocxParagraph): boolean {
+  return paragraph.text.length <= MAX_HEADING_LENGTH && CHAPTER_HEADING_PATTERN.test(paragraph.text);
+}
+
+// Split a parsed manuscript into chapters, preferring Word heading styles over text patterns
+function splitIntoChapters(
+  paragraphs: DocxParagraph[],
+  fallbackTitle: string
+): Omit<ManuscriptImportPreview, 'sourceFormat' | 'characters'> {
+  const warnings: string[] = [];
+  let title = fallbackTitle;
+
+  // A leading Title-styled paragraph names the book rather than starting a chapter
+  const titleIndex = paragraphs.findIndex(paragraph => paragraph.headingLevel === 0);
+  if (titleIndex !== -1 && titleIndex < 5) {
+    title = paragraphs[titleIndex].text;
+    paragraphs = paragraphs.filter((_, index) => index !== titleIndex);
+  }
+
+  // Use the highest heading level that occurs more than once as the chapter level
+  const levelCounts = new Map<number, number>();
+  for (const paragraph of paragraphs) {
+    if (paragraph.headingLevel && paragraph.text.length <= MAX_HEADING_LENGTH) {
+      levelCounts.set(paragraph.headingLevel, (levelCounts.get(paragraph.headingLevel) || 0) + 1);
+    }
+  }
+  const chapterLevel = Array.from(levelCounts.keys()).sort((a, b) => a - b).find(level => levelCounts.get(level)! > 1);
+
+  let detection: ManuscriptImportPreview['detection'] = 'single';
+  let isBoundary: (paragraph: DocxParagraph) => boolean = () => false;
+  if (chapterLevel !== undefined) {
+    detection = 'headings';
+    isBoundary = paragraph => paragraph.headingLevel !== null && paragraph.headingLevel <= chapterLevel
+      && paragraph.text.length <= MAX_HEADING_LENGTH;
+  } else if (paragraphs.filter(isChapterHeading).length > 1) {
+    detection = 'chapter_pattern';
+    isBoundary = isChapterHeading;
+  }
+
+  // Standalone "Dedication", "Acknowledgments" and similar headings always start a new section
+  const startsChapter = (paragraph: DocxParagraph) =>
+    isBoundary(paragraph) || (paragraph.text.length <= 40 && classifyMatter(paragraph.text) !== null);
+
+  const groups: Array<{ title: string | null; paragraphs: DocxParagraph[] }> = [{ title: null, paragraphs: [] }];
+  for (let index = 0; index < paragraphs.length; index++) {
+    const paragraph = paragraphs[index];
+    if (!startsChapter(paragraph)) {
+      groups[groups.length - 1].paragraphs.push(paragraph);
+      continue;
+    }
+
+    // "Chapter 3" followed by a short subtitle line: use the subtitle as the chapter title
+    let chapterTitle = paragraph.text;
+    const next = paragraphs[index + 1];
+    if (/^(chapter|ch\.)\s+\S+$|^\d{1,3}\.?$|^[IVXLC]{1,7}\.?$/i.test(chapterTitle) && next && !startsChapter(next)
+      && next.text.length <= 60 && !/[.,;!?]["'”’]?$/.test(next.text) && (next.headingLevel !== null || next.centered)) {
+      chapterTitle = next.text;
+      index++;
+    }
+    groups.push({ title: chapterTitle, paragraphs: [] });
+  }
+
+  const chapters: ImportedChapter[] = [];
+  let bodyChapterCount = 0;
+  groups.forEach((group, groupIndex) => {
+    const content = group.paragraphs
+      .map(paragraph => paragraph.headingLevel
+        ? `<h${Math.min(6, paragraph.headingLevel + 1)}>${paragraph.html}</h${Math.min(6, paragraph.headingLevel + 1)}>`
+        : `<p>${paragraph.html}</p>`)
+      .join('');
+
+    if (group.title === null) {
+      // Text before the first heading: usually a title page or copyright page
+      const text = group.paragraphs.map(paragraph => paragraph.text).join(' ');
+      if (!text || text.trim().toLowerCase() === title.trim().toLowerCase()) return;
+      if (groups.length === 1) {
+        chapters.push({ title: 'Chapter 1', content, section: 'body', chapterType: 'chapter', wordCount: countWords(content) });
+        bodyChapterCount++;
+        return;
+      }
+      const isCopyright = COPYRIGHT_MARKERS.test(text);
+      chapters.push({
+        title: isCopyright ? 'Copyright' : 'Opening Pages',
+        content,
+        section: 'front_matter',
+        chapterType: isCopyright ? 'copyright' : 'preface',
+        wordCount: countWords(content),
+      });
+      if (!isCopyright) {
+        warnings.push('Text before the first chapter was imported as "Opening Pages". Check whether it should be kept.');
+      }
+      return;
+    }
+
+    const { section, chapterType } = chapterPlacement(group.title, bodyChapterCount > 0);
+    if (section === 'body') bodyChapterCount++;
+
+    if (!content && section === 'body' && groupIndex < groups.length - 1) {
+      warnings.push(`"${group.title}" has no text; it may be a part title rather than a chapter.`);
+    }
+    chapters.push({ title: group.title, content, section, chapterType, wordCount: countWords(content) });
+  });
+
+  if (detection === 'single') {
+    warnings.push('No chapter headings were found, so the manuscript was imported as a single chapter.');
+  }
+
+  return { title, detection, chapters, warnings };
+}
+
+export async function parseDocxManuscript(buffer: Buffer, filename: string): Promise<ManuscriptImportPreview> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error('The file is not a valid .docx document');
+  }
+
+  const budget = createUnzipBudget();
+  const readPart = async (name: string) => {
+    const entry = zip.file(name);
+    return entry ? (await unzipEntry(entry, budget, '.docx document')).toString('utf8') : '';
+  };
+  const documentXml = await readPart('word/document.xml');
+  if (!documentXml) {
+    throw new Error('The file is not a valid .docx document');
+  }
+  const styles = parseStyles(await readPart('word/styles.xml'));
+  const coreXml = await readPart('docProps/core.xml');
+  const documentTitle = coreXml.match(/<dc:title>([\s\S]*?)<\/dc:title>/)?.[1];
+
+  const fallbackTitle = (documentTitle && decodeXml(documentTitle).trim()) || filename.replace(/\.[^.]+$/, '');
+  const preview = splitIntoChapters(parseDocumentParagraphs(documentXml, styles), fallbackTitle);
+  return { ...preview, characters: [], sourceFormat: 'docx' };
+}
+
+interface ImportFile {
+  path: string; // relative path inside the uploaded folder or archive
+  data: Buffer;
+}
+
+// Roles offered by the character editor; anything else found in a character sheet is kept as written
+const CHARACTER_ROLES = [
+  'Protagonist', 'Antagonist', 'Supporting Character', 'Mentor', 'Love Interest', 'Comic Relief', 'Foil',
+];
+
+const MARKDOWN_EXTENSIONS = /\.(md|markdown|txt)$/i;
+
+const SCENE_BREAK_HTML = '<p>* * *</p>';
+
+function naturalCompare(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function baseName(path: string): string {
+  return path.split('/').pop() || path;
+}
+
+// "03-the-long-night.md" -> "The long night"
+function titleFromFilename(path: string): string {
+  const name = baseName(path).replace(/\.[^.]+$/, '');
+  const title = name.replace(/^\d+[\s._-]*/, '').replace(/[_-]+/g, ' ').trim();
+  return title ? title.charAt(0).toUpperCase() + title.slice(1) : name;
+}
+
+// Exported books title chapters "Chapter 3: The Long Night"; keep just the name
+function cleanChapterTitle(title: string): string {
+  return title.replace(/^(?:chapter|ch\.)\s+(?:\d+|[ivxlcdm]+|[a-z]+(?:[- ][a-z]+)?)\s*[:.–—-]\s+(?=\S)/i, '').trim();
+}
+
+function readText(file: ImportFile): string {
+  return file.data.toString('utf8').replace(/^\uFEFF/, '');
+}
+
+// Character sheets often start with "Role: Antagonist"; match it to the editor's role list when possible
+function characterFromSheet(name: string, text: string, synopsis?: string | null, role?: string | null): ImportedCharacter {
+  const roleLine = role || text.match(/^\s*role(?: in (?:the )?story)?\s*:\s*(.+)$/im)?.[1]?.trim();
+  const knownRole = roleLine && CHARACTER_ROLES.find(known => known.toLowerCase() === roleLine.toLowerCase()
+    || (known === 'Supporting Character' && /^supporting$/i.test(roleLine)));
+  const description = (synopsis || text.replace(/^\s*role(?: in (?:the )?story)?\s*:.*$/im, '')).trim();
+  return {
+    name: name.trim(),
+    role: knownRole || (roleLine ? roleLine.slice(0, 60) : 'Supporting Character'),
+    description: description || null,
+  };
+}
+
+async function unzipFiles(buffer: Buffer, description: string): Promise<ImportFile[]> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new Error(`The file is not a valid ${description}`);
+  }
+
+  const files: ImportFile[] = [];
+  const budget = createUnzipBudget();
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || /(^|\/)(__MACOSX\/|\.DS_Store$)/.test(entry.name)) continue;
+    files.push({ path: entry.name, data: await unzipEntry(entry, budget, description) });
+  }
+  return files;
+}
+
+// --- RTF (Scrivener document text) ---
+
+// Groups whose text is never part of the document body
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'expandedcolortbl', 'stylesheet', 'info', 'pict', 'object', 'NeXTGraphic',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+  'footnote', 'annotation', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'fldinst',
+]);
+
+const RTF_SYMBOLS = new Map([
+  ['emdash', '—'], ['endash', '–'], ['lquote', '‘'], ['rquote', '’'],
+  ['ldblquote', '“'], ['rdblquote', '”'], ['bullet', '•'], ['tab', '\t'], ['line', '\n'],
+]);
+
+// \'hh escapes are Windows-1252 bytes; only 0x80-0x9F differ from Latin-1
+const WINDOWS_1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+function decodeWindows1252(byte: number): string {
+  return byte >= 0x80 && byte <= 0x9F ? WINDOWS_1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+}
+
+function rtfToHtml(rtf: string): string {
+  interface RtfState extends InlineFormat {
+    skip: boolean;
+    unicodeSkip: number;
+  }
+
+  const paragraphs: string[] = [];
+  let runs: Array<{ text: string; format: InlineFormat }> = [];
+  let state: RtfState = { bold: false, italics: false, underline: false, strike: false, skip: false, unicodeSkip: 1 };
+  const stack: RtfState[] = [];
+  let pendingSkip = 0; // fallback characters still to drop after a \u escape
+  let groupStart = false;
+
+  const emit = (text: string) => {
+    if (state.skip) return;
+    if (pendingSkip > 0) {
+      const dropped = Math.min(pendingSkip, text.length);
+      pendingSkip -= dropped;
+      text = text.slice(dropped);
+      if (!text) return;
+    }
+    runs.push({ text, format: { bold: state.bold, italics: state.italics, underline: state.underline, strike: state.strike } });
+  };
+  const endParagraph = () => {
+    const html = formatRunsAsHtml(runs).trim();
+    if (htmlToPlainText(html).trim()) paragraphs.push(`<p>${html}</p>`);
+    runs = [];
+  };
+
+  for (let index = 0; index < rtf.length; index++) {
+    const char = rtf[index];
+    if (char === '{') {
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      continue;
+    }
+    const atGroupStart = groupStart;
+    groupStart = false;
+
+    if (char === '}') {
+      state = stack.pop() || state;
+      continue;
+    }
+    if (char === '\r' || char === '\n') continue;
+    if (char !== '\\') {
+      emit(char);
+      continue;
+    }
+
+    const next = rtf[index + 1];
+    if (next === undefined) break;
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      index++;
+    } else if (next === '\n' || next === '\r') {
+      endParagraph();
+      index++;
+    } else if (next === '~') {
+      emit(' ');
+      index++;
+    } else if (next === '*') {
+      if (atGroupStart) state.skip = true;
+      index++;
+    } else if (next === "'") {
+      const hex = rtf.slice(index + 2, index + 4);
+      emit(decodeWindows1252(parseInt(hex, 16) || 0x3F));
+      index += 3;
+    } else if (/[a-zA-Z]/.test(next)) {
+      const match = rtf.slice(index + 1).match(/^([a-zA-Z]+)(-?\d+)? ?/)!;
+      index += match[0].length;
+      const word = match[1];
+      const param = match[2] !== undefined ? Number(match[2]) : undefined;
+
+      if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true;
+      } else if (word === 'par' || word === 'sect' || word === 'page') {
+        endParagraph();
+      } else if (RTF_SYMBOLS.has(word)) {
+        emit(RTF_SYMBOLS.get(word)!);
+      } else if (word === 'u' && param !== undefined) {
+        emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+        pendingSkip = state.unicodeSkip;
+      } else if (word === 'uc' && param !== undefined) {
+        state.unicodeSkip = param;
+      } else if (word === 'b') {
+        state.bold = param !== 0;
+      } else if (word === 'i') {
+        state.italics = param !== 0;
+      } else if (word === 'ul') {
+        state.underline = param !== 0;
+      } else if (word === 'ulnone') {
+        state.underline = false;
+      } else if (word === 'strike') {
+        state.strike = param !== 0;
+      } else if (word === 'plain') {
+        Object.assign(state, { bold: false, italics: false, underline: false, strike: false });
+      }
+    } else {
+      // Other control symbols (\- optional hyphen, \_ non-breaking hyphen, \: index entries)
+      if (next === '_') emit('‑');
+      index++;
+    }
+  }
+  endParagraph();
+
+  return paragraphs.join('');
+}
+
+// --- Scrivener ---
+
+interface BinderItem {
+  uuid: string;
+  type: string;
+  title: string;
+  includeInCompile: boolean;
+  children: BinderItem[];
+}
+
+function parseBinder(scrivx: string): BinderItem[] {
+  const binder = scrivx.match(/<Binder>([\s\S]*?)<\/Binder>/)?.[1] || '';
+  const roots: BinderItem[] = [];
+  const stack: BinderItem[] = [];
+
+  const tags = /<(\/?)(BinderItem|Title|IncludeInCompile)\b([^>]*?)(\/?)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tags.exec(binder))) {
+    const [, closing, tag, attributes, selfClosing] = match;
+    const current = stack[stack.length - 1];
+    if (tag === 'BinderItem') {
+      if (closing) {
+        stack.pop();
+        continue;
+      }
+      const item: BinderItem = {
+        // Scrivener 3 identifies items by UUID, Scrivener 2 by a numeric ID
+        uuid: attributes.match(/\b(?:UUID|ID)="([^"]*)"/)?.[1] || '',
+        type: attributes.match(/\bType="([^"]*)"/)?.[1] || 'Text',
+        title: '',
+        includeInCompile: true,
+        children: [],
+      };
+      (current ? current.children : roots).push(item);
+      if (!selfClosing) stack.push(item);
+    } else if (!closing && !selfClosing && current) {
+      const end = binder.indexOf(`</${tag}>`, tags.lastIndex);
+      if (end === -1) continue;
+      const value = decodeXml(binder.slice(tags.lastIndex, end)).trim();
+      if (tag === 'Title' && !current.title) current.title = value;
+      if (tag === 'IncludeInCompile') current.includeInCompile = !/^no$/i.test(value);
+      tags.lastIndex = end;
+    }
+  }
+  return roots;
+}
+
+function parseScrivenerProject(files: ImportFile[], scrivxPath: string): ManuscriptImportPreview {
+  const root = scrivxPath.includes('/') ? scrivxPath.slice(0, scrivxPath.lastIndexOf('/') + 1) : '';
+  const byPath = new Map(files.map(file => [file.path, file]));
+  const roots = parseBinder(readText(byPath.get(scrivxPath)!));
+  const warnings: string[] = [];
+
+  const documentText = (item: BinderItem): string => {
+    const file = byPath.get(`${root}Files/Data/${item.uuid}/content.rtf`) || byPath.get(`${root}Files/Docs/${item.uuid}.rtf`);
+    return file ? rtfToHtml(readText(file)) : '';
+  };
+  const indexCard = (item: BinderItem): string => {
+    const file = byPath.get(`${root}Files/Data/${item.uuid}/synopsis.txt`) || byPath.get(`${root}Files/Docs/${item.uuid}_synopsis.txt`);
+    return file ? readText(file).trim() : '';
+  };
+  const compiled = (items: BinderItem[]) => items.filter(item => item.includeInCompile);
+
+  // A chapter is a folder or document together with everything nested under it, scenes separated by breaks
+  const flatten = (item: BinderItem): BinderItem[] => [item, ...compiled(item.children).flatMap(flatten)];
+
+  const draft = roots.find(item => item.type === 'DraftFolder');
+  if (!draft) {
+    throw new Error('The Scrivener project has no Draft folder');
+  }
+
+  const chapters: ImportedChapter[] = [];
+  let bodyChapterCount = 0;
+  const addChapters = (items: BinderItem[]) => {
+    for (const item of compiled(items)) {
+      const isPart = item.children.some(child => child.type === 'Folder' && child.includeInCompile);
+      if (isPart) {
+        if (htmlToPlainText(documentText(item)).trim()) {
+          warnings.push(`Text in the part folder "${item.title}" was not imported.`);
+        }
+        addChapters(item.children);
+        continue;
+      }
+
+      const scenes = flatten(item);
+      const content = scenes.map(documentText).filter(Boolean).join(SCENE_BREAK_HTML);
+      const synopsis = indexCard(item) || scenes.slice(1).map(indexCard).filter(Boolean).join('\n\n');
+      const title = cleanChapterTitle(item.title) || `Chapter ${bodyChapterCount + 1}`;
+      const { section, chapterType } = chapterPlacement(title, bodyChapterCount > 0);
+      if (section === 'body') bodyChapterCount++;
+      chapters.push({ title, content, section, chapterType, synopsis: synopsis || null, wordCount: countWords(content) });
+    }
+  };
+  addChapters(draft.children);
+
+  // Character sheets live in a top-level "Characters" folder in the novel templates and are rarely compiled
+  const everything = (item: BinderItem): BinderItem[] => [item, ...item.children.flatMap(everything)];
+  const characters: ImportedCharacter[] = roots
+    .filter(item => item.type !== 'DraftFolder' && /^characters?$/i.test(item.title))
+    .flatMap(folder => folder.children.flatMap(everything))
+    .filter(item => item.type !== 'Folder' && item.title)
+    .map(item => characterFromSheet(item.title, htmlToPlainText(documentText(item)), indexCard(item)));
+
+  if (chapters.some(chapter => !chapter.content)) {
+    warnings.push('Some documents had no text. Make sure the upload contains the whole .scriv folder including "Files".');
+  }
+
+  return {
+    title: baseName(scrivxPath).replace(/\.scrivx$/i, ''),
+    sourceFormat: 'scrivener',
+    detection: 'structure',
+    chapters,
+    characters,
+    warnings,
+  };
+}
+
+// --- Markdown ---
+
+// Only flat "key: value" pairs are needed for titles and synopses
+function parseFrontMatter(markdown: string): { metadata: Record<string, string>; body: string } {
+  const match = markdown.match(/^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/);
+  if (!match) return { metadata: {}, body: markdown };
+  return { metadata: parseSimpleYaml(match[1]), body: markdown.slice(match[0].length) };
+}
+
+function parseSimpleYaml(yaml: string): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const line of yaml.split(/\r?\n/)) {
+    const match = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*?)\s*$/);
+    if (!match || !match[2]) continue;
+    let value = match[2];
+    if (value.startsWith('"')) {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        value = value.slice(1, -1);
+      }
+    } else if (value.startsWith("'") && value.endsWith("'")) {
+      value = value.slice(1, -1).replace(/''/g, "'");
+    }
+    metadata[match[1].toLowerCase()] = value;
+  }
+  return metadata;
+}
+
+// Emphasis is matched delimiter run by delimiter run so "**very *late***" nests correctly
+function markdownInlineToHtml(text: string): string {
+  const escapes: string[] = [];
+  const source = text
+    .replace(/\\([\\`*_{}\[\]()#+\-.!<>~|])/g, (_, char: string) => `\u0000${escapes.push(char) - 1}\u0000`)
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1');
+
+  interface Delimiter {
+    char: string;
+    length: number;
+    open: string;
+    close: string;
+  }
+  const parts: Array<string | Delimiter> = source.split(/(\*+|_+|~~)/).map((part, index) =>
+    index % 2 === 1 ? { char: part[0], length: part.length, open: '', close: '' } : part);
+  const openers: Delimiter[] = [];
+
+  parts.forEach((part, index) => {
+    if (typeof part === 'string') return;
+    const before = (parts[index - 1] as string).slice(-1);
+    const after = (parts[index + 1] as string).charAt(0);
+    let canOpen = !!after && !/\s/.test(after);
+    let canClose = !!before && !/\s/.test(before);
+    if (part.char === '_') {
+      canOpen = canOpen && !/[A-Za-z0-9\u00C0-\u024F]/.test(before);
+      canClose = canClose && !/[A-Za-z0-9\u00C0-\u024F]/.test(after);
+    }
+
+    while (canClose && part.length > 0) {
+      const openerIndex = openers.map(opener => opener.char).lastIndexOf(part.char);
+      if (openerIndex === -1) break;
+      const opener = openers[openerIndex];
+      const used = part.char === '~' ? 2 : part.length >= 2 && opener.length >= 2 ? 2 : 1;
+      const tag = part.char === '~' ? 's' : used === 2 ? 'strong' : 'em';
+      opener.open = `<${tag}>${opener.open}`;
+      part.close += `</${tag}>`;
+      opener.length -= used;
+      part.length -= used;
+      openers.splice(opener.length > 0 ? openerIndex + 1 : openerIndex);
+    }
+    if (canOpen && part.length > 0) openers.push(part);
+  });
+
+  return parts
+    .map(part => typeof part === 'string'
+      ? escapeHtml(part)
+      : `${part.close}${escapeHtml(part.char.repeat(part.length))}${part.open}`)
+    .join('')
+    .replace(/\u0000(\d+)\u0000/g, (_, index: string) => escapeHtml(escapes[Number(index)]));
+}
+
+function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const html: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length === 0) return;
+    // Trailing backslash or two spaces is a hard line break
+    const text = paragraph
+      .map((line, index) => index === paragraph.length - 1 ? line.trim()
+        : / {2,}$|\\$/.test(line) ? `${line.replace(/\\$/, '').trim()}\u0001` : `${line.trim()} `)
+      .join('');
+    html.push(`<p>${markdownInlineToHtml(text).replace(/\u0001/g, '<br>')}</p>`);
+    paragraph = [];
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+    const listItem = line.match(/^\s*(?:[-*+]|(\d+)[.)])\s+(.*)$/);
+
+    if (!line.trim()) {
+      flushParagraph();
+    } else if (/^\s{0,3}(?:(?:\*\s*){3,}|(?:-\s*){3,}|(?:_\s*){3,})$/.test(line) || /^\s*#\s*$/.test(line)) {
+      flushParagraph();
+      html.push(SCENE_BREAK_HTML);
+    } else if (heading) {
+      flushParagraph();
+      // Exported chapters use "#" for the chapter title, so headings inside it start one level down
+      const level = Math.max(2, heading[1].length - 1);
+      html.push(`<h${level}>${markdownInlineToHtml(heading[2])}</h${level}>`);
+    } else if (/^\s{0,3}>/.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      while (index < lines.length && /^\s{0,3}>/.test(lines[index])) {
+        quoted.push(lines[index].replace(/^\s{0,3}>\s?/, ''));
+        index++;
+      }
+      index--;
+      html.push(`<blockquote>${markdownToHtml(quoted.join('\n'))}</blockquote>`);
+    } else if (listItem && paragraph.length === 0) {
+      const ordered = listItem[1] !== undefined;
+      const items: string[] = [];
+      while (index < lines.length) {
+        const item = lines[index].match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/);
+        if (item) {
+          items.push(item[1]);
+        } else if (lines[index].trim() && /^\s+/.test(lines[index]) && items.length > 0) {
+          items[items.length - 1] += ` ${lines[index].trim()}`;
+        } else {
+          break;
+        }
+        index++;
+      }
+      index--;
+      const tag = ordered ? 'ol' : 'ul';
+      html.push(`<${tag}>${items.map(item => `<li>${markdownInlineToHtml(item)}</li>`).join('')}</${tag}>`);
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return html.join('');
+}
+
+interface MarkdownChapter {
+  title: string | null;
+  synopsis: string | null;
+  body: string;
+}
+
+// A file becomes one chapter, unless it holds a whole book with several top-level headings
+function splitMarkdownFile(body: string, metadata: Record<string, string>): MarkdownChapter[] {
+  const headings = Array.from(body.matchAll(/^#[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/gm));
+  const synopsis = metadata.synopsis || metadata.summary || null;
+  if (headings.length <= 1) {
+    const heading = headings[0];
+    const leading = heading && !body.slice(0, heading.index).trim();
+    return [{
+      title: metadata.title || (leading ? heading[1] : null),
+      synopsis,
+      body: leading ? body.slice(heading.index! + heading[0].length) : body,
+    }];
+  }
+
+  const chapters: MarkdownChapter[] = [];
+  const preamble = body.slice(0, headings[0].index).trim();
+  if (preamble) chapters.push({ title: null, synopsis: null, body: preamble });
+  headings.forEach((heading, index) => {
+    const end = index + 1 < headings.length ? headings[index + 1].index : body.length;
+    chapters.push({ title: heading[1], synopsis: null, body: body.slice(heading.index! + heading[0].length, end) });
+  });
+  return chapters;
+}
+
+function parseMarkdownFiles(files: ImportFile[], fallbackTitle: string): ManuscriptImportPreview {
+  const metadataFile = files.find(file => /(^|\/)metadata\.ya?ml$/i.test(file.path));
+  const bookMetadata = metadataFile ? parseSimpleYaml(readText(metadataFile)) : {};
+  const sources = files
+    .filter(file => MARKDOWN_EXTENSIONS.test(file.path) && !/(^|\/)readme\.[^/]+$/i.test(file.path))
+    .sort((a, b) => naturalCompare(a.path, b.path));
+  if (sources.length === 0) {
+    throw new Error('No Markdown or text files were found');
+  }
+
+  let title = bookMetadata.title || '';
+  const chapters: ImportedChapter[] = [];
+  const characters: ImportedCharacter[] = [];
+  const warnings: string[] = [];
+  let bodyChapterCount = 0;
+
+  for (const file of sources) {
+    const { metadata, body } = parseFrontMatter(readText(file));
+
+    if (file.path.split('/').slice(0, -1).some(folder => /^characters?$/i.test(folder))) {
+      const [sheet] = splitMarkdownFile(body, {});
+      const text = htmlToPlainText(markdownToHtml(sheet.body));
+      characters.push(characterFromSheet(
+        metadata.name || metadata.title || sheet.title || titleFromFilename(file.path),
+        text,
+        metadata.description,
+        metadata.role
+      ));
+      continue;
+    }
+
+    const parts = splitMarkdownFile(body, metadata);
+    // A single-file book carries the book title in its front matter rather than a chapter title
+    if (parts.length > 1 && metadata.title) title = title || metadata.title;
+
+    for (const part of parts) {
+      const content = markdownToHtml(part.body);
+      const text = htmlToPlainText(content);
+
+      // Text ahead of the first heading of a single-file book, like the DOCX title and copyright pages
+      if (part.title === null && parts.length > 1) {
+        if (!text.trim()) continue;
+        const isCopyright = COPYRIGHT_MARKERS.test(text);
+        chapters.push({
+          title: isCopyright ? 'Copyright' : 'Opening Pages',
+          content,
+          section: 'front_matter',
+          chapterType: isCopyright ? 'copyright' : 'preface',
+          wordCount: countWords(content),
+        });
+        if (!isCopyright) {
+          warnings.push('Text before the first chapter was imported as "Opening Pages". Check whether it should be kept.');
+        }
+        continue;
+      }
+
+      const chapterTitle = part.title !== null
+        ? cleanChapterTitle(htmlToPlainText(markdownInlineToHtml(part.title))) || `Chapter ${bodyChapterCount + 1}`
+        : titleFromFilename(file.path);
+      const { section, chapterType } = chapterPlacement(chapterTitle, bodyChapterCount > 0);
+      if (section === 'body') bodyChapterCount++;
+      chapters.push({ title: chapterTitle, content, section, chapterType, synopsis: part.synopsis, wordCount: countWords(content) });
+    }
+  }
+
+  if (chapters.length === 0) {
+    throw new Error('The Markdown files contain no chapters');
+  }
+
+  return {
+    title: title || fallbackTitle,
+    sourceFormat: 'markdown',
+    detection: sources.length > 1 ? 'structure' : 'headings',
+    chapters,
+    characters,
+    warnings,
+  };
+}
+
+// --- EPUB ---
+
+const EPUB_SKIPPED_TYPES = /\b(cover|titlepage|halftitlepage|toc|landmarks|loi|lot)\b/;
+
+const EPUB_MATTER_TYPES: Array<{ pattern: RegExp; section: ChapterSection; chapterType: ChapterType; title: string }> = [
+  { pattern: /\bcopyright-page\b/, section: 'front_matter', chapterType: 'copyright', title: 'Copyright' },
+  { pattern: /\bdedication\b/, section: 'front_matter', chapterType: 'dedication', title: 'Dedication' },
+  { pattern: /\bepigraph\b/, section: 'front_matter', chapterType: 'epigraph', title: 'Epigraph' },
+  { pattern: /\b(preface|foreword|introduction|preamble)\b/, section: 'front_matter', chapterType: 'preface', title: 'Preface' },
+  { pattern: /\backnowledge?ments\b/, section: 'back_matter', chapterType: 'appendix', title: 'Acknowledgments' },
+  { pattern: /\b(appendix|afterword|glossary)\b/, section: 'back_matter', chapterType: 'appendix', title: 'Appendix' },
+  { pattern: /\b(bibliography|endnotes|rearnotes)\b/, section: 'back_matter', chapterType: 'bibliography', title: 'Notes' },
+  { pattern: /\bcontributors\b/, section: 'back_matter', chapterType: 'about_author', title: 'About the Author' },
+];
+
+function resolveHref(base: string, href: string): string {
+  const parts = (base + decodeURIComponent(href.split('#')[0])).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+}
+
+function stripTags(html: string): string {
+  return decodeXml(html.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+// Keep only the formatting the editor understands
+function sanitizeXhtml(xhtml: string): string {
+  const hasParagraphs = /<p\b/i.test(xhtml);
+  const html = xhtml
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|nav|aside|figure|svg|table|sup)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<hr\b[^>]*>/gi, SCENE_BREAK_HTML)
+    .replace(/<(\/?)([a-zA-Z][\w:-]*)[^>]*?>/g, (tag, closing: string, rawName: string) => {
+      const name = rawName.toLowerCase();
+      const mapped = ({ b: 'strong', i: 'em', cite: 'em', del: 's', strike: 's', h1: 'h2' } as Record<string, string>)[name]
+        || (name === 'div' && !hasParagraphs ? 'p' : name);
+      if (mapped === 'br') return '<br>';
+      if (/^(p|em|strong|u|s|h[2-6]|blockquote|ul|ol|li)$/.test(mapped)) return `<${closing}${mapped}>`;
+      return '';
+    });
+
+  return html
+    .replace(/\s+/g, ' ')
+    .replace(/\s*(<\/?(?:p|h[2-6]|blockquote|ul|ol|li)>)\s*/g, '$1')
+    .replace(/<(p|em|strong|u|s|h[2-6]|li)>(\s|<br>)*<\/\1>/g, '')
+    .trim();
+}
+
+async function parseEpub(buffer: Buffer, filename: string): Promise<ManuscriptImportPreview> {
+  const files = new Map((await unzipFiles(buffer, '.epub book')).map(file => [file.path, file]));
+  const read = (path: string) => {
+    const file = files.get(path);
+    return file ? readText(file) : null;
+  };
+
+  const container = read('META-INF/container.xml');
+  const opfPath = container?.match(/<rootfile\b[^>]*full-path="([^"]+)"/)?.[1];
+  const opf = opfPath && read(opfPath);
+  if (!opfPath || !opf) {
+    throw new Error('The file is not a valid .epub book');
+  }
+  const opfBase = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : '';
+
+  const manifest = new Map<string, { path: string; properties: string; mediaType: string }>();
+  for (const match of Array.from(opf.matchAll(/<item\b([^>]*?)\/?>/g))) {
+    const attributes = match[1];
+    const id = attributes.match(/\bid="([^"]*)"/)?.[1];
+    const href = attributes.match(/\bhref="([^"]*)"/)?.[1];
+    if (!id || !href) continue;
+    manifest.set(id, {
+      path: resolveHref(opfBase, decodeXml(href)),
+      properties: attributes.match(/\bproperties="([^"]*)"/)?.[1] || '',
+      mediaType: attributes.match(/\bmedia-type="([^"]*)"/)?.[1] || '',
+    });
+  }
+
+  // Chapter names come from the table of contents: the EPUB 3 nav document, or the EPUB 2 NCX
+  const tocTitles = new Map<string, string>();
+  const nav = Array.from(manifest.values()).find(item => /\bnav\b/.test(item.properties));
+  const navXhtml = nav && read(nav.path);
+  const tocNav = navXhtml?.match(/<nav\b[^>]*epub:type="[^"]*\btoc\b[^"]*"[^>]*>([\s\S]*?)<\/nav>/)?.[1];
+  if (nav && tocNav) {
+    const navBase = nav.path.slice(0, nav.path.lastIndexOf('/') + 1);
+    for (const match of Array.from(tocNav.matchAll(/<a\b[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/g))) {
+      const path = resolveHref(navBase, decodeXml(match[1]));
+      if (!tocTitles.has(path)) tocTitles.set(path, stripTags(match[2]));
+    }
+  } else {
+    const ncx = Array.from(manifest.values()).find(item => item.mediaType === 'application/x-dtbncx+xml');
+    const ncxXml = ncx && read(ncx.path);
+    if (ncx && ncxXml) {
+      const ncxBase = ncx.path.slice(0, ncx.path.lastIndexOf('/') + 1);
+      for (const match of Array.from(ncxXml.matchAll(/<navLabel>\s*<text>([\s\S]*?)<\/text>[\s\S]*?<content\b[^>]*src="([^"]*)"/g))) {
+        const path = resolveHref(ncxBase, decodeXml(match[2]));
+        if (!tocTitles.has(path)) tocTitles.set(path, stripTags(match[1]));
+      }
+    }
+  }
+
+  const chapters: ImportedChapter[] = [];
+  const warnings: string[] = [];
+  let bodyChapterCount = 0;
+  let hasImages = false;
+
+  for (const match of Array.from(opf.matchAll(/<itemref\b([^>]*?)\/?>/g))) {
+    const idref = match[1].match(/\bidref="([^"]*)"/)?.[1];
+    const item = idref ? manifest.get(idref) : undefined;
+    if (!item || /\blinear="no"/.test(match[1]) || item === nav) continue;
+    const xhtml = read(item.path);
+    if (!xhtml) continue;
+
+    const bodyMatch = xhtml.match(/<body\b([^>]*)>([\s\S]*)<\/body>/);
+    let body = bodyMatch?.[2] || '';
+    const types = [bodyMatch?.[1] || '', ...Array.from(body.matchAll(/<section\b([^>]*)>/g)).slice(0, 1).map(section => section[1])]
+      .map(attributes => attributes.match(/epub:type="([^"]*)"/)?.[1] || '')
+      .join(' ');
+    if (EPUB_SKIPPED_TYPES.test(types)) continue;
+    hasImages = hasImages || /<(img|image)\b/.test(body);
+
+    // The chapter's own heading becomes its title rather than part of its text
+    const heading = body.match(/<h([1-3])\b[^>]*>([\s\S]*?)<\/h\1>/);
+    if (heading && !stripTags(body.slice(0, heading.index)).trim()) {
+      body = body.slice(0, heading.index) + body.slice(heading.index! + heading[0].length);
+    }
+    const content = sanitizeXhtml(body);
+    if (!htmlToPlainText(content).trim()) continue;
+
+    const matter = EPUB_MATTER_TYPES.find(entry => entry.pattern.test(types));
+    const rawTitle = tocTitles.get(item.path) || (heading && stripTags(heading[2])) || matter?.title || `Chapter ${bodyChapterCount + 1}`;
+    const title = cleanChapterTitle(rawTitle) || rawTitle;
+    // A recognisable title is more specific than the generic epub:type some tools write for all back matter
+    const { section, chapterType } = (!classifyMatter(title) && matter) || chapterPlacement(title, bodyChapterCount > 0);
+    if (section === 'body') bodyChapterCount++;
+    chapters.push({ title, content, section, chapterType, wordCount: countWords(content) });
+  }
+
+  if (chapters.length === 0) {
+    throw new Error('No readable chapters were found in the EPUB');
+  }
+  if (hasImages) {
+    warnings.push('Images in the book were not imported.');
+  }
+
+  const bookTitle = opf.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/)?.[1];
+  return {
+    title: (bookTitle && stripTags(bookTitle)) || filename.replace(/\.[^.]+$/, ''),
+    sourceFormat: 'epub',
+    detection: 'structure',
+    chapters,
+    characters: [],
+    warnings,
+  };
+}
+
+// Work out what was uploaded: a single file, a zipped project, or the files of a folder
+export async function parseManuscriptUpload(files: ImportFile[]): Promise<ManuscriptImportPreview> {
+  if (files.length === 1) {
+    const [file] = files;
+    const name = baseName(file.path);
+    if (/\.docx$/i.test(name)) return parseDocxManuscript(file.data, name);
+    if (/\.epub$/i.test(name)) return parseEpub(file.data, name);
+    if (/\.zip$/i.test(name)) return parseFileSet(await unzipFiles(file.data, '.zip archive'), name.replace(/\.zip$/i, ''));
+    if (MARKDOWN_EXTENSIONS.test(name)) return parseMarkdownFiles(files, name.replace(/\.[^.]+$/, ''));
+    if (/\.scrivx$/i.test(name)) {
+      throw new Error('Upload the whole .scriv folder (or a zip of it), not just the .scrivx file');
+    }
+    throw new Error('Unsupported file type. Upload a .docx, .epub, .md or .zip file, or a Scrivener or Markdown folder.');
+  }
+
+  const folder = files[0].path.includes('/') ? files[0].path.split('/')[0] : 'Imported Manuscript';
+  return parseFileSet(files, folder);
+}
+
+async function parseFileSet(files: ImportFile[], name: string): Promise<ManuscriptImportPreview> {
+  const fallbackTitle = name.replace(/\.scriv$/i, '');
+  const scrivx = files.find(file => /\.scrivx$/i.test(file.path));
+  if (scrivx) return parseScrivenerProject(files, scrivx.path);
+  if (files.some(file => MARKDOWN_EXTENSIONS.test(file.path))) return parseMarkdownFiles(files, fallbackTitle);
+
+  const documents = files.filter(file => /\.(docx|epub)$/i.test(file.path));
+  if (documents.length === 1) return parseManuscriptUpload(documents);
+  throw new Error('No Scrivener project, Markdown files or manuscript document was found in the upload');
+}
+
+// Create a project from a previewed import; chapters are numbered in order within each section
+export async function createProjectFromImport(manuscript: ManuscriptImport, userId: string): Promise<Project> {
+  const project = await storage.createProject({
+    title: manuscript.title,
+    description: manuscript.description || null,
+    userId,
+  });
+
+  const nextOrder: Record<string, number> = {};
+  for (const chapter of manuscript.chapters) {
+    nextOrder[chapter.section] = (nextOrder[chapter.section] || 0) + 1;
+    await storage.createChapter({
+      projectId: project.id,
+      title: chapter.title,
+      content: chapter.content,
+      section: chapter.section,
+      chapterType: chapter.chapterType,
+      synopsis: chapter.synopsis || null,
+      order: nextOrder[chapter.section],
+    });
+  }
+
+  for (const character of manuscript.characters) {
+    await storage.createCharacter({ ...character, projectId: project.id });
+  }
+
+  return (await storage.getProject(project.id)) || project;
+}
@@ -1,4 +1,6 @@
-import { generateChapterAudio, type OpenAITTSOptions } from './openai-tts';
+import { generateChapterAudio, generateCastChapterAudio, type OpenAITTSOptions } from './openai-tts';
+import { castDialogue, type CastMember } from './dialogue-casting';
+import { CHAPTER_HEADING_BREAK } from './pronunciation';
 import path from 'path';
 import fs from 'fs/promises';
 
@@ -11,9 +13,10 @@ export interface AudiobookProgress {
 
 export async function generateFullAudiobook(
   projectId: string,
-  chapters: Array<{ id: string; title: string; content: string }>,
+  chapters: Array<{ id: string; title: string; content: string; povCharacter?: string | null }>,
   options: OpenAITTSOptions,
-  onProgress?: (progress: AudiobookProgress) => void
+  onProgress?: (progress: AudiobookProgress) => void,
+  cast?: CastMember[] // When given, character dialogue is read in each character's voice
 ): Promise<{ success: boolean; filePaths?: string[]; totalDuration?: number; error?: string }> {
   const chapterFiles: string[] = [];
   let totalDuration = 0;
@@ -52,15 +55,17 @@ export async function generateFullAudiobook(
         continue;
       }
 
-      // Prepend chapter title to content for more polished audiobook experience
-      const contentWithTitle = `${chapter.title}. ${chapter.content}`;
+      // Prepend chapter title to content for more polished audiobook experience, with a pause after the heading
+      const contentWithTitle = `${chapter.title}. ${CHAPTER_HEADING_BREAK} ${chapter.content}`;
 
       // Generate audio for this chapter using OpenAI TTS
-      const result = await generateChapterAudio(
-        contentWithTitle,
-        options,
-        chapterPath
-      );
+      const result = cast
+        ? await generateCastChapterAudio(castDialogue(contentWithTitle, cast, chapter.povCharacter), options, chapterPath)
+        : await generateChapterAudio(
+            contentWithTitle,
+            options,
+            chapterPath
+          );
 
       if (result.success && result.filePath) {
         chapterFiles.push(result.filePath);
@@ -0,0 +1,97 @@
+import OpenAI from "openai";
+import { estimateUsage, type LLMCompletion, type LLMProvider, type LLMRequest, type LLMTokenUsage, type StreamHandlers } from "./llm-provider";
+
+// OpenAI itself, and any server that speaks its chat completions API (llama.cpp's llama-server, Ollama, vLLM,
+// LM Studio) as the "local" provider.
+
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
+});
+
+// Ollama's default; llama-server listens on http://localhost:8080/v1
+const LOCAL_LLM_BASE_URL = process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1";
+
+const localClient = new OpenAI({
+  baseURL: LOCAL_LLM_BASE_URL,
+  apiKey: process.env.LOCAL_LLM_API_KEY || "local", // Most local servers ignore it, but the client requires one
+});
+
+// US dollars per million input and output tokens
+const OPENAI_PRICING: Record<string, [number, number]> = {
+  'gpt-4o': [2.5, 10],
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4.1': [2, 8],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1-nano': [0.1, 0.4],
+};
+
+function openaiRequest(model: string, request: LLMRequest) {
+  return {
+    model,
+    messages: [
+      { role: "system" as const, content: request.system },
+      { role: "user" as const, content: request.prompt },
+    ],
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+  };
+}
+
+function reportedUsage(usage: OpenAI.CompletionUsage | null | undefined, request: LLMRequest, text: string): LLMTokenUsage {
+  return usage
+    ? { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens }
+    : estimateUsage(request, text);
+}
+
+async function complete(client: OpenAI, model: string, request: LLMRequest): Promise<LLMCompletion> {
+  const response = await client.chat.completions.create(openaiRequest(model, request));
+  const text = response.choices[0]?.message?.content || '';
+  return { text, usage: reportedUsage(response.usage, request, text) };
+}
+
+async function stream(client: OpenAI, model: string, request: LLMRequest, handlers: StreamHandlers): Promise<LLMCompletion> {
+  const chunks = await client.chat.completions.create({
+    ...openaiRequest(model, request),
+    stream: true,
+    stream_options: { include_usage: true }, // Usage arrives on a final chunk with no choices
+  }, { signal: handlers.signal });
+
+  let text = '';
+  let usage: OpenAI.CompletionUsage | null | undefined;
+  for await (const chunk of chunks) {
+    const delta = chunk.choices[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      handlers.onDelta(delta);
+    }
+    if (chunk.usage) usage = chunk.usage;
+  }
+  return { text, usage: reportedUsage(usage, request, text) };
+}
+
+export const openaiLLMProvider: LLMProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  description: 'GPT models through the OpenAI API',
+  // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+  defaultModel: () => process.env.OPENAI_MODEL || 'gpt-4o',
+  isAvailable: () => !!(process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR),
+  complete: (model, request) => complete(openai, model, request),
+  stream: (model, request, handlers) => stream(openai, model, request, handlers),
+  estimateCost: (model, usage) => {
+    const [input, output] = OPENAI_PRICING[model] || OPENAI_PRICING['gpt-4o'];
+    return (usage.inputTokens * input + usage.outputTokens * output) / 1_000_000;
+  },
+};
+
+export const localLLMProvider: LLMProvider = {
+  id: 'local',
+  name: 'Local model',
+  description: 'An OpenAI-compatible endpoint such as llama.cpp or Ollama, set with LOCAL_LLM_BASE_URL',
+  defaultModel: () => process.env.LOCAL_LLM_MODEL || 'llama3.1',
+  isAvailable: () => !!process.env.LOCAL_LLM_BASE_URL,
+  complete: (model, request) => complete(localClient, model, request),
+  stream: (model, request, handlers) => stream(localClient, model, request, handlers),
+  estimateCost: () => 0,
+};
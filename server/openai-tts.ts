@@ -1,6 +1,10 @@
 import OpenAI from 'openai';
 import { writeFile } from 'fs/promises';
 import path from 'path';
+import type { SpeechSegment } from './dialogue-casting';
+import { applyPronunciationText, type PronunciationRule } from './pronunciation';
+import { estimateSpeechDuration, prepareText, splitTextForTTS } from './tts-text';
+import { planCastChunks, synthesizeChunks, type SpeechChunk, type TTSProvider, type TTSSynthesisOptions } from './tts-provider';
 
 // Initialize OpenAI client
 const openai = new OpenAI({
@@ -12,6 +16,7 @@ export interface OpenAITTSOptions {
   speed?: number; // 0.25 to 4.0, default 1.0
   quality: 'standard' | 'hd';
   model: 'tts-1' | 'tts-1-hd';
+  pronunciations?: PronunciationRule[]; // Project dictionary, applied as respelling
 }
 
 export interface VoiceOption {
@@ -141,47 +146,46 @@ export const PRICING_TIERS = {
   premium: { cost: 30, name: 'Premium ($19/month)', description: 'HD quality voices' }
 };
 
-function splitTextForTTS(text: string, maxChars: number = 4000): string[] {
-  if (text.length <= maxChars) {
-    return [text];
+// OpenAI TTS has no SSML, so pronunciations are respelled and pauses become paragraph breaks
+function planChunks(text: string, voice: string, pronunciations?: PronunciationRule[]): SpeechChunk[] {
+  const spokenText = applyPronunciationText(prepareText(text), pronunciations);
+  if (spokenText.length === 0) {
+    return [];
   }
+  return splitTextForTTS(spokenText, 4000).map(chunk => ({ text: chunk, voice }));
+}
 
-  const chunks: string[] = [];
-  let currentPos = 0;
-
-  while (currentPos < text.length) {
-    let chunkEnd = currentPos + maxChars;
-    
-    if (chunkEnd >= text.length) {
-      chunks.push(text.slice(currentPos));
-      break;
-    }
-
-    // Find the last sentence end within the chunk
-    const chunk = text.slice(currentPos, chunkEnd);
-    const lastSentence = Math.max(
-      chunk.lastIndexOf('.'),
-      chunk.lastIndexOf('!'),
-      chunk.lastIndexOf('?')
-    );
-
-    if (lastSentence > maxChars * 0.5) {
-      chunkEnd = currentPos + lastSentence + 1;
-    } else {
-      // Fall back to word boundary
-      const lastSpace = chunk.lastIndexOf(' ');
-      if (lastSpace > maxChars * 0.5) {
-        chunkEnd = currentPos + lastSpace;
-      }
-    }
+async function synthesize(chunk: SpeechChunk, options: TTSSynthesisOptions = {}): Promise<Buffer> {
+  // Map HD voices to base voices for OpenAI API
+  const baseVoice = chunk.voice.replace('-hd', '') as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer' | 'ash' | 'ballad' | 'coral' | 'sage';
+  const model = chunk.voice.includes('-hd') ? 'tts-1-hd' : 'tts-1';
 
-    chunks.push(text.slice(currentPos, chunkEnd));
-    currentPos = chunkEnd;
-  }
+  const mp3Response = await openai.audio.speech.create({
+    model,
+    voice: baseVoice,
+    input: chunk.text,
+    speed: options.speed || 1.0,
+    response_format: 'mp3'
+  });
 
-  return chunks;
+  return Buffer.from(await mp3Response.arrayBuffer());
 }
 
+export const openaiTTSProvider: TTSProvider = {
+  id: 'openai',
+  name: 'OpenAI TTS',
+  description: 'Natural studio voices, billed per character',
+  voices: () => OPENAI_VOICE_OPTIONS,
+  isAvailable: () => !!process.env.OPENAI_API_KEY,
+  planChunks,
+  synthesize,
+  // Billed by model: HD voices cost twice the standard rate
+  estimateCost: (characters, voice) => {
+    const quality = OPENAI_VOICE_OPTIONS.find(v => v.id === voice)?.quality || 'standard';
+    return (characters / 1000000) * PRICING_TIERS[quality === 'hd' ? 'premium' : 'basic'].cost;
+  },
+};
+
 export async function generateChapterAudio(
   text: string,
   options: OpenAITTSOptions,
@@ -196,54 +200,19 @@ export async function generateChapterAudio(
       };
     }
 
-    // Clean and prepare text for TTS
-    const cleanText = text
-      .replace(/[\*\#\>\<\[\]]/g, '') // Remove markdown characters
-      .replace(/\n\s*\n/g, '\n\n') // Clean up multiple newlines
-      .trim();
-
-    if (cleanText.length === 0) {
+    const chunks = planChunks(text, options.voice, options.pronunciations);
+    if (chunks.length === 0) {
       return { success: false, error: "No content to convert" };
     }
 
-    // Split long text into chunks for processing
-    const chunks = splitTextForTTS(cleanText, 4000);
-    const audioBuffers: Buffer[] = [];
-
-    console.log(`🔄 Generating audio for ${chunks.length} chunks with OpenAI TTS...`);
-    console.log(`📊 Original text: ${text.length} chars, Clean text: ${cleanText.length} chars`);
-    chunks.forEach((chunk, i) => {
-      console.log(`📝 Chunk ${i + 1}: ${chunk.length} chars - "${chunk.substring(0, 50)}..."`);
-    });
-
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      console.log(`Processing chunk ${i + 1}/${chunks.length} (${chunk.length} chars)`);
-
-      // Map HD voices to base voices for OpenAI API
-      const baseVoice = options.voice.replace('-hd', '') as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer' | 'ash' | 'ballad' | 'coral' | 'sage';
-      const model = options.quality === 'hd' || options.voice.includes('-hd') ? 'tts-1-hd' : 'tts-1';
-
-      const mp3Response = await openai.audio.speech.create({
-        model,
-        voice: baseVoice,
-        input: chunk,
-        speed: options.speed || 1.0,
-        response_format: 'mp3'
-      });
-
-      const buffer = Buffer.from(await mp3Response.arrayBuffer());
-      audioBuffers.push(buffer);
-    }
-
-    // Combine audio buffers (simple concatenation for MP3)
-    const finalBuffer = Buffer.concat(audioBuffers);
+    const spokenCharacters = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+    console.log(`📊 Original text: ${text.length} chars, Spoken text: ${spokenCharacters} chars`);
+    const finalBuffer = await synthesizeChunks(openaiTTSProvider, chunks, options);
     
     // Write to file
     await writeFile(outputPath, finalBuffer);
 
-    // Estimate duration (rough calculation: ~150 words per minute, ~5 chars per word)
-    const estimatedDuration = Math.round((cleanText.length / 5) / 150 * 60);
+    const estimatedDuration = estimateSpeechDuration(spokenCharacters);
 
     console.log(`OpenAI TTS audio generated successfully: ${outputPath} (${estimatedDuration}s estimated)`);
 
@@ -262,44 +231,41 @@ export async function generateChapterAudio(
   }
 }
 
-// Preview function for voice samples
-export async function generateVoicePreview(
-  voiceId: string, 
-  sampleText: string
-): Promise<{ success: boolean; audioUrl?: string; error?: string }> {
+// Multi-voice chapter: narration in the chapter voice, each character's dialogue in their cast voice
+export async function generateCastChapterAudio(
+  segments: SpeechSegment[],
+  options: OpenAITTSOptions,
+  outputPath: string
+): Promise<{ success: boolean; filePath?: string; duration?: number; error?: string }> {
   try {
     if (!process.env.OPENAI_API_KEY) {
       return { 
         success: false, 
-        error: "OpenAI API key not available" 
+        error: "OpenAI API key not available. Please check your API key configuration." 
       };
     }
 
-    // Map HD voices to base voices for OpenAI API
-    const baseVoice = voiceId.replace('-hd', '') as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer' | 'ash' | 'ballad' | 'coral' | 'sage';
-    const model = voiceId.includes('-hd') ? 'tts-1-hd' : 'tts-1';
+    const chunks = planCastChunks(openaiTTSProvider, segments, options.voice, options.pronunciations);
+    if (chunks.length === 0) {
+      return { success: false, error: "No content to convert" };
+    }
 
-    const mp3Response = await openai.audio.speech.create({
-      model,
-      voice: baseVoice,
-      input: sampleText,
-      speed: 1.0,
-      response_format: 'mp3'
-    });
+    await writeFile(outputPath, await synthesizeChunks(openaiTTSProvider, chunks, options));
 
-    const buffer = Buffer.from(await mp3Response.arrayBuffer());
-    const audioUrl = `data:audio/mp3;base64,${buffer.toString('base64')}`;
+    const estimatedDuration = estimateSpeechDuration(chunks.reduce((sum, chunk) => sum + chunk.text.length, 0));
+    console.log(`OpenAI TTS multi-voice audio generated successfully: ${outputPath} (${segments.length} segments, ${estimatedDuration}s estimated)`);
 
     return {
       success: true,
-      audioUrl
+      filePath: outputPath,
+      duration: estimatedDuration
     };
 
   } catch (error) {
-    console.error('Error generating voice preview:', error);
+    console.error('Error generating OpenAI TTS multi-voice audio:', error);
     return {
       success: false,
-      error: (error as Error).message || 'Failed to generate preview'
+      error: (error as Error).message || 'Failed to generate audio'
     };
   }
-}
\ No newline at end of file
+}
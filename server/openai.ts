@@ -1,9 +1,4 @@
-import OpenAI from "openai";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || "default_key"
-});
+import { completeText, streamText, type LLMUsageContext, type StreamHandlers } from "./llm-provider";
 
 export interface WritingSuggestion {
   type: string;
@@ -16,26 +11,14 @@ export interface AIQueryResponse {
   suggestions?: WritingSuggestion[];
 }
 
-export interface TTSOptions {
-  voice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer';
-  model: 'tts-1' | 'tts-1-hd';
-  speed?: number; // 0.25 to 4.0, default 1.0
-}
-
-export interface AudiobookProgress {
-  chapterIndex: number;
-  totalChapters: number;
-  chapterTitle: string;
-  progress: number; // 0 to 100
-}
-
 export async function generateWritingSuggestions(
   context: {
     projectTitle: string;
     chapterTitle: string;
     currentContent: string;
     characters?: string[];
-  }
+  },
+  usage?: LLMUsageContext
 ): Promise<WritingSuggestion[]> {
   try {
     const prompt = `
@@ -60,23 +43,14 @@ Respond with a JSON object containing an array of suggestions, each with:
 Format: { "suggestions": [{"type": "plot", "title": "...", "content": "..."}] }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert writing coach specializing in fiction. Provide actionable, specific suggestions that help writers improve their craft."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const reply = await completeText('writing_suggestions', {
+      system: "You are an expert writing coach specializing in fiction. Provide actionable, specific suggestions that help writers improve their craft.",
+      prompt,
+      json: true,
       temperature: 0.7,
-    });
+    }, usage);
 
-    const result = JSON.parse(response.choices[0].message.content || '{"suggestions": []}');
+    const result = JSON.parse(reply || '{"suggestions": []}');
     return result.suggestions || [];
 
   } catch (error) {
@@ -108,7 +82,8 @@ export async function generatePlotIdeas(
     projectTitle: string;
     genre?: string;
     currentPlot?: string;
-  }
+  },
+  usage?: LLMUsageContext
 ): Promise<WritingSuggestion[]> {
   try {
     const prompt = `
@@ -124,23 +99,14 @@ Focus on:
 Respond with JSON: { "suggestions": [{"type": "plot", "title": "...", "content": "..."}] }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are a creative writing expert specializing in plot development and storytelling."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const reply = await completeText('plot_ideas', {
+      system: "You are a creative writing expert specializing in plot development and storytelling.",
+      prompt,
+      json: true,
       temperature: 0.8,
-    });
+    }, usage);
 
-    const result = JSON.parse(response.choices[0].message.content || '{"suggestions": []}');
+    const result = JSON.parse(reply || '{"suggestions": []}');
     return result.suggestions || [];
 
   } catch (error) {
@@ -172,7 +138,8 @@ export async function generateCharacterTraits(
     characterName: string;
     role: string;
     projectContext?: string;
-  }
+  },
+  usage?: LLMUsageContext
 ): Promise<WritingSuggestion[]> {
   try {
     const prompt = `
@@ -187,23 +154,14 @@ Generate 3 suggestions covering:
 Respond with JSON: { "suggestions": [{"type": "character", "title": "...", "content": "..."}] }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are a character development expert who creates compelling, three-dimensional characters."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const reply = await completeText('character_traits', {
+      system: "You are a character development expert who creates compelling, three-dimensional characters.",
+      prompt,
+      json: true,
       temperature: 0.7,
-    });
+    }, usage);
 
-    const result = JSON.parse(response.choices[0].message.content || '{"suggestions": []}');
+    const result = JSON.parse(reply || '{"suggestions": []}');
     return result.suggestions || [];
 
   } catch (error) {
@@ -238,7 +196,8 @@ export async function generateStoryProgressionSuggestions(
     characters: Array<{name: string, role?: string, traits?: string}>;
     setting?: string;
     timeEra?: string;
-  }
+  },
+  usage?: LLMUsageContext
 ): Promise<WritingSuggestion[]> {
   try {
     const charactersContext = context.characters.length > 0 
@@ -269,23 +228,14 @@ Each suggestion should be specific, creative, and build naturally from the curre
 Respond with JSON: { "suggestions": [{"type": "progression", "title": "...", "content": "..."}] }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert creative writing coach specializing in story development, character arcs, and historical fiction. Focus on authentic, engaging progressions that maintain narrative momentum."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const reply = await completeText('story_progression', {
+      system: "You are an expert creative writing coach specializing in story development, character arcs, and historical fiction. Focus on authentic, engaging progressions that maintain narrative momentum.",
+      prompt,
+      json: true,
       temperature: 0.8,
-    });
+    }, usage);
 
-    const result = JSON.parse(response.choices[0].message.content || '{"suggestions": []}');
+    const result = JSON.parse(reply || '{"suggestions": []}');
     return result.suggestions || [];
 
   } catch (error) {
@@ -317,19 +267,21 @@ Respond with JSON: { "suggestions": [{"type": "progression", "title": "...", "co
   }
 }
 
-export async function answerWritingQuery(query: string, context?: string): Promise<AIQueryResponse> {
-  try {
-    // Limit context size to prevent token overflows  
-    let limitedContext = '';
-    if (context) {
-      const contextChunk = getAnalysisChunk(context, 15000); // Restored to larger size for normal chapters
-      limitedContext = contextChunk.length < context.length 
-        ? `Context (excerpt): ${contextChunk}`
-        : `Context: ${contextChunk}`;
-    }
+const WRITING_MENTOR_PROMPT = "You are a professional writing mentor. Provide clear, actionable advice to help writers improve their craft.";
+
+// Limit context size to prevent token overflows
+function writingQueryContext(context?: string): string {
+  if (!context) return '';
+  const contextChunk = getAnalysisChunk(context, 15000); // Restored to larger size for normal chapters
+  return contextChunk.length < context.length 
+    ? `Context (excerpt): ${contextChunk}`
+    : `Context: ${contextChunk}`;
+}
 
+export async function answerWritingQuery(query: string, context?: string, usage?: LLMUsageContext): Promise<AIQueryResponse> {
+  try {
     const prompt = `
-${limitedContext}
+${writingQueryContext(context)}
 
 Writer's question: "${query}"
 
@@ -338,23 +290,14 @@ Provide a helpful, specific answer that gives actionable advice. If relevant, in
 Respond with JSON: { "response": "...", "suggestions": [{"type": "...", "title": "...", "content": "..."}] }
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are a professional writing mentor. Provide clear, actionable advice to help writers improve their craft."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const reply = await completeText('writing_query', {
+      system: WRITING_MENTOR_PROMPT,
+      prompt,
+      json: true,
       temperature: 0.6,
-    });
+    }, usage);
 
-    const result = JSON.parse(response.choices[0].message.content || '{"response": "I\'m here to help with your writing!"}');
+    const result = JSON.parse(reply || '{"response": "I\'m here to help with your writing!"}');
     return {
       response: result.response,
       suggestions: result.suggestions || []
@@ -375,197 +318,15 @@ Respond with JSON: { "response": "...", "suggestions": [{"type": "...", "title":
   }
 }
 
-// TTS Functions for Audiobook Generation
-export async function generateChapterAudio(
-  text: string,
-  options: TTSOptions,
-  outputPath: string
-): Promise<{ success: boolean; filePath?: string; duration?: number; error?: string }> {
-  try {
-    // Clean and prepare text for TTS
-    const cleanText = text
-      .replace(/[\*\#\>\<\[\]]/g, '') // Remove markdown characters
-      .replace(/\n\s*\n/g, '\n\n') // Clean up multiple newlines
-      .trim();
-
-    if (cleanText.length === 0) {
-      return { success: false, error: "No content to convert" };
-    }
-
-    // Split long text into chunks if needed (OpenAI TTS has a 4096 character limit)
-    const chunks = splitTextForTTS(cleanText, 4000);
-    const audioBuffers: Buffer[] = [];
-
-    console.log(`Generating audio for ${chunks.length} chunks...`);
-
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      console.log(`Processing chunk ${i + 1}/${chunks.length} (${chunk.length} chars)`);
-
-      const mp3 = await openai.audio.speech.create({
-        model: options.model,
-        voice: options.voice,
-        input: chunk,
-        speed: options.speed || 1.0,
-        response_format: 'mp3'
-      });
-
-      const buffer = Buffer.from(await mp3.arrayBuffer());
-      audioBuffers.push(buffer);
-    }
-
-    // Combine audio buffers (simple concatenation for MP3)
-    const finalBuffer = Buffer.concat(audioBuffers);
-    
-    // Write to file
-    const fs = await import('fs/promises');
-    await fs.writeFile(outputPath, finalBuffer);
-
-    // Estimate duration (rough calculation: ~150 words per minute)
-    const wordCount = cleanText.split(/\s+/).length;
-    const estimatedDuration = Math.round((wordCount / 150) * 60); // in seconds
-
-    console.log(`Audio generated successfully: ${outputPath} (${estimatedDuration}s estimated)`);
-
-    return {
-      success: true,
-      filePath: outputPath,
-      duration: estimatedDuration
-    };
-
-  } catch (error) {
-    console.error('Error generating chapter audio:', error);
-    return {
-      success: false,
-      error: (error as Error).message || 'Failed to generate audio'
-    };
-  }
-}
-
-export async function generateFullAudiobook(
-  projectId: string,
-  chapters: Array<{ id: string; title: string; content: string }>,
-  options: TTSOptions,
-  onProgress?: (progress: AudiobookProgress) => void
-): Promise<{ success: boolean; filePaths?: string[]; totalDuration?: number; error?: string }> {
-  const chapterFiles: string[] = [];
-  let totalDuration = 0;
-
-  try {
-    for (let i = 0; i < chapters.length; i++) {
-      const chapter = chapters[i];
-      const chapterFileName = `chapter_${i + 1}_${chapter.id}.mp3`;
-      const chapterPath = `uploads/audiobooks/${projectId}/${chapterFileName}`;
-
-      // Create directory if it doesn't exist
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      await fs.mkdir(path.dirname(chapterPath), { recursive: true });
-
-      // Report progress
-      if (onProgress) {
-        onProgress({
-          chapterIndex: i,
-          totalChapters: chapters.length,
-          chapterTitle: chapter.title,
-          progress: Math.round((i / chapters.length) * 100)
-        });
-      }
-
-      console.log(`Generating audio for chapter ${i + 1}/${chapters.length}: ${chapter.title}`);
-
-      const result = await generateChapterAudio(chapter.content, options, chapterPath);
-
-      if (!result.success) {
-        throw new Error(`Failed to generate audio for chapter "${chapter.title}": ${result.error}`);
-      }
-
-      chapterFiles.push(chapterPath);
-      totalDuration += result.duration || 0;
-    }
-
-    // Final progress update
-    if (onProgress) {
-      onProgress({
-        chapterIndex: chapters.length - 1,
-        totalChapters: chapters.length,
-        chapterTitle: "Audiobook Complete",
-        progress: 100
-      });
-    }
-
-    return {
-      success: true,
-      filePaths: chapterFiles,
-      totalDuration
-    };
-
-  } catch (error) {
-    console.error('Error generating full audiobook:', error);
-    return {
-      success: false,
-      error: (error as Error).message || 'Failed to generate audiobook'
-    };
-  }
-}
-
-function splitTextForTTS(text: string, maxLength: number): string[] {
-  if (text.length <= maxLength) {
-    return [text];
-  }
+const LITERARY_EDITOR_PROMPT = "You are an expert literary editor with years of experience in fiction writing. Provide constructive, detailed feedback that helps writers improve their craft while maintaining their unique voice.";
+const PARTIAL_ANALYSIS_NOTE = "\n\n**Note:** This analysis covers the first portion of your chapter due to length constraints. The feedback should still be valuable for improving the overall work.";
 
-  const chunks: string[] = [];
-  let currentChunk = '';
-  
-  // Split by sentences first
-  const sentences = text.split(/(?<=[.!?])\s+/);
-  
-  for (const sentence of sentences) {
-    if (currentChunk.length + sentence.length + 1 <= maxLength) {
-      currentChunk += (currentChunk ? ' ' : '') + sentence;
-    } else {
-      if (currentChunk) {
-        chunks.push(currentChunk);
-        currentChunk = sentence;
-      } else {
-        // Sentence is too long, split by words
-        const words = sentence.split(' ');
-        for (const word of words) {
-          if (currentChunk.length + word.length + 1 <= maxLength) {
-            currentChunk += (currentChunk ? ' ' : '') + word;
-          } else {
-            if (currentChunk) {
-              chunks.push(currentChunk);
-              currentChunk = word;
-            } else {
-              chunks.push(word); // Even single word is too long
-            }
-          }
-        }
-      }
-    }
-  }
+function literaryAnalysisPrompt(context: { chapterTitle: string; content: string }): { prompt: string; isPartialAnalysis: boolean } {
+  // Get a chunk that fits within token limits  
+  const analysisChunk = getAnalysisChunk(context.content, 20000);
+  const isPartialAnalysis = analysisChunk.length < context.content.length;
   
-  if (currentChunk) {
-    chunks.push(currentChunk);
-  }
-  
-  return chunks;
-}
-
-export async function analyzeLiteraryContent(
-  context: {
-    chapterTitle: string;
-    content: string;
-    analysisType?: string;
-  }
-): Promise<string> {
-  try {
-    // Get a chunk that fits within token limits  
-    const analysisChunk = getAnalysisChunk(context.content, 20000);
-    const isPartialAnalysis = analysisChunk.length < context.content.length;
-    
-    const prompt = `
+  const prompt = `
 You are a professional literary editor and writing coach. Analyze the following chapter for literary quality and provide constructive feedback.
 
 Chapter Title: "${context.chapterTitle}"
@@ -583,27 +344,31 @@ ${isPartialAnalysis ? 'Note: This analysis is based on the first portion of the
 
 Provide a comprehensive analysis that would help the writer improve their craft.
 `;
+  return { prompt, isPartialAnalysis };
+}
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert literary editor with years of experience in fiction writing. Provide constructive, detailed feedback that helps writers improve their craft while maintaining their unique voice."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
+export async function analyzeLiteraryContent(
+  context: {
+    chapterTitle: string;
+    content: string;
+    analysisType?: string;
+  },
+  usage?: LLMUsageContext
+): Promise<string> {
+  try {
+    const { prompt, isPartialAnalysis } = literaryAnalysisPrompt(context);
+
+    const reply = await completeText('literary_analysis', {
+      system: LITERARY_EDITOR_PROMPT,
+      prompt,
       temperature: 0.6,
-    });
+    }, usage);
 
-    let analysis = response.choices[0].message.content || "I apologize, but I couldn't analyze the content at this time.";
+    let analysis = reply || "I apologize, but I couldn't analyze the content at this time.";
     
     // Add note about partial analysis if needed
     if (isPartialAnalysis) {
-      analysis += "\n\n**Note:** This analysis covers the first portion of your chapter due to length constraints. The feedback should still be valuable for improving the overall work.";
+      analysis += PARTIAL_ANALYSIS_NOTE;
     }
 
     return analysis;
@@ -655,7 +420,7 @@ function getAnalysisChunk(content: string, maxTokens: number = 20000): string {
   return chunk.substring(0, lastSpace > 0 ? lastSpace : maxChars);
 }
 
-export async function detectAIContent(content: string): Promise<{
+export async function detectAIContent(content: string, usage?: LLMUsageContext): Promise<{
   humanPercentage: number;
   aiPercentage: number;
   verdict: string;
@@ -691,23 +456,14 @@ Provide your analysis in this exact JSON format:
 Text to analyze: "${analysisChunk}"
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert in AI detection and text analysis. Provide accurate, detailed analysis of whether text was written by humans or AI."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const reply = await completeText('ai_detection', {
+      system: "You are an expert in AI detection and text analysis. Provide accurate, detailed analysis of whether text was written by humans or AI.",
+      prompt,
+      json: true,
       temperature: 0.3,
-    });
+    }, usage);
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(reply || '{}');
     
     // Adjust reasoning if partial analysis
     let reasoning = result.reasoning || "Analysis could not be completed at this time.";
@@ -745,7 +501,8 @@ export async function generateHistoricalResearch(
     setting: string;
     query: string;
     topic?: string;
-  }
+  },
+  usage?: LLMUsageContext
 ): Promise<string> {
   try {
     const topicContext = context.topic ? `Focus specifically on ${context.topic} aspects. ` : '';
@@ -768,22 +525,13 @@ Provide detailed, accurate historical information that would be useful for writi
 Be specific, accurate, and focus on details that would help create authentic scenes and dialogue. Cite the general historical context but prioritize practical writing details.
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert historian specializing in providing accurate, detailed research for historical fiction writers. Focus on specific, practical details that bring historical periods to life in writing."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
+    const reply = await completeText('historical_research', {
+      system: "You are an expert historian specializing in providing accurate, detailed research for historical fiction writers. Focus on specific, practical details that bring historical periods to life in writing.",
+      prompt,
       temperature: 0.3, // Lower temperature for more factual responses
-    });
+    }, usage);
 
-    return response.choices[0].message.content || "I apologize, but I couldn't generate historical research information at this time.";
+    return reply || "I apologize, but I couldn't generate historical research information at this time.";
 
   } catch (error) {
     console.error("Error generating historical research:", error);
@@ -806,32 +554,52 @@ For more specific details about "${context.query}", I recommend consulting histo
   }
 }
 
-// General OpenAI response function for agent finder and other features
-export async function generateOpenAIResponse(prompt: string): Promise<string> {
+// The streaming counterpart of answerWritingQuery. JSON can't be shown as it arrives, so this answers in
+// plain Markdown without the suggestions list.
+export async function streamWritingAnswer(
+  query: string,
+  context: string | undefined,
+  handlers: StreamHandlers,
+  usage?: LLMUsageContext
+): Promise<string> {
+  const prompt = `
+${writingQueryContext(context)}
+
+Writer's request: "${query}"
+
+Respond directly to the request. If the writer asks for story content, write it in full; otherwise give specific, actionable advice. Use Markdown for structure.
+`;
+  return await streamText('writing_query', { system: WRITING_MENTOR_PROMPT, prompt, temperature: 0.6 }, handlers, usage);
+}
+
+export async function streamLiteraryAnalysis(
+  context: { chapterTitle: string; content: string },
+  handlers: StreamHandlers,
+  usage?: LLMUsageContext
+): Promise<string> {
+  const { prompt, isPartialAnalysis } = literaryAnalysisPrompt(context);
+  let analysis = await streamText('literary_analysis', { system: LITERARY_EDITOR_PROMPT, prompt, temperature: 0.6 }, handlers, usage);
+  if (isPartialAnalysis) {
+    handlers.onDelta(PARTIAL_ANALYSIS_NOTE);
+    analysis += PARTIAL_ANALYSIS_NOTE;
+  }
+  return analysis;
+}
+
+// General JSON response function for agent finder and other features
+export async function generateOpenAIResponse(prompt: string, usage?: LLMUsageContext): Promise<string> {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        {
-          role: "system",
-          content: "You are a professional literary industry assistant with extensive knowledge of literary agents, editors, and the publishing industry. Always respond with valid JSON format as requested in the user prompt."
-        },
-        {
-          role: "user",
-          content: prompt
-        }
-      ],
-      response_format: { type: "json_object" },
+    const reply = await completeText('agent_finder', {
+      system: "You are a professional literary industry assistant with extensive knowledge of literary agents, editors, and the publishing industry. Always respond with valid JSON format as requested in the user prompt.",
+      prompt,
+      json: true,
       temperature: 0.7,
-      max_tokens: 2000,
-    });
+      maxTokens: 2000,
+    }, usage);
 
-    return response.choices[0]?.message?.content || "[]";
+    return reply || "[]";
   } catch (error) {
     console.error("OpenAI API Error:", error);
     throw new Error("Failed to generate AI response");
   }
 }
-
-// Export the openai instance for direct access
-export { openai };
@@ -0,0 +1,189 @@
+import fs from "fs";
+import path from "path";
+import JSZip from "jszip";
+import { storage } from "./storage";
+import { detectImageType } from "./image-type";
+import { createUnzipBudget, unzipEntry } from "./zip-entries";
+import {
+  PROJECT_ARCHIVE_FORMAT,
+  PROJECT_ARCHIVE_VERSION,
+  projectArchiveSchema,
+  type Project,
+  type ProjectArchive,
+} from "@shared/schema";
+
+const ARCHIVE_DATA_FILE = 'project.json';
+const PUBLISHER_LOGOS_DIR = path.join(process.cwd(), 'uploads', 'publisher-logos');
+
+// Database bookkeeping that is regenerated on restore
+function withoutTimestamps<T extends { createdAt?: unknown; updatedAt?: unknown }>(record: T) {
+  const { createdAt, updatedAt, ...rest } = record;
+  return rest;
+}
+
+export async function buildProjectArchive(project: Project): Promise<Buffer> {
+  const [chapters, characters, relationships, aiSuggestions, chatMessages, researchMessages, copyright, pronunciations] = await Promise.all([
+    storage.getChaptersByProject(project.id),
+    storage.getCharactersByProject(project.id),
+    storage.getProjectRelationships(project.id),
+    storage.getAISuggestionsByProject(project.id),
+    storage.getChatMessagesByProject(project.id),
+    storage.getHistoricalResearchByProject(project.id),
+    storage.getCopyrightInfo(project.id),
+    storage.getPronunciationsByProject(project.id),
+  ]);
+  const timelineEntries = (await Promise.all(characters.map(character => storage.getCharacterTimeline(character.id)))).flat();
+
+  const zip = new JSZip();
+
+  // The logo lives on disk rather than in the database, so it travels inside the zip
+  let publisherLogoFile: string | null = null;
+  if (copyright?.publisherLogo) {
+    const logoPath = path.join(PUBLISHER_LOGOS_DIR, path.basename(copyright.publisherLogo));
+    if (fs.existsSync(logoPath)) {
+      publisherLogoFile = `assets/${path.basename(logoPath)}`;
+      zip.file(publisherLogoFile, fs.readFileSync(logoPath));
+    }
+  }
+
+  const { id, userId, wordCount, ...projectFields } = withoutTimestamps(project);
+  const archive = {
+    format: PROJECT_ARCHIVE_FORMAT,
+    version: PROJECT_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: projectFields,
+    chapters: chapters.map(({ projectId, wordCount, ...chapter }) => withoutTimestamps(chapter)),
+    characters: characters.map(({ projectId, ...character }) => withoutTimestamps(character)),
+    timelineEntries: timelineEntries.map(withoutTimestamps),
+    relationships: relationships.map(({ projectId, ...relationship }) => withoutTimestamps(relationship)),
+    aiSuggestions: aiSuggestions.map(({ projectId, ...suggestion }) => withoutTimestamps(suggestion)),
+    chatMessages: chatMessages.map(({ projectId, ...message }) => withoutTimestamps(message)),
+    researchMessages: researchMessages.map(({ projectId, ...message }) => withoutTimestamps(message)),
+    copyrightInfo: copyright
+      ? (({ id, projectId, ...rest }) => withoutTimestamps(rest))(copyright)
+      : null,
+    pronunciations: pronunciations.map(({ projectId, ...pronunciation }) => withoutTimestamps(pronunciation)),
+    publisherLogoFile,
+  };
+  zip.file(ARCHIVE_DATA_FILE, JSON.stringify(archive, null, 2));
+
+  return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+export interface ProjectArchiveUpload {
+  archive: ProjectArchive;
+  logo: Buffer | null;
+}
+
+// Accepts the zip produced above or its bare project.json
+export async function readProjectArchive(buffer: Buffer): Promise<ProjectArchiveUpload> {
+  let json: string;
+  let zip: JSZip | null = null;
+  const budget = createUnzipBudget();
+  if (buffer.subarray(0, 2).toString() === 'PK') {
+    try {
+      zip = await JSZip.loadAsync(buffer);
+    } catch {
+      throw new Error('The backup file is not a valid zip archive');
+    }
+    const dataFile = zip.file(ARCHIVE_DATA_FILE);
+    if (!dataFile) {
+      throw new Error('The archive does not contain a project backup');
+    }
+    json = (await unzipEntry(dataFile, budget, 'backup file')).toString('utf8');
+  } else {
+    json = buffer.toString('utf8');
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The backup file is not valid JSON');
+  }
+
+  const version = (data as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > PROJECT_ARCHIVE_VERSION) {
+    throw new Error('This backup was made by a newer version of MyNovelCraft and cannot be restored here');
+  }
+  const parsed = projectArchiveSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error('The backup file is damaged or is not a MyNovelCraft project backup');
+  }
+
+  const logoFile = parsed.data.publisherLogoFile && zip?.file(parsed.data.publisherLogoFile);
+  return { archive: parsed.data, logo: logoFile ? await unzipEntry(logoFile, budget, 'backup file') : null };
+}
+
+// Re-create an archived project for this user with fresh IDs, pointing every reference at the new records
+export async function restoreProjectArchive({ archive, logo }: ProjectArchiveUpload, userId: string): Promise<Project> {
+  const project = await storage.createProject({ ...archive.project, userId });
+  try {
+    const chapterIds = new Map<string, string>();
+    for (const { id, ...chapter } of archive.chapters) {
+      const created = await storage.createChapter({ ...chapter, projectId: project.id });
+      chapterIds.set(id, created.id);
+    }
+    const newChapterId = (chapterId: string | null | undefined) => (chapterId && chapterIds.get(chapterId)) || null;
+
+    const characterIds = new Map<string, string>();
+    for (const { id, ...character } of archive.characters) {
+      const created = await storage.createCharacter({
+        ...character,
+        projectId: project.id,
+        introductionChapter: character.introductionChapter && (chapterIds.get(character.introductionChapter) || character.introductionChapter),
+      });
+      characterIds.set(id, created.id);
+    }
+
+    for (const { id, ...entry } of archive.timelineEntries) {
+      const characterId = characterIds.get(entry.characterId);
+      if (!characterId) continue;
+      await storage.createTimelineEntry({ ...entry, characterId, chapterId: newChapterId(entry.chapterId) });
+    }
+
+    for (const { id, ...relationship } of archive.relationships) {
+      const characterAId = characterIds.get(relationship.characterAId);
+      const characterBId = characterIds.get(relationship.characterBId);
+      if (!characterAId || !characterBId) continue;
+      await storage.createCharacterRelationship({ ...relationship, projectId: project.id, characterAId, characterBId });
+    }
+
+    for (const { id, ...suggestion } of archive.aiSuggestions) {
+      await storage.createAISuggestion({ ...suggestion, projectId: project.id, chapterId: newChapterId(suggestion.chapterId) });
+    }
+
+    for (const { id, ...message } of archive.chatMessages) {
+      await storage.createChatMessage({ ...message, projectId: project.id, chapterId: newChapterId(message.chapterId) });
+    }
+
+    for (const { id, ...message } of archive.researchMessages) {
+      await storage.createHistoricalResearchMessage({ ...message, projectId: project.id });
+    }
+
+    if (archive.copyrightInfo) {
+      // The archived path names a file of the original project, so without a restorable logo there is none
+      let publisherLogo: string | null = null;
+      const logoType = logo && detectImageType(logo);
+      if (logo && logoType) {
+        // Same naming scheme as the logo upload route, so restored logos never overwrite another project's. The
+        // extension comes from the content: the archive could name an .html or .svg file that /uploads would serve.
+        const filename = `logo-${Date.now()}-${Math.round(Math.random() * 1E9)}${logoType.extension}`;
+        fs.mkdirSync(PUBLISHER_LOGOS_DIR, { recursive: true });
+        fs.writeFileSync(path.join(PUBLISHER_LOGOS_DIR, filename), logo);
+        publisherLogo = `/uploads/publisher-logos/${filename}`;
+      }
+      await storage.createCopyrightInfo({ ...archive.copyrightInfo, publisherLogo, projectId: project.id });
+    }
+
+    for (const { id, ...pronunciation } of archive.pronunciations) {
+      await storage.createPronunciation({ ...pronunciation, projectId: project.id });
+    }
+  } catch (error) {
+    // Don't leave a half-restored project behind
+    await storage.deleteProject(project.id);
+    throw error;
+  }
+
+  return (await storage.getProject(project.id)) || project;
+}
@@ -0,0 +1,192 @@
+import { storage } from "./storage";
+import { diffWords } from "./text-diff";
+import type {
+  Project,
+  InsertChapter,
+  InsertCharacter,
+  ProjectSnapshot,
+  ProjectSnapshotData,
+  ProjectSnapshotComparison,
+} from "@shared/schema";
+
+// Project fields captured in a snapshot: basics plus the LOCK system and Bell structure elements
+const SNAPSHOT_PROJECT_FIELDS = [
+  'title', 'description', 'timePeriod', 'setting', 'genre', 'targetWordCount',
+  'lead', 'objective', 'confrontation', 'knockout',
+  'disturbance', 'doorway', 'mirrorMoment', 'darkMoment', 'midpointTwist',
+  'physicalStakes', 'professionalStakes', 'psychologicalStakes',
+] as const;
+
+// jsonb does not preserve key order, so compare records by sorted keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+async function buildSnapshotData(project: Project): Promise<ProjectSnapshotData> {
+  const [chapters, characters, copyright] = await Promise.all([
+    storage.getChaptersByProject(project.id),
+    storage.getCharactersByProject(project.id),
+    storage.getCopyrightInfo(project.id),
+  ]);
+
+  const projectFields: Record<string, unknown> = {};
+  for (const field of SNAPSHOT_PROJECT_FIELDS) {
+    projectFields[field] = project[field];
+  }
+
+  let copyrightInfo: ProjectSnapshotData['copyrightInfo'] = null;
+  if (copyright) {
+    const { id, projectId, createdAt, updatedAt, ...rest } = copyright;
+    copyrightInfo = rest;
+  }
+
+  return {
+    project: projectFields as ProjectSnapshotData['project'],
+    chapters: chapters.map(({ createdAt, updatedAt, ...chapter }) => chapter),
+    characters: characters.map(({ createdAt, updatedAt, ...character }) => character),
+    copyrightInfo,
+  };
+}
+
+export async function captureProjectSnapshot(
+  project: Project,
+  userId: string,
+  name: string,
+  description?: string | null
+): Promise<ProjectSnapshot> {
+  const data = await buildSnapshotData(project);
+
+  return await storage.createProjectSnapshot({
+    projectId: project.id,
+    userId,
+    name,
+    description: description || null,
+    data,
+    chapterCount: data.chapters.length,
+    wordCount: data.chapters.reduce((sum, chapter) => sum + (chapter.wordCount || 0), 0),
+  });
+}
+
+// Summarise what changed between a snapshot and the project as it is now
+export async function compareSnapshotToCurrent(snapshot: ProjectSnapshot, project: Project): Promise<ProjectSnapshotComparison> {
+  const before = snapshot.data as ProjectSnapshotData;
+  const current = await buildSnapshotData(project);
+
+  const projectFields = SNAPSHOT_PROJECT_FIELDS
+    .filter(field => (before.project[field] ?? null) !== (current.project[field] ?? null))
+    .map(field => ({
+      field,
+      snapshotValue: before.project[field] ?? null,
+      currentValue: current.project[field] ?? null,
+    }));
+
+  const currentChapters = new Map(current.chapters.map(chapter => [chapter.id, chapter]));
+  const snapshotChapterIds = new Set(before.chapters.map(chapter => chapter.id));
+
+  const chapters: ProjectSnapshotComparison['chapters'] = before.chapters.map(chapter => {
+    const now = currentChapters.get(chapter.id);
+    if (!now) {
+      return {
+        chapterId: chapter.id,
+        title: chapter.title,
+        status: 'removed',
+        snapshotWordCount: chapter.wordCount || 0,
+        currentWordCount: 0,
+        wordsAdded: 0,
+        wordsRemoved: chapter.wordCount || 0,
+      };
+    }
+
+    const contentChanged = (chapter.content || '') !== (now.content || '');
+    const diff = contentChanged ? diffWords(chapter.content || '', now.content || '') : null;
+    return {
+      chapterId: chapter.id,
+      title: now.title,
+      status: contentChanged || chapter.title !== now.title ? 'modified' : 'unchanged',
+      snapshotWordCount: chapter.wordCount || 0,
+      currentWordCount: now.wordCount || 0,
+      wordsAdded: diff?.wordsAdded ?? 0,
+      wordsRemoved: diff?.wordsRemoved ?? 0,
+    };
+  });
+
+  for (const chapter of current.chapters) {
+    if (!snapshotChapterIds.has(chapter.id)) {
+      chapters.push({
+        chapterId: chapter.id,
+        title: chapter.title,
+        status: 'added',
+        snapshotWordCount: 0,
+        currentWordCount: chapter.wordCount || 0,
+        wordsAdded: chapter.wordCount || 0,
+        wordsRemoved: 0,
+      });
+    }
+  }
+
+  const currentCharacters = new Map(current.characters.map(character => [character.id, character]));
+  const snapshotCharacterIds = new Set(before.characters.map(character => character.id));
+  const characters: ProjectSnapshotComparison['characters'] = [
+    ...before.characters.map(character => {
+      const now = currentCharacters.get(character.id);
+      const status = !now ? 'removed' : stableStringify(character) === stableStringify(now) ? 'unchanged' : 'modified';
+      return { characterId: character.id, name: now?.name || character.name, status } as const;
+    }),
+    ...current.characters
+      .filter(character => !snapshotCharacterIds.has(character.id))
+      .map(character => ({ characterId: character.id, name: character.name, status: 'added' as const })),
+  ];
+
+  return {
+    projectFields,
+    chapters,
+    characters,
+    copyrightChanged: stableStringify(before.copyrightInfo) !== stableStringify(current.copyrightInfo),
+  };
+}
+
+// Restore into a brand-new project so the original is never overwritten
+export async function restoreSnapshotAsNewProject(snapshot: ProjectSnapshot, userId: string): Promise<Project> {
+  const data = snapshot.data as ProjectSnapshotData;
+
+  const project = await storage.createProject({
+    ...data.project,
+    title: `${data.project.title} (${snapshot.name})`,
+    userId,
+  });
+
+  try {
+    const chapterIds = new Map<string, string>();
+    for (const { id, wordCount, ...chapter } of data.chapters) {
+      const created = await storage.createChapter({ ...chapter, projectId: project.id } as InsertChapter);
+      chapterIds.set(id, created.id);
+    }
+
+    for (const { id, ...character } of data.characters) {
+      await storage.createCharacter({
+        ...character,
+        projectId: project.id,
+        introductionChapter: character.introductionChapter && (chapterIds.get(character.introductionChapter) || character.introductionChapter),
+      } as InsertCharacter);
+    }
+
+    if (data.copyrightInfo) {
+      await storage.createCopyrightInfo({ ...data.copyrightInfo, projectId: project.id });
+    }
+  } catch (error) {
+    // Don't leave a half-restored project behind
+    await storage.deleteProject(project.id);
+    throw error;
+  }
+
+  return (await storage.getProject(project.id)) || project;
+}
@@ -0,0 +1,97 @@
+// Pronunciation dictionary and pause handling for audiobook narration.
+// Google voices take SSML; OpenAI voices only take plain text, so there the dictionary becomes respelling.
+
+export interface PronunciationRule {
+  term: string;
+  soundsLike: string | null;
+  ipa: string | null;
+}
+
+// Pause markers carried through text cleaning; nothing in a manuscript uses these characters
+export const SCENE_BREAK = '⁂';
+export const CHAPTER_HEADING_BREAK = '⁑';
+
+const SCENE_BREAK_PAUSE = '2s';
+const CHAPTER_HEADING_PAUSE = '1500ms';
+
+// Letters that count as part of a word, so "Lyon" doesn't match inside "Lyonnais"
+const WORD_CHARACTER = "A-Za-z0-9\\u00C0-\\u024F'’";
+
+// Mark horizontal rules and "* * *" / "#" / "~~~" separator paragraphs as scene breaks before the HTML is flattened
+export function markSceneBreaks(html: string): string {
+  return html
+    .replace(/<hr[^>]*>/gi, `<p>${SCENE_BREAK}</p>`)
+    .replace(/<p[^>]*>\s*(?:[*#~•·—–-]\s*)+<\/p>/gi, `<p>${SCENE_BREAK}</p>`)
+    .replace(/^[ \t]*(?:[*#~•·—–-][ \t]*){3,}$/gm, SCENE_BREAK);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Whole-word, case-insensitive matcher for every term; longer terms win so "New Ross" beats "Ross"
+function termPattern(rules: PronunciationRule[]): RegExp | null {
+  const terms = rules.map(rule => rule.term.trim()).filter(Boolean).sort((a, b) => b.length - a.length);
+  if (terms.length === 0) return null;
+  return new RegExp(`(^|[^${WORD_CHARACTER}])(${terms.map(escapeRegExp).join('|')})(?=$|[^${WORD_CHARACTER}])`, 'gi');
+}
+
+function findRule(rules: PronunciationRule[], term: string): PronunciationRule | undefined {
+  const lower = term.toLowerCase();
+  return rules.find(rule => rule.term.trim().toLowerCase() === lower);
+}
+
+// OpenAI path: swap terms for their respelling and turn pause markers into paragraph breaks, which the voice pauses on
+export function applyPronunciationText(text: string, rules: PronunciationRule[] = []): string {
+  // IPA-only entries still match, and are read as written, so "New Ross" isn't respelled through a "Ross" entry
+  const pattern = termPattern(rules);
+  const substituted = pattern
+    ? text.replace(pattern, (match, lead: string, term: string) => `${lead}${findRule(rules, term)?.soundsLike?.trim() || term}`)
+    : text;
+
+  return substituted
+    .replace(new RegExp(`\\s*${SCENE_BREAK}\\s*`, 'g'), '\n\n')
+    .replace(new RegExp(`\\s*${CHAPTER_HEADING_BREAK}\\s*`, 'g'), '\n\n')
+    .trim();
+}
+
+// Google path: a <speak> document with <phoneme> for IPA entries, <sub> for respellings and <break> for pauses
+export function toSsml(text: string, rules: PronunciationRule[] = []): string {
+  const usable = rules.filter(rule => rule.ipa?.trim() || rule.soundsLike?.trim());
+  const pattern = termPattern(usable);
+
+  let ssml = '';
+  let lastIndex = 0;
+  if (pattern) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const start = (match.index ?? 0) + match[1].length;
+      const term = match[2];
+      const rule = findRule(usable, term);
+      ssml += escapeXml(text.slice(lastIndex, start));
+      if (rule?.ipa?.trim()) {
+        ssml += `<phoneme alphabet="ipa" ph="${escapeXml(rule.ipa.trim())}">${escapeXml(term)}</phoneme>`;
+      } else if (rule?.soundsLike?.trim()) {
+        ssml += `<sub alias="${escapeXml(rule.soundsLike.trim())}">${escapeXml(term)}</sub>`;
+      } else {
+        ssml += escapeXml(term);
+      }
+      lastIndex = start + term.length;
+    }
+  }
+  ssml += escapeXml(text.slice(lastIndex));
+
+  ssml = ssml
+    .replace(new RegExp(`\\s*${SCENE_BREAK}\\s*`, 'g'), ` <break time="${SCENE_BREAK_PAUSE}"/> `)
+    .replace(new RegExp(`\\s*${CHAPTER_HEADING_BREAK}\\s*`, 'g'), ` <break time="${CHAPTER_HEADING_PAUSE}"/> `);
+
+  return `<speak>${ssml.trim()}</speak>`;
+}
@@ -0,0 +1,86 @@
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import crypto from "crypto";
+import path from "path";
+import { synthesizeChunks, type TTSProvider } from "./tts-provider";
+import type { PronunciationRule } from "./pronunciation";
+
+// Sentence audio for proof-listening in the editor. Files are keyed by a hash of exactly what gets spoken,
+// so after an edit only the sentences that changed are synthesized again.
+
+// Per-user cap; the least recently played sentences go first
+const MAX_CACHED_SENTENCES = 2000;
+
+const generating = new Map<string, Promise<void>>();
+
+// Outside uploads/, which is served publicly; the audio is only served through the authenticated route
+function cacheDirectory(userId: string): string {
+  return path.join('cache', 'proof-audio', userId);
+}
+
+export function isProofAudioKey(key: string): boolean {
+  return /^[a-f0-9]{64}$/.test(key);
+}
+
+export function proofAudioPath(userId: string, key: string): string {
+  return path.join(cacheDirectory(userId), `${key}.mp3`);
+}
+
+async function pruneCache(userId: string): Promise<void> {
+  const directory = cacheDirectory(userId);
+  const files = (await fs.readdir(directory)).filter(file => file.endsWith('.mp3'));
+  if (files.length <= MAX_CACHED_SENTENCES) return;
+
+  const stats = await Promise.all(files.map(async file => ({ file, mtime: (await fs.stat(path.join(directory, file))).mtimeMs })));
+  stats.sort((a, b) => a.mtime - b.mtime);
+  for (const { file } of stats.slice(0, stats.length - MAX_CACHED_SENTENCES)) {
+    await fs.rm(path.join(directory, file), { force: true });
+  }
+}
+
+export interface SentenceAudio {
+  key: string;
+  synthesized: boolean; // False when the audio came from the cache, so nothing needs billing
+}
+
+// Returns the cache key for a sentence's audio, synthesizing it only on a cache miss
+export async function getSentenceAudio(
+  userId: string,
+  provider: TTSProvider,
+  voice: string,
+  text: string,
+  pronunciations: PronunciationRule[]
+): Promise<SentenceAudio> {
+  const chunks = provider.planChunks(text, voice, pronunciations);
+  if (chunks.length === 0) {
+    throw new Error('Nothing to read aloud');
+  }
+
+  const key = crypto.createHash('sha256')
+    .update(JSON.stringify([provider.id, voice, chunks.map(chunk => chunk.text)]))
+    .digest('hex');
+  const filePath = proofAudioPath(userId, key);
+
+  if (existsSync(filePath)) {
+    // Mark it recently used so pruning keeps it
+    const now = new Date();
+    await fs.utimes(filePath, now, now);
+    return { key, synthesized: false };
+  }
+
+  // Playback prefetches ahead, so the same sentence can be asked for twice before it is ready
+  const cacheId = `${userId}/${key}`;
+  let pending = generating.get(cacheId);
+  const synthesized = !pending;
+  if (!pending) {
+    pending = (async () => {
+      const audio = await synthesizeChunks(provider, chunks);
+      await fs.mkdir(cacheDirectory(userId), { recursive: true });
+      await fs.writeFile(filePath, audio);
+      await pruneCache(userId);
+    })().finally(() => generating.delete(cacheId));
+    generating.set(cacheId, pending);
+  }
+  await pending;
+  return { key, synthesized };
+}
@@ -0,0 +1,276 @@
+import { completeText } from "./llm-provider";
+import type {
+  GenerateQueryDocument, Project, QueryConventionCheck, QueryDocument, QueryDocumentKind, QueryWorkshop, SubmissionContact
+} from "@shared/schema";
+
+// Drafts query letters and synopses from what the project already knows, and checks them against
+// the length conventions agents expect.
+
+const KIND_NAMES: Record<QueryDocumentKind, string> = {
+  query_letter: 'query letter',
+  short_synopsis: 'one-page synopsis',
+  long_synopsis: 'long synopsis',
+};
+
+// Word counts agents ask for; a one-page synopsis is one single-spaced page
+const DOCUMENT_LENGTHS: Record<QueryDocumentKind, { min: number; max: number }> = {
+  query_letter: { min: 250, max: 400 },
+  short_synopsis: { min: 300, max: 600 },
+  long_synopsis: { min: 1000, max: 2500 },
+};
+
+// Typical debut manuscript lengths by genre. Earlier entries win, so age categories come before genres.
+const WORD_COUNT_RANGES: Array<{ pattern: RegExp; category: string; min: number; max: number }> = [
+  { pattern: /picture book/i, category: 'Picture book', min: 300, max: 1000 },
+  { pattern: /chapter book/i, category: 'Chapter book', min: 6000, max: 15000 },
+  { pattern: /middle[- ]grade|\bmg\b/i, category: 'Middle grade', min: 30000, max: 55000 },
+  { pattern: /young adult|\bya\b/i, category: 'Young adult', min: 50000, max: 90000 },
+  { pattern: /epic fantasy|high fantasy/i, category: 'Epic fantasy', min: 100000, max: 150000 },
+  { pattern: /fantasy/i, category: 'Fantasy', min: 90000, max: 120000 },
+  { pattern: /science fiction|sci-fi|scifi/i, category: 'Science fiction', min: 90000, max: 125000 },
+  { pattern: /historical/i, category: 'Historical fiction', min: 80000, max: 110000 },
+  { pattern: /romance/i, category: 'Romance', min: 70000, max: 100000 },
+  { pattern: /cozy/i, category: 'Cozy mystery', min: 65000, max: 85000 },
+  { pattern: /thriller|suspense/i, category: 'Thriller', min: 80000, max: 100000 },
+  { pattern: /mystery|crime|detective/i, category: 'Mystery', min: 70000, max: 90000 },
+  { pattern: /horror/i, category: 'Horror', min: 70000, max: 90000 },
+  { pattern: /women'?s fiction|book club|upmarket/i, category: "Women's and book club fiction", min: 80000, max: 100000 },
+  { pattern: /literary/i, category: 'Literary fiction', min: 70000, max: 100000 },
+  { pattern: /memoir/i, category: 'Memoir', min: 70000, max: 90000 },
+  { pattern: /fiction|drama|adventure|western|comedy/i, category: 'Adult fiction', min: 80000, max: 100000 },
+];
+
+// Matches "85,000 words", "85000-word", "85k words"
+const QUOTED_WORD_COUNT = /\b(\d{1,3}(?:,\d{3})+|\d{4,6}|\d{2,3}k)[\s-]*words?\b/i;
+
+export function countWords(text: string): number {
+  return text.trim() ? text.trim().split(/\s+/).length : 0;
+}
+
+// Queries quote the length to the nearest thousand
+export function roundWordCount(words: number): number {
+  return words >= 1000 ? Math.round(words / 1000) * 1000 : words;
+}
+
+export function expectedWordCountRange(genre: string | null | undefined): QueryWorkshop['manuscript']['expectedRange'] {
+  if (!genre) return null;
+  const match = WORD_COUNT_RANGES.find(range => range.pattern.test(genre));
+  return match ? { min: match.min, max: match.max, category: match.category } : null;
+}
+
+function formatNumber(words: number): string {
+  return words.toLocaleString('en-US');
+}
+
+function parseQuotedWordCount(text: string): number | null {
+  const match = text.match(QUOTED_WORD_COUNT);
+  if (!match) return null;
+  const value = match[1].toLowerCase();
+  return value.endsWith('k') ? parseInt(value, 10) * 1000 : parseInt(value.replace(/,/g, ''), 10);
+}
+
+function checkManuscript(project: Project): QueryConventionCheck[] {
+  const checks: QueryConventionCheck[] = [];
+  const words = project.wordCount || 0;
+  const range = expectedWordCountRange(project.genre);
+
+  if (!project.genre) {
+    checks.push({ level: 'warning', message: 'Set the project genre so the length can be checked against what agents expect.' });
+  } else if (!range) {
+    checks.push({ level: 'warning', message: `No length guideline for "${project.genre}"; check what agents in the genre ask for.` });
+  } else if (words < range.min) {
+    checks.push({ level: 'warning', message: `${formatNumber(words)} words is short for ${range.category.toLowerCase()} (usually ${formatNumber(range.min)}–${formatNumber(range.max)}).` });
+  } else if (words > range.max) {
+    checks.push({ level: 'warning', message: `${formatNumber(words)} words is long for ${range.category.toLowerCase()} (usually ${formatNumber(range.min)}–${formatNumber(range.max)}). Debut manuscripts over the range are a common reason for a pass.` });
+  } else {
+    checks.push({ level: 'ok', message: `${formatNumber(words)} words is within the usual range for ${range.category.toLowerCase()}.` });
+  }
+
+  if (project.targetWordCount && words < project.targetWordCount) {
+    checks.push({ level: 'warning', message: `The manuscript is ${formatNumber(project.targetWordCount - words)} words short of its target. Agents expect a finished draft.` });
+  }
+  return checks;
+}
+
+export function checkQueryDocument(
+  document: Pick<QueryDocument, 'kind' | 'content' | 'contactId'>,
+  project: Project,
+  contact?: SubmissionContact
+): QueryConventionCheck[] {
+  const checks: QueryConventionCheck[] = [];
+  const kind = document.kind as QueryDocumentKind;
+  const words = countWords(document.content);
+  const length = DOCUMENT_LENGTHS[kind];
+
+  if (length) {
+    const name = KIND_NAMES[kind];
+    if (words < length.min) {
+      checks.push({ level: 'warning', message: `${words} words is short for a ${name} (aim for ${length.min}–${length.max}).` });
+    } else if (words > length.max) {
+      checks.push({ level: 'warning', message: `${words} words is long for a ${name} (aim for ${length.min}–${length.max}).` });
+    } else {
+      checks.push({ level: 'ok', message: `${words} words is a good length for a ${name}.` });
+    }
+  }
+
+  const placeholders = document.content.match(/\[[^\]\n]{1,60}\]/g);
+  if (placeholders) {
+    checks.push({ level: 'warning', message: `Fill in ${Array.from(new Set(placeholders)).join(', ')}.` });
+  }
+
+  if (kind === 'query_letter') {
+    const lower = document.content.toLowerCase();
+    if (!lower.includes(project.title.toLowerCase())) {
+      checks.push({ level: 'warning', message: `The letter doesn't name the book ("${project.title}").` });
+    }
+    if (project.genre && !lower.includes(project.genre.toLowerCase())) {
+      checks.push({ level: 'warning', message: `The letter doesn't state the genre (${project.genre}).` });
+    }
+    const quoted = parseQuotedWordCount(document.content);
+    const rounded = roundWordCount(project.wordCount || 0);
+    if (quoted === null) {
+      checks.push({ level: 'warning', message: `State the word count (${formatNumber(rounded)} words).` });
+    } else if (rounded > 0 && Math.abs(quoted - rounded) > rounded * 0.05) {
+      checks.push({ level: 'warning', message: `The letter quotes ${formatNumber(quoted)} words but the manuscript is about ${formatNumber(rounded)}.` });
+    }
+    if (contact) {
+      // Agents notice a letter addressed to someone else; the surname is enough to tell
+      const surname = contact.name.trim().split(/\s+/).pop() || contact.name;
+      if (!lower.includes(surname.toLowerCase())) {
+        checks.push({ level: 'warning', message: `The letter doesn't address ${contact.name} by name.` });
+      }
+    }
+  }
+  return checks;
+}
+
+export function missingProjectFields(project: Project): string[] {
+  const fields: Array<[keyof Project, string]> = [
+    ['genre', 'Genre'],
+    ['lead', 'Lead'],
+    ['objective', 'Objective'],
+    ['confrontation', 'Confrontation'],
+    ['knockout', 'Knockout'],
+  ];
+  return fields.filter(([field]) => !String(project[field] || '').trim()).map(([, label]) => label);
+}
+
+export function buildQueryWorkshop(project: Project, documents: QueryDocument[], contacts: SubmissionContact[]): QueryWorkshop {
+  const contactsById = new Map(contacts.map(contact => [contact.id, contact]));
+  const words = project.wordCount || 0;
+  return {
+    documents: documents.map(document => ({
+      ...document,
+      checks: checkQueryDocument(document, project, document.contactId ? contactsById.get(document.contactId) : undefined),
+    })),
+    manuscript: {
+      genre: project.genre,
+      wordCount: words,
+      roundedWordCount: roundWordCount(words),
+      expectedRange: expectedWordCountRange(project.genre),
+      checks: checkManuscript(project),
+    },
+    missingFields: missingProjectFields(project),
+  };
+}
+
+// Version numbers count up per kind, personalised letters included, so each label is unique
+export function nextVersion(documents: QueryDocument[], kind: QueryDocumentKind): number {
+  return documents.filter(document => document.kind === kind).reduce((max, document) => Math.max(max, document.version), 0) + 1;
+}
+
+function projectBrief(project: Project, options: Partial<GenerateQueryDocument> = {}): string {
+  const lines: Array<[string, string | null | undefined]> = [
+    ['Title', project.title],
+    ['Genre', project.genre],
+    ['Word count', project.wordCount ? `${formatNumber(roundWordCount(project.wordCount))} words` : null],
+    ['Setting', [project.timePeriod, project.setting].filter(Boolean).join(', ')],
+    ['Premise', project.description],
+    ['Lead', project.lead],
+    ['Objective', project.objective],
+    ['Confrontation', project.confrontation],
+    ['Knockout (ending)', project.knockout],
+    ['Inciting incident', project.disturbance],
+    ['Point of no return', project.doorway],
+    ['Midpoint twist', project.midpointTwist],
+    ['Mirror moment', project.mirrorMoment],
+    ['Dark moment', project.darkMoment],
+    ['Stakes', [project.physicalStakes, project.professionalStakes, project.psychologicalStakes].filter(Boolean).join('; ')],
+    ['Comparable titles', options.comparables],
+    ['Author bio', options.authorBio],
+    ['Notes from the author', options.extraNotes],
+  ];
+  return lines.filter(([, value]) => value && value.trim()).map(([label, value]) => `${label}: ${value!.trim()}`).join('\n');
+}
+
+const KIND_INSTRUCTIONS: Record<QueryDocumentKind, string> = {
+  query_letter: `Write a query letter of 250-350 words addressed "Dear [Agent Name],". Open with a hook, give the story in two or three
+paragraphs that follow the lead, their objective, what stands in the way and what is at stake, without revealing the ending.
+Then a paragraph with the title, genre, word count and comparable titles, then a short bio. Close politely and sign "[Your Name]".
+Use [square brackets] for anything the author must fill in.`,
+  short_synopsis: `Write a one-page synopsis of 400-550 words in third person, present tense. Cover the whole story including the ending,
+naming only the lead and the two or three most important characters. Focus on the main plot and the lead's change.`,
+  long_synopsis: `Write a long synopsis of 1200-2000 words in third person, present tense. Walk through the whole story act by act,
+including the inciting incident, point of no return, midpoint, dark moment and the ending, and the main subplots.`,
+};
+
+async function completeDraft(project: Project, prompt: string): Promise<string> {
+  const draft = await completeText('query_workshop', {
+    system: "You are a literary agent's assistant who has read thousands of successful queries. You write clear, specific, unhyped submission materials in the author's voice.",
+    prompt,
+    json: true,
+    temperature: 0.7,
+  }, { userId: project.userId, resourceId: project.id });
+
+  const result = JSON.parse(draft || '{}');
+  const content = typeof result.content === 'string' ? result.content.trim() : '';
+  if (!content) {
+    throw new Error('The writing service returned an empty draft');
+  }
+  return content;
+}
+
+export async function generateQueryDocument(project: Project, options: GenerateQueryDocument): Promise<string> {
+  return await completeDraft(project, `${KIND_INSTRUCTIONS[options.kind]}
+
+Base it only on this information about the book. Don't invent plot points that contradict it.
+
+${projectBrief(project, options)}
+
+Respond with JSON: { "content": "the ${KIND_NAMES[options.kind]} as plain text, paragraphs separated by blank lines" }`);
+}
+
+// What the agent finder found out about an agent, where it saved the search result
+function contactBrief(contact: SubmissionContact): string {
+  const details = (contact.details && typeof contact.details === 'object' ? contact.details : {}) as Record<string, unknown>;
+  const text = (value: unknown) => Array.isArray(value) ? value.join(', ') : typeof value === 'string' ? value : '';
+  const lines: Array<[string, string | null | undefined]> = [
+    ['Name', contact.name],
+    ['Agency or imprint', contact.agency],
+    ['Genres they take on', (contact.genres || []).join(', ')],
+    ['Submission guidelines', contact.submissionGuidelines],
+    ['Recent sales', text(details.recentSales || details.recentPublications)],
+    ['Clients they take on', text(details.clientTypes)],
+    ['Query tips', text(details.queryLetterTips)],
+    ['Why they fit', text(details.reasoning)],
+    ['Author notes on them', contact.notes],
+  ];
+  return lines.filter(([, value]) => value && value.trim()).map(([label, value]) => `${label}: ${value!.trim()}`).join('\n');
+}
+
+export async function personaliseQueryLetter(project: Project, letter: string, contact: SubmissionContact): Promise<string> {
+  return await completeDraft(project, `Personalise this query letter for one ${contact.kind}. Address them by name, add one or two sentences
+near the start or end on why the book suits their list, using only the facts below, and follow their submission guidelines.
+Keep the pitch paragraphs, title, genre and word count as they are, and stay under 400 words.
+
+About the ${contact.kind}:
+${contactBrief(contact)}
+
+About the book:
+${projectBrief(project)}
+
+Query letter:
+${letter}
+
+Respond with JSON: { "content": "the personalised letter as plain text, paragraphs separated by blank lines" }`);
+}
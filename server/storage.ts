@@ -2,6 +2,15 @@ import {
   type User, type UpsertUser,
   type Project, type InsertProject, type UpdateProject,
   type Chapter, type InsertChapter, type UpdateChapter,
+  type ChapterRevision, type InsertChapterRevision,
+  type ProjectSnapshot, type InsertProjectSnapshot,
+  type WritingActivity, type WritingSession,
+  type WritingGoal, type InsertWritingGoal, type UpdateWritingGoal,
+  type WritingSprint, type InsertWritingSprint,
+  type SubmissionContact, type InsertSubmissionContact, type UpdateSubmissionContact,
+  type QuerySubmission, type InsertQuerySubmission, type UpdateQuerySubmission,
+  type QueryDocument, type InsertQueryDocument,
+  type ManuscriptAnalysis, type InsertManuscriptAnalysis, type ChapterAnalysis, type InsertChapterAnalysis,
   type Character, type InsertCharacter, type UpdateCharacter,
   type AISuggestion, type InsertAISuggestion,
   type AIChatMessage, type InsertAIChatMessage,
@@ -10,16 +19,27 @@ import {
   type CharacterRelationship, type InsertCharacterRelationship, type UpdateCharacterRelationship,
   type SupportTicket, type InsertSupportTicket,
   type SupportTicketMessage, type InsertSupportTicketMessage,
-  type Audiobook, type InsertAudiobook,
+  type Audiobook, type InsertAudiobook, type AudiobookChunk, type InsertAudiobookChunk,
+  type Pronunciation, type InsertPronunciation, type UpdatePronunciation,
+  type Translation, type InsertTranslation,
   type CopyrightInfo, type InsertCopyrightInfo,
   type ChapterReorderRequest, type ChapterType, type ChapterSection,
-  users, projects, chapters, characters, aiSuggestions, aiChatMessages, historicalResearchMessages,
-  characterDevelopmentTimeline, characterRelationships, supportTickets, supportTicketMessages, audiobooks, copyrightInfo
+  users, projects, chapters, chapterRevisions, projectSnapshots, writingActivity, writingSessions, writingGoals, writingSprints, submissionContacts, querySubmissions, queryDocuments, manuscriptAnalyses, chapterAnalyses, characters, aiSuggestions, aiChatMessages, historicalResearchMessages,
+  characterDevelopmentTimeline, characterRelationships, supportTickets, supportTicketMessages, audiobooks, audiobookChunks, pronunciations, translations, copyrightInfo
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, sql } from "drizzle-orm";
+import { eq, asc, desc, sql, and, inArray } from "drizzle-orm";
 import { randomUUID } from "crypto";
 
+// Revision history tuning: saves inside the coalesce window share one snapshot
+// unless the word count jumps enough to suggest a bulk replacement or deletion
+const REVISION_COALESCE_WINDOW_MS = 10 * 60 * 1000;
+const REVISION_LARGE_CHANGE_WORDS = 200;
+const MAX_AUTOSAVE_REVISIONS_PER_CHAPTER = 100;
+
+// Saves further apart than this start a new writing session
+const WRITING_SESSION_GAP_MS = 30 * 60 * 1000;
+
 export interface IStorage {
   // Users (supports both Replit Auth and Google OAuth)
   getUser(id: string): Promise<User | undefined>;
@@ -41,7 +61,7 @@ export interface IStorage {
   getChapterMetadataByProject(projectId: string): Promise<Chapter[]>;
   getChapter(id: string): Promise<Chapter | undefined>;
   createChapter(chapter: InsertChapter): Promise<Chapter>;
-  updateChapter(id: string, chapter: UpdateChapter): Promise<Chapter | undefined>;
+  updateChapter(id: string, chapter: UpdateChapter, options?: { recordActivity?: boolean }): Promise<Chapter | undefined>;
   deleteChapter(id: string): Promise<boolean>;
   
   // Enhanced chapter management
@@ -49,6 +69,69 @@ export interface IStorage {
   reorderChapters(projectId: string, chapterUpdates: Array<{id: string, order: number, section?: string}>): Promise<boolean>;
   createDefaultFrontMatter(projectId: string): Promise<Chapter[]>;
   getChaptersBySection(projectId: string, section: string): Promise<Chapter[]>;
+
+  // Chapter revision history
+  getChapterRevisions(chapterId: string): Promise<ChapterRevision[]>;
+  getChapterRevision(id: string): Promise<ChapterRevision | undefined>;
+  createChapterRevision(revision: InsertChapterRevision): Promise<ChapterRevision>;
+  restoreChapterRevision(revisionId: string): Promise<Chapter | undefined>;
+
+  // Project snapshots
+  getProjectSnapshots(projectId: string): Promise<ProjectSnapshot[]>;
+  getProjectSnapshot(id: string): Promise<ProjectSnapshot | undefined>;
+  createProjectSnapshot(snapshot: Omit<InsertProjectSnapshot, 'version'>): Promise<ProjectSnapshot>;
+  deleteProjectSnapshot(id: string): Promise<boolean>;
+
+  // Writing history
+  getWritingActivity(projectId: string): Promise<WritingActivity[]>;
+  getWritingSessions(projectId: string): Promise<WritingSession[]>;
+
+  // Writing goals
+  getWritingGoalsByProject(projectId: string): Promise<WritingGoal[]>;
+  getActiveWritingGoalsByUser(userId: string): Promise<WritingGoal[]>;
+  getWritingGoalsWithReminders(): Promise<WritingGoal[]>;
+  getWritingGoal(id: string): Promise<WritingGoal | undefined>;
+  createWritingGoal(goal: InsertWritingGoal): Promise<WritingGoal>;
+  updateWritingGoal(id: string, updates: UpdateWritingGoal): Promise<WritingGoal | undefined>;
+  markWritingGoalsReminded(ids: string[], date: string): Promise<void>;
+  deleteWritingGoal(id: string): Promise<boolean>;
+
+  // Writing sprints
+  getWritingSprint(id: string): Promise<WritingSprint | undefined>;
+  getActiveWritingSprints(userId: string): Promise<WritingSprint[]>;
+  getWritingSprintsByProject(projectId: string): Promise<WritingSprint[]>;
+  getWritingSprintsByUser(userId: string): Promise<WritingSprint[]>;
+  createWritingSprint(sprint: InsertWritingSprint): Promise<WritingSprint>;
+  updateWritingSprint(id: string, updates: Partial<InsertWritingSprint>): Promise<WritingSprint | undefined>;
+
+  // Submission tracker
+  getSubmissionContactsByProject(projectId: string): Promise<SubmissionContact[]>;
+  getSubmissionContact(id: string): Promise<SubmissionContact | undefined>;
+  createSubmissionContact(contact: InsertSubmissionContact): Promise<SubmissionContact>;
+  updateSubmissionContact(id: string, updates: UpdateSubmissionContact): Promise<SubmissionContact | undefined>;
+  deleteSubmissionContact(id: string): Promise<boolean>;
+  getQuerySubmissionsByProject(projectId: string): Promise<QuerySubmission[]>;
+  getQuerySubmission(id: string): Promise<QuerySubmission | undefined>;
+  createQuerySubmission(submission: InsertQuerySubmission): Promise<QuerySubmission>;
+  updateQuerySubmission(id: string, updates: UpdateQuerySubmission): Promise<QuerySubmission | undefined>;
+  deleteQuerySubmission(id: string): Promise<boolean>;
+
+  // Query workshop
+  getQueryDocumentsByProject(projectId: string): Promise<QueryDocument[]>;
+  getQueryDocument(id: string): Promise<QueryDocument | undefined>;
+  createQueryDocument(document: InsertQueryDocument): Promise<QueryDocument>;
+  updateQueryDocument(id: string, updates: Pick<QueryDocument, 'label'>): Promise<QueryDocument | undefined>;
+  deleteQueryDocument(id: string): Promise<boolean>;
+
+  // Manuscript analysis
+  getManuscriptAnalysesByProject(projectId: string): Promise<ManuscriptAnalysis[]>;
+  getManuscriptAnalysis(id: string): Promise<ManuscriptAnalysis | undefined>;
+  getActiveManuscriptAnalyses(): Promise<ManuscriptAnalysis[]>;
+  createManuscriptAnalysis(analysis: InsertManuscriptAnalysis): Promise<ManuscriptAnalysis>;
+  updateManuscriptAnalysis(id: string, updates: Partial<ManuscriptAnalysis>): Promise<ManuscriptAnalysis | undefined>;
+  deleteManuscriptAnalysis(id: string): Promise<boolean>;
+  getChapterAnalyses(analysisId: string): Promise<ChapterAnalysis[]>;
+  createChapterAnalysis(chapterAnalysis: InsertChapterAnalysis): Promise<ChapterAnalysis>;
   
   // Copyright management
   getCopyrightInfo(projectId: string): Promise<CopyrightInfo | undefined>;
@@ -91,9 +174,9 @@ export interface IStorage {
     subscriptionStartDate?: Date;
     subscriptionEndDate?: Date;
   }): Promise<User | undefined>;
-  incrementUserAiUsage(userId: string): Promise<User | undefined>;
+  incrementUserAiUsage(userId: string, queries?: number): Promise<User | undefined>;
   resetMonthlyUsage(userId: string): Promise<User | undefined>;
-  checkUsageLimit(userId: string): Promise<boolean>;
+  checkUsageLimit(userId: string, queries?: number): Promise<boolean>;
   
   // Admin Methods
   getAllUsers(): Promise<User[]>;
@@ -137,6 +220,28 @@ export interface IStorage {
   createAudiobook(audiobook: InsertAudiobook): Promise<Audiobook>;
   updateAudiobook(id: string, updates: Partial<Audiobook>): Promise<Audiobook | undefined>;
   deleteAudiobook(id: string): Promise<boolean>;
+  getActiveAudiobooks(): Promise<Audiobook[]>;
+  
+  // Audiobook generation chunks
+  getAudiobookChunks(audiobookId: string): Promise<AudiobookChunk[]>;
+  createAudiobookChunks(chunks: InsertAudiobookChunk[]): Promise<AudiobookChunk[]>;
+  updateAudiobookChunk(id: string, updates: Partial<AudiobookChunk>): Promise<AudiobookChunk | undefined>;
+  resetFailedAudiobookChunks(audiobookId: string): Promise<number>;
+
+  // Pronunciation dictionary
+  getPronunciationsByProject(projectId: string): Promise<Pronunciation[]>;
+  getPronunciation(id: string): Promise<Pronunciation | undefined>;
+  createPronunciation(pronunciation: InsertPronunciation): Promise<Pronunciation>;
+  updatePronunciation(id: string, updates: UpdatePronunciation): Promise<Pronunciation | undefined>;
+  deletePronunciation(id: string): Promise<boolean>;
+
+  // Translations
+  getTranslationsByProject(projectId: string): Promise<Translation[]>;
+  getTranslation(id: string): Promise<Translation | undefined>;
+  getActiveTranslations(): Promise<Translation[]>;
+  createTranslation(translation: InsertTranslation): Promise<Translation>;
+  updateTranslation(id: string, updates: Partial<Translation>): Promise<Translation | undefined>;
+  deleteTranslation(id: string): Promise<boolean>;
 
   // Admin Methods
   getAllUsers(): Promise<User[]>;
@@ -373,7 +478,16 @@ export class DatabaseStorage implements IStorage {
     return chapter;
   }
 
-  async updateChapter(id: string, updateChapter: UpdateChapter): Promise<Chapter | undefined> {
+  async updateChapter(id: string, updateChapter: UpdateChapter, options: { recordActivity?: boolean } = {}): Promise<Chapter | undefined> {
+    // Snapshot the content we're about to overwrite so it can be restored later
+    let existing: Chapter | undefined;
+    if (updateChapter.content !== undefined) {
+      existing = await this.getChapter(id);
+      if (existing && (existing.content || "") !== (updateChapter.content || "")) {
+        await this.snapshotChapterBeforeSave(existing, updateChapter.content || "");
+      }
+    }
+
     const wordCount = updateChapter.content !== undefined 
       ? this.countWords(updateChapter.content || "") 
       : undefined;
@@ -390,6 +504,9 @@ export class DatabaseStorage implements IStorage {
       .returning();
     
     if (chapter) {
+      if (existing && options.recordActivity !== false && (existing.content || "") !== (chapter.content || "")) {
+        await this.recordWritingActivity(existing, chapter);
+      }
       // Update project word count
       await this.updateProjectWordCount(chapter.projectId);
       // Automatically update table of contents whenever any chapter is saved
@@ -456,6 +573,532 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Chapter revision history
+  private async snapshotChapterBeforeSave(existing: Chapter, newContent: string): Promise<void> {
+    const [latest] = await db
+      .select()
+      .from(chapterRevisions)
+      .where(eq(chapterRevisions.chapterId, existing.id))
+      .orderBy(desc(chapterRevisions.createdAt))
+      .limit(1);
+
+    // Already captured (e.g. a manual snapshot or pre-restore copy)
+    if (latest && latest.content === (existing.content || "")) {
+      return;
+    }
+
+    const wordDelta = Math.abs(this.countWords(newContent) - (existing.wordCount || 0));
+    const withinWindow = latest?.createdAt
+      && Date.now() - latest.createdAt.getTime() < REVISION_COALESCE_WINDOW_MS;
+    if (withinWindow && wordDelta < REVISION_LARGE_CHANGE_WORDS) {
+      return;
+    }
+
+    await this.createChapterRevision({
+      chapterId: existing.id,
+      projectId: existing.projectId,
+      title: existing.title,
+      content: existing.content || "",
+      source: "autosave",
+    });
+  }
+
+  // Add a save's word change to its chapter's hourly total and to the author's current writing session
+  private async recordWritingActivity(before: Chapter, after: Chapter): Promise<void> {
+    try {
+      const project = await this.getProject(after.projectId);
+      if (!project?.userId) return;
+
+      const delta = (after.wordCount || 0) - (before.wordCount || 0);
+      const wordsAdded = Math.max(delta, 0);
+      const wordsRemoved = Math.max(-delta, 0);
+      const now = new Date();
+      const hourStart = new Date(now);
+      hourStart.setUTCMinutes(0, 0, 0);
+
+      await db
+        .insert(writingActivity)
+        .values({
+          userId: project.userId,
+          projectId: project.id,
+          chapterId: after.id,
+          hourStart,
+          wordsAdded,
+          wordsRemoved,
+          saves: 1,
+        })
+        .onConflictDoUpdate({
+          target: [writingActivity.chapterId, writingActivity.hourStart],
+          set: {
+            wordsAdded: sql`${writingActivity.wordsAdded} + ${wordsAdded}`,
+            wordsRemoved: sql`${writingActivity.wordsRemoved} + ${wordsRemoved}`,
+            saves: sql`${writingActivity.saves} + 1`,
+            updatedAt: now,
+          },
+        });
+
+      const [session] = await db
+        .select()
+        .from(writingSessions)
+        .where(and(eq(writingSessions.projectId, project.id), eq(writingSessions.userId, project.userId)))
+        .orderBy(desc(writingSessions.endedAt))
+        .limit(1);
+
+      if (session && now.getTime() - session.endedAt.getTime() < WRITING_SESSION_GAP_MS) {
+        await db
+          .update(writingSessions)
+          .set({
+            endedAt: now,
+            wordsAdded: sql`${writingSessions.wordsAdded} + ${wordsAdded}`,
+            wordsRemoved: sql`${writingSessions.wordsRemoved} + ${wordsRemoved}`,
+            saves: sql`${writingSessions.saves} + 1`,
+          })
+          .where(eq(writingSessions.id, session.id));
+      } else {
+        await db.insert(writingSessions).values({
+          userId: project.userId,
+          projectId: project.id,
+          startedAt: now,
+          endedAt: now,
+          wordsAdded,
+          wordsRemoved,
+          saves: 1,
+        });
+      }
+    } catch (error) {
+      // Statistics are a side effect; never fail the save over them
+      console.error("Failed to record writing activity:", error);
+    }
+  }
+
+  async getWritingActivity(projectId: string): Promise<WritingActivity[]> {
+    return await db
+      .select()
+      .from(writingActivity)
+      .where(eq(writingActivity.projectId, projectId))
+      .orderBy(asc(writingActivity.hourStart));
+  }
+
+  async getWritingSessions(projectId: string): Promise<WritingSession[]> {
+    return await db
+      .select()
+      .from(writingSessions)
+      .where(eq(writingSessions.projectId, projectId))
+      .orderBy(asc(writingSessions.startedAt));
+  }
+
+  // Writing goals
+  async getWritingGoalsByProject(projectId: string): Promise<WritingGoal[]> {
+    return await db
+      .select()
+      .from(writingGoals)
+      .where(eq(writingGoals.projectId, projectId))
+      .orderBy(asc(writingGoals.createdAt));
+  }
+
+  async getActiveWritingGoalsByUser(userId: string): Promise<WritingGoal[]> {
+    return await db
+      .select()
+      .from(writingGoals)
+      .where(and(eq(writingGoals.userId, userId), eq(writingGoals.status, 'active')))
+      .orderBy(asc(writingGoals.createdAt));
+  }
+
+  async getWritingGoalsWithReminders(): Promise<WritingGoal[]> {
+    return await db
+      .select()
+      .from(writingGoals)
+      .where(and(eq(writingGoals.status, 'active'), eq(writingGoals.remindersEnabled, true)));
+  }
+
+  async getWritingGoal(id: string): Promise<WritingGoal | undefined> {
+    const [goal] = await db
+      .select()
+      .from(writingGoals)
+      .where(eq(writingGoals.id, id));
+    return goal;
+  }
+
+  async createWritingGoal(insertGoal: InsertWritingGoal): Promise<WritingGoal> {
+    const [goal] = await db
+      .insert(writingGoals)
+      .values(insertGoal)
+      .returning();
+    return goal;
+  }
+
+  async updateWritingGoal(id: string, updates: UpdateWritingGoal): Promise<WritingGoal | undefined> {
+    const [goal] = await db
+      .update(writingGoals)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(writingGoals.id, id))
+      .returning();
+    return goal;
+  }
+
+  async markWritingGoalsReminded(ids: string[], date: string): Promise<void> {
+    if (ids.length === 0) return;
+    await db
+      .update(writingGoals)
+      .set({ lastReminderDate: date })
+      .where(inArray(writingGoals.id, ids));
+  }
+
+  async deleteWritingGoal(id: string): Promise<boolean> {
+    const result = await db.delete(writingGoals).where(eq(writingGoals.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Writing sprints
+  async getWritingSprint(id: string): Promise<WritingSprint | undefined> {
+    const [sprint] = await db
+      .select()
+      .from(writingSprints)
+      .where(eq(writingSprints.id, id));
+    return sprint;
+  }
+
+  async getActiveWritingSprints(userId: string): Promise<WritingSprint[]> {
+    return await db
+      .select()
+      .from(writingSprints)
+      .where(and(eq(writingSprints.userId, userId), eq(writingSprints.status, 'active')))
+      .orderBy(desc(writingSprints.startedAt));
+  }
+
+  async getWritingSprintsByProject(projectId: string): Promise<WritingSprint[]> {
+    return await db
+      .select()
+      .from(writingSprints)
+      .where(eq(writingSprints.projectId, projectId))
+      .orderBy(desc(writingSprints.startedAt));
+  }
+
+  async getWritingSprintsByUser(userId: string): Promise<WritingSprint[]> {
+    return await db
+      .select()
+      .from(writingSprints)
+      .where(eq(writingSprints.userId, userId))
+      .orderBy(desc(writingSprints.startedAt));
+  }
+
+  async createWritingSprint(insertSprint: InsertWritingSprint): Promise<WritingSprint> {
+    const [sprint] = await db
+      .insert(writingSprints)
+      .values(insertSprint)
+      .returning();
+    return sprint;
+  }
+
+  async updateWritingSprint(id: string, updates: Partial<InsertWritingSprint>): Promise<WritingSprint | undefined> {
+    const [sprint] = await db
+      .update(writingSprints)
+      .set(updates)
+      .where(eq(writingSprints.id, id))
+      .returning();
+    return sprint;
+  }
+
+  // Submission tracker
+  async getSubmissionContactsByProject(projectId: string): Promise<SubmissionContact[]> {
+    return await db
+      .select()
+      .from(submissionContacts)
+      .where(eq(submissionContacts.projectId, projectId))
+      .orderBy(asc(submissionContacts.name));
+  }
+
+  async getSubmissionContact(id: string): Promise<SubmissionContact | undefined> {
+    const [contact] = await db
+      .select()
+      .from(submissionContacts)
+      .where(eq(submissionContacts.id, id));
+    return contact;
+  }
+
+  async createSubmissionContact(insertContact: InsertSubmissionContact): Promise<SubmissionContact> {
+    const [contact] = await db
+      .insert(submissionContacts)
+      .values(insertContact)
+      .returning();
+    return contact;
+  }
+
+  async updateSubmissionContact(id: string, updates: UpdateSubmissionContact): Promise<SubmissionContact | undefined> {
+    const [contact] = await db
+      .update(submissionContacts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(submissionContacts.id, id))
+      .returning();
+    return contact;
+  }
+
+  async deleteSubmissionContact(id: string): Promise<boolean> {
+    const result = await db.delete(submissionContacts).where(eq(submissionContacts.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getQuerySubmissionsByProject(projectId: string): Promise<QuerySubmission[]> {
+    return await db
+      .select()
+      .from(querySubmissions)
+      .where(eq(querySubmissions.projectId, projectId))
+      .orderBy(desc(querySubmissions.sentDate), desc(querySubmissions.createdAt));
+  }
+
+  async getQuerySubmission(id: string): Promise<QuerySubmission | undefined> {
+    const [submission] = await db
+      .select()
+      .from(querySubmissions)
+      .where(eq(querySubmissions.id, id));
+    return submission;
+  }
+
+  async createQuerySubmission(insertSubmission: InsertQuerySubmission): Promise<QuerySubmission> {
+    const [submission] = await db
+      .insert(querySubmissions)
+      .values(insertSubmission)
+      .returning();
+    return submission;
+  }
+
+  async updateQuerySubmission(id: string, updates: UpdateQuerySubmission): Promise<QuerySubmission | undefined> {
+    const [submission] = await db
+      .update(querySubmissions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(querySubmissions.id, id))
+      .returning();
+    return submission;
+  }
+
+  async deleteQuerySubmission(id: string): Promise<boolean> {
+    const result = await db.delete(querySubmissions).where(eq(querySubmissions.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Query workshop
+  async getQueryDocumentsByProject(projectId: string): Promise<QueryDocument[]> {
+    return await db
+      .select()
+      .from(queryDocuments)
+      .where(eq(queryDocuments.projectId, projectId))
+      .orderBy(desc(queryDocuments.createdAt));
+  }
+
+  async getQueryDocument(id: string): Promise<QueryDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(queryDocuments)
+      .where(eq(queryDocuments.id, id));
+    return document;
+  }
+
+  async createQueryDocument(insertDocument: InsertQueryDocument): Promise<QueryDocument> {
+    const [document] = await db
+      .insert(queryDocuments)
+      .values(insertDocument)
+      .returning();
+    return document;
+  }
+
+  async updateQueryDocument(id: string, updates: Pick<QueryDocument, 'label'>): Promise<QueryDocument | undefined> {
+    const [document] = await db
+      .update(queryDocuments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(queryDocuments.id, id))
+      .returning();
+    return document;
+  }
+
+  async deleteQueryDocument(id: string): Promise<boolean> {
+    const result = await db.delete(queryDocuments).where(eq(queryDocuments.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Manuscript analysis
+  async getManuscriptAnalysesByProject(projectId: string): Promise<ManuscriptAnalysis[]> {
+    return await db
+      .select()
+      .from(manuscriptAnalyses)
+      .where(eq(manuscriptAnalyses.projectId, projectId))
+      .orderBy(desc(manuscriptAnalyses.createdAt));
+  }
+
+  async getManuscriptAnalysis(id: string): Promise<ManuscriptAnalysis | undefined> {
+    const [analysis] = await db
+      .select()
+      .from(manuscriptAnalyses)
+      .where(eq(manuscriptAnalyses.id, id));
+    return analysis;
+  }
+
+  async getActiveManuscriptAnalyses(): Promise<ManuscriptAnalysis[]> {
+    return await db
+      .select()
+      .from(manuscriptAnalyses)
+      .where(inArray(manuscriptAnalyses.status, ['pending', 'analyzing', 'summarizing']))
+      .orderBy(asc(manuscriptAnalyses.createdAt));
+  }
+
+  async createManuscriptAnalysis(insertAnalysis: InsertManuscriptAnalysis): Promise<ManuscriptAnalysis> {
+    const [analysis] = await db
+      .insert(manuscriptAnalyses)
+      .values(insertAnalysis)
+      .returning();
+    return analysis;
+  }
+
+  async updateManuscriptAnalysis(id: string, updates: Partial<ManuscriptAnalysis>): Promise<ManuscriptAnalysis | undefined> {
+    const [analysis] = await db
+      .update(manuscriptAnalyses)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(manuscriptAnalyses.id, id))
+      .returning();
+    return analysis;
+  }
+
+  async deleteManuscriptAnalysis(id: string): Promise<boolean> {
+    const result = await db.delete(manuscriptAnalyses).where(eq(manuscriptAnalyses.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getChapterAnalyses(analysisId: string): Promise<ChapterAnalysis[]> {
+    return await db
+      .select()
+      .from(chapterAnalyses)
+      .where(eq(chapterAnalyses.analysisId, analysisId))
+      .orderBy(asc(chapterAnalyses.position));
+  }
+
+  async createChapterAnalysis(insertChapterAnalysis: InsertChapterAnalysis): Promise<ChapterAnalysis> {
+    const [chapterAnalysis] = await db
+      .insert(chapterAnalyses)
+      .values(insertChapterAnalysis)
+      .returning();
+    return chapterAnalysis;
+  }
+
+  async getChapterRevisions(chapterId: string): Promise<ChapterRevision[]> {
+    return await db
+      .select({
+        id: chapterRevisions.id,
+        chapterId: chapterRevisions.chapterId,
+        projectId: chapterRevisions.projectId,
+        title: chapterRevisions.title,
+        content: sql<string>`''`, // Loaded on demand via getChapterRevision
+        wordCount: chapterRevisions.wordCount,
+        source: chapterRevisions.source,
+        label: chapterRevisions.label,
+        createdAt: chapterRevisions.createdAt,
+      })
+      .from(chapterRevisions)
+      .where(eq(chapterRevisions.chapterId, chapterId))
+      .orderBy(desc(chapterRevisions.createdAt));
+  }
+
+  async getChapterRevision(id: string): Promise<ChapterRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(chapterRevisions)
+      .where(eq(chapterRevisions.id, id));
+    return revision;
+  }
+
+  async createChapterRevision(insertRevision: InsertChapterRevision): Promise<ChapterRevision> {
+    const [revision] = await db
+      .insert(chapterRevisions)
+      .values({
+        ...insertRevision,
+        content: insertRevision.content ?? "",
+        wordCount: this.countWords(insertRevision.content || ""),
+      })
+      .returning();
+
+    // Keep autosave history bounded; manual and pre-restore snapshots are never pruned
+    const stale = await db
+      .select({ id: chapterRevisions.id })
+      .from(chapterRevisions)
+      .where(and(
+        eq(chapterRevisions.chapterId, insertRevision.chapterId),
+        eq(chapterRevisions.source, "autosave")
+      ))
+      .orderBy(desc(chapterRevisions.createdAt))
+      .offset(MAX_AUTOSAVE_REVISIONS_PER_CHAPTER);
+    if (stale.length > 0) {
+      await db.delete(chapterRevisions).where(inArray(chapterRevisions.id, stale.map(r => r.id)));
+    }
+
+    return revision;
+  }
+
+  async restoreChapterRevision(revisionId: string): Promise<Chapter | undefined> {
+    const revision = await this.getChapterRevision(revisionId);
+    if (!revision) return undefined;
+
+    const chapter = await this.getChapter(revision.chapterId);
+    if (!chapter) return undefined;
+
+    // Always keep a copy of what the restore replaces, regardless of throttling
+    if ((chapter.content || "") !== (revision.content || "")) {
+      await this.createChapterRevision({
+        chapterId: chapter.id,
+        projectId: chapter.projectId,
+        title: chapter.title,
+        content: chapter.content || "",
+        source: "pre_restore",
+      });
+    }
+
+    // Restoring old text isn't writing, so it stays out of the writing history
+    return await this.updateChapter(chapter.id, { content: revision.content || "" }, { recordActivity: false });
+  }
+
+  // Project snapshots
+  async getProjectSnapshots(projectId: string): Promise<ProjectSnapshot[]> {
+    return await db
+      .select({
+        id: projectSnapshots.id,
+        projectId: projectSnapshots.projectId,
+        userId: projectSnapshots.userId,
+        name: projectSnapshots.name,
+        description: projectSnapshots.description,
+        version: projectSnapshots.version,
+        data: sql<unknown>`'{}'::jsonb`, // Loaded on demand via getProjectSnapshot
+        chapterCount: projectSnapshots.chapterCount,
+        wordCount: projectSnapshots.wordCount,
+        createdAt: projectSnapshots.createdAt,
+      })
+      .from(projectSnapshots)
+      .where(eq(projectSnapshots.projectId, projectId))
+      .orderBy(desc(projectSnapshots.createdAt));
+  }
+
+  async getProjectSnapshot(id: string): Promise<ProjectSnapshot | undefined> {
+    const [snapshot] = await db
+      .select()
+      .from(projectSnapshots)
+      .where(eq(projectSnapshots.id, id));
+    return snapshot;
+  }
+
+  async createProjectSnapshot(insertSnapshot: Omit<InsertProjectSnapshot, 'version'>): Promise<ProjectSnapshot> {
+    const [{ maxVersion }] = await db
+      .select({ maxVersion: sql<number>`coalesce(max(${projectSnapshots.version}), 0)` })
+      .from(projectSnapshots)
+      .where(eq(projectSnapshots.projectId, insertSnapshot.projectId));
+
+    const [snapshot] = await db
+      .insert(projectSnapshots)
+      .values({ ...insertSnapshot, version: Number(maxVersion) + 1 })
+      .returning();
+    return snapshot;
+  }
+
+  async deleteProjectSnapshot(id: string): Promise<boolean> {
+    const result = await db.delete(projectSnapshots).where(eq(projectSnapshots.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
   private async updateProjectWordCount(projectId: string): Promise<void> {
     const projectChapters = await this.getChaptersByProject(projectId);
     const totalWordCount = projectChapters.reduce((sum, chapter) => sum + (chapter.wordCount || 0), 0);
@@ -789,7 +1432,8 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
-  async incrementUserAiUsage(userId: string): Promise<User | undefined> {
+  // Most AI features are one query; a whole-manuscript analysis counts one per request it makes
+  async incrementUserAiUsage(userId: string, queries = 1): Promise<User | undefined> {
     const user = await this.getUser(userId);
     if (!user) return undefined;
 
@@ -802,7 +1446,7 @@ export class DatabaseStorage implements IStorage {
       const [updatedUser] = await db
         .update(users)
         .set({ 
-          monthlyAiQueries: 1,
+          monthlyAiQueries: queries,
           monthlyResetDate: now,
           updatedAt: new Date()
         })
@@ -813,7 +1457,7 @@ export class DatabaseStorage implements IStorage {
       const [updatedUser] = await db
         .update(users)
         .set({ 
-          monthlyAiQueries: (user.monthlyAiQueries || 0) + 1,
+          monthlyAiQueries: (user.monthlyAiQueries || 0) + queries,
           updatedAt: new Date()
         })
         .where(eq(users.id, userId))
@@ -835,7 +1479,7 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
-  async checkUsageLimit(userId: string): Promise<boolean> {
+  async checkUsageLimit(userId: string, queries = 1): Promise<boolean> {
     const user = await this.getUser(userId);
     if (!user) return false;
 
@@ -851,7 +1495,7 @@ export class DatabaseStorage implements IStorage {
     const userLimit = limits[user.subscriptionTier as keyof typeof limits] || limits.free;
     const currentUsage = user.monthlyAiQueries || 0;
 
-    return currentUsage < userLimit;
+    return currentUsage + queries <= userLimit;
   }
 
   // Admin Methods
@@ -1118,6 +1762,133 @@ export class DatabaseStorage implements IStorage {
     const result = await db.delete(audiobooks).where(eq(audiobooks.id, id));
     return (result.rowCount ?? 0) > 0;
   }
+
+  // Queued and in-flight jobs, oldest first
+  async getActiveAudiobooks(): Promise<Audiobook[]> {
+    return await db
+      .select()
+      .from(audiobooks)
+      .where(inArray(audiobooks.status, ['pending', 'generating', 'packaging']))
+      .orderBy(asc(audiobooks.createdAt));
+  }
+
+  // Audiobook generation chunks
+  async getAudiobookChunks(audiobookId: string): Promise<AudiobookChunk[]> {
+    return await db
+      .select()
+      .from(audiobookChunks)
+      .where(eq(audiobookChunks.audiobookId, audiobookId))
+      .orderBy(asc(audiobookChunks.chapterIndex), asc(audiobookChunks.chunkIndex));
+  }
+
+  async createAudiobookChunks(chunks: InsertAudiobookChunk[]): Promise<AudiobookChunk[]> {
+    if (chunks.length === 0) return [];
+    return await db.insert(audiobookChunks).values(chunks).returning();
+  }
+
+  async updateAudiobookChunk(id: string, updates: Partial<AudiobookChunk>): Promise<AudiobookChunk | undefined> {
+    const [chunk] = await db
+      .update(audiobookChunks)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(audiobookChunks.id, id))
+      .returning();
+    return chunk;
+  }
+
+  // Give chunks that ran out of retries a fresh set of attempts
+  async resetFailedAudiobookChunks(audiobookId: string): Promise<number> {
+    const result = await db
+      .update(audiobookChunks)
+      .set({ status: 'pending', attempts: 0, nextAttemptAt: null, error: null, updatedAt: new Date() })
+      .where(and(eq(audiobookChunks.audiobookId, audiobookId), eq(audiobookChunks.status, 'failed')));
+    return result.rowCount ?? 0;
+  }
+
+  // Pronunciation dictionary
+  async getPronunciationsByProject(projectId: string): Promise<Pronunciation[]> {
+    return await db
+      .select()
+      .from(pronunciations)
+      .where(eq(pronunciations.projectId, projectId))
+      .orderBy(asc(pronunciations.term));
+  }
+
+  async getPronunciation(id: string): Promise<Pronunciation | undefined> {
+    const [pronunciation] = await db
+      .select()
+      .from(pronunciations)
+      .where(eq(pronunciations.id, id));
+    return pronunciation;
+  }
+
+  async createPronunciation(insertPronunciation: InsertPronunciation): Promise<Pronunciation> {
+    const [pronunciation] = await db
+      .insert(pronunciations)
+      .values(insertPronunciation)
+      .returning();
+    return pronunciation;
+  }
+
+  async updatePronunciation(id: string, updates: UpdatePronunciation): Promise<Pronunciation | undefined> {
+    const [pronunciation] = await db
+      .update(pronunciations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(pronunciations.id, id))
+      .returning();
+    return pronunciation;
+  }
+
+  async deletePronunciation(id: string): Promise<boolean> {
+    const result = await db.delete(pronunciations).where(eq(pronunciations.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Translations
+  async getTranslationsByProject(projectId: string): Promise<Translation[]> {
+    return await db
+      .select()
+      .from(translations)
+      .where(eq(translations.projectId, projectId))
+      .orderBy(desc(translations.createdAt));
+  }
+
+  async getTranslation(id: string): Promise<Translation | undefined> {
+    const [translation] = await db
+      .select()
+      .from(translations)
+      .where(eq(translations.id, id));
+    return translation;
+  }
+
+  async getActiveTranslations(): Promise<Translation[]> {
+    return await db
+      .select()
+      .from(translations)
+      .where(inArray(translations.status, ['pending', 'translating']))
+      .orderBy(asc(translations.createdAt));
+  }
+
+  async createTranslation(insertTranslation: InsertTranslation): Promise<Translation> {
+    const [translation] = await db
+      .insert(translations)
+      .values(insertTranslation)
+      .returning();
+    return translation;
+  }
+
+  async updateTranslation(id: string, updates: Partial<Translation>): Promise<Translation | undefined> {
+    const [translation] = await db
+      .update(translations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(translations.id, id))
+      .returning();
+    return translation;
+  }
+
+  async deleteTranslation(id: string): Promise<boolean> {
+    const result = await db.delete(translations).where(eq(translations.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
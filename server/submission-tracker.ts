@@ -0,0 +1,83 @@
+import {
+  QUERY_SUBMISSION_STATUSES,
+  type QuerySubmission, type QuerySubmissionStatus, type SubmissionStats, type UpdateQuerySubmission
+} from "@shared/schema";
+
+// Query tracking for the agent finder: when each query's answer came back, and how a project's queries are doing.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that count as the agent or publisher asking to see more
+const REQUEST_STATUSES: QuerySubmissionStatus[] = ['partial_request', 'full_request', 'offer'];
+// Still waiting on the other side, so a follow-up nudge makes sense
+const OPEN_STATUSES: QuerySubmissionStatus[] = ['no_response', 'partial_request', 'full_request'];
+
+export function todayUTC(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+// Stamps the response date when a status first moves on from no response, and clears it if it moves back
+export function withResponseDate(
+  current: Pick<QuerySubmission, 'status' | 'responseDate'>,
+  updates: UpdateQuerySubmission,
+  today: string = todayUTC()
+): UpdateQuerySubmission {
+  if (!updates.status || updates.status === current.status) {
+    return updates;
+  }
+  if (updates.status === 'no_response') {
+    return { ...updates, responseDate: null };
+  }
+  if (current.status === 'no_response' && updates.responseDate === undefined) {
+    return { ...updates, responseDate: today };
+  }
+  return updates;
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+export function buildSubmissionStats(submissions: QuerySubmission[], today: string = todayUTC()): SubmissionStats {
+  const byStatus = Object.fromEntries(QUERY_SUBMISSION_STATUSES.map(status => [status, 0])) as Record<QuerySubmissionStatus, number>;
+  for (const submission of submissions) {
+    const status = submission.status as QuerySubmissionStatus;
+    if (status in byStatus) byStatus[status]++;
+  }
+
+  const responded = submissions.filter(submission => submission.status !== 'no_response');
+  const requests = submissions.filter(submission => REQUEST_STATUSES.includes(submission.status as QuerySubmissionStatus));
+
+  const responseDays = responded
+    .filter(submission => submission.responseDate)
+    .map(submission => Math.max(0, Math.round((Date.parse(submission.responseDate!) - Date.parse(submission.sentDate)) / DAY_MS)));
+
+  const versions = new Map<string, QuerySubmission[]>();
+  for (const submission of submissions) {
+    const version = submission.queryLetterVersion?.trim() || 'Unlabelled';
+    versions.set(version, [...(versions.get(version) || []), submission]);
+  }
+
+  return {
+    sent: submissions.length,
+    awaiting: byStatus.no_response,
+    responded: responded.length,
+    responseRate: percent(responded.length, submissions.length),
+    requestRate: percent(requests.length, submissions.length),
+    byStatus,
+    averageResponseDays: responseDays.length > 0
+      ? Math.round(responseDays.reduce((sum, days) => sum + days, 0) / responseDays.length)
+      : null,
+    nudgesDue: submissions.filter(submission =>
+      OPEN_STATUSES.includes(submission.status as QuerySubmissionStatus) && submission.nudgeDate && submission.nudgeDate <= today
+    ).length,
+    byQueryLetterVersion: Array.from(versions.entries())
+      .map(([version, sent]) => ({
+        version,
+        sent: sent.length,
+        responseRate: percent(sent.filter(submission => submission.status !== 'no_response').length, sent.length),
+        requestRate: percent(sent.filter(submission => REQUEST_STATUSES.includes(submission.status as QuerySubmissionStatus)).length, sent.length),
+      }))
+      .sort((a, b) => b.sent - a.sent),
+  };
+}
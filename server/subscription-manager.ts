@@ -1,6 +1,7 @@
 import { db } from "./db";
 import { users, usageRecords, type User } from "@shared/schema";
 import { eq, and, gte } from "drizzle-orm";
+import { getLLMProvider, type LLMFeature, type LLMProviderId } from "./llm-provider";
 
 export interface SubscriptionTier {
   name: string;
@@ -59,6 +60,13 @@ export const SUBSCRIPTION_TIERS: Record<string, SubscriptionTier> = {
   }
 };
 
+export interface AITokenUsage {
+  provider: string;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostCents: number; // Fractional; AI calls cost well under a cent each
+}
+
 export class SubscriptionManager {
   /**
    * Check if user can perform an action with given character count
@@ -174,6 +182,66 @@ export class SubscriptionManager {
     await this.updateUserUsage(userId, serviceType, characterCount);
   }
 
+  /**
+   * Record the tokens one AI completion used. AI queries are limited by count rather than
+   * characters, so this doesn't touch the monthly quota counters.
+   */
+  async recordTokenUsage(
+    userId: string,
+    usage: {
+      feature: LLMFeature;
+      provider: LLMProviderId;
+      model: string;
+      inputTokens: number;
+      outputTokens: number;
+      resourceId: string | null;
+    }
+  ): Promise<void> {
+    await db.insert(usageRecords).values({
+      userId,
+      serviceType: 'ai_query',
+      resourceId: usage.resourceId,
+      feature: usage.feature,
+      provider: usage.provider,
+      model: usage.model,
+      inputTokens: usage.inputTokens,
+      outputTokens: usage.outputTokens,
+      billingMonth: new Date().toISOString().slice(0, 7)
+    });
+  }
+
+  /**
+   * Tokens used this month per AI provider, costed at current prices
+   */
+  private async getMonthlyTokenUsage(userId: string, month: string): Promise<AITokenUsage[]> {
+    const records = await db
+      .select()
+      .from(usageRecords)
+      .where(
+        and(
+          eq(usageRecords.userId, userId),
+          eq(usageRecords.serviceType, 'ai_query'),
+          eq(usageRecords.billingMonth, month)
+        )
+      );
+
+    const byProvider = new Map<string, AITokenUsage>();
+    for (const record of records) {
+      const providerId = record.provider || 'openai';
+      const totals = byProvider.get(providerId) || { provider: providerId, inputTokens: 0, outputTokens: 0, estimatedCostCents: 0 };
+      const tokens = { inputTokens: record.inputTokens || 0, outputTokens: record.outputTokens || 0 };
+      const provider = getLLMProvider(providerId);
+      totals.inputTokens += tokens.inputTokens;
+      totals.outputTokens += tokens.outputTokens;
+      totals.estimatedCostCents += provider ? provider.estimateCost(record.model || provider.defaultModel(), tokens) * 100 : 0;
+      byProvider.set(providerId, totals);
+    }
+    return Array.from(byProvider.values()).map(totals => ({
+      ...totals,
+      estimatedCostCents: Math.round(totals.estimatedCostCents * 100) / 100
+    }));
+  }
+
   /**
    * Get monthly usage for a specific service
    */
@@ -256,9 +324,11 @@ export class SubscriptionManager {
     translationUsage: number;
     translationLimit: number;
     currentOverageCharges: number;
+    aiTokenUsage: AITokenUsage[];
   }> {
     const user = await this.getUser(userId);
     const tier = this.getTierInfo(user.subscriptionTier || 'free');
+    const aiTokenUsage = await this.getMonthlyTokenUsage(userId, new Date().toISOString().slice(0, 7));
     
     return {
       tier,
@@ -266,7 +336,8 @@ export class SubscriptionManager {
       audioLimit: tier.audioCharacterLimit,
       translationUsage: user.monthlyTranslationCharacters || 0,
       translationLimit: tier.translationCharacterLimit,
-      currentOverageCharges: user.currentMonthOverageCharges || 0
+      currentOverageCharges: user.currentMonthOverageCharges || 0,
+      aiTokenUsage
     };
   }
 }
@@ -0,0 +1,142 @@
+import type { TextDiffSegment, TextDiffResult } from "@shared/schema";
+
+// Beyond this many edits the diff is reported as a wholesale replacement;
+// the Myers trace grows with the square of the edit distance
+const MAX_EDIT_DISTANCE = 4000;
+
+// Convert stored chapter HTML into plain text, keeping paragraph breaks
+export function htmlToPlainText(html: string): string {
+  return (html || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|li|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Words and the whitespace between them are separate tokens so the original text can be rebuilt
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function countWords(tokens: string[]): number {
+  return tokens.filter(token => /\S/.test(token)).length;
+}
+
+type DiffOp = { type: TextDiffSegment['type']; token: string };
+
+// Myers O((N+M)D) diff; returns null when the edit distance exceeds MAX_EDIT_DISTANCE
+function myersDiff(a: string[], b: string[]): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const trace: Int32Array[] = [];
+  const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+
+  // trace[d] holds the furthest x reached on each diagonal k in [-d, d], stored at index k + d
+  const furthest = (d: number, k: number) => trace[d][k + d];
+  const movesDown = (d: number, k: number) =>
+    k === -d || (k !== d && furthest(d - 1, k - 1) < furthest(d - 1, k + 1));
+
+  let found = false;
+  for (let d = 0; d <= maxD && !found; d++) {
+    const v = new Int32Array(2 * d + 1);
+    for (let k = -d; k <= d; k += 2) {
+      let x = d === 0 ? 0 : movesDown(d, k) ? furthest(d - 1, k + 1) : furthest(d - 1, k - 1) + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[k + d] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+    trace.push(v);
+  }
+
+  if (!found) return null;
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d > 0; d--) {
+    const k = x - y;
+    const prevK = movesDown(d, k) ? k + 1 : k - 1;
+    const prevX = furthest(d - 1, prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', token: a[--x] });
+      y--;
+    }
+    if (x === prevX) {
+      ops.push({ type: 'added', token: b[--y] });
+    } else {
+      ops.push({ type: 'removed', token: a[--x] });
+    }
+  }
+  while (x > 0) {
+    ops.push({ type: 'equal', token: a[--x] });
+  }
+
+  return ops.reverse();
+}
+
+function mergeOps(ops: DiffOp[]): TextDiffSegment[] {
+  const segments: TextDiffSegment[] = [];
+  for (const op of ops) {
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.token;
+    } else {
+      segments.push({ type: op.type, text: op.token });
+    }
+  }
+  return segments;
+}
+
+// Word-level diff between two chapter bodies (HTML or plain text)
+export function diffWords(oldHtml: string, newHtml: string): TextDiffResult {
+  const oldTokens = tokenize(htmlToPlainText(oldHtml));
+  const newTokens = tokenize(htmlToPlainText(newHtml));
+
+  // Trim the shared prefix and suffix so the diff only works on the changed region
+  let start = 0;
+  while (start < oldTokens.length && start < newTokens.length && oldTokens[start] === newTokens[start]) {
+    start++;
+  }
+  let oldEnd = oldTokens.length;
+  let newEnd = newTokens.length;
+  while (oldEnd > start && newEnd > start && oldTokens[oldEnd - 1] === newTokens[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const oldMiddle = oldTokens.slice(start, oldEnd);
+  const newMiddle = newTokens.slice(start, newEnd);
+  const middleOps = myersDiff(oldMiddle, newMiddle) ?? [
+    ...oldMiddle.map(token => ({ type: 'removed' as const, token })),
+    ...newMiddle.map(token => ({ type: 'added' as const, token })),
+  ];
+
+  const ops: DiffOp[] = [
+    ...oldTokens.slice(0, start).map(token => ({ type: 'equal' as const, token })),
+    ...middleOps,
+    ...oldTokens.slice(oldEnd).map(token => ({ type: 'equal' as const, token })),
+  ];
+
+  return {
+    segments: mergeOps(ops),
+    wordsAdded: countWords(ops.filter(op => op.type === 'added').map(op => op.token)),
+    wordsRemoved: countWords(ops.filter(op => op.type === 'removed').map(op => op.token)),
+  };
+}
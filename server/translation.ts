@@ -0,0 +1,325 @@
+import { storage } from "./storage";
+import { completeText, type LLMUsageContext } from "./llm-provider";
+import { subscriptionManager } from "./subscription-manager";
+import {
+  TRANSLATION_LANGUAGES,
+  type Chapter,
+  type ChapterSection,
+  type ChapterType,
+  type Project,
+  type Translation,
+  type TranslatedChapter,
+  type TranslationLanguage,
+} from "@shared/schema";
+
+// Keeps each request comfortably inside the model's output limit
+const CHUNK_CHARACTERS = 6000;
+
+// Top-level editor blocks, stray tags, and the text between them
+const BLOCK_PATTERN = /<(p|h[1-6]|blockquote|ul|ol|pre|div|figure|table)\b[^>]*>[\s\S]*?<\/\1>|<[^>]+>|[^<]+/gi;
+
+function plainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function languageName(code: string): string {
+  return TRANSLATION_LANGUAGES[code as TranslationLanguage] || code;
+}
+
+// Chapters covered by a translation, in manuscript order. The table of contents is regenerated on export.
+export function chaptersToTranslate(
+  chapters: Chapter[],
+  scope: string,
+  selectedChapterId?: string | null
+): Chapter[] {
+  if (scope === 'chapter') {
+    return chapters.filter(chapter => chapter.id === selectedChapterId);
+  }
+  const sectionOrder: Record<string, number> = { front_matter: 0, body: 1, back_matter: 2 };
+  return chapters
+    .filter(chapter => chapter.chapterType !== 'table_of_contents')
+    .sort((a, b) => (sectionOrder[a.section] ?? 1) - (sectionOrder[b.section] ?? 1) || (a.order || 0) - (b.order || 0));
+}
+
+// Billable characters: the visible text of every title and chapter body
+export function countTranslationCharacters(chapters: Chapter[]): number {
+  return chapters.reduce((sum, chapter) => sum + chapter.title.length + plainText(chapter.content || '').length, 0);
+}
+
+// Split chapter HTML into blocks, keeping markup-only blocks and blank lines out of the translation
+function splitIntoBlocks(html: string): { text: string; translate: boolean }[] {
+  const blocks: { text: string; translate: boolean }[] = [];
+  for (const match of Array.from(html.matchAll(BLOCK_PATTERN))) {
+    const segment = match[0];
+    if (segment.startsWith('<') && !match[1]) {
+      blocks.push({ text: segment, translate: false });
+      continue;
+    }
+    // Plain-text chapters have no tags, so fall back to blank-line paragraphs
+    const parts = match[1] ? [segment] : segment.split(/(\n\s*\n)/);
+    for (const part of parts) {
+      if (part) blocks.push({ text: part, translate: plainText(part).length > 0 });
+    }
+  }
+  return blocks;
+}
+
+// Group blocks into chunks of roughly CHUNK_CHARACTERS; an oversized block travels alone
+function chunkBlocks(blocks: string[]): string[][] {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let size = 0;
+  for (const block of blocks) {
+    if (current.length > 0 && size + block.length > CHUNK_CHARACTERS) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(block);
+    size += block.length;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+async function translateParagraphs(
+  paragraphs: string[],
+  sourceLanguage: string,
+  targetLanguage: string,
+  llmUsage: LLMUsageContext
+): Promise<string[]> {
+  const prompt = `Translate each entry of "paragraphs" from ${languageName(sourceLanguage)} into ${languageName(targetLanguage)}.
+
+This is part of a novel. Translate as a literary translator would: keep the author's voice, tone, dialogue style and paragraphing.
+Entries may contain HTML. Keep every tag and attribute exactly as it is and translate only the text between tags.
+Do not merge, split, drop or add entries, and do not translate character or place names unless they have an established form in ${languageName(targetLanguage)}.
+
+Respond with JSON in this format: { "paragraphs": ["...", "..."] } containing exactly ${paragraphs.length} entries in the same order.
+
+${JSON.stringify({ paragraphs })}`;
+
+  // One retry covers the occasional response that drops or merges an entry, or isn't valid JSON at all
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const content = await completeText('translation', {
+      system: "You are a professional literary translator. You translate fiction faithfully and naturally, preserving formatting.",
+      prompt,
+      json: true,
+      temperature: 0.3,
+    }, llmUsage);
+
+    let result;
+    try {
+      result = JSON.parse(content || '{}');
+    } catch {
+      continue;
+    }
+    if (Array.isArray(result?.paragraphs) && result.paragraphs.length === paragraphs.length) {
+      return result.paragraphs.map((paragraph: unknown) => String(paragraph));
+    }
+  }
+  throw new Error('The translation service returned an incomplete chunk');
+}
+
+// Convert technical errors to user-friendly messages
+function getUserFriendlyError(error: any): string {
+  const errorMessage = error?.message || '';
+
+  if (errorMessage.includes('exceeded your current quota')) {
+    return 'Translation is temporarily unavailable due to service limits. Please try again later or contact support if this persists.';
+  }
+  if (errorMessage.includes('rate_limit_exceeded')) {
+    return 'Too many requests at once. Please wait a moment and try again.';
+  }
+  if (errorMessage.includes('invalid_api_key') || errorMessage.includes('authentication')) {
+    return 'Translation service temporarily unavailable. Please contact support.';
+  }
+  if (errorMessage.includes('network') || errorMessage.includes('timeout') || errorMessage.includes('ENOTFOUND')) {
+    return 'Network connection issue. Please check your internet connection and try again.';
+  }
+  if (errorMessage.includes('incomplete chunk')) {
+    return 'Part of the manuscript could not be translated. Please try again.';
+  }
+  return 'Unable to translate. Please try again or contact support if the problem continues.';
+}
+
+export async function runTranslationJob(translationId: string): Promise<void> {
+  const translation = await storage.getTranslation(translationId);
+  if (!translation || !translation.projectId || !translation.userId) return;
+
+  try {
+    await storage.updateTranslation(translation.id, { status: 'translating', progress: 0, errorMessage: null });
+
+    const chapters = chaptersToTranslate(
+      await storage.getChaptersByProject(translation.projectId),
+      translation.scope,
+      translation.selectedChapterId
+    );
+    if (chapters.length === 0) {
+      await storage.updateTranslation(translation.id, {
+        status: 'failed',
+        errorMessage: translation.scope === 'chapter' ? 'Selected chapter not found' : 'No chapters found for this project',
+      });
+      return;
+    }
+
+    const totalCharacters = Math.max(1, countTranslationCharacters(chapters));
+    let translatedCharacters = 0;
+    const reportProgress = async (characters: number) => {
+      translatedCharacters += characters;
+      await storage.updateTranslation(translation.id, {
+        progress: Math.min(99, Math.round((translatedCharacters / totalCharacters) * 100)),
+      });
+    };
+
+    // Tokens are recorded against the translation as well as the character quota below
+    const llmUsage: LLMUsageContext = { userId: translation.userId, resourceId: translation.id };
+
+    // Titles are short, so they go in a single request
+    const titles = await translateParagraphs(
+      chapters.map(chapter => chapter.title),
+      translation.sourceLanguage,
+      translation.targetLanguage,
+      llmUsage
+    );
+    await reportProgress(chapters.reduce((sum, chapter) => sum + chapter.title.length, 0));
+
+    const translatedChapters: TranslatedChapter[] = [];
+    for (const [index, chapter] of Array.from(chapters.entries())) {
+      const blocks = splitIntoBlocks(chapter.content || '');
+      const translatable = blocks.filter(block => block.translate).map(block => block.text);
+
+      const translatedBlocks: string[] = [];
+      for (const chunk of chunkBlocks(translatable)) {
+        translatedBlocks.push(...await translateParagraphs(chunk, translation.sourceLanguage, translation.targetLanguage, llmUsage));
+        await reportProgress(chunk.reduce((sum, block) => sum + plainText(block).length, 0));
+      }
+
+      let next = 0;
+      translatedChapters.push({
+        sourceChapterId: chapter.id,
+        title: titles[index],
+        content: blocks.map(block => block.translate ? translatedBlocks[next++] : block.text).join(''),
+        section: chapter.section as ChapterSection,
+        chapterType: chapter.chapterType as ChapterType,
+        order: chapter.order,
+      });
+    }
+
+    // Bill against the quota as it stands now, which may have moved since the estimate
+    const characterCount = translation.originalCharacterCount ?? countTranslationCharacters(chapters);
+    const usage = await subscriptionManager.canPerformAction(translation.userId, 'translation', characterCount);
+    await storage.updateTranslation(translation.id, {
+      status: 'completed',
+      progress: 100,
+      translatedContent: JSON.stringify(translatedChapters),
+      actualCost: usage.estimatedCost,
+      wasOverageCharge: !usage.withinLimit,
+    });
+    await subscriptionManager.recordUsage(
+      translation.userId,
+      'translation',
+      translation.id,
+      characterCount,
+      usage.estimatedCost,
+      !usage.withinLimit
+    );
+    console.log(`Translation ${translation.id} completed: ${translatedChapters.length} chapters into ${translation.targetLanguage}`);
+  } catch (error) {
+    console.error(`Error in translation ${translation.id}:`, error);
+    await storage.updateTranslation(translation.id, {
+      status: 'failed',
+      errorMessage: getUserFriendlyError(error),
+    });
+  }
+}
+
+// Translated text is only saved once the whole job finishes, so a job cut off by the last shutdown can't be picked
+// up again. Nothing has been billed for it yet; the author starts it again.
+export async function recoverTranslationJobs(): Promise<void> {
+  const interrupted = await storage.getActiveTranslations();
+  if (interrupted.length > 0) {
+    console.log(`Marking ${interrupted.length} translation job(s) interrupted by restart as failed`);
+  }
+  for (const translation of interrupted) {
+    await storage.updateTranslation(translation.id, {
+      status: 'failed',
+      errorMessage: 'The translation was interrupted by a server restart. Please start it again.',
+    });
+  }
+}
+
+export function startTranslationJob(translation: Translation): void {
+  setImmediate(() => {
+    runTranslationJob(translation.id).catch(error => {
+      console.error(`Translation job ${translation.id} crashed:`, error);
+    });
+  });
+}
+
+export function getTranslatedChapters(translation: Translation): TranslatedChapter[] {
+  if (translation.status !== 'completed' || !translation.translatedContent) {
+    throw new Error('This translation has not finished yet');
+  }
+  return JSON.parse(translation.translatedContent) as TranslatedChapter[];
+}
+
+export function translatedTitle(project: Project, translation: Translation): string {
+  return `${project.title} (${languageName(translation.targetLanguage)})`;
+}
+
+// Chapter records for exporting a translation without saving it as a project first
+export function translatedChaptersForExport(translation: Translation, project: Project): Chapter[] {
+  return getTranslatedChapters(translation).map(chapter => ({
+    id: chapter.sourceChapterId,
+    projectId: project.id,
+    title: chapter.title,
+    content: chapter.content,
+    section: chapter.section,
+    chapterType: chapter.chapterType,
+    order: chapter.order,
+    wordCount: plainText(chapter.content).split(' ').filter(Boolean).length,
+  }) as Chapter);
+}
+
+// Save a completed translation as a new project alongside the original
+export async function createProjectFromTranslation(translation: Translation, project: Project, userId: string): Promise<Project> {
+  const chapters = getTranslatedChapters(translation);
+
+  const translatedProject = await storage.createProject({
+    title: translatedTitle(project, translation),
+    description: project.description,
+    genre: project.genre,
+    timePeriod: project.timePeriod,
+    setting: project.setting,
+    targetWordCount: project.targetWordCount,
+    userId,
+  });
+
+  for (const chapter of chapters) {
+    await storage.createChapter({
+      projectId: translatedProject.id,
+      title: chapter.title,
+      content: chapter.content,
+      section: chapter.section,
+      chapterType: chapter.chapterType,
+      order: chapter.order,
+    });
+  }
+
+  const copyright = await storage.getCopyrightInfo(project.id);
+  if (copyright) {
+    const { id, projectId, createdAt, updatedAt, ...rest } = copyright;
+    await storage.createCopyrightInfo({ ...rest, projectId: translatedProject.id });
+  }
+
+  return (await storage.getProject(translatedProject.id)) || translatedProject;
+}
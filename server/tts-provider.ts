@@ -0,0 +1,91 @@
+import type { SpeechSegment } from "./dialogue-casting";
+import type { PronunciationRule } from "./pronunciation";
+import { openaiTTSProvider } from "./openai-tts";
+import { googleTTSProvider } from "./google-tts";
+import { localTTSProvider } from "./local-tts";
+
+// Every TTS backend sits behind the same interface, so audiobook generation, previews and proof-listening
+// don't care whether speech comes from a paid API or a binary on the server.
+
+export type TTSProviderId = 'openai' | 'google' | 'local';
+
+export interface TTSVoice {
+  id: string;
+  name: string;
+  accent: string;
+  description: string;
+  gender: string;
+  sampleText: string;
+  quality: string;
+  pricing: string;
+}
+
+// One synthesis request's worth of speech, in the form the provider takes it (plain text or SSML)
+export interface SpeechChunk {
+  text: string;
+  voice: string;
+}
+
+export interface TTSSynthesisOptions {
+  speed?: number; // 0.25 to 4.0, default 1.0
+}
+
+export interface TTSProvider {
+  id: TTSProviderId;
+  name: string;
+  description: string;
+  voices(): TTSVoice[];
+  // Whether credentials or binaries are in place; voices are listed either way
+  isAvailable(): boolean;
+  // Split text for one voice into requests this provider accepts, with the pronunciation dictionary applied
+  planChunks(text: string, voice: string, pronunciations?: PronunciationRule[]): SpeechChunk[];
+  // MP3 audio for one planned chunk; errors propagate so callers can retry just this chunk
+  synthesize(chunk: SpeechChunk, options?: TTSSynthesisOptions): Promise<Buffer>;
+  // US dollars to speak this many characters in the given voice
+  estimateCost(characters: number, voice: string): number;
+}
+
+export const DEFAULT_TTS_PROVIDER: TTSProviderId = 'openai';
+
+// Built on demand: the provider modules import helpers from here, so they may not be initialised at load time
+export function listTTSProviders(): TTSProvider[] {
+  return [openaiTTSProvider, googleTTSProvider, localTTSProvider];
+}
+
+export function getTTSProvider(id: string | null | undefined): TTSProvider | undefined {
+  return listTTSProviders().find(provider => provider.id === (id || DEFAULT_TTS_PROVIDER));
+}
+
+export function providerHasVoice(provider: TTSProvider, voice: string | null | undefined): boolean {
+  return !!voice && provider.voices().some(option => option.id === voice);
+}
+
+// The provider a voice id belongs to, for callers that only know the voice
+export function getTTSProviderForVoice(voice: string): TTSProvider | undefined {
+  return listTTSProviders().find(provider => providerHasVoice(provider, voice));
+}
+
+// Multi-voice: each segment in its cast voice; voices cast for another provider fall back to the narrator
+export function planCastChunks(
+  provider: TTSProvider,
+  segments: SpeechSegment[],
+  narratorVoice: string,
+  pronunciations?: PronunciationRule[]
+): SpeechChunk[] {
+  return segments.flatMap(segment => provider.planChunks(
+    segment.text,
+    providerHasVoice(provider, segment.voice) ? segment.voice! : narratorVoice,
+    pronunciations
+  ));
+}
+
+// Synthesize chunks one after another and join them (simple concatenation for MP3)
+export async function synthesizeChunks(provider: TTSProvider, chunks: SpeechChunk[], options?: TTSSynthesisOptions): Promise<Buffer> {
+  console.log(`🔄 Generating audio for ${chunks.length} chunks with ${provider.name}...`);
+  const audioBuffers: Buffer[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    console.log(`Processing chunk ${i + 1}/${chunks.length} (${chunks[i].text.length} chars, ${chunks[i].voice})`);
+    audioBuffers.push(await provider.synthesize(chunks[i], options));
+  }
+  return Buffer.concat(audioBuffers);
+}
@@ -0,0 +1,70 @@
+// Text handling shared by every TTS provider
+
+// Split text into pieces no longer than maxLength, preferring sentence ends, then word boundaries.
+// measure decides what "length" means: characters for OpenAI, UTF-8 bytes for Google.
+export function splitTextForTTS(
+  text: string,
+  maxLength: number,
+  measure: (text: string) => number = (value) => value.length
+): string[] {
+  if (measure(text) <= maxLength) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let currentPos = 0;
+
+  while (currentPos < text.length) {
+    let chunkEnd = Math.min(currentPos + maxLength, text.length);
+
+    // Multi-byte characters can push a character-length window over a byte limit
+    while (measure(text.slice(currentPos, chunkEnd)) > maxLength && chunkEnd > currentPos + 1) {
+      chunkEnd = currentPos + Math.max(1, Math.floor((chunkEnd - currentPos) * 0.9));
+    }
+
+    if (chunkEnd >= text.length) {
+      chunks.push(text.slice(currentPos));
+      break;
+    }
+
+    // Find the last sentence end within the chunk
+    const chunk = text.slice(currentPos, chunkEnd);
+    const lastSentence = Math.max(
+      chunk.lastIndexOf('.'),
+      chunk.lastIndexOf('!'),
+      chunk.lastIndexOf('?')
+    );
+
+    if (lastSentence > chunk.length * 0.5) {
+      chunkEnd = currentPos + lastSentence + 1;
+    } else {
+      // Fall back to word boundary
+      const lastSpace = chunk.lastIndexOf(' ');
+      if (lastSpace > chunk.length * 0.5) {
+        chunkEnd = currentPos + lastSpace;
+      }
+    }
+
+    chunks.push(text.slice(currentPos, chunkEnd));
+    currentPos = chunkEnd;
+  }
+
+  return chunks;
+}
+
+export function utf8ByteLength(text: string): number {
+  return Buffer.byteLength(text, 'utf8');
+}
+
+// Clean and prepare text for TTS
+export function prepareText(text: string): string {
+  return text
+    .replace(/[\*\#\>\<\[\]]/g, '') // Remove markdown characters
+    .replace(/\n\s*\n/g, '\n\n') // Clean up multiple newlines
+    .trim();
+}
+
+// Rough duration: ~150 words per minute, ~5 chars per word
+export function estimateSpeechDuration(characters: number): number {
+  return Math.round((characters / 5) / 150 * 60);
+}
@@ -0,0 +1,183 @@
+import type { Project, WritingActivity, WritingGoal, WritingGoalProgress } from "@shared/schema";
+import { storage } from "./storage";
+import { buildWritingStatistics, localDateAndHour } from "./writing-statistics";
+import { sendStreakReminder } from "./email-service";
+
+// Deadlines, daily quotas and challenges measured against the writing history recorded on save,
+// plus the e-mail that goes out in the evening when a writing streak is about to break.
+
+// Local hour from which a streak with nothing written today counts as at risk
+const REMINDER_HOUR = 19;
+const REMINDER_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar days from one date to another, counting both
+function daysInclusive(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS) + 1;
+}
+
+// Problems with a goal's dates that the schema can't express, or null when they're fine
+export function validateGoalDates(goal: Pick<WritingGoal, 'kind' | 'startDate'> & { endDate?: string | null }): string | null {
+  if (goal.kind !== 'daily' && !goal.endDate) {
+    return goal.kind === 'deadline' ? "Choose a deadline" : "Choose when the challenge ends";
+  }
+  if (goal.endDate && goal.endDate < goal.startDate) {
+    return "The end date must be on or after the start date";
+  }
+  return null;
+}
+
+export function computeGoalProgress(
+  goal: WritingGoal,
+  project: Project,
+  activity: WritingActivity[],
+  now: Date = new Date()
+): WritingGoalProgress {
+  const report = buildWritingStatistics(project, [], activity, [], goal.timeZone, now);
+  const today = localDateAndHour(now, report.timeZone).date;
+  const todayTotals = report.days.find(day => day.date === today);
+  const wordsToday = todayTotals?.netWords ?? 0;
+
+  const started = today >= goal.startDate;
+  const pastEnd = !!goal.endDate && today > goal.endDate;
+  const target = goal.targetWords;
+
+  let wordsWritten: number;
+  let writtenBeforeToday: number;
+  if (goal.kind === 'daily') {
+    wordsWritten = Math.max(0, wordsToday);
+    writtenBeforeToday = 0;
+  } else if (goal.kind === 'challenge') {
+    const inChallenge = report.days.filter(day => day.date >= goal.startDate && (!goal.endDate || day.date <= goal.endDate));
+    wordsWritten = Math.max(0, inChallenge.reduce((sum, day) => sum + day.netWords, 0));
+    writtenBeforeToday = started && !pastEnd ? wordsWritten - wordsToday : wordsWritten;
+  } else {
+    wordsWritten = project.wordCount || 0;
+    writtenBeforeToday = wordsWritten - wordsToday;
+  }
+  const wordsRemaining = Math.max(0, target - wordsWritten);
+
+  // Days left including today, counted from the start for goals that haven't begun
+  const daysRemaining = goal.kind === 'daily' || !goal.endDate
+    ? null
+    : Math.max(0, daysInclusive(started ? today : goal.startDate, goal.endDate));
+
+  // Today's share is fixed at the start of the day, so it doesn't shrink while the author writes
+  let todayQuota: number;
+  if (!started || pastEnd) {
+    todayQuota = 0;
+  } else if (goal.kind === 'daily') {
+    todayQuota = target;
+  } else {
+    const remainingAtStartOfDay = Math.max(0, target - writtenBeforeToday);
+    todayQuota = daysRemaining ? Math.ceil(remainingAtStartOfDay / daysRemaining) : remainingAtStartOfDay;
+  }
+
+  let state: WritingGoalProgress['state'];
+  if (!started) {
+    state = 'upcoming';
+  } else if (goal.kind !== 'daily' && wordsRemaining === 0) {
+    state = 'met';
+  } else if (pastEnd) {
+    state = 'ended';
+  } else if (goal.kind === 'daily' && wordsRemaining === 0) {
+    state = 'met';
+  } else {
+    state = 'active';
+  }
+
+  return {
+    goal,
+    projectTitle: project.title,
+    today,
+    state,
+    wordsWritten,
+    wordsRemaining,
+    percentComplete: target > 0 ? Math.min(100, Math.round((wordsWritten / target) * 100)) : 0,
+    daysRemaining,
+    wordsToday,
+    todayQuota,
+    currentStreak: report.currentStreak,
+    streakAtRisk: report.currentStreak > 0 && (todayTotals?.wordsAdded ?? 0) === 0,
+  };
+}
+
+// Progress for several goals, loading each project and its history once
+export async function getGoalsProgress(goals: WritingGoal[], now: Date = new Date()): Promise<WritingGoalProgress[]> {
+  const projectIds = Array.from(new Set(goals.map(goal => goal.projectId)));
+  const loaded = new Map<string, { project: Project | undefined; activity: WritingActivity[] }>();
+  for (const projectId of projectIds) {
+    const [project, activity] = await Promise.all([
+      storage.getProject(projectId),
+      storage.getWritingActivity(projectId),
+    ]);
+    loaded.set(projectId, { project, activity });
+  }
+
+  const progress: WritingGoalProgress[] = [];
+  for (const goal of goals) {
+    const { project, activity } = loaded.get(goal.projectId)!;
+    if (project) {
+      progress.push(computeGoalProgress(goal, project, activity, now));
+    }
+  }
+  return progress;
+}
+
+// Checks each goal once per local day, after REMINDER_HOUR, and sends each author at most one e-mail
+// listing every goal whose streak would break at midnight
+export async function sendStreakReminders(now: Date = new Date()): Promise<number> {
+  const due = (await storage.getWritingGoalsWithReminders())
+    .map(goal => ({ goal, local: localDateAndHour(now, goal.timeZone) }))
+    .filter(({ goal, local }) => local.hour >= REMINDER_HOUR && goal.lastReminderDate !== local.date);
+
+  const byUser = new Map<string, typeof due>();
+  for (const entry of due) {
+    byUser.set(entry.goal.userId, [...(byUser.get(entry.goal.userId) || []), entry]);
+  }
+
+  let sent = 0;
+  for (const [userId, entries] of Array.from(byUser.entries())) {
+    try {
+      const progress = await getGoalsProgress(entries.map(entry => entry.goal), now);
+      const atRisk = progress.filter(goal => goal.state === 'active' && goal.streakAtRisk);
+
+      if (atRisk.length > 0) {
+        const user = await storage.getUser(userId);
+        if (user?.email) {
+          const delivered = await sendStreakReminder(user.email, user.firstName || user.email.split('@')[0], atRisk);
+          if (!delivered) continue; // Try again at the next check
+          sent++;
+        }
+      }
+
+      const idsByDate = new Map<string, string[]>();
+      for (const { goal, local } of entries) {
+        idsByDate.set(local.date, [...(idsByDate.get(local.date) || []), goal.id]);
+      }
+      for (const [date, ids] of Array.from(idsByDate.entries())) {
+        await storage.markWritingGoalsReminded(ids, date);
+      }
+    } catch (error) {
+      console.error(`Failed to check streak reminders for user ${userId}:`, error);
+    }
+  }
+  return sent;
+}
+
+export function startStreakReminders(): void {
+  if (!process.env.GMAIL_USERNAME || !process.env.GMAIL_APP_PASSWORD) {
+    console.log('Streak reminders disabled: Gmail credentials are not configured');
+    return;
+  }
+
+  const check = () => {
+    sendStreakReminders()
+      .then(sent => {
+        if (sent > 0) console.log(`Sent ${sent} streak reminder e-mail(s)`);
+      })
+      .catch(error => console.error('Streak reminder check failed:', error));
+  };
+  setInterval(check, REMINDER_CHECK_INTERVAL_MS).unref();
+  check();
+}
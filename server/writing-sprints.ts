@@ -0,0 +1,146 @@
+import type { Chapter, WritingSprint, WritingSprintLog } from "@shared/schema";
+import { storage } from "./storage";
+
+// Sprints are stored as they run, so closing the tab doesn't lose one. A sprint left running
+// is settled the next time the author's active sprint is asked for.
+
+// An open-ended sprint with no word count reported for this long counts as finished at its last report
+const SPRINT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// Shorter sprints are left out of the fastest-pace record, where a burst of pasting would skew it
+const MIN_PACE_MINUTES = 5;
+const LOG_LIMIT = 50;
+
+function plannedEnd(sprint: WritingSprint): Date | null {
+  return sprint.durationMinutes ? new Date(sprint.startedAt.getTime() + sprint.durationMinutes * 60000) : null;
+}
+
+// When a sprint left running should be treated as having ended, or null if it may still be going
+function sprintExpiry(sprint: WritingSprint, now: Date): Date | null {
+  const end = plannedEnd(sprint);
+  if (end) {
+    return now >= end ? end : null;
+  }
+  return now.getTime() - sprint.lastActivityAt.getTime() > SPRINT_IDLE_TIMEOUT_MS ? sprint.lastActivityAt : null;
+}
+
+export function sprintMinutes(sprint: WritingSprint, now: Date = new Date()): number {
+  const end = sprint.endedAt || now;
+  return Math.max(0, Math.round((end.getTime() - sprint.startedAt.getTime()) / 60000));
+}
+
+export async function getActiveSprint(userId: string, now: Date = new Date()): Promise<WritingSprint | null> {
+  let current: WritingSprint | null = null;
+  for (const sprint of await storage.getActiveWritingSprints(userId)) {
+    const expiry = sprintExpiry(sprint, now);
+    if (!expiry && !current) {
+      current = sprint;
+    } else {
+      await storage.updateWritingSprint(sprint.id, { status: 'completed', endedAt: expiry || sprint.lastActivityAt });
+    }
+  }
+  return current;
+}
+
+export async function finishSprint(
+  sprint: WritingSprint,
+  wordCount: number | undefined,
+  status: 'completed' | 'abandoned' = 'completed',
+  now: Date = new Date()
+): Promise<WritingSprint | undefined> {
+  // A timed sprint finished late (a background tab, a slow network) still ends when its countdown did
+  const end = plannedEnd(sprint);
+  return await storage.updateWritingSprint(sprint.id, {
+    status,
+    endedAt: end && end < now ? end : now,
+    lastActivityAt: now,
+    ...(wordCount !== undefined ? { wordsAdded: wordCount - sprint.startWordCount } : {}),
+  });
+}
+
+export async function startSprint(
+  userId: string,
+  chapter: Pick<Chapter, 'id' | 'projectId'>,
+  options: { durationMinutes?: number | null; targetWords?: number | null; wordCount: number },
+  now: Date = new Date()
+): Promise<WritingSprint> {
+  // One sprint at a time: starting another finishes whatever was running, with the words it last reported
+  for (const sprint of await storage.getActiveWritingSprints(userId)) {
+    await finishSprint(sprint, undefined, 'completed', now);
+  }
+
+  return await storage.createWritingSprint({
+    userId,
+    projectId: chapter.projectId,
+    chapterId: chapter.id,
+    durationMinutes: options.durationMinutes || null,
+    targetWords: options.targetWords || null,
+    startWordCount: options.wordCount,
+    startedAt: now,
+    lastActivityAt: now,
+  });
+}
+
+// Records the chapter's current word count; a report that arrives after the countdown ran out finishes the sprint
+export async function recordSprintProgress(
+  sprint: WritingSprint,
+  wordCount: number,
+  now: Date = new Date()
+): Promise<WritingSprint | undefined> {
+  if (sprint.status !== 'active') {
+    return sprint;
+  }
+  const end = plannedEnd(sprint);
+  if (end && now >= end) {
+    return await finishSprint(sprint, wordCount, 'completed', now);
+  }
+  return await storage.updateWritingSprint(sprint.id, {
+    wordsAdded: wordCount - sprint.startWordCount,
+    lastActivityAt: now,
+  });
+}
+
+export function buildSprintLog(
+  projectSprints: WritingSprint[],
+  userSprints: WritingSprint[],
+  chapters: Pick<Chapter, 'id' | 'title'>[],
+  now: Date = new Date()
+): WritingSprintLog {
+  const chapterTitles = new Map(chapters.map(chapter => [chapter.id, chapter.title]));
+  const finished = userSprints.filter(sprint => sprint.status === 'completed');
+
+  let mostWords: WritingSprintLog['bests']['mostWords'] = null;
+  let longestMinutes: WritingSprintLog['bests']['longestMinutes'] = null;
+  let fastestPace: WritingSprintLog['bests']['fastestPace'] = null;
+  for (const sprint of finished) {
+    const minutes = sprintMinutes(sprint, now);
+    const startedAt = sprint.startedAt.toISOString();
+    if (sprint.wordsAdded > 0 && (!mostWords || sprint.wordsAdded > mostWords.words)) {
+      mostWords = { words: sprint.wordsAdded, startedAt };
+    }
+    if (minutes > 0 && (!longestMinutes || minutes > longestMinutes.minutes)) {
+      longestMinutes = { minutes, startedAt };
+    }
+    if (minutes >= MIN_PACE_MINUTES && sprint.wordsAdded > 0) {
+      const wordsPerMinute = Math.round((sprint.wordsAdded / minutes) * 10) / 10;
+      if (!fastestPace || wordsPerMinute > fastestPace.wordsPerMinute) {
+        fastestPace = { wordsPerMinute, startedAt };
+      }
+    }
+  }
+
+  return {
+    sprints: projectSprints.slice(0, LOG_LIMIT).map(sprint => ({
+      ...sprint,
+      chapterTitle: chapterTitles.get(sprint.chapterId) || 'Deleted chapter',
+      minutes: sprintMinutes(sprint, now),
+    })),
+    bests: {
+      totalSprints: finished.length,
+      totalWords: finished.reduce((sum, sprint) => sum + Math.max(0, sprint.wordsAdded), 0),
+      targetsHit: finished.filter(sprint => sprint.targetWords && sprint.wordsAdded >= sprint.targetWords).length,
+      mostWords,
+      longestMinutes,
+      fastestPace,
+    },
+  };
+}
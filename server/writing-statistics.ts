@@ -0,0 +1,165 @@
+import type { Chapter, Project, WritingActivity, WritingSession, WritingStatisticsReport } from "@shared/schema";
+
+// Turns the hourly writing history and sessions recorded on save into the statistics page's report.
+// Days and hours are bucketed in the author's time zone, which the browser supplies.
+
+// Pace for the completion projection is taken over this many recent days
+const PROJECTION_WINDOW_DAYS = 14;
+const RECENT_SESSIONS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Falls back to UTC for a missing or unrecognised zone
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return 'UTC';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+// Local calendar date (YYYY-MM-DD) and hour (0-23) of an instant
+function localParts(date: Date, formatter: Intl.DateTimeFormat): { date: string; hour: number } {
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, hour: parseInt(parts.hour, 10) % 24 };
+}
+
+function dateHourFormatter(timeZone: string): Intl.DateTimeFormat {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  });
+}
+
+export function localDateAndHour(date: Date, timeZone: string | null | undefined): { date: string; hour: number } {
+  return localParts(date, dateHourFormatter(resolveTimeZone(timeZone)));
+}
+
+function nextDate(date: string): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS).toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function buildWritingStatistics(
+  project: Project,
+  chapters: Pick<Chapter, 'id' | 'title'>[],
+  activity: WritingActivity[],
+  sessions: WritingSession[],
+  requestedTimeZone: string | undefined,
+  now: Date = new Date()
+): WritingStatisticsReport {
+  const timeZone = resolveTimeZone(requestedTimeZone);
+  const formatter = dateHourFormatter(timeZone);
+  const today = localParts(now, formatter).date;
+
+  const totalsByDate = new Map<string, { wordsAdded: number; wordsRemoved: number }>();
+  const hourOfDay = new Array<number>(24).fill(0);
+  const byChapter = new Map<string, { netWords: number; lastWrittenAt: Date }>();
+
+  for (const row of activity) {
+    const { date, hour } = localParts(row.hourStart, formatter);
+    const day = totalsByDate.get(date) || { wordsAdded: 0, wordsRemoved: 0 };
+    day.wordsAdded += row.wordsAdded;
+    day.wordsRemoved += row.wordsRemoved;
+    totalsByDate.set(date, day);
+
+    hourOfDay[hour] += row.wordsAdded;
+
+    const chapter = byChapter.get(row.chapterId) || { netWords: 0, lastWrittenAt: row.hourStart };
+    chapter.netWords += row.wordsAdded - row.wordsRemoved;
+    const writtenAt = row.updatedAt || row.hourStart;
+    if (writtenAt > chapter.lastWrittenAt) chapter.lastWrittenAt = writtenAt;
+    byChapter.set(row.chapterId, chapter);
+  }
+
+  // Every day from the first recorded save, so gaps show as zero rather than disappearing from the chart
+  const days: WritingStatisticsReport['days'] = [];
+  const recordedDates = Array.from(totalsByDate.keys()).sort();
+  if (recordedDates.length > 0) {
+    for (let date = recordedDates[0]; date <= today; date = nextDate(date)) {
+      const totals = totalsByDate.get(date) || { wordsAdded: 0, wordsRemoved: 0 };
+      days.push({ date, ...totals, netWords: totals.wordsAdded - totals.wordsRemoved });
+    }
+  }
+
+  // A day counts towards a streak when anything was written, even if editing cut the net total
+  let longestStreak = 0;
+  let run = 0;
+  for (const day of days) {
+    run = day.wordsAdded > 0 ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  }
+  // Today isn't over, so a streak that ran to yesterday is still current
+  let currentStreak = 0;
+  let index = days.length - 1;
+  if (index >= 0 && days[index].date === today && days[index].wordsAdded === 0) index--;
+  while (index >= 0 && days[index].wordsAdded > 0) {
+    currentStreak++;
+    index--;
+  }
+
+  const peak = Math.max(...hourOfDay);
+  const bestHour = peak > 0 ? hourOfDay.indexOf(peak) : null;
+
+  // A session's length runs from its first save to its last; a single save counts as a minute
+  const sessionMinutes = sessions.map(session => Math.max(1, Math.round((session.endedAt.getTime() - session.startedAt.getTime()) / 60000)));
+  const recentSessions = sessions
+    .map((session, i) => ({
+      startedAt: session.startedAt.toISOString(),
+      minutes: sessionMinutes[i],
+      wordsAdded: session.wordsAdded,
+      netWords: session.wordsAdded - session.wordsRemoved,
+    }))
+    .reverse()
+    .slice(0, RECENT_SESSIONS);
+
+  const recentDays = days.slice(-PROJECTION_WINDOW_DAYS);
+  const averageDailyWords = recentDays.length > 0
+    ? Math.round(recentDays.reduce((sum, day) => sum + day.netWords, 0) / recentDays.length)
+    : 0;
+  const targetWordCount = project.targetWordCount || 0;
+  const wordCount = project.wordCount || 0;
+  const wordsRemaining = targetWordCount - wordCount;
+  const projectedCompletionDate = targetWordCount > 0 && wordsRemaining > 0 && averageDailyWords > 0
+    ? addDays(today, Math.ceil(wordsRemaining / averageDailyWords))
+    : null;
+
+  const chapterTitles = new Map(chapters.map(chapter => [chapter.id, chapter.title]));
+
+  return {
+    timeZone,
+    days,
+    chapters: Array.from(byChapter.entries())
+      .map(([chapterId, totals]) => ({
+        chapterId,
+        title: chapterTitles.get(chapterId) || 'Deleted chapter',
+        netWords: totals.netWords,
+        lastWrittenAt: totals.lastWrittenAt.toISOString(),
+      }))
+      .sort((a, b) => b.lastWrittenAt.localeCompare(a.lastWrittenAt)),
+    hourOfDay,
+    bestHour,
+    currentStreak,
+    longestStreak,
+    sessions: {
+      count: sessions.length,
+      averageMinutes: sessionMinutes.length > 0 ? Math.round(sessionMinutes.reduce((sum, minutes) => sum + minutes, 0) / sessionMinutes.length) : 0,
+      longestMinutes: sessionMinutes.length > 0 ? Math.max(...sessionMinutes) : 0,
+      recent: recentSessions,
+    },
+    projection: {
+      targetWordCount,
+      wordCount,
+      averageDailyWords,
+      projectedCompletionDate,
+    },
+  };
+}
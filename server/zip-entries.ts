@@ -0,0 +1,46 @@
+import type JSZip from "jszip";
+import type { Readable } from "stream";
+
+// Unpacked size limits for uploaded zips (.zip, .docx, .epub, project backups); a small archive can inflate to
+// gigabytes. Entry headers declare their own sizes, so the bytes are counted as they inflate.
+export const MAX_UNZIPPED_ENTRY_BYTES = 50 * 1024 * 1024;
+export const MAX_UNZIPPED_TOTAL_BYTES = 200 * 1024 * 1024;
+
+// What is left of the total for one archive; pass the same budget for every entry read from it
+export interface UnzipBudget {
+  remaining: number;
+}
+
+export function createUnzipBudget(): UnzipBudget {
+  return { remaining: MAX_UNZIPPED_TOTAL_BYTES };
+}
+
+// Resolves null once the entry passes the limit
+function inflateEntry(entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer') as Readable;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.destroy();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// Unpacks one entry, throwing with a message fit for the user when it or the archive as a whole is too large
+export async function unzipEntry(entry: JSZip.JSZipObject, budget: UnzipBudget, description: string): Promise<Buffer> {
+  const data = await inflateEntry(entry, Math.min(MAX_UNZIPPED_ENTRY_BYTES, budget.remaining));
+  if (!data) {
+    throw new Error(`The ${description} is too large to import once unpacked`);
+  }
+  budget.remaining -= data.length;
+  return data;
+}
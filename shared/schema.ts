@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, jsonb, index, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, jsonb, index, uniqueIndex, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -129,6 +129,198 @@ export const chapters = pgTable("chapters", {
   index("IDX_chapters_project_id").on(table.projectId),
 ]);
 
+// Chapter revision history - snapshots of chapter content taken on save
+export const chapterRevisions = pgTable("chapter_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  chapterId: varchar("chapter_id").notNull().references(() => chapters.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  content: text("content").default(""),
+  wordCount: integer("word_count").default(0),
+  source: varchar("source").notNull().default("autosave"), // 'autosave', 'manual', 'pre_restore'
+  label: text("label"), // Optional user-supplied name for manual snapshots
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_chapter_revisions_chapter_id").on(table.chapterId),
+]);
+
+// Named whole-project snapshots (e.g. "Draft 1 sent to beta readers")
+export const projectSnapshots = pgTable("project_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  version: integer("version").notNull().default(1), // Sequential per project
+  data: jsonb("data").notNull(), // ProjectSnapshotData: project fields, chapters, characters, copyright info
+  chapterCount: integer("chapter_count").default(0),
+  wordCount: integer("word_count").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_project_snapshots_project_id").on(table.projectId),
+]);
+
+// Words written per chapter per hour, recorded on every save that changes a chapter's content
+export const writingActivity = pgTable("writing_activity", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  chapterId: varchar("chapter_id").notNull(), // Not a foreign key, so deleting a chapter keeps the history of writing it
+  hourStart: timestamp("hour_start").notNull(), // Start of the UTC hour the saves fell in
+  wordsAdded: integer("words_added").notNull().default(0),
+  wordsRemoved: integer("words_removed").notNull().default(0),
+  saves: integer("saves").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_writing_activity_chapter_hour").on(table.chapterId, table.hourStart),
+  index("IDX_writing_activity_project_id").on(table.projectId),
+]);
+
+// A run of saves on one project with no gap longer than the session timeout
+export const writingSessions = pgTable("writing_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  startedAt: timestamp("started_at").notNull(),
+  endedAt: timestamp("ended_at").notNull(), // Time of the last save in the session
+  wordsAdded: integer("words_added").notNull().default(0),
+  wordsRemoved: integer("words_removed").notNull().default(0),
+  saves: integer("saves").notNull().default(0),
+}, (table) => [
+  index("IDX_writing_sessions_project_id").on(table.projectId),
+]);
+
+// Sprints the author starts from the editor, optionally timed, with word counts reported as they write
+export const writingSprints = pgTable("writing_sprints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  chapterId: varchar("chapter_id").notNull(), // Not a foreign key, so the log survives deleting the chapter
+  status: varchar("status").notNull().default("active"), // 'active', 'completed', 'abandoned'
+  durationMinutes: integer("duration_minutes"), // Countdown length; null for an open-ended sprint
+  targetWords: integer("target_words"),
+  startWordCount: integer("start_word_count").notNull(),
+  wordsAdded: integer("words_added").notNull().default(0), // Net words since the start, as last reported
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  lastActivityAt: timestamp("last_activity_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"),
+}, (table) => [
+  index("IDX_writing_sprints_user_id").on(table.userId),
+  index("IDX_writing_sprints_project_id").on(table.projectId),
+]);
+
+// Per-project writing goals. Dates are calendar days (YYYY-MM-DD) in the author's time zone.
+export const writingGoals = pgTable("writing_goals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  kind: varchar("kind").notNull(), // 'deadline' (reach a manuscript total), 'daily' (a quota every day), 'challenge' (add words between two dates)
+  title: text("title").notNull(),
+  targetWords: integer("target_words").notNull(), // Manuscript total for deadlines, words per day for daily goals, words to add for challenges
+  startDate: varchar("start_date").notNull(),
+  endDate: varchar("end_date"), // The deadline or last day of a challenge; daily goals have none
+  timeZone: varchar("time_zone").notNull().default("UTC"),
+  remindersEnabled: boolean("reminders_enabled").notNull().default(true), // E-mail when a writing streak is at risk
+  lastReminderDate: varchar("last_reminder_date"), // Local date reminders were last checked, so each day is checked once
+  status: varchar("status").notNull().default("active"), // 'active', 'archived'
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_writing_goals_project_id").on(table.projectId),
+  index("IDX_writing_goals_user_id").on(table.userId),
+]);
+
+// Agents, editors and publishers saved from the agent finder (or added by hand) for a project
+export const submissionContacts = pgTable("submission_contacts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  kind: varchar("kind").notNull(), // 'agent', 'editor', 'publisher'
+  name: text("name").notNull(),
+  agency: text("agency"), // Agency, imprint or company
+  country: text("country"),
+  email: text("email"),
+  website: text("website"),
+  genres: jsonb("genres").$type<string[]>().default([]),
+  submissionGuidelines: text("submission_guidelines"),
+  notes: text("notes"),
+  matchScore: integer("match_score"), // From the agent finder, when saved from a search
+  details: jsonb("details"), // The full search result, for reference
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_submission_contacts_project_id").on(table.projectId),
+]);
+
+// A query sent to a saved contact and where it stands. Dates are calendar days (YYYY-MM-DD).
+export const querySubmissions = pgTable("query_submissions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  contactId: varchar("contact_id").notNull().references(() => submissionContacts.id, { onDelete: "cascade" }),
+  sentDate: varchar("sent_date").notNull(),
+  materials: jsonb("materials").$type<string[]>().default([]), // e.g. query letter, synopsis, first 10 pages
+  queryLetterVersion: text("query_letter_version"), // Which draft of the query went out, to compare response rates
+  status: varchar("status").notNull().default("no_response"), // 'no_response', 'partial_request', 'full_request', 'rejection', 'offer'
+  responseDate: varchar("response_date"), // When the status last moved on from no response
+  nudgeDate: varchar("nudge_date"), // When to follow up if nothing has come back
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_query_submissions_project_id").on(table.projectId),
+  index("IDX_query_submissions_contact_id").on(table.contactId),
+]);
+
+// Drafts from the query workshop. Every save is a new version; a letter with a contact is personalised for that agent.
+export const queryDocuments = pgTable("query_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  kind: varchar("kind").notNull(), // 'query_letter', 'short_synopsis', 'long_synopsis'
+  version: integer("version").notNull(), // Counts up per project and kind
+  label: text("label").notNull(), // Shown in the submission tracker's query letter version, e.g. "v3"
+  contactId: varchar("contact_id").references(() => submissionContacts.id, { onDelete: "set null" }),
+  content: text("content").notNull(),
+  wordCount: integer("word_count").notNull().default(0),
+  source: varchar("source").notNull().default("manual"), // 'generated', 'personalised', 'manual'
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_query_documents_project_id").on(table.projectId),
+]);
+
+// A whole-manuscript analysis: every chapter is read on its own, then the findings are rolled into one report
+export const manuscriptAnalyses = pgTable("manuscript_analyses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  status: varchar("status").notNull().default("pending"), // 'pending', 'analyzing', 'summarizing', 'completed', 'failed'
+  chapterCount: integer("chapter_count").notNull().default(0),
+  chaptersAnalyzed: integer("chapters_analyzed").notNull().default(0),
+  wordCount: integer("word_count").notNull().default(0),
+  report: jsonb("report").$type<ManuscriptReport>(), // Set once completed
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_manuscript_analyses_project_id").on(table.projectId),
+]);
+
+// What reading one chapter found. Kept with the report so it can point back to chapters.
+export const chapterAnalyses = pgTable("chapter_analyses", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  analysisId: varchar("analysis_id").notNull().references(() => manuscriptAnalyses.id, { onDelete: "cascade" }),
+  chapterId: varchar("chapter_id").references(() => chapters.id, { onDelete: "set null" }),
+  chapterTitle: text("chapter_title").notNull(),
+  position: integer("position").notNull(), // 1-based place in the manuscript at the time of the analysis
+  wordCount: integer("word_count").notNull().default(0),
+  findings: jsonb("findings").$type<ChapterFindings>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_chapter_analyses_analysis_id").on(table.analysisId),
+]);
+
 export const characters = pgTable("characters", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
@@ -157,6 +349,9 @@ export const characters = pgTable("characters", {
   characterTheme: text("character_theme"), // Central theme for this character
   symbolism: text("symbolism"), // Symbolic representation
   
+  // Audiobook casting
+  voice: varchar("voice"), // TTS voice ID for this character's dialogue; null = narrator
+  
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
@@ -247,6 +442,113 @@ export const insertChapterSchema = createInsertSchema(chapters).omit({
   wordCount: true,
 });
 
+export const insertChapterRevisionSchema = createInsertSchema(chapterRevisions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertProjectSnapshotSchema = createInsertSchema(projectSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+const calendarDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date");
+
+export const insertWritingGoalSchema = createInsertSchema(writingGoals).omit({
+  id: true,
+  lastReminderDate: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  kind: z.enum(["deadline", "daily", "challenge"]),
+  title: z.string().trim().min(1, "Give the goal a name"),
+  targetWords: z.number().int().positive("Enter a word count above zero"),
+  startDate: calendarDate,
+  endDate: calendarDate.nullable().optional(),
+  status: z.enum(["active", "archived"]).optional(),
+});
+export const updateWritingGoalSchema = insertWritingGoalSchema.omit({ projectId: true, userId: true }).partial();
+
+// Word counts are the chapter's total as the editor sees it; the server works out the difference
+export const startWritingSprintSchema = z.object({
+  durationMinutes: z.number().int().min(1).max(240).nullable().optional(),
+  targetWords: z.number().int().positive().nullable().optional(),
+  wordCount: z.number().int().min(0),
+});
+export const writingSprintProgressSchema = z.object({
+  wordCount: z.number().int().min(0),
+});
+export const finishWritingSprintSchema = z.object({
+  wordCount: z.number().int().min(0).optional(),
+  abandon: z.boolean().optional(),
+});
+
+export const insertSubmissionContactSchema = createInsertSchema(submissionContacts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  kind: z.enum(["agent", "editor", "publisher"]),
+  name: z.string().trim().min(1, "Enter a name"),
+  genres: z.array(z.string()).optional(),
+  matchScore: z.number().int().min(0).max(100).nullable().optional(),
+});
+export const updateSubmissionContactSchema = insertSubmissionContactSchema.omit({ projectId: true, userId: true }).partial();
+
+export const QUERY_SUBMISSION_STATUSES = ["no_response", "partial_request", "full_request", "rejection", "offer"] as const;
+
+export const insertQuerySubmissionSchema = createInsertSchema(querySubmissions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  sentDate: calendarDate,
+  materials: z.array(z.string().trim().min(1)).optional(),
+  status: z.enum(QUERY_SUBMISSION_STATUSES).optional(),
+  responseDate: calendarDate.nullable().optional(),
+  nudgeDate: calendarDate.nullable().optional(),
+});
+export const updateQuerySubmissionSchema = insertQuerySubmissionSchema.omit({ projectId: true, userId: true, contactId: true }).partial();
+
+export const QUERY_DOCUMENT_KINDS = ["query_letter", "short_synopsis", "long_synopsis"] as const;
+
+export const insertQueryDocumentSchema = createInsertSchema(queryDocuments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  kind: z.enum(QUERY_DOCUMENT_KINDS),
+  label: z.string().trim().min(1).max(80),
+  content: z.string().trim().min(1, "The draft is empty"),
+  source: z.enum(["generated", "personalised", "manual"]).optional(),
+});
+// An edited draft, saved as the next version
+export const saveQueryDocumentSchema = z.object({
+  kind: z.enum(QUERY_DOCUMENT_KINDS),
+  content: z.string().trim().min(1, "The draft is empty"),
+  contactId: z.string().nullable().optional(),
+  label: z.string().trim().min(1).max(80).optional(),
+});
+// Saving edited text is a new version; only the label changes in place
+export const updateQueryDocumentSchema = z.object({
+  label: z.string().trim().min(1).max(80),
+});
+// Author details the project doesn't store, sent with each generation
+export const generateQueryDocumentSchema = z.object({
+  kind: z.enum(QUERY_DOCUMENT_KINDS),
+  authorBio: z.string().max(2000).optional(),
+  comparables: z.string().max(500).optional(),
+  extraNotes: z.string().max(2000).optional(),
+});
+export const personaliseQueryLetterSchema = z.object({
+  documentId: z.string().min(1),
+  contactId: z.string().min(1),
+});
+
+export const ANALYSIS_ISSUE_CATEGORIES = [
+  "pacing", "dialogue", "point_of_view", "tense", "repetition", "clarity", "characterisation", "continuity", "description", "prose"
+] as const;
+
 export const insertCharacterSchema = createInsertSchema(characters).omit({
   id: true,
   createdAt: true,
@@ -301,6 +603,18 @@ export const CHAPTER_SECTIONS = {
 export type ChapterType = keyof typeof CHAPTER_TYPES;
 export type ChapterSection = keyof typeof CHAPTER_SECTIONS;
 
+// Chapters confirmed by the user after previewing an imported manuscript
+export const manuscriptImportSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().optional(),
+  chapters: z.array(insertChapterSchema.pick({ content: true, synopsis: true }).extend({
+    title: z.string().min(1),
+    section: z.enum(Object.keys(CHAPTER_SECTIONS) as [ChapterSection, ...ChapterSection[]]),
+    chapterType: z.enum(Object.keys(CHAPTER_TYPES) as [ChapterType, ...ChapterType[]]),
+  })).min(1),
+  characters: z.array(insertCharacterSchema.omit({ projectId: true })).default([]),
+});
+
 export const insertCharacterRelationshipSchema = createInsertSchema(characterRelationships).omit({
   id: true,
   createdAt: true,
@@ -351,16 +665,26 @@ export const audiobooks = pgTable("audiobooks", {
   userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   title: text("title").notNull(),
   content: text("content").notNull(), // Chapter or book content to convert to audio
-  voice: varchar("voice").notNull(), // Google TTS voice IDs like 'en-US-Neural2-A', 'en-GB-Standard-B'
+  provider: varchar("provider").default("openai"), // TTS provider: 'openai', 'google' or 'local'
+  voice: varchar("voice").notNull(), // Voice ID within the provider, e.g. 'alloy', 'en-GB-Neural2-A', 'local-espeak-en-gb'
   quality: varchar("quality").default("standard"), // 'standard', 'wavenet', 'neural2', 'studio'
   language: varchar("language").default("en"), // Language code for TTS
   scope: varchar("scope").default("fullbook"), // 'chapter' or 'fullbook'
   selectedChapterId: varchar("selected_chapter_id").references(() => chapters.id),
-  status: varchar("status").default("pending"), // 'pending', 'generating', 'completed', 'failed'
+  multiVoice: boolean("multi_voice").default(false), // Read character dialogue in each character's cast voice
+  status: varchar("status").default("pending"), // 'pending', 'generating', 'packaging', 'completed', 'failed', 'cancelled'
   totalChapters: integer("total_chapters").default(0),
   completedChapters: integer("completed_chapters").default(0),
+  totalChunks: integer("total_chunks").default(0),
+  completedChunks: integer("completed_chunks").default(0),
   filePath: text("file_path"), // Path to final combined audiobook file
   chapterFiles: jsonb("chapter_files").default([]), // Array of individual chapter file paths
+  m4bFilePath: text("m4b_file_path"), // Single M4B with chapter markers and cover art
+  acxFilePath: text("acx_file_path"), // Zip of ACX-style per-chapter MP3s
+  coverImagePath: text("cover_image_path"), // JPEG or PNG embedded in the packaged files
+  chapterMarkers: jsonb("chapter_markers").default([]), // AudiobookChapterMarker[] measured from the audio
+  packagingError: text("packaging_error"), // Set when the MP3 is ready but M4B/ACX packaging failed
+  acxReport: jsonb("acx_report").default([]), // AcxChapterReport[] for the mastered chapter files
   duration: integer("duration"), // Total duration in seconds
   fileSize: integer("file_size"), // File size in bytes
   characterCount: integer("character_count"), // Number of characters processed
@@ -372,6 +696,39 @@ export const audiobooks = pgTable("audiobooks", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// One TTS request's worth of an audiobook, so a failed or interrupted job resumes where it stopped
+export const audiobookChunks = pgTable("audiobook_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  audiobookId: varchar("audiobook_id").notNull().references(() => audiobooks.id, { onDelete: "cascade" }),
+  chapterId: varchar("chapter_id"), // Source chapter; not a foreign key so editing the manuscript can't break a running job
+  chapterIndex: integer("chapter_index").notNull(),
+  chapterTitle: text("chapter_title").notNull(),
+  chunkIndex: integer("chunk_index").notNull(),
+  text: text("text").notNull(), // Spoken text, with pronunciations already applied
+  voice: varchar("voice").notNull(),
+  status: varchar("status").default("pending"), // 'pending', 'completed', 'failed'
+  attempts: integer("attempts").default(0),
+  nextAttemptAt: timestamp("next_attempt_at"), // Retry backoff; null means ready now
+  filePath: text("file_path"),
+  duration: integer("duration"), // Seconds
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_audiobook_chunks_audiobook_id").on(table.audiobookId),
+]);
+
+// Per-project pronunciation dictionary for audiobook narration
+export const pronunciations = pgTable("pronunciations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  term: text("term").notNull(), // Word or phrase as written in the manuscript
+  soundsLike: text("sounds_like"), // Respelling such as "LESS-ter"; works with every voice
+  ipa: text("ipa"), // IPA transcription for SSML <phoneme>; Google voices only
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Copyright Management
 export const copyrightInfo = pgTable("copyright_info", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -404,6 +761,12 @@ export const usageRecords = pgTable("usage_records", {
   costCents: integer("cost_cents").default(0),
   wasOverage: boolean("was_overage").default(false),
   billingMonth: varchar("billing_month").notNull(), // YYYY-MM format
+  // 'ai_query' records: which model did the work and how many tokens it took
+  feature: varchar("feature"), // e.g. 'writing_query', 'translation'
+  provider: varchar("provider"), // 'openai', 'anthropic', 'local', 'fake'
+  model: varchar("model"),
+  inputTokens: integer("input_tokens").default(0),
+  outputTokens: integer("output_tokens").default(0),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -419,7 +782,7 @@ export const translations = pgTable("translations", {
   status: varchar("status").default("pending"), // 'pending', 'translating', 'completed', 'failed'
   progress: integer("progress").default(0),
   originalCharacterCount: integer("original_character_count"),
-  translatedContent: text("translated_content"),
+  translatedContent: text("translated_content"), // JSON TranslatedChapter[] once completed
   estimatedCost: integer("estimated_cost"), // Cost in cents
   actualCost: integer("actual_cost"),
   wasOverageCharge: boolean("was_overage_charge").default(false),
@@ -435,12 +798,47 @@ export type InsertSupportTicketMessage = typeof supportTicketMessages.$inferInse
 export const insertAudiobookSchema = createInsertSchema(audiobooks).omit({
   id: true,
   content: true, // Content is fetched by server, not provided by client
+  status: true, // Progress, output files and costs are managed by the generation queue
+  totalChapters: true,
+  completedChapters: true,
+  totalChunks: true,
+  completedChunks: true,
+  filePath: true,
+  chapterFiles: true,
+  m4bFilePath: true,
+  acxFilePath: true,
+  coverImagePath: true,
+  chapterMarkers: true,
+  packagingError: true,
+  acxReport: true,
+  duration: true,
+  fileSize: true,
+  characterCount: true,
+  estimatedCost: true,
+  actualCost: true,
+  wasOverageCharge: true,
+  error: true,
   createdAt: true,
   updatedAt: true,
 });
 
 export type Audiobook = typeof audiobooks.$inferSelect;
 export type InsertAudiobook = typeof audiobooks.$inferInsert;
+export type AudiobookChunk = typeof audiobookChunks.$inferSelect;
+export type InsertAudiobookChunk = typeof audiobookChunks.$inferInsert;
+
+export const insertPronunciationSchema = createInsertSchema(pronunciations).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  term: z.string().trim().min(1, "Enter the word to pronounce"),
+});
+export const updatePronunciationSchema = insertPronunciationSchema.omit({ projectId: true }).partial();
+
+export type Pronunciation = typeof pronunciations.$inferSelect;
+export type InsertPronunciation = z.infer<typeof insertPronunciationSchema>;
+export type UpdatePronunciation = z.infer<typeof updatePronunciationSchema>;
 export type UpsertUser = z.infer<typeof upsertUserSchema>;
 
 export type UsageRecord = typeof usageRecords.$inferSelect;
@@ -457,6 +855,29 @@ export const insertCopyrightInfoSchema = createInsertSchema(copyrightInfo).omit(
 
 export const updateCopyrightInfoSchema = insertCopyrightInfoSchema.partial();
 
+// Full-project backup archive; records keep their original IDs so references can be remapped on restore
+export const PROJECT_ARCHIVE_FORMAT = 'mynovelcraft-project';
+export const PROJECT_ARCHIVE_VERSION = 1;
+
+export const projectArchiveSchema = z.object({
+  format: z.literal(PROJECT_ARCHIVE_FORMAT),
+  version: z.number().int().min(1),
+  exportedAt: z.string(),
+  project: insertProjectSchema.omit({ userId: true }),
+  chapters: z.array(insertChapterSchema.omit({ projectId: true }).extend({ id: z.string() })),
+  characters: z.array(insertCharacterSchema.omit({ projectId: true }).extend({ id: z.string() })),
+  timelineEntries: z.array(insertCharacterDevelopmentTimelineSchema.extend({ id: z.string() })),
+  relationships: z.array(insertCharacterRelationshipSchema.omit({ projectId: true }).extend({ id: z.string() })),
+  aiSuggestions: z.array(insertAISuggestionSchema.omit({ projectId: true }).extend({ id: z.string() })),
+  chatMessages: z.array(insertAIChatMessageSchema.omit({ projectId: true }).extend({ id: z.string() })),
+  researchMessages: z.array(insertHistoricalResearchMessageSchema.omit({ projectId: true }).extend({ id: z.string() })),
+  copyrightInfo: insertCopyrightInfoSchema.omit({ projectId: true }).nullable(),
+  pronunciations: z.array(insertPronunciationSchema.omit({ projectId: true }).extend({ id: z.string() })).default([]),
+  publisherLogoFile: z.string().nullable().optional(), // path of the logo image inside the zip
+});
+
+export type ProjectArchive = z.infer<typeof projectArchiveSchema>;
+
 export type Translation = typeof translations.$inferSelect;
 export type InsertTranslation = typeof translations.$inferInsert;
 
@@ -471,6 +892,67 @@ export const insertTranslationSchema = createInsertSchema(translations).omit({
   updatedAt: true,
 });
 
+// Languages offered for translation, keyed by ISO 639-1 code (also used as the export language tag)
+export const TRANSLATION_LANGUAGES = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  sv: 'Swedish',
+  da: 'Danish',
+  no: 'Norwegian',
+  fi: 'Finnish',
+  pl: 'Polish',
+  cs: 'Czech',
+  ga: 'Irish',
+  el: 'Greek',
+  tr: 'Turkish',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  ar: 'Arabic',
+  he: 'Hebrew',
+  hi: 'Hindi',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese (Simplified)',
+} as const;
+
+export type TranslationLanguage = keyof typeof TRANSLATION_LANGUAGES;
+
+const translationLanguageSchema = z.enum(Object.keys(TRANSLATION_LANGUAGES) as [TranslationLanguage, ...TranslationLanguage[]]);
+
+export const createTranslationSchema = z.object({
+  sourceLanguage: translationLanguageSchema.default('en'),
+  targetLanguage: translationLanguageSchema,
+  scope: z.enum(['chapter', 'fullbook']),
+  selectedChapterId: z.string().optional(),
+}).refine(data => data.scope !== 'chapter' || !!data.selectedChapterId, {
+  message: "Choose a chapter to translate",
+  path: ['selectedChapterId'],
+}).refine(data => data.sourceLanguage !== data.targetLanguage, {
+  message: "Choose a different target language",
+  path: ['targetLanguage'],
+});
+
+// Layout choices for the export routes. Unknown values are rejected, since the exporters would otherwise fall back
+// to a default layout without saying so.
+export const EXPORT_PROFILES = ['standard', 'manuscript', 'paperback'] as const;
+export const MANUSCRIPT_FONT_IDS = ['courier', 'times'] as const;
+export const PAPERBACK_TRIM_SIZE_IDS = ['5x8', '5.5x8.5', '6x9'] as const;
+
+export type ExportProfile = typeof EXPORT_PROFILES[number];
+export type ManuscriptFont = typeof MANUSCRIPT_FONT_IDS[number];
+export type PaperbackTrimSize = typeof PAPERBACK_TRIM_SIZE_IDS[number];
+
+export const exportLayoutSchema = z.object({
+  profile: z.enum(EXPORT_PROFILES).default('standard'),
+  manuscriptFont: z.enum(MANUSCRIPT_FONT_IDS).default('courier'),
+  trimSize: z.enum(PAPERBACK_TRIM_SIZE_IDS).default('6x9'),
+});
+
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type UpdateProject = z.infer<typeof updateProjectSchema>;
@@ -479,6 +961,42 @@ export type Chapter = typeof chapters.$inferSelect;
 export type InsertChapter = z.infer<typeof insertChapterSchema>;
 export type UpdateChapter = z.infer<typeof updateChapterSchema>;
 
+export type ChapterRevision = typeof chapterRevisions.$inferSelect;
+export type InsertChapterRevision = z.infer<typeof insertChapterRevisionSchema>;
+
+export type ProjectSnapshot = typeof projectSnapshots.$inferSelect;
+export type InsertProjectSnapshot = z.infer<typeof insertProjectSnapshotSchema>;
+
+export type WritingActivity = typeof writingActivity.$inferSelect;
+export type WritingSession = typeof writingSessions.$inferSelect;
+
+export type WritingSprint = typeof writingSprints.$inferSelect;
+export type InsertWritingSprint = typeof writingSprints.$inferInsert;
+
+export type WritingGoal = typeof writingGoals.$inferSelect;
+export type InsertWritingGoal = z.infer<typeof insertWritingGoalSchema>;
+export type UpdateWritingGoal = z.infer<typeof updateWritingGoalSchema>;
+
+export type SubmissionContact = typeof submissionContacts.$inferSelect;
+export type InsertSubmissionContact = z.infer<typeof insertSubmissionContactSchema>;
+export type UpdateSubmissionContact = z.infer<typeof updateSubmissionContactSchema>;
+
+export type QuerySubmissionStatus = typeof QUERY_SUBMISSION_STATUSES[number];
+export type QuerySubmission = typeof querySubmissions.$inferSelect;
+export type InsertQuerySubmission = z.infer<typeof insertQuerySubmissionSchema>;
+export type UpdateQuerySubmission = z.infer<typeof updateQuerySubmissionSchema>;
+
+export type QueryDocumentKind = typeof QUERY_DOCUMENT_KINDS[number];
+export type QueryDocument = typeof queryDocuments.$inferSelect;
+export type InsertQueryDocument = z.infer<typeof insertQueryDocumentSchema>;
+export type GenerateQueryDocument = z.infer<typeof generateQueryDocumentSchema>;
+
+export type AnalysisIssueCategory = typeof ANALYSIS_ISSUE_CATEGORIES[number];
+export type ManuscriptAnalysis = typeof manuscriptAnalyses.$inferSelect;
+export type InsertManuscriptAnalysis = typeof manuscriptAnalyses.$inferInsert;
+export type ChapterAnalysis = typeof chapterAnalyses.$inferSelect;
+export type InsertChapterAnalysis = typeof chapterAnalyses.$inferInsert;
+
 export type Character = typeof characters.$inferSelect;
 export type InsertCharacter = z.infer<typeof insertCharacterSchema>;
 export type UpdateCharacter = z.infer<typeof updateCharacterSchema>;
@@ -506,3 +1024,219 @@ export interface ChapterReorderRequest {
   newOrder: number;
   newSection?: ChapterSection;
 }
+
+// Revision history types
+export interface TextDiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface TextDiffResult {
+  segments: TextDiffSegment[];
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+// Project snapshot types
+export interface ProjectSnapshotData {
+  project: Omit<InsertProject, 'userId'>;
+  chapters: Array<Omit<Chapter, 'createdAt' | 'updatedAt'>>;
+  characters: Array<Omit<Character, 'createdAt' | 'updatedAt'>>;
+  copyrightInfo: Omit<InsertCopyrightInfo, 'id' | 'projectId' | 'createdAt' | 'updatedAt'> | null;
+}
+
+export type SnapshotChangeStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export interface ProjectSnapshotComparison {
+  projectFields: Array<{ field: string; snapshotValue: unknown; currentValue: unknown }>;
+  chapters: Array<{
+    chapterId: string;
+    title: string;
+    status: SnapshotChangeStatus;
+    snapshotWordCount: number;
+    currentWordCount: number;
+    wordsAdded: number;
+    wordsRemoved: number;
+  }>;
+  characters: Array<{ characterId: string; name: string; status: SnapshotChangeStatus }>;
+  copyrightChanged: boolean;
+}
+
+// Manuscript import types
+export type ManuscriptImport = z.infer<typeof manuscriptImportSchema>;
+
+export interface ImportedChapter {
+  title: string;
+  content: string; // editor HTML
+  section: ChapterSection;
+  chapterType: ChapterType;
+  synopsis?: string | null;
+  wordCount: number;
+}
+
+export interface ImportedCharacter {
+  name: string;
+  role: string;
+  description: string | null;
+}
+
+export interface ManuscriptImportPreview {
+  title: string;
+  sourceFormat: 'docx' | 'scrivener' | 'markdown' | 'epub';
+  detection: 'headings' | 'chapter_pattern' | 'single' | 'structure';
+  chapters: ImportedChapter[];
+  characters: ImportedCharacter[];
+  warnings: string[];
+}
+
+// Chapter position in a packaged audiobook, in seconds from the start of the book
+export interface AudiobookChapterMarker {
+  title: string;
+  start: number;
+  end: number;
+}
+
+// ACX compliance measurements for one mastered chapter file
+export interface AcxChapterReport {
+  title: string;
+  duration: number; // seconds
+  rmsLevel: number | null; // dBFS
+  peakLevel: number | null; // dBFS
+  noiseFloor: number | null; // dBFS
+  sampleRate: number | null; // Hz
+  bitRate: number | null; // bits per second
+  leadingSilence: number; // seconds of room tone before the narration
+  trailingSilence: number; // seconds of room tone after it
+  issues: string[]; // empty when the chapter passes every check
+}
+
+// A chapter of a completed translation, in manuscript order
+export interface TranslatedChapter {
+  sourceChapterId: string;
+  title: string;
+  content: string; // editor HTML
+  section: ChapterSection;
+  chapterType: ChapterType;
+  order: number;
+}
+
+// Writing history for a project, in the author's own time zone
+export interface WritingStatisticsReport {
+  timeZone: string;
+  days: Array<{ date: string; wordsAdded: number; wordsRemoved: number; netWords: number }>; // Every day from the first recorded save to today
+  chapters: Array<{ chapterId: string; title: string; netWords: number; lastWrittenAt: string }>;
+  hourOfDay: number[]; // Words added in each local hour, 0-23
+  bestHour: number | null;
+  currentStreak: number; // Consecutive days with words added, ending today or yesterday
+  longestStreak: number;
+  sessions: {
+    count: number;
+    averageMinutes: number;
+    longestMinutes: number;
+    recent: Array<{ startedAt: string; minutes: number; wordsAdded: number; netWords: number }>;
+  };
+  projection: {
+    targetWordCount: number;
+    wordCount: number;
+    averageDailyWords: number; // Net words per day over the recent window
+    projectedCompletionDate: string | null; // null when finished or not currently progressing
+  };
+}
+
+// Where a writing goal stands today, in the goal's time zone
+export interface WritingGoalProgress {
+  goal: WritingGoal;
+  projectTitle: string;
+  today: string;
+  state: 'upcoming' | 'active' | 'met' | 'ended'; // 'ended': the end date has passed, short of the target for deadlines and challenges
+  wordsWritten: number; // Manuscript total for deadlines, words added since the start for challenges, today's words for daily goals
+  wordsRemaining: number;
+  percentComplete: number;
+  daysRemaining: number | null; // Including today; null for daily goals
+  wordsToday: number; // Net words written today
+  todayQuota: number; // Words to write today to stay on schedule, spread evenly over the days left
+  currentStreak: number;
+  streakAtRisk: boolean; // A streak ran to yesterday and nothing has been written today
+}
+
+// A project's sprint log, with personal bests over all of the author's finished sprints
+export interface WritingSprintLog {
+  sprints: Array<WritingSprint & { chapterTitle: string; minutes: number }>; // Most recent first
+  bests: {
+    totalSprints: number;
+    totalWords: number;
+    targetsHit: number;
+    mostWords: { words: number; startedAt: string } | null;
+    longestMinutes: { minutes: number; startedAt: string } | null;
+    fastestPace: { wordsPerMinute: number; startedAt: string } | null; // Only sprints long enough to be a fair pace
+  };
+}
+
+// Response rates for a project's queries
+export interface SubmissionStats {
+  sent: number;
+  awaiting: number; // No response yet
+  responded: number;
+  responseRate: number; // Percent of queries that got any answer
+  requestRate: number; // Percent that led to a partial, a full or an offer
+  byStatus: Record<QuerySubmissionStatus, number>;
+  averageResponseDays: number | null;
+  nudgesDue: number; // Still open with a nudge date on or before today
+  byQueryLetterVersion: Array<{ version: string; sent: number; responseRate: number; requestRate: number }>;
+}
+
+export interface QueryConventionCheck {
+  level: 'ok' | 'warning';
+  message: string;
+}
+
+export interface CheckedQueryDocument extends QueryDocument {
+  checks: QueryConventionCheck[];
+}
+
+export interface QueryWorkshop {
+  documents: CheckedQueryDocument[]; // Newest first
+  manuscript: {
+    genre: string | null;
+    wordCount: number;
+    roundedWordCount: number; // As it should be quoted in the letter
+    expectedRange: { min: number; max: number; category: string } | null;
+    checks: QueryConventionCheck[];
+  };
+  missingFields: string[]; // Project fields the drafts would draw on but are blank
+}
+
+// One chapter's read in a manuscript analysis. Scores run 1 to 10.
+export interface ChapterFindings {
+  summary: string;
+  pov: {
+    character: string | null;
+    person: 'first' | 'second' | 'third' | 'mixed' | 'unclear';
+    tense: 'past' | 'present' | 'mixed' | 'unclear';
+  };
+  pacing: number; // 1 slow and reflective, 10 breakneck
+  tension: number;
+  subplots: Array<{ name: string; status: 'introduced' | 'advanced' | 'resolved' }>;
+  issues: Array<{ category: AnalysisIssueCategory; severity: 'minor' | 'moderate' | 'major'; note: string }>;
+  strengths: string[];
+  aiLikelihood: number; // 0 to 100, how machine-written the prose reads
+  partsRead: number; // More than 1 when a long chapter was read in parts
+}
+
+// The book-level rollup of a manuscript analysis. Chapters are referred to by title.
+export interface ManuscriptReport {
+  overview: string;
+  pacing: {
+    curve: Array<{ position: number; chapterId: string | null; title: string; pacing: number; tension: number; wordCount: number }>;
+    notes: string;
+    flatStretches: Array<{ from: string; to: string; chapters: number }>; // Runs of low-tension chapters
+  };
+  pointOfView: {
+    chapters: Array<{ position: number; title: string; character: string | null; person: string; tense: string; planned: string | null }>;
+    issues: string[];
+  };
+  subplots: Array<{ name: string; introducedIn: string; lastSeenIn: string; resolved: boolean; note: string }>;
+  repeatedIssues: Array<{ category: AnalysisIssueCategory; chapters: string[]; majorCount: number; summary: string }>;
+  strengths: string[];
+  aiDetection: { averageLikelihood: number; flaggedChapters: Array<{ title: string; likelihood: number }> };
+}